@@ -46,7 +46,7 @@ gcloud run deploy ${SERVICE_NAME} \
   --allow-unauthenticated \
   --memory=256Mi \
   --set-env-vars="NODE_ENV=production,PORT=8080,LOG_LEVEL=info" \
-  --set-secrets="RUVVECTOR_DB_HOST=RUVECTOR_DB_HOST:latest,RUVVECTOR_DB_PORT=RUVECTOR_DB_PORT:latest,RUVVECTOR_DB_NAME=RUVECTOR_DB_NAME:latest,RUVVECTOR_DB_USER=RUVECTOR_DB_USER:latest,RUVVECTOR_DB_PASSWORD=RUVECTOR_DB_PASSWORD:latest" \
+  --set-secrets="RUVVECTOR_DB_HOST=RUVECTOR_DB_HOST:latest,RUVVECTOR_DB_PORT=RUVECTOR_DB_PORT:latest,RUVVECTOR_DB_NAME=RUVECTOR_DB_NAME:latest,RUVVECTOR_DB_USER=RUVECTOR_DB_USER:latest,RUVVECTOR_DB_PASSWORD=RUVECTOR_DB_PASSWORD:latest,QUERY_CURSOR_SECRET=QUERY_CURSOR_SECRET:latest" \
   --add-cloudsql-instances=ruv-cloud:us-central1:ruvector-postgres
 
 echo ""
@@ -2,8 +2,10 @@
  * PostgreSQL Database Client with Connection Pooling
  * For Google Cloud SQL PostgreSQL
  */
+import { AsyncResource } from 'async_hooks';
 import { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg';
 import logger from '../utils/logger';
+import { DEFAULT_TENANT, TENANT_SETTING, currentTenant } from '../utils/tenant';
 
 export interface DatabaseConfig {
   host: string;
@@ -17,12 +19,67 @@ export interface DatabaseConfig {
   ssl?: boolean;
 }
 
+// NOTIFY channel raised by decision and approval inserts
+export const DECISION_EVENTS_CHANNEL = 'decision_events';
+
+export type NotificationHandler = (payload: string) => void;
+
+// Delay before re-establishing a dropped LISTEN connection
+const LISTENER_RECONNECT_MS = 1000;
+
+/**
+ * Tables isolated per tenant by row-level security (see utils/tenant)
+ * tenant_id defaults to the session's tenant, so inserts need not name it.
+ */
+const TENANT_TABLES = [
+  'plans',
+  'deployments',
+  'decisions',
+  'approvals',
+  'decision_events',
+  'webhook_subscriptions',
+  'webhook_dead_letters',
+  'decision_event_groups',
+  'decision_event_deliveries',
+  'idempotency_records',
+  'vector_namespaces',
+  'graph_nodes',
+  'graph_edges',
+  'learning_weights',
+  'learning_events',
+] as const;
+
+// unique_violation, and insufficient_privilege as raised by a row-level security policy
+const CONFLICT_ERROR_CODES = new Set(['23505', '42501']);
+
+/**
+ * Whether a write failed because the key is taken: by a visible row, or by another
+ * tenant's row the security policy hides (an upsert cannot update it)
+ */
+export function isKeyConflict(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && CONFLICT_ERROR_CODES.has(code);
+}
+
+// New rows belong to the session's tenant, or the default tenant in system scope
+const TENANT_ID_DEFAULT = `COALESCE(NULLIF(current_setting('${TENANT_SETTING}', true), ''), '${DEFAULT_TENANT}')`;
+
+// Rows are visible when tenant_id matches the session's tenant; an unset tenant is system scope
+const TENANT_POLICY = `NULLIF(current_setting('${TENANT_SETTING}', true), '') IS NULL
+  OR tenant_id = current_setting('${TENANT_SETTING}', true)`;
+
 /**
  * Database client with connection pooling for PostgreSQL
  */
 export class DatabaseClient {
   private pool: Pool;
   private initialized: boolean = false;
+  // Dedicated pooled connection for LISTEN, opened on first subscribe()
+  private listener: Promise<PoolClient> | null = null;
+  private subscriptions: Map<string, Set<NotificationHandler>> = new Map();
+  private closed: boolean = false;
+  // Tenant each pooled connection's session is scoped to ('' = system scope, as a new connection)
+  private sessionTenants: WeakMap<PoolClient, string> = new WeakMap();
 
   constructor(config: DatabaseConfig) {
     this.pool = new Pool({
@@ -140,6 +197,16 @@ export class DatabaseClient {
         )
       `);
 
+      // Add embedding_model column if it doesn't exist (migration for existing tables)
+      await this.pool.query(`
+        ALTER TABLE decisions ADD COLUMN IF NOT EXISTS embedding_model TEXT
+      `);
+
+      // NULL until the embedding is in the vector store; the embedding backfill selects on it
+      await this.pool.query(`
+        ALTER TABLE decisions ADD COLUMN IF NOT EXISTS indexed_at TIMESTAMPTZ
+      `);
+
       // Create indexes for decisions
       await this.pool.query(`
         CREATE INDEX IF NOT EXISTS idx_decisions_created_at ON decisions(created_at DESC)
@@ -153,6 +220,59 @@ export class DatabaseClient {
         CREATE INDEX IF NOT EXISTS idx_decisions_confidence ON decisions(confidence)
       `);
 
+      // Decision graph: nodes/edges materialised from decisions.graph_relations
+      // One edge row per asserting decision, so re-storing a decision can replace its edges.
+      // Each tenant has its own graph, so tenant_id is part of the keys. The graph is derived
+      // from decisions: tables predating tenancy are dropped here and refilled by the
+      // backfill job (npm run backfill:decision-graph).
+      await this.pool.query(`
+        DO $$
+        BEGIN
+          IF EXISTS (
+            SELECT 1 FROM information_schema.tables WHERE table_name = 'graph_nodes'
+          ) AND NOT EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'graph_nodes' AND column_name = 'tenant_id'
+          ) THEN
+            DROP TABLE IF EXISTS graph_edges;
+            DROP TABLE graph_nodes;
+          END IF;
+        END $$;
+      `);
+
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS graph_nodes (
+          tenant_id TEXT NOT NULL DEFAULT ${TENANT_ID_DEFAULT},
+          id TEXT NOT NULL,
+          type VARCHAR(20) NOT NULL CHECK (type IN ('decision', 'objective', 'repo', 'signal', 'recommendation')),
+          label TEXT NOT NULL,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          PRIMARY KEY (tenant_id, id)
+        )
+      `);
+
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS graph_edges (
+          tenant_id TEXT NOT NULL DEFAULT ${TENANT_ID_DEFAULT},
+          source_id TEXT NOT NULL,
+          target_id TEXT NOT NULL,
+          relation VARCHAR(20) NOT NULL,
+          decision_id TEXT NOT NULL REFERENCES decisions(id) ON DELETE CASCADE,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          PRIMARY KEY (tenant_id, source_id, target_id, relation, decision_id),
+          FOREIGN KEY (tenant_id, source_id) REFERENCES graph_nodes(tenant_id, id) ON DELETE CASCADE,
+          FOREIGN KEY (tenant_id, target_id) REFERENCES graph_nodes(tenant_id, id) ON DELETE CASCADE
+        )
+      `);
+
+      await this.pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_graph_edges_target ON graph_edges(target_id, relation)
+      `);
+
+      await this.pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_graph_edges_decision_id ON graph_edges(decision_id)
+      `);
+
       // Create approvals table for storing approval/rejection events
       await this.pool.query(`
         CREATE TABLE IF NOT EXISTS approvals (
@@ -180,6 +300,25 @@ export class DatabaseClient {
         END $$;
       `);
 
+      // Tri-state review outcome (migration for existing tables: backfilled from approved).
+      // Deferrals store approved = false and carry defer_until/defer_reason.
+      await this.pool.query(`
+        DO $$
+        BEGIN
+          IF NOT EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'approvals' AND column_name = 'outcome'
+          ) THEN
+            ALTER TABLE approvals ADD COLUMN outcome VARCHAR(10);
+            UPDATE approvals SET outcome = CASE WHEN approved THEN 'approve' ELSE 'reject' END;
+            ALTER TABLE approvals ALTER COLUMN outcome SET NOT NULL;
+            ALTER TABLE approvals ADD CONSTRAINT approvals_outcome_check CHECK (outcome IN ('approve', 'reject', 'defer'));
+            ALTER TABLE approvals ADD COLUMN defer_until TIMESTAMPTZ;
+            ALTER TABLE approvals ADD COLUMN defer_reason TEXT;
+          END IF;
+        END $$;
+      `);
+
       await this.pool.query(`
         CREATE INDEX IF NOT EXISTS idx_approvals_decision_id ON approvals(decision_id)
       `);
@@ -188,11 +327,17 @@ export class DatabaseClient {
         CREATE INDEX IF NOT EXISTS idx_approvals_created_at ON approvals(created_at DESC)
       `);
 
-      // Unique index for idempotency: only one non-advisory approval per decision
-      // This prevents duplicate plan_approved event emissions
+      // Unique index for idempotency: only one final (approve/reject) non-advisory outcome per
+      // decision. This prevents duplicate plan_approved event emissions; deferrals may repeat.
+      await this.pool.query(`DROP INDEX IF EXISTS idx_approvals_decision_non_advisory`);
+      await this.pool.query(`
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_approvals_decision_final
+        ON approvals(decision_id) WHERE advisory = false AND outcome <> 'defer'
+      `);
+
+      // Pending deferrals scanned by the expiry sweeper (see jobs/deferralExpiry)
       await this.pool.query(`
-        CREATE UNIQUE INDEX IF NOT EXISTS idx_approvals_decision_non_advisory
-        ON approvals(decision_id) WHERE advisory = false
+        CREATE INDEX IF NOT EXISTS idx_approvals_defer_until ON approvals(defer_until) WHERE outcome = 'defer'
       `);
 
       // Index for efficient filtering of non-advisory approvals (used by /events/decisions)
@@ -205,6 +350,213 @@ export class DatabaseClient {
         CREATE INDEX IF NOT EXISTS idx_approvals_created_at_id ON approvals(created_at ASC, id ASC)
       `);
 
+      // Decision event outbox: one row per DecisionEvent, written by trigger in the
+      // inserting transaction. (tx_id, seq) gives /events/decisions a single gap-free
+      // order across event types - see fetchDecisionEvents.
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS decision_events (
+          seq BIGSERIAL PRIMARY KEY,
+          event_type VARCHAR(20) NOT NULL CHECK (event_type IN ('plan_created', 'plan_approved', 'plan_rejected', 'plan_deferred')),
+          source_id TEXT NOT NULL,
+          decision_id TEXT NOT NULL REFERENCES decisions(id) ON DELETE CASCADE,
+          occurred_at TIMESTAMPTZ NOT NULL,
+          tx_id xid8 NOT NULL DEFAULT pg_current_xact_id(),
+          UNIQUE (event_type, source_id)
+        )
+      `);
+
+      await this.pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_decision_events_tx_seq ON decision_events(tx_id, seq)
+      `);
+
+      await this.pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_decision_events_decision_id ON decision_events(decision_id)
+      `);
+
+      // Record the event and NOTIFY ${DECISION_EVENTS_CHANNEL} so long-poll and SSE consumers wake
+      // immediately. Advisory approvals are review-only and emit no event; expired deferrals
+      // re-surface as plan_created rows written by jobs/deferralExpiry.
+      await this.pool.query(`
+        CREATE OR REPLACE FUNCTION record_decision_event() RETURNS trigger AS $$
+        DECLARE
+          new_event_type TEXT;
+          new_decision_id TEXT;
+        BEGIN
+          IF TG_TABLE_NAME = 'decisions' THEN
+            new_event_type := 'plan_created';
+            new_decision_id := NEW.id;
+          ELSIF NEW.outcome = 'defer' THEN
+            new_event_type := 'plan_deferred';
+            new_decision_id := NEW.decision_id;
+          ELSIF NOT NEW.approved THEN
+            new_event_type := 'plan_rejected';
+            new_decision_id := NEW.decision_id;
+          ELSIF NOT NEW.advisory THEN
+            new_event_type := 'plan_approved';
+            new_decision_id := NEW.decision_id;
+          ELSE
+            RETURN NEW;
+          END IF;
+
+          INSERT INTO decision_events (event_type, source_id, decision_id, occurred_at, tenant_id)
+          VALUES (new_event_type, NEW.id::text, new_decision_id, NEW.created_at, NEW.tenant_id)
+          ON CONFLICT (event_type, source_id) DO NOTHING;
+
+          PERFORM pg_notify('${DECISION_EVENTS_CHANNEL}', json_build_object('table', TG_TABLE_NAME, 'id', NEW.id)::text);
+          RETURN NEW;
+        END;
+        $$ LANGUAGE plpgsql
+      `);
+
+      for (const table of ['decisions', 'approvals']) {
+        await this.pool.query(`DROP TRIGGER IF EXISTS ${table}_notify_decision_event ON ${table}`);
+        await this.pool.query(`DROP TRIGGER IF EXISTS ${table}_record_decision_event ON ${table}`);
+        await this.pool.query(`
+          CREATE TRIGGER ${table}_record_decision_event
+          AFTER INSERT ON ${table}
+          FOR EACH ROW EXECUTE FUNCTION record_decision_event()
+        `);
+      }
+      await this.pool.query(`DROP FUNCTION IF EXISTS notify_decision_event()`);
+
+      // Backfill the outbox once from existing rows, in the order the old feed served them
+      await this.pool.query(`
+        INSERT INTO decision_events (event_type, source_id, decision_id, occurred_at)
+        SELECT event_type, source_id, decision_id, occurred_at FROM (
+          SELECT 'plan_created' AS event_type, id AS source_id, id AS decision_id, created_at AS occurred_at
+          FROM decisions
+          UNION ALL
+          SELECT CASE WHEN outcome = 'defer' THEN 'plan_deferred' WHEN approved THEN 'plan_approved' ELSE 'plan_rejected' END,
+            id::text, decision_id, created_at
+          FROM approvals
+          WHERE NOT (approved AND advisory)
+        ) existing
+        WHERE NOT EXISTS (SELECT 1 FROM decision_events)
+        ORDER BY occurred_at ASC, source_id ASC
+        ON CONFLICT (event_type, source_id) DO NOTHING
+      `);
+
+      // Webhook subscriptions: push delivery of decision events (see webhooks/worker).
+      // cursor is the last delivered or dead-lettered event id; leased_until keeps one
+      // service instance delivering per subscription.
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+          id UUID PRIMARY KEY,
+          url TEXT NOT NULL,
+          event_types TEXT[] NOT NULL,
+          secret TEXT NOT NULL,
+          description TEXT,
+          active BOOLEAN NOT NULL DEFAULT TRUE,
+          cursor TEXT,
+          leased_until TIMESTAMPTZ,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        )
+      `);
+
+      // Events that exhausted their delivery attempts, kept for inspection and replay
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+          id UUID PRIMARY KEY,
+          subscription_id UUID NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+          event_id TEXT NOT NULL,
+          event_type VARCHAR(20) NOT NULL,
+          event JSONB NOT NULL,
+          status VARCHAR(10) NOT NULL DEFAULT 'dead' CHECK (status IN ('dead', 'replaying', 'replayed')),
+          attempts INTEGER NOT NULL,
+          last_status_code INTEGER,
+          last_error TEXT NOT NULL,
+          failed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          replayed_at TIMESTAMPTZ
+        )
+      `);
+
+      await this.pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_subscription
+        ON webhook_dead_letters(subscription_id, status, failed_at)
+      `);
+
+      // Consumer groups on GET /events/decisions?group= (see handlers/consumerGroups).
+      // The committed offset is the outbox position up to which every event is acked.
+      // Group names are per tenant, so tenant_id is part of the keys (migration for tables
+      // keyed by name alone: existing groups keep their tenant).
+      await this.pool.query(`
+        DO $$
+        DECLARE
+          name_key TEXT;
+        BEGIN
+          IF EXISTS (
+            SELECT 1 FROM information_schema.tables WHERE table_name = 'decision_event_groups'
+          ) AND NOT EXISTS (
+            SELECT 1 FROM pg_constraint c
+            JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = ANY(c.conkey)
+            WHERE c.conrelid = to_regclass('decision_event_groups') AND c.contype = 'p' AND a.attname = 'tenant_id'
+          ) THEN
+            ALTER TABLE decision_event_groups ADD COLUMN IF NOT EXISTS tenant_id TEXT NOT NULL DEFAULT ${TENANT_ID_DEFAULT};
+            ALTER TABLE decision_event_deliveries ADD COLUMN IF NOT EXISTS tenant_id TEXT NOT NULL DEFAULT ${TENANT_ID_DEFAULT};
+            UPDATE decision_event_deliveries d SET tenant_id = g.tenant_id
+            FROM decision_event_groups g WHERE d.group_name = g.name AND d.tenant_id <> g.tenant_id;
+            FOR name_key IN
+              SELECT conname FROM pg_constraint
+              WHERE conrelid = 'decision_event_deliveries'::regclass AND contype IN ('f', 'p')
+            LOOP
+              EXECUTE format('ALTER TABLE decision_event_deliveries DROP CONSTRAINT %I', name_key);
+            END LOOP;
+            FOR name_key IN
+              SELECT conname FROM pg_constraint WHERE conrelid = 'decision_event_groups'::regclass AND contype = 'p'
+            LOOP
+              EXECUTE format('ALTER TABLE decision_event_groups DROP CONSTRAINT %I', name_key);
+            END LOOP;
+            ALTER TABLE decision_event_groups ADD PRIMARY KEY (tenant_id, name);
+            ALTER TABLE decision_event_deliveries ADD PRIMARY KEY (tenant_id, group_name, seq);
+            ALTER TABLE decision_event_deliveries ADD FOREIGN KEY (tenant_id, group_name)
+              REFERENCES decision_event_groups(tenant_id, name) ON DELETE CASCADE;
+          END IF;
+        END $$;
+      `);
+
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS decision_event_groups (
+          tenant_id TEXT NOT NULL DEFAULT ${TENANT_ID_DEFAULT},
+          name TEXT NOT NULL,
+          event_types TEXT[] NOT NULL,
+          committed_cursor TEXT,
+          committed_tx_id xid8 NOT NULL DEFAULT '0',
+          committed_seq BIGINT NOT NULL DEFAULT 0,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          PRIMARY KEY (tenant_id, name)
+        )
+      `);
+
+      // Events handed to a group past its committed offset: in flight until visible_at
+      // (then re-delivered), or acked and waiting for the offset to catch up
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS decision_event_deliveries (
+          tenant_id TEXT NOT NULL DEFAULT ${TENANT_ID_DEFAULT},
+          group_name TEXT NOT NULL,
+          seq BIGINT NOT NULL,
+          tx_id xid8 NOT NULL,
+          event_id TEXT NOT NULL,
+          event JSONB NOT NULL,
+          state VARCHAR(10) NOT NULL DEFAULT 'in_flight' CHECK (state IN ('in_flight', 'acked')),
+          delivery_count INTEGER NOT NULL DEFAULT 1,
+          visible_at TIMESTAMPTZ NOT NULL,
+          PRIMARY KEY (tenant_id, group_name, seq),
+          FOREIGN KEY (tenant_id, group_name) REFERENCES decision_event_groups(tenant_id, name) ON DELETE CASCADE
+        )
+      `);
+
+      await this.pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_decision_event_deliveries_position
+        ON decision_event_deliveries(group_name, tx_id, seq)
+      `);
+
+      await this.pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_decision_event_deliveries_event_id
+        ON decision_event_deliveries(group_name, event_id)
+      `);
+
       // Create learning_weights table for storing edge weights
       await this.pool.query(`
         CREATE TABLE IF NOT EXISTS learning_weights (
@@ -217,10 +569,33 @@ export class DatabaseClient {
           update_count INTEGER NOT NULL DEFAULT 0,
           created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
           updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
-          UNIQUE(source_type, source_id, target_type, target_value)
+          tenant_id TEXT NOT NULL DEFAULT ${TENANT_ID_DEFAULT},
+          CONSTRAINT learning_weights_tenant_edge_key UNIQUE (tenant_id, source_type, source_id, target_type, target_value)
         )
       `);
 
+      // Weights are learned per tenant (migration for existing tables: rows keep the default tenant)
+      await this.pool.query(`
+        DO $$
+        DECLARE
+          shared_key TEXT;
+        BEGIN
+          IF NOT EXISTS (
+            SELECT 1 FROM information_schema.columns
+            WHERE table_name = 'learning_weights' AND column_name = 'tenant_id'
+          ) THEN
+            ALTER TABLE learning_weights ADD COLUMN tenant_id TEXT NOT NULL DEFAULT ${TENANT_ID_DEFAULT};
+            FOR shared_key IN
+              SELECT conname FROM pg_constraint WHERE conrelid = 'learning_weights'::regclass AND contype = 'u'
+            LOOP
+              EXECUTE format('ALTER TABLE learning_weights DROP CONSTRAINT %I', shared_key);
+            END LOOP;
+            ALTER TABLE learning_weights ADD CONSTRAINT learning_weights_tenant_edge_key
+              UNIQUE (tenant_id, source_type, source_id, target_type, target_value);
+          END IF;
+        END $$;
+      `);
+
       await this.pool.query(`
         CREATE INDEX IF NOT EXISTS idx_learning_weights_source ON learning_weights(source_type, source_id)
       `);
@@ -248,10 +623,16 @@ export class DatabaseClient {
           execution_ref VARCHAR(255),
           source_id VARCHAR(255),
           source_type VARCHAR(50),
-          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          tenant_id TEXT NOT NULL DEFAULT ${TENANT_ID_DEFAULT}
         )
       `);
 
+      // Add tenant_id before the idempotency index below includes it (migration for existing tables)
+      await this.pool.query(`
+        ALTER TABLE learning_events ADD COLUMN IF NOT EXISTS tenant_id TEXT NOT NULL DEFAULT ${TENANT_ID_DEFAULT}
+      `);
+
       // Create learning_decision_events table for feedback assimilation agent
       // This is an append-only audit table - records are never updated or deleted
       await this.pool.query(`
@@ -293,9 +674,11 @@ export class DatabaseClient {
         CREATE INDEX IF NOT EXISTS idx_learning_events_inputs_hash ON learning_events(inputs_hash)
       `);
 
-      // Unique index on inputs_hash for idempotency (ON CONFLICT support)
+      // Unique index on inputs_hash per tenant for idempotency (ON CONFLICT support)
+      await this.pool.query(`DROP INDEX IF EXISTS idx_learning_events_inputs_hash_unique`);
       await this.pool.query(`
-        CREATE UNIQUE INDEX IF NOT EXISTS idx_learning_events_inputs_hash_unique ON learning_events(inputs_hash)
+        CREATE UNIQUE INDEX IF NOT EXISTS idx_learning_events_tenant_inputs_hash_unique
+        ON learning_events(tenant_id, inputs_hash)
       `);
 
       // Create indexes for learning_decision_events
@@ -319,6 +702,142 @@ export class DatabaseClient {
         CREATE INDEX IF NOT EXISTS idx_learning_decision_events_created_at ON learning_decision_events(created_at DESC)
       `);
 
+      // Ingest ledger and Idempotency-Key records (IDEMPOTENCY_BACKEND=postgres, see idempotency/).
+      // scope is 'event' for eventIds, `<METHOD> <route>` for keys; an incomplete row is a
+      // request in progress. tenant_id is declared here because it is part of the key.
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS idempotency_records (
+          tenant_id TEXT NOT NULL
+            DEFAULT ${TENANT_ID_DEFAULT},
+          scope TEXT NOT NULL,
+          key TEXT NOT NULL,
+          request_hash TEXT NOT NULL,
+          content_hashes JSONB NOT NULL,
+          status_code INTEGER,
+          response JSONB,
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          completed_at TIMESTAMPTZ,
+          ttl_seconds INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (tenant_id, scope, key)
+        )
+      `);
+      await this.pool.query(`
+        CREATE INDEX IF NOT EXISTS idx_idempotency_records_completed_at
+        ON idempotency_records(completed_at) WHERE ttl_seconds > 0
+      `);
+
+      // Vector namespace registry (NAMESPACE_BACKEND=postgres, see namespaces/). tenant_id is
+      // declared here because it is part of the key.
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS vector_namespaces (
+          tenant_id TEXT NOT NULL
+            DEFAULT ${TENANT_ID_DEFAULT},
+          name TEXT NOT NULL,
+          dimension INTEGER NOT NULL CHECK (dimension > 0),
+          metric TEXT NOT NULL CHECK (metric IN ('cosine', 'l2', 'dot')),
+          normalize BOOLEAN NOT NULL DEFAULT false,
+          description TEXT,
+          ttl_seconds INTEGER CHECK (ttl_seconds > 0),
+          created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+          PRIMARY KEY (tenant_id, name)
+        )
+      `);
+
+      // Add ttl_seconds column if it doesn't exist (migration for existing tables)
+      await this.pool.query(`
+        ALTER TABLE vector_namespaces ADD COLUMN IF NOT EXISTS ttl_seconds INTEGER CHECK (ttl_seconds > 0)
+      `);
+
+      // Rate limiting shared across instances (RATE_LIMIT_BACKEND=postgres, see ratelimit/).
+      // Keys are `<tenant>|<METHOD> <route>`; buckets hold the tokens left as of updated_at.
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+          key TEXT PRIMARY KEY,
+          tokens DOUBLE PRECISION NOT NULL,
+          updated_at TIMESTAMPTZ NOT NULL
+        )
+      `);
+
+      // Daily usage per key; day is the UTC date
+      await this.pool.query(`
+        CREATE TABLE IF NOT EXISTS rate_limit_usage (
+          key TEXT NOT NULL,
+          day DATE NOT NULL,
+          requests BIGINT NOT NULL DEFAULT 0,
+          vectors BIGINT NOT NULL DEFAULT 0,
+          bytes BIGINT NOT NULL DEFAULT 0,
+          PRIMARY KEY (key, day)
+        )
+      `);
+
+      // Create vector_events table for the pgvector-backed vector store (RUVVECTOR_BACKEND=postgres)
+      // The vector extension may be unavailable on some databases - the service still
+      // starts, and the postgres vector backend reports itself unavailable on connect()
+      try {
+        await this.pool.query(`CREATE EXTENSION IF NOT EXISTS vector`);
+
+        // dimension is stored alongside the embedding: pgvector cannot compare
+        // vectors of different dimensions, so similarity queries filter on it
+        await this.pool.query(`
+          CREATE TABLE IF NOT EXISTS vector_events (
+            namespace TEXT NOT NULL,
+            id TEXT NOT NULL,
+            embedding vector NOT NULL,
+            dimension INTEGER NOT NULL,
+            payload JSONB NOT NULL DEFAULT '{}',
+            metadata JSONB NOT NULL DEFAULT '{}',
+            event_timestamp TIMESTAMPTZ,
+            created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+            PRIMARY KEY (namespace, id)
+          )
+        `);
+
+        await this.pool.query(`
+          CREATE INDEX IF NOT EXISTS idx_vector_events_namespace_dimension ON vector_events(namespace, dimension)
+        `);
+
+        await this.pool.query(`
+          CREATE INDEX IF NOT EXISTS idx_vector_events_timestamp ON vector_events(namespace, event_timestamp DESC)
+        `);
+
+        await this.pool.query(`
+          CREATE INDEX IF NOT EXISTS idx_vector_events_metadata ON vector_events USING gin(metadata jsonb_path_ops)
+        `);
+
+        // Full-text search over payload string values (POST /query with text)
+        await this.pool.query(`
+          CREATE INDEX IF NOT EXISTS idx_vector_events_payload_text
+          ON vector_events USING gin(jsonb_to_tsvector('english', payload, '["string"]'))
+        `);
+
+        // Retention sweeps delete by namespace and storage time
+        await this.pool.query(`
+          CREATE INDEX IF NOT EXISTS idx_vector_events_created_at ON vector_events(namespace, created_at)
+        `);
+      } catch (vectorStoreError) {
+        logger.warn({ error: vectorStoreError }, 'pgvector unavailable - vector_events table not created');
+      }
+
+      // Tenant isolation: existing rows belong to the default tenant. FORCE makes the
+      // policies apply to the table owner (the service role) too.
+      for (const table of TENANT_TABLES) {
+        await this.pool.query(`
+          ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS tenant_id TEXT NOT NULL
+          DEFAULT ${TENANT_ID_DEFAULT}
+        `);
+        await this.pool.query(`CREATE INDEX IF NOT EXISTS idx_${table}_tenant_id ON ${table}(tenant_id)`);
+        await this.pool.query(`ALTER TABLE ${table} ENABLE ROW LEVEL SECURITY`);
+        await this.pool.query(`ALTER TABLE ${table} FORCE ROW LEVEL SECURITY`);
+        await this.pool.query(`DROP POLICY IF EXISTS tenant_isolation ON ${table}`);
+        await this.pool.query(`
+          CREATE POLICY tenant_isolation ON ${table}
+          USING (${TENANT_POLICY})
+          WITH CHECK (${TENANT_POLICY})
+        `);
+      }
+
       this.initialized = true;
       logger.info('Database initialized successfully');
     } catch (error) {
@@ -341,12 +860,18 @@ export class DatabaseClient {
   }
 
   /**
-   * Execute a query
+   * Execute a query, scoped to the current tenant (see connect)
    */
   async query<T extends QueryResultRow = QueryResultRow>(text: string, params?: unknown[]): Promise<QueryResult<T>> {
     const start = Date.now();
     try {
-      const result = await this.pool.query<T>(text, params);
+      const client = await this.connect();
+      let result: QueryResult<T>;
+      try {
+        result = await client.query<T>(text, params);
+      } finally {
+        client.release();
+      }
       const duration = Date.now() - start;
       logger.debug(
         { query: text.substring(0, 100), duration, rowCount: result.rowCount },
@@ -360,10 +885,147 @@ export class DatabaseClient {
   }
 
   /**
-   * Get a client from the pool for transactions
+   * Run fn inside a transaction on a dedicated pooled client, scoped to the current tenant
+   * Commits when fn resolves; rolls back and rethrows when it rejects.
+   */
+  async transaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await fn(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK').catch((rollbackError) => {
+        logger.error({ error: rollbackError }, 'Transaction rollback failed');
+      });
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Subscribe to NOTIFY payloads on a channel; resolves to an unsubscribe function
+   * All channels share one LISTEN connection, which is re-established if it drops.
+   */
+  async subscribe(channel: string, notify: NotificationHandler): Promise<() => Promise<void>> {
+    // Notifications arrive on the shared listener; run each handler in its subscriber's tenant context
+    const handler = AsyncResource.bind(notify);
+    const handlers = this.subscriptions.get(channel) ?? new Set<NotificationHandler>();
+    const first = handlers.size === 0;
+    handlers.add(handler);
+    this.subscriptions.set(channel, handlers);
+
+    try {
+      const client = await this.getListener();
+      if (first) {
+        await client.query(`LISTEN ${escapeIdentifier(channel)}`);
+      }
+    } catch (error) {
+      handlers.delete(handler);
+      throw error;
+    }
+
+    return async () => {
+      handlers.delete(handler);
+      if (handlers.size > 0 || !this.listener) return;
+      this.subscriptions.delete(channel);
+      try {
+        const client = await this.listener;
+        await client.query(`UNLISTEN ${escapeIdentifier(channel)}`);
+      } catch (error) {
+        logger.warn({ error, channel }, 'UNLISTEN failed');
+      }
+    };
+  }
+
+  /**
+   * Open (or reuse) the LISTEN connection
+   */
+  private getListener(): Promise<PoolClient> {
+    if (this.closed) {
+      return Promise.reject(new Error('Database client is closed'));
+    }
+    if (!this.listener) {
+      const connecting = this.pool.connect().then((client) => {
+        client.on('notification', (message) => {
+          for (const handler of this.subscriptions.get(message.channel) ?? []) {
+            handler(message.payload ?? '');
+          }
+        });
+        client.on('error', (error) => {
+          logger.error({ error }, 'Database LISTEN connection lost');
+          this.dropListener(client, error);
+        });
+        return client;
+      });
+      connecting.catch(() => {
+        if (this.listener === connecting) this.listener = null;
+      });
+      this.listener = connecting;
+    }
+    return this.listener;
+  }
+
+  /**
+   * Release a failed LISTEN connection and re-LISTEN active channels on a new one
+   */
+  private dropListener(client: PoolClient, error: Error): void {
+    this.listener = null;
+    client.release(error);
+
+    this.restoreListener();
+  }
+
+  /**
+   * Re-LISTEN active channels, retrying until it succeeds or the client closes
+   */
+  private restoreListener(): void {
+    if (this.closed || this.subscriptions.size === 0) return;
+    setTimeout(() => {
+      this.getListener()
+        .then(async (fresh) => {
+          for (const channel of this.subscriptions.keys()) {
+            await fresh.query(`LISTEN ${escapeIdentifier(channel)}`);
+          }
+          logger.info({ channels: Array.from(this.subscriptions.keys()) }, 'Database LISTEN connection restored');
+        })
+        .catch((reconnectError) => {
+          logger.error({ error: reconnectError }, 'Failed to restore database LISTEN connection');
+          this.restoreListener();
+        });
+    }, LISTENER_RECONNECT_MS).unref();
+  }
+
+  /**
+   * Get a client from the pool for transactions, scoped to the current tenant
    */
   async getClient(): Promise<PoolClient> {
-    return this.pool.connect();
+    return this.connect();
+  }
+
+  /**
+   * Check out a pooled connection whose session is scoped to the current tenant
+   * The tenant is a session setting that stays with the connection, so it is only set when
+   * the connection last served another tenant (or system scope): a request's queries
+   * usually run as single statements, without a round trip or transaction for the scope.
+   */
+  private async connect(): Promise<PoolClient> {
+    const client = await this.pool.connect();
+    const tenantId = currentTenant() ?? '';
+    if ((this.sessionTenants.get(client) ?? '') !== tenantId) {
+      try {
+        await client.query(`SELECT set_config('${TENANT_SETTING}', $1, false)`, [tenantId]);
+      } catch (error) {
+        // The session's scope is unknown - drop the connection rather than reuse it
+        this.sessionTenants.delete(client);
+        client.release(error as Error);
+        throw error;
+      }
+      this.sessionTenants.set(client, tenantId);
+    }
+    return client;
   }
 
   /**
@@ -381,9 +1043,22 @@ export class DatabaseClient {
    * Close all connections
    */
   async close(): Promise<void> {
+    this.closed = true;
+    if (this.listener) {
+      const listener = this.listener;
+      this.listener = null;
+      await listener.then(client => client.release(), () => undefined);
+    }
     await this.pool.end();
     logger.info('Database pool closed');
   }
 }
 
+/**
+ * Quote a channel name for LISTEN/UNLISTEN (which do not accept bind parameters)
+ */
+function escapeIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
 export default DatabaseClient;
@@ -1,4 +1,5 @@
 import logger from '../utils/logger';
+import { tenantNamespace } from '../utils/tenant';
 import {
   VectorInsertParams,
   VectorInsertResult,
@@ -6,8 +7,21 @@ import {
   VectorQueryResult,
   VectorSimilarityParams,
   VectorSimilarityResult,
+  SimilarityAggregate,
+  SimilarityNeighbor,
+  PredictionInput,
   PredictionResult,
+  UpsertResult,
+  DeleteResult,
+  VectorDeleteParams,
+  VectorDeleteResult,
 } from '../types';
+import { VectorBackend, VectorBackendError } from './backends/VectorBackend';
+import { HttpVectorBackend } from './backends/HttpVectorBackend';
+
+export { VectorBackendError } from './backends/VectorBackend';
+export { RuvVectorError } from './backends/HttpVectorBackend';
+export type { UpsertResult, PredictionInput } from '../types';
 
 /**
  * Circuit breaker states as per SPARC specification
@@ -39,21 +53,80 @@ export interface VectorClientConfig {
   circuitBreaker: CircuitBreakerConfig;
 }
 
+/**
+ * Namespace used for normalized events when the caller does not name one
+ */
+export const DEFAULT_NAMESPACE = 'events';
+
+/**
+ * Neighbours of a context set from the neighbours of each context vector (see SimilarityAggregate);
+ * centroid needs a search with the mean vector instead
+ */
+export function aggregateNeighbors(
+  groups: SimilarityNeighbor[][],
+  aggregate: Exclude<SimilarityAggregate, 'centroid'>,
+  k: number
+): SimilarityNeighbor[] {
+  const merged = new Map<string, { best: SimilarityNeighbor; lowest: number; groups: number }>();
+  for (const group of groups) {
+    for (const neighbor of group) {
+      const current = merged.get(neighbor.id);
+      if (!current) {
+        merged.set(neighbor.id, { best: neighbor, lowest: neighbor.score, groups: 1 });
+        continue;
+      }
+      if (neighbor.score > current.best.score) current.best = neighbor;
+      current.lowest = Math.min(current.lowest, neighbor.score);
+      current.groups++;
+    }
+  }
+
+  const byScore = (a: SimilarityNeighbor, b: SimilarityNeighbor) => b.score - a.score || a.id.localeCompare(b.id);
+
+  if (aggregate === 'intersection') {
+    return Array.from(merged.values())
+      .filter(match => match.groups === groups.length)
+      .map(match => ({ ...match.best, score: match.lowest }))
+      .sort(byScore);
+  }
+
+  const neighbors = Array.from(merged.values()).map(match => match.best).sort(byScore);
+  return aggregate === 'max-sim' ? neighbors.slice(0, k) : neighbors;
+}
+
+/**
+ * Mean of vectors of one dimension
+ */
+function centroid(vectors: number[][]): number[] {
+  const dimension = vectors[0].length;
+  if (vectors.some(vector => vector.length !== dimension)) {
+    throw new VectorBackendError('Context vectors of different dimensions have no centroid', 400, 'validation_error');
+  }
+  return Array.from({ length: dimension }, (_, i) => vectors.reduce((sum, vector) => sum + vector[i], 0) / vectors.length);
+}
+
 /**
  * RuvVector/RuvBase Client - Minimal stable contract for Layer 3 integration
  *
  * This client exposes the following contract:
  * - connect(): Promise<void> - Establish connection to RuvVector service
  * - upsert(namespace, id, vector, metadata): Promise<UpsertResult> - Insert or update vector
+ * - insertMany(records): Promise<Array<VectorInsertResult | VectorBackendError>> - Bulk insert, per-record outcomes
+ * - delete(namespace, id): Promise<DeleteResult> - Remove a vector
+ * - deleteWhere(params): Promise<VectorDeleteResult> - Remove (or count) vectors matching filters
+ * - existing(namespace, ids): Promise<Set<string>> - Which of the ids are stored
  * - query(namespace, vector, top_k): Promise<QueryResult> - Query similar vectors
  * - run_prediction(model, input): Promise<PredictionResult> - Run ML prediction
  *
+ * Storage is delegated to a VectorBackend (RuvVector over HTTP by default, pgvector or in-memory HNSW).
+ * Namespaces are per tenant: callers pass logical names, backends see tenant-prefixed ones.
  * Implements circuit breaker pattern as per SPARC specification
  */
 export class VectorClient {
   private serviceUrl: string;
   private apiKey?: string;
   private timeout: number;
+  private backend: VectorBackend;
   private connected: boolean = false;
 
   // Circuit breaker state
@@ -62,16 +135,21 @@ export class VectorClient {
   private lastFailureTime: number = 0;
   private circuitConfig: CircuitBreakerConfig;
 
-  constructor(config: VectorClientConfig) {
+  /**
+   * @param config - Client configuration
+   * @param backend - Storage backend (defaults to the RuvVector HTTP backend at serviceUrl)
+   */
+  constructor(config: VectorClientConfig, backend?: VectorBackend) {
     this.serviceUrl = config.serviceUrl;
     this.apiKey = config.apiKey;
     this.timeout = config.timeout;
     this.circuitConfig = config.circuitBreaker;
+    this.backend = backend ?? new HttpVectorBackend(config);
   }
 
   /**
    * Get API key for authentication (if configured)
-   * Used by future auth implementation
+   * Sent as a Bearer token on every RuvVector request
    */
   getApiKey(): string | undefined {
     return this.apiKey;
@@ -83,15 +161,21 @@ export class VectorClient {
    * @throws Error if connection fails
    */
   async connect(): Promise<void> {
-    logger.info({ serviceUrl: this.serviceUrl }, 'Connecting to RuvVector service');
+    logger.info({ serviceUrl: this.serviceUrl, backend: this.backend.kind }, 'Connecting to RuvVector service');
+
+    try {
+      await this.backend.connect();
+    } catch (error) {
+      this.connected = false;
+      logger.error({ error, serviceUrl: this.serviceUrl, backend: this.backend.kind }, 'Failed to connect to RuvVector service');
+      throw error;
+    }
 
-    // TODO: Implement actual connection logic (gRPC/TCP)
-    // For now, mark as connected (stub implementation)
     this.connected = true;
     this.circuitState = CircuitState.CLOSED;
     this.failureCount = 0;
 
-    logger.info({ serviceUrl: this.serviceUrl }, 'Connected to RuvVector service');
+    logger.info({ serviceUrl: this.serviceUrl, backend: this.backend.kind }, 'Connected to RuvVector service');
   }
 
   /**
@@ -124,13 +208,14 @@ export class VectorClient {
     try {
       logger.debug({ namespace, id, vectorLength: vector.length, metadataKeys: Object.keys(metadata) }, 'Upserting vector');
 
-      // TODO: Implement actual upsert to RuvVector backend
-      // Stub implementation - vector and metadata will be sent to backend
-      const result: UpsertResult = {
+      const upserted = await this.backend.upsert({
+        namespace: tenantNamespace(namespace),
         id,
-        namespace,
-        status: 'upserted',
-      };
+        vector,
+        payload: {},
+        metadata,
+      });
+      const result: UpsertResult = { ...upserted, namespace };
 
       this.recordSuccess();
 
@@ -139,12 +224,98 @@ export class VectorClient {
 
       return result;
     } catch (error) {
-      this.recordFailure();
+      this.handleRequestError(error);
       logger.error({ error, namespace, id }, 'Failed to upsert vector');
       throw error;
     }
   }
 
+  /**
+   * Delete a vector by namespace and id
+   *
+   * @param namespace - Vector namespace/collection
+   * @param id - Unique vector identifier
+   * @returns DeleteResult (deleted is false when the vector did not exist)
+   */
+  async delete(namespace: string, id: string): Promise<DeleteResult> {
+    this.checkCircuit();
+
+    const startTime = Date.now();
+
+    try {
+      logger.debug({ namespace, id }, 'Deleting vector');
+
+      const deleted = await this.backend.delete(tenantNamespace(namespace), id);
+
+      this.recordSuccess();
+
+      const duration = Date.now() - startTime;
+      logger.info({ namespace, id, deleted, duration }, 'Vector delete completed');
+
+      return { id, namespace, deleted };
+    } catch (error) {
+      this.handleRequestError(error);
+      logger.error({ error, namespace, id }, 'Failed to delete vector');
+      throw error;
+    }
+  }
+
+  /**
+   * Which of the ids have a vector in the namespace
+   *
+   * @param namespace - Vector namespace/collection
+   * @param ids - Vector identifiers to look up
+   * @returns The ids that are stored
+   */
+  async existing(namespace: string, ids: string[]): Promise<Set<string>> {
+    this.checkCircuit();
+
+    try {
+      const found = await this.backend.existing(tenantNamespace(namespace), ids);
+
+      this.recordSuccess();
+
+      return new Set(found);
+    } catch (error) {
+      this.handleRequestError(error);
+      logger.error({ error, namespace, ids: ids.length }, 'Failed to look up vectors');
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the vectors of a namespace matching filters, an event time range and/or a
+   * storage cutoff; a dry run only counts them
+   */
+  async deleteWhere(params: VectorDeleteParams): Promise<VectorDeleteResult> {
+    this.checkCircuit();
+
+    const startTime = Date.now();
+    const namespace = params.namespace ?? DEFAULT_NAMESPACE;
+    const dryRun = params.dryRun ?? false;
+
+    try {
+      logger.debug({ namespace, dryRun }, 'Deleting vectors by filter');
+
+      const matched = await this.backend.deleteWhere({
+        ...params,
+        namespace: tenantNamespace(namespace),
+        dryRun,
+      });
+
+      this.recordSuccess();
+
+      const duration = Date.now() - startTime;
+      logger.info({ namespace, matched, dryRun, duration }, 'Vector delete by filter completed');
+
+      return { namespace, matched, deleted: dryRun ? 0 : matched, dryRun };
+    } catch (error) {
+      this.handleRequestError(error);
+      logger.error({ error, namespace }, 'Failed to delete vectors by filter');
+      throw error;
+    }
+  }
+
   /**
    * Get timeout configuration
    */
@@ -221,10 +392,17 @@ export class VectorClient {
     try {
       logger.debug({ id: params.id }, 'Inserting vector');
 
-      // Stub implementation - would make actual call to RuvVector
-      // In production, this would use gRPC/TCP connection to RuvVector
-      const result: VectorInsertResult = {
+      const upserted = await this.backend.upsert({
+        namespace: tenantNamespace(params.namespace ?? DEFAULT_NAMESPACE),
         id: params.id,
+        vector: params.vector,
+        payload: params.payload,
+        metadata: params.metadata,
+        timestamp: params.timestamp,
+      });
+
+      const result: VectorInsertResult = {
+        id: upserted.id,
       };
 
       this.recordSuccess();
@@ -234,12 +412,52 @@ export class VectorClient {
 
       return result;
     } catch (error) {
-      this.recordFailure();
+      this.handleRequestError(error);
       logger.error({ error, id: params.id }, 'Failed to insert vector');
       throw error;
     }
   }
 
+  /**
+   * Insert many vectors in one backend call
+   * Resolves one entry per record, in order: its result or the error it failed with. Rejects
+   * only when the whole call fails. Counts as one circuit breaker failure when no record is stored.
+   */
+  async insertMany(records: VectorInsertParams[]): Promise<Array<VectorInsertResult | VectorBackendError>> {
+    const startTime = Date.now();
+
+    this.checkCircuit();
+
+    try {
+      logger.debug({ records: records.length }, 'Inserting vectors');
+
+      const results = await this.backend.upsertMany(records.map(params => ({
+        namespace: tenantNamespace(params.namespace ?? DEFAULT_NAMESPACE),
+        id: params.id,
+        vector: params.vector,
+        payload: params.payload,
+        metadata: params.metadata,
+        timestamp: params.timestamp,
+      })));
+
+      const failed = results.filter((result): result is VectorBackendError => result instanceof VectorBackendError);
+      if (records.length > 0 && failed.length === records.length) {
+        this.handleRequestError(failed[0]);
+      } else {
+        this.recordSuccess();
+      }
+
+      const duration = Date.now() - startTime;
+      logger.info({ records: records.length, failed: failed.length, duration }, 'Vectors inserted');
+
+      return results.map(result => result instanceof VectorBackendError ? result : { id: result.id });
+    } catch (error) {
+      this.handleRequestError(error);
+      logger.error({ error, records: records.length }, 'Failed to insert vectors');
+      throw error;
+    }
+  }
+
   /**
    * Query vectors based on filters and optional similarity search
    */
@@ -251,14 +469,17 @@ export class VectorClient {
 
     try {
       logger.debug(
-        { hasVector: !!params.vector, limit: params.limit, offset: params.offset },
+        { hasVector: !!params.vector, hasText: params.text !== undefined, limit: params.limit, offset: params.offset },
         'Querying vectors'
       );
 
-      // Stub implementation - would make actual call to RuvVector
+      const response = await this.backend.query({
+        ...params,
+        namespace: tenantNamespace(params.namespace ?? DEFAULT_NAMESPACE),
+      });
+
       const result: VectorQueryResult = {
-        items: [],
-        total: 0,
+        ...response,
         executionTime: Date.now() - startTime,
       };
 
@@ -268,7 +489,7 @@ export class VectorClient {
 
       return result;
     } catch (error) {
-      this.recordFailure();
+      this.handleRequestError(error);
       logger.error({ error }, 'Failed to query vectors');
       throw error;
     }
@@ -276,23 +497,35 @@ export class VectorClient {
 
   /**
    * Find similar vectors based on context vectors (similarity/simulate)
+   * Returns the neighbours of each context vector and of the set, per params.aggregate.
    */
   async similarity(params: VectorSimilarityParams): Promise<VectorSimilarityResult> {
     const startTime = Date.now();
+    const aggregate = params.aggregate ?? 'max-sim';
 
     // Check circuit breaker
     this.checkCircuit();
 
     try {
       logger.debug(
-        { contextCount: params.contextVectors.length, k: params.k, threshold: params.threshold },
+        { contextCount: params.contextVectors.length, k: params.k, threshold: params.threshold, aggregate },
         'Finding similar vectors'
       );
 
-      // Stub implementation - would make actual call to RuvVector
+      const namespace = tenantNamespace(params.namespace ?? DEFAULT_NAMESPACE);
+      const response = await this.backend.similarity({ ...params, namespace });
+
+      let neighbors: SimilarityNeighbor[];
+      if (aggregate === 'centroid') {
+        const mean = await this.backend.similarity({ ...params, namespace, contextVectors: [centroid(params.contextVectors)] });
+        neighbors = mean.groups[0] ?? [];
+      } else {
+        neighbors = aggregateNeighbors(response.groups, aggregate, params.k);
+      }
+
       const result: VectorSimilarityResult = {
-        neighbors: [],
-        processed: params.contextVectors.length,
+        ...response,
+        neighbors,
         executionTime: Date.now() - startTime,
       };
 
@@ -302,7 +535,7 @@ export class VectorClient {
 
       return result;
     } catch (error) {
-      this.recordFailure();
+      this.handleRequestError(error);
       logger.error({ error }, 'Failed to find similar vectors');
       throw error;
     }
@@ -327,12 +560,10 @@ export class VectorClient {
     try {
       logger.debug({ model, inputType: typeof input }, 'Running prediction');
 
-      // TODO: Implement actual prediction call to RuvVector/ML backend
-      // Stub implementation
+      const response = await this.backend.predict(model, input);
+
       const result: PredictionResult = {
-        model,
-        output: {},
-        confidence: 0.0,
+        ...response,
         executionTime: Date.now() - startTime,
       };
 
@@ -342,7 +573,7 @@ export class VectorClient {
 
       return result;
     } catch (error) {
-      this.recordFailure();
+      this.handleRequestError(error);
       logger.error({ error, model }, 'Failed to run prediction');
       throw error;
     }
@@ -366,12 +597,11 @@ export class VectorClient {
     try {
       logger.debug({ serviceUrl: this.serviceUrl }, 'RuvVector health check');
 
-      // TODO: Implement actual ping to RuvVector
-      // Stub implementation - would verify TCP/gRPC connectivity
+      await this.backend.ping();
       this.recordSuccess();
       return true;
     } catch (error) {
-      this.recordFailure();
+      this.handleRequestError(error);
       logger.error({ error }, 'RuvVector health check failed');
       return false;
     }
@@ -380,23 +610,32 @@ export class VectorClient {
   /**
    * Get connection info for logging
    */
-  getConnectionInfo(): { serviceUrl: string } {
-    return { serviceUrl: this.serviceUrl };
+  getConnectionInfo(): { serviceUrl: string; backend: string } {
+    return { serviceUrl: this.serviceUrl, backend: this.backend.kind };
   }
-}
 
-/**
- * Upsert operation result type
- */
-export interface UpsertResult {
-  id: string;
-  namespace: string;
-  status: 'upserted' | 'created' | 'updated';
-}
+  /**
+   * Release backend resources (graceful shutdown)
+   */
+  close(): void {
+    this.backend.close();
+    this.connected = false;
+  }
 
-/**
- * Prediction input type - can be vector or structured data
- */
-export type PredictionInput = number[] | Record<string, unknown>;
+  /**
+   * Feed a failed request into the circuit breaker
+   * Only backend faults (transport errors, timeouts, 5xx, 429) count towards the threshold;
+   * 4xx responses describe a bad request and 501 an unsupported operation, not an unhealthy store.
+   */
+  private handleRequestError(error: unknown): void {
+    if (error instanceof VectorBackendError && error.statusCode !== undefined) {
+      const { statusCode } = error;
+      if ((statusCode < 500 && statusCode !== 429) || statusCode === 501) {
+        return;
+      }
+    }
+    this.recordFailure();
+  }
+}
 
 export default VectorClient;
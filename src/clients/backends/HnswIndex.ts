@@ -0,0 +1,326 @@
+/**
+ * Hierarchical Navigable Small World (HNSW) approximate nearest-neighbour index
+ *
+ * In-memory implementation after Malkov & Yashunin (2016):
+ * - M: max links per node on upper layers (2*M on layer 0)
+ * - efConstruction: candidate list size while inserting
+ * - efSearch: candidate list size while searching (raised to k when smaller)
+ *
+ * Removal unlinks the node and reconnects its former neighbours to each other
+ * so the graph stays navigable without a rebuild.
+ */
+import { VectorDistanceMetric } from '../../types';
+
+export interface HnswConfig {
+  m: number;
+  efConstruction: number;
+  efSearch: number;
+  metric: VectorDistanceMetric;
+}
+
+export interface HnswSearchResult {
+  id: string;
+  distance: number;
+}
+
+interface HnswNode {
+  id: string;
+  vector: number[];
+  level: number;
+  links: Array<Set<string>>;  // links[level] = neighbour ids
+}
+
+type DistanceFn = (a: number[], b: number[]) => number;
+
+/**
+ * Distance functions per metric (smaller is closer)
+ */
+const DISTANCES: Record<VectorDistanceMetric, DistanceFn> = {
+  cosine: (a, b) => {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    if (normA === 0 || normB === 0) return 1;
+    return 1 - dot / (Math.sqrt(normA) * Math.sqrt(normB));
+  },
+  l2: (a, b) => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) {
+      const diff = a[i] - b[i];
+      sum += diff * diff;
+    }
+    return Math.sqrt(sum);
+  },
+  dot: (a, b) => {
+    let dot = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+    }
+    return -dot;
+  },
+};
+
+/**
+ * Exact distance between two vectors (smaller is closer), as the index measures it
+ */
+export function vectorDistance(metric: VectorDistanceMetric, a: number[], b: number[]): number {
+  return DISTANCES[metric](a, b);
+}
+
+/**
+ * Convert an index distance into a similarity score (larger is closer)
+ * Mirrors the pgvector backend so scores are comparable across backends.
+ */
+export function distanceToScore(metric: VectorDistanceMetric, distance: number): number {
+  switch (metric) {
+    case 'cosine':
+      return 1 - distance;
+    case 'l2':
+      return 1 / (1 + distance);
+    case 'dot':
+      return -distance;
+  }
+}
+
+/**
+ * Insert into an array kept sorted by ascending distance
+ */
+function insertSorted(list: HnswSearchResult[], item: HnswSearchResult): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (list[mid].distance < item.distance) low = mid + 1;
+    else high = mid;
+  }
+  list.splice(low, 0, item);
+}
+
+export class HnswIndex {
+  private nodes = new Map<string, HnswNode>();
+  private entryPoint: string | null = null;
+  private maxLevel = -1;
+  private distance: DistanceFn;
+  private levelMultiplier: number;
+
+  constructor(private config: HnswConfig) {
+    this.distance = DISTANCES[config.metric];
+    this.levelMultiplier = 1 / Math.log(Math.max(config.m, 2));
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  /**
+   * Insert a vector, replacing any existing vector with the same id
+   */
+  add(id: string, vector: number[]): void {
+    if (this.nodes.has(id)) {
+      this.remove(id);
+    }
+
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+    const node: HnswNode = {
+      id,
+      vector,
+      level,
+      links: Array.from({ length: level + 1 }, () => new Set<string>()),
+    };
+    this.nodes.set(id, node);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = id;
+      this.maxLevel = level;
+      return;
+    }
+
+    // Greedy descent through layers above the new node's level
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      current = this.greedyClosest(vector, current, layer);
+    }
+
+    // Connect on every layer the node participates in
+    let entries = [current];
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(vector, entries, this.config.efConstruction, layer);
+      const neighbours = candidates.slice(0, this.config.m);
+
+      for (const neighbour of neighbours) {
+        node.links[layer].add(neighbour.id);
+        const other = this.nodes.get(neighbour.id) as HnswNode;
+        other.links[layer].add(id);
+        this.prune(other, layer);
+      }
+
+      entries = candidates.map(c => c.id);
+    }
+
+    if (level > this.maxLevel) {
+      this.maxLevel = level;
+      this.entryPoint = id;
+    }
+  }
+
+  /**
+   * Remove a vector; returns false when the id is unknown
+   */
+  remove(id: string): boolean {
+    const node = this.nodes.get(id);
+    if (!node) return false;
+
+    this.nodes.delete(id);
+
+    for (let layer = 0; layer <= node.level; layer++) {
+      const orphans = Array.from(node.links[layer]);
+
+      for (const orphanId of orphans) {
+        const orphan = this.nodes.get(orphanId);
+        if (!orphan) continue;
+        orphan.links[layer].delete(id);
+
+        // Reconnect the orphan to the removed node's other neighbours
+        const replacements = orphans
+          .filter(candidate => candidate !== orphanId && !orphan.links[layer].has(candidate))
+          .map(candidate => ({
+            id: candidate,
+            distance: this.distance(orphan.vector, (this.nodes.get(candidate) as HnswNode).vector),
+          }))
+          .sort((a, b) => a.distance - b.distance);
+
+        for (const replacement of replacements) {
+          if (orphan.links[layer].size >= this.maxLinks(layer)) break;
+          orphan.links[layer].add(replacement.id);
+          (this.nodes.get(replacement.id) as HnswNode).links[layer].add(orphanId);
+        }
+      }
+    }
+
+    if (this.entryPoint === id) {
+      this.entryPoint = null;
+      this.maxLevel = -1;
+      for (const candidate of this.nodes.values()) {
+        if (candidate.level > this.maxLevel) {
+          this.maxLevel = candidate.level;
+          this.entryPoint = candidate.id;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Approximate k nearest neighbours, closest first
+   * An optional predicate restricts results; the candidate list grows until k
+   * matches are found or the whole graph has been considered.
+   */
+  search(query: number[], k: number, accept?: (id: string) => boolean): HnswSearchResult[] {
+    if (this.entryPoint === null || k <= 0) return [];
+
+    let current = this.entryPoint;
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      current = this.greedyClosest(query, current, layer);
+    }
+
+    let ef = Math.max(this.config.efSearch, k);
+    for (;;) {
+      const candidates = this.searchLayer(query, [current], ef, 0);
+      const matches = accept ? candidates.filter(c => accept(c.id)) : candidates;
+      if (matches.length >= k || ef >= this.nodes.size) {
+        return matches.slice(0, k);
+      }
+      ef = Math.min(ef * 2, this.nodes.size);
+    }
+  }
+
+  private maxLinks(layer: number): number {
+    return layer === 0 ? this.config.m * 2 : this.config.m;
+  }
+
+  /**
+   * Drop the furthest links of a node that exceeds its layer's link budget
+   */
+  private prune(node: HnswNode, layer: number): void {
+    const limit = this.maxLinks(layer);
+    if (node.links[layer].size <= limit) return;
+
+    const ranked = Array.from(node.links[layer])
+      .map(id => ({ id, distance: this.distance(node.vector, (this.nodes.get(id) as HnswNode).vector) }))
+      .sort((a, b) => a.distance - b.distance);
+
+    for (const dropped of ranked.slice(limit)) {
+      node.links[layer].delete(dropped.id);
+      // Keep links symmetric so removal can find every inbound edge
+      this.nodes.get(dropped.id)?.links[layer]?.delete(node.id);
+    }
+  }
+
+  private greedyClosest(query: number[], start: string, layer: number): string {
+    let current = start;
+    let currentDistance = this.distance(query, (this.nodes.get(current) as HnswNode).vector);
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+      for (const neighbourId of (this.nodes.get(current) as HnswNode).links[layer] ?? []) {
+        const distance = this.distance(query, (this.nodes.get(neighbourId) as HnswNode).vector);
+        if (distance < currentDistance) {
+          current = neighbourId;
+          currentDistance = distance;
+          improved = true;
+        }
+      }
+    }
+
+    return current;
+  }
+
+  /**
+   * Best-first search on one layer; returns up to ef results, closest first
+   */
+  private searchLayer(query: number[], entries: string[], ef: number, layer: number): HnswSearchResult[] {
+    const visited = new Set<string>(entries);
+    const candidates: HnswSearchResult[] = [];
+    const results: HnswSearchResult[] = [];
+
+    for (const id of entries) {
+      const item = { id, distance: this.distance(query, (this.nodes.get(id) as HnswNode).vector) };
+      insertSorted(candidates, item);
+      insertSorted(results, item);
+    }
+    results.splice(ef);
+
+    while (candidates.length > 0) {
+      const closest = candidates.shift() as HnswSearchResult;
+      const furthest = results[results.length - 1];
+      if (results.length >= ef && closest.distance > furthest.distance) break;
+
+      for (const neighbourId of (this.nodes.get(closest.id) as HnswNode).links[layer] ?? []) {
+        if (visited.has(neighbourId)) continue;
+        visited.add(neighbourId);
+
+        const item = { id: neighbourId, distance: this.distance(query, (this.nodes.get(neighbourId) as HnswNode).vector) };
+        if (results.length < ef || item.distance < results[results.length - 1].distance) {
+          insertSorted(candidates, item);
+          insertSorted(results, item);
+          results.splice(ef);
+        }
+      }
+    }
+
+    return results;
+  }
+}
+
+export default HnswIndex;
@@ -0,0 +1,268 @@
+/**
+ * RuvVector HTTP/JSON backend
+ * Talks to the RuvVector service at serviceUrl over a keep-alive socket pool.
+ */
+import http from 'http';
+import https from 'https';
+import { PredictionInput, UpsertResult } from '../../types';
+import {
+  VectorBackend,
+  VectorBackendError,
+  VectorRecord,
+  BackendQueryParams,
+  BackendQueryResult,
+  BackendDeleteParams,
+  BackendSimilarityParams,
+  BackendSimilarityResult,
+  BackendPredictionResult,
+  toVectorBackendError,
+  resolveFusion,
+} from './VectorBackend';
+
+export interface HttpVectorBackendConfig {
+  serviceUrl: string;     // Full service URL (e.g., http://ruvvector:6379)
+  apiKey?: string;        // Sent as a Bearer token when set
+  timeout: number;        // Per-request timeout (ms)
+  poolSize: number;       // Max concurrent keep-alive sockets
+}
+
+/**
+ * RuvVector wire endpoints (HTTP/JSON)
+ */
+const RUVVECTOR_PATHS = {
+  health: '/health',
+  upsert: '/vectors/upsert',
+  delete: '/vectors/delete',
+  exists: '/vectors/exists',
+  deleteWhere: '/vectors/delete_where',
+  query: '/vectors/query',
+  similarity: '/vectors/similarity',
+  predict: '/predict',
+} as const;
+
+/**
+ * Error raised for failed RuvVector requests
+ * statusCode is the upstream HTTP status, undefined for transport failures (timeouts, resets)
+ */
+export class RuvVectorError extends VectorBackendError {
+  constructor(message: string, statusCode?: number, code?: string) {
+    super(message, statusCode, code);
+    this.name = 'RuvVectorError';
+  }
+}
+
+export class HttpVectorBackend implements VectorBackend {
+  readonly kind = 'http' as const;
+
+  private baseUrl: URL;
+  private apiKey?: string;
+  private timeout: number;
+  private agent: http.Agent;
+
+  constructor(config: HttpVectorBackendConfig) {
+    this.baseUrl = new URL(config.serviceUrl);
+    this.apiKey = config.apiKey;
+    this.timeout = config.timeout;
+
+    // Keep-alive agent bounds concurrent sockets to the configured pool size
+    const agentOptions: http.AgentOptions = { keepAlive: true, maxSockets: config.poolSize };
+    this.agent = this.baseUrl.protocol === 'https:'
+      ? new https.Agent(agentOptions)
+      : new http.Agent(agentOptions);
+  }
+
+  async connect(): Promise<void> {
+    await this.request('GET', RUVVECTOR_PATHS.health);
+  }
+
+  /**
+   * An empty 2xx reply acknowledges the write without saying whether it created the vector
+   */
+  async upsert(record: VectorRecord): Promise<UpsertResult> {
+    const response = await this.request<Partial<UpsertResult>>('POST', RUVVECTOR_PATHS.upsert, record);
+    return {
+      id: response?.id ?? record.id,
+      namespace: response?.namespace ?? record.namespace,
+      status: response?.status ?? 'upserted',
+    };
+  }
+
+  /**
+   * RuvVector has no bulk upsert; records are sent one at a time so each fails on its own
+   */
+  async upsertMany(records: VectorRecord[]): Promise<Array<UpsertResult | VectorBackendError>> {
+    const results: Array<UpsertResult | VectorBackendError> = [];
+    for (const record of records) {
+      results.push(await this.upsert(record).catch(toVectorBackendError));
+    }
+    return results;
+  }
+
+  async delete(namespace: string, id: string): Promise<boolean> {
+    const response = await this.request<{ deleted?: boolean }>('POST', RUVVECTOR_PATHS.delete, { namespace, id });
+    return response?.deleted ?? false;
+  }
+
+  async existing(namespace: string, ids: string[]): Promise<string[]> {
+    const response = await this.request<{ ids?: string[] }>('POST', RUVVECTOR_PATHS.exists, { namespace, ids });
+    return response?.ids ?? [];
+  }
+
+  async deleteWhere(params: BackendDeleteParams): Promise<number> {
+    const response = await this.request<{ count?: number }>('POST', RUVVECTOR_PATHS.deleteWhere, {
+      namespace: params.namespace,
+      filters: params.filters,
+      timeRange: params.timeRange,
+      storedBefore: params.storedBefore,
+      dryRun: params.dryRun ?? false,
+    });
+    return response?.count ?? 0;
+  }
+
+  async query(params: BackendQueryParams): Promise<BackendQueryResult> {
+    const response = await this.request<Partial<BackendQueryResult>>('POST', RUVVECTOR_PATHS.query, {
+      namespace: params.namespace,
+      vector: params.vector,
+      filters: params.filters,
+      timeRange: params.timeRange,
+      text: params.text,
+      fusion: params.text && params.vector ? resolveFusion(params.fusion) : undefined,
+      limit: params.limit,
+      offset: params.offset,
+      metric: params.metric,
+      after: params.after,
+      storedBefore: params.storedBefore,
+      countTotal: params.countTotal,
+    });
+
+    // An upstream without keyset paging returns no next; the handler then continues by offset
+    return {
+      items: response?.items ?? [],
+      total: params.countTotal === false ? response?.total : response?.total ?? 0,
+      next: response?.next,
+    };
+  }
+
+  /**
+   * One request per context vector: RuvVector merges the neighbours of the vectors it is sent
+   */
+  async similarity(params: BackendSimilarityParams): Promise<BackendSimilarityResult> {
+    const groups: BackendSimilarityResult['groups'] = [];
+
+    for (const contextVector of params.contextVectors) {
+      const response = await this.request<{ neighbors?: BackendSimilarityResult['groups'][number] }>(
+        'POST',
+        RUVVECTOR_PATHS.similarity,
+        {
+          namespace: params.namespace,
+          contextVectors: [contextVector],
+          filters: params.filters,
+          k: params.k,
+          threshold: params.threshold,
+          includeMetadata: params.includeMetadata,
+          metric: params.metric,
+        }
+      );
+      groups.push(response?.neighbors ?? []);
+    }
+
+    return { groups, processed: params.contextVectors.length };
+  }
+
+  async predict(model: string, input: PredictionInput): Promise<BackendPredictionResult> {
+    const response = await this.request<Partial<BackendPredictionResult>>('POST', RUVVECTOR_PATHS.predict, {
+      model,
+      input,
+    });
+
+    return {
+      model: response?.model ?? model,
+      output: response?.output ?? {},
+      confidence: response?.confidence ?? 0.0,
+    };
+  }
+
+  async ping(): Promise<void> {
+    await this.request('GET', RUVVECTOR_PATHS.health);
+  }
+
+  close(): void {
+    this.agent.destroy();
+  }
+
+  /**
+   * Execute a JSON request against the RuvVector service
+   * Honours the configured timeout and API key; resolves with the parsed response body.
+   */
+  private request<T = unknown>(method: 'GET' | 'POST', path: string, body?: unknown): Promise<T> {
+    const url = new URL(path, this.baseUrl);
+    const payload = body === undefined ? undefined : JSON.stringify(body);
+
+    const headers: http.OutgoingHttpHeaders = { accept: 'application/json' };
+    if (payload !== undefined) {
+      headers['content-type'] = 'application/json';
+      headers['content-length'] = Buffer.byteLength(payload);
+    }
+    if (this.apiKey) {
+      headers.authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const transport = url.protocol === 'https:' ? https : http;
+
+    return new Promise<T>((resolve, reject) => {
+      const req = transport.request(
+        url,
+        { method, headers, agent: this.agent, timeout: this.timeout },
+        (res) => {
+          const chunks: Buffer[] = [];
+          res.on('data', (chunk: Buffer) => chunks.push(chunk));
+          res.on('error', reject);
+          res.on('end', () => {
+            const statusCode = res.statusCode ?? 0;
+            const text = Buffer.concat(chunks).toString('utf-8');
+
+            let parsed: unknown = undefined;
+            if (text.length > 0) {
+              try {
+                parsed = JSON.parse(text);
+              } catch {
+                if (statusCode >= 200 && statusCode < 300) {
+                  reject(new RuvVectorError('Invalid JSON response from RuvVector', statusCode, 'invalid_response'));
+                  return;
+                }
+              }
+            }
+
+            if (statusCode < 200 || statusCode >= 300) {
+              const upstream = parsed as { error?: string; message?: string } | undefined;
+              reject(new RuvVectorError(
+                `RuvVector request failed with status ${statusCode}: ${upstream?.message ?? res.statusMessage ?? 'unknown error'}`,
+                statusCode,
+                upstream?.error
+              ));
+              return;
+            }
+
+            resolve(parsed as T);
+          });
+        }
+      );
+
+      req.on('timeout', () => {
+        req.destroy(new RuvVectorError(`RuvVector request timeout after ${this.timeout}ms`, undefined, 'upstream_timeout'));
+      });
+      req.on('error', (error) => {
+        reject(error instanceof RuvVectorError
+          ? error
+          : new RuvVectorError(`RuvVector request error: ${error.message}`, undefined, (error as NodeJS.ErrnoException).code));
+      });
+
+      if (payload !== undefined) {
+        req.write(payload);
+      }
+      req.end();
+    });
+  }
+}
+
+export default HttpVectorBackend;
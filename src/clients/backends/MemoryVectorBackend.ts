@@ -0,0 +1,496 @@
+/**
+ * In-memory vector store backed by HNSW indexes
+ *
+ * Intended for local development and tests: nothing is persisted and every
+ * process has its own store. One HNSW index is kept per (namespace, dimension) and metric:
+ * the configured metric's is maintained from the start, others are built when first searched.
+ */
+import {
+  MetadataFieldOperators,
+  MetadataFilter,
+  PredictionInput,
+  QueryFilters,
+  UpsertResult,
+  VectorDistanceMetric,
+  VectorQueryBoundary,
+} from '../../types';
+import { HnswIndex, distanceToScore, vectorDistance } from './HnswIndex';
+import {
+  VectorBackend,
+  VectorBackendError,
+  VectorRecord,
+  BackendQueryParams,
+  BackendQueryResult,
+  BackendDeleteParams,
+  BackendSimilarityParams,
+  BackendSimilarityResult,
+  BackendPredictionResult,
+  toVectorBackendError,
+  resolveFusion,
+  metadataPath,
+  isFieldOperators,
+  containedValue,
+} from './VectorBackend';
+
+export interface MemoryVectorBackendConfig {
+  metric: VectorDistanceMetric;
+  m: number;
+  efConstruction: number;
+  efSearch: number;
+}
+
+interface StoredRecord extends VectorRecord {
+  createdAt: number;
+}
+
+/**
+ * JSON containment with the same semantics as Postgres' jsonb @> operator
+ */
+export function jsonContains(actual: unknown, expected: unknown): boolean {
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual)
+      && expected.every(item => actual.some(candidate => jsonContains(candidate, item)));
+  }
+  if (expected !== null && typeof expected === 'object') {
+    if (actual === null || typeof actual !== 'object' || Array.isArray(actual)) return false;
+    return Object.entries(expected as Record<string, unknown>).every(
+      ([key, value]) => jsonContains((actual as Record<string, unknown>)[key], value)
+    );
+  }
+  return actual === expected;
+}
+
+/**
+ * Value at a metadata field path, descending into objects by key and arrays by index like
+ * Postgres' #> operator; undefined when the path does not exist
+ */
+function valueAt(metadata: unknown, path: string[]): unknown {
+  let value = metadata;
+  for (const key of path) {
+    if (Array.isArray(value)) {
+      value = /^-?\d+$/.test(key) ? value.at(Number(key)) : undefined;
+    } else if (value !== null && typeof value === 'object') {
+      value = Object.prototype.hasOwnProperty.call(value, key) ? (value as Record<string, unknown>)[key] : undefined;
+    } else {
+      return undefined;
+    }
+  }
+  return value;
+}
+
+/**
+ * Range comparison of a metadata value: numbers with numbers, strings with strings
+ */
+function compares(value: unknown, bound: string | number, test: (order: number) => boolean): boolean {
+  if (typeof value !== typeof bound) return false;
+  if (typeof bound === 'number') return test((value as number) - bound);
+  return test(value === bound ? 0 : (value as string) < bound ? -1 : 1);
+}
+
+function matchesOperators(value: unknown, operators: MetadataFieldOperators): boolean {
+  const { $eq, $in, $gt, $gte, $lt, $lte, $exists } = operators;
+  return ($eq === undefined || value === $eq)
+    && ($in === undefined || $in.some(candidate => value === candidate))
+    && ($gt === undefined || compares(value, $gt, order => order > 0))
+    && ($gte === undefined || compares(value, $gte, order => order >= 0))
+    && ($lt === undefined || compares(value, $lt, order => order < 0))
+    && ($lte === undefined || compares(value, $lte, order => order <= 0))
+    && ($exists === undefined || (value !== undefined) === $exists);
+}
+
+/**
+ * Evaluate a metadata filter with the same semantics as the postgres backend's SQL
+ */
+export function matchesMetadataFilter(metadata: unknown, filter: MetadataFilter): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    switch (key) {
+      case '$and':
+        return (condition as MetadataFilter[]).every(branch => matchesMetadataFilter(metadata, branch));
+      case '$or':
+        return (condition as MetadataFilter[]).some(branch => matchesMetadataFilter(metadata, branch));
+      case '$not':
+        return !matchesMetadataFilter(metadata, condition as MetadataFilter);
+      default:
+        return isFieldOperators(condition)
+          ? matchesOperators(valueAt(metadata, metadataPath(key)), condition)
+          : jsonContains(metadata, containedValue(key, condition));
+    }
+  });
+}
+
+/**
+ * A query match with the key it is ordered by and the scores it reports
+ */
+interface RankedRecord {
+  record: StoredRecord;
+  key: number;
+  score?: number;
+  vectorScore?: number;
+  textScore?: number;
+}
+
+/**
+ * Whether an item is ranked after a keyset boundary: by its sort key (ascending for distances,
+ * descending otherwise; a null key sorts last), then by id
+ */
+function rankedAfter(key: number, id: string, boundary: VectorQueryBoundary, order: 'asc' | 'desc'): boolean {
+  const bound = typeof boundary.key === 'number' ? boundary.key : -Infinity;
+  if (key !== bound) return order === 'asc' ? key > bound : key < bound;
+  return id.localeCompare(boundary.id) > 0;
+}
+
+/**
+ * Lower-cased words of a text: the memory backend's stand-in for Postgres text search,
+ * without stemming, stop words or websearch operators
+ */
+export function textTerms(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Words of every string value in a payload, as jsonb_to_tsvector(..., '["string"]') indexes it
+ */
+function payloadTerms(value: unknown, terms: string[] = []): string[] {
+  if (typeof value === 'string') {
+    terms.push(...textTerms(value));
+  } else if (value !== null && typeof value === 'object') {
+    Object.values(value).forEach(item => payloadTerms(item, terms));
+  }
+  return terms;
+}
+
+export class MemoryVectorBackend implements VectorBackend {
+  readonly kind = 'memory' as const;
+
+  private namespaces = new Map<string, Map<string, StoredRecord>>();
+  private indexes = new Map<string, Map<VectorDistanceMetric, HnswIndex>>();
+
+  constructor(private config: MemoryVectorBackendConfig) {}
+
+  async connect(): Promise<void> {
+    // Nothing to connect to
+  }
+
+  async upsert(record: VectorRecord): Promise<UpsertResult> {
+    const records = this.recordsFor(record.namespace);
+    const existing = records.get(record.id);
+
+    if (existing) {
+      this.indexesFor(record.namespace, existing.vector.length).forEach(index => index.remove(record.id));
+    }
+
+    records.set(record.id, { ...record, createdAt: existing?.createdAt ?? Date.now() });
+    const indexes = this.indexesFor(record.namespace, record.vector.length);
+    if (indexes.size === 0) {
+      // Built from the stored records, this one included
+      this.indexFor(record.namespace, record.vector.length);
+    } else {
+      indexes.forEach(index => index.add(record.id, record.vector));
+    }
+
+    return {
+      id: record.id,
+      namespace: record.namespace,
+      status: existing ? 'updated' : 'created',
+    };
+  }
+
+  async upsertMany(records: VectorRecord[]): Promise<Array<UpsertResult | VectorBackendError>> {
+    const results: Array<UpsertResult | VectorBackendError> = [];
+    for (const record of records) {
+      results.push(await this.upsert(record).catch(toVectorBackendError));
+    }
+    return results;
+  }
+
+  async delete(namespace: string, id: string): Promise<boolean> {
+    const records = this.namespaces.get(namespace);
+    const existing = records?.get(id);
+    if (!records || !existing) return false;
+
+    records.delete(id);
+    this.indexesFor(namespace, existing.vector.length).forEach(index => index.remove(id));
+    return true;
+  }
+
+  async existing(namespace: string, ids: string[]): Promise<string[]> {
+    const records = this.namespaces.get(namespace);
+    return records ? ids.filter(id => records.has(id)) : [];
+  }
+
+  async deleteWhere(params: BackendDeleteParams): Promise<number> {
+    const records = this.namespaces.get(params.namespace);
+    if (!records) return 0;
+
+    const storedBefore = params.storedBefore ? Date.parse(params.storedBefore) : Infinity;
+    const matching = Array.from(records.values()).filter(
+      record => record.createdAt < storedBefore && this.matches(record, params)
+    );
+
+    if (!params.dryRun) {
+      for (const record of matching) {
+        await this.delete(params.namespace, record.id);
+      }
+    }
+    return matching.length;
+  }
+
+  async query(params: BackendQueryParams): Promise<BackendQueryResult> {
+    const records = this.namespaces.get(params.namespace);
+    if (!records) return { items: [], total: params.countTotal === false ? undefined : 0 };
+
+    // With text, only payloads containing every term match
+    const textScores = params.text === undefined ? null : this.textScores(records, params.text);
+    const storedBefore = params.storedBefore ? Date.parse(params.storedBefore) : Infinity;
+    const accept = (record: StoredRecord) =>
+      record.createdAt < storedBefore && (!textScores || textScores.has(record.id)) && this.matches(record, params);
+
+    if (params.vector && !textScores) {
+      return this.vectorQuery(records, params, params.vector, accept);
+    }
+
+    let ranked: RankedRecord[];
+    if (params.vector && textScores) {
+      ranked = this.hybridRanking(records, params, params.vector, textScores, accept);
+    } else if (textScores) {
+      ranked = Array.from(records.values())
+        .filter(accept)
+        .map(record => {
+          const textScore = textScores.get(record.id) as number;
+          return { record, key: textScore, score: textScore, textScore };
+        });
+    } else {
+      // Newest event first; events without a time last
+      ranked = Array.from(records.values())
+        .filter(accept)
+        .map(record => ({ record, key: record.timestamp ? Date.parse(record.timestamp) : -Infinity }));
+    }
+    ranked.sort((a, b) => b.key - a.key || a.record.id.localeCompare(b.record.id));
+
+    const { after } = params;
+    const remaining = after ? ranked.filter(item => rankedAfter(item.key, item.record.id, after, 'desc')) : ranked;
+    const page = remaining.slice(params.offset, params.offset + params.limit);
+    const last = page[page.length - 1];
+    const more = remaining.length > params.offset + params.limit;
+
+    return {
+      items: page.map(({ record, key: _key, ...scores }) => ({ ...this.toItem(record), ...scores })),
+      total: params.countTotal === false ? undefined : ranked.length,
+      next: more ? { key: Number.isFinite(last.key) ? last.key : null, id: last.record.id } : null,
+    };
+  }
+
+  async similarity(params: BackendSimilarityParams): Promise<BackendSimilarityResult> {
+    const records = this.namespaces.get(params.namespace);
+    const metric = params.metric ?? this.config.metric;
+
+    const groups = params.contextVectors.map(contextVector => {
+      if (!records) return [];
+
+      return this.indexFor(params.namespace, contextVector.length, metric)
+        .search(
+          contextVector,
+          params.k,
+          params.filters && (id => this.matches(records.get(id) as StoredRecord, params))
+        )
+        .map(({ id, distance }) => ({ record: records.get(id) as StoredRecord, score: distanceToScore(metric, distance) }))
+        .filter(({ score }) => score >= params.threshold)
+        .map(({ record, score }) => ({
+          id: record.id,
+          score,
+          vector: record.vector,
+          payload: record.payload,
+          metadata: params.includeMetadata ? record.metadata : undefined,
+        }));
+    });
+
+    return { groups, processed: params.contextVectors.length };
+  }
+
+  async predict(_model: string, _input: PredictionInput): Promise<BackendPredictionResult> {
+    throw new VectorBackendError('Predictions are not supported by the memory vector backend', 501, 'not_implemented');
+  }
+
+  async ping(): Promise<void> {
+    // Always reachable
+  }
+
+  close(): void {
+    this.namespaces.clear();
+    this.indexes.clear();
+  }
+
+  private recordsFor(namespace: string): Map<string, StoredRecord> {
+    let records = this.namespaces.get(namespace);
+    if (!records) {
+      records = new Map();
+      this.namespaces.set(namespace, records);
+    }
+    return records;
+  }
+
+  /**
+   * Indexes of a (namespace, dimension) by metric
+   */
+  private indexesFor(namespace: string, dimension: number): Map<VectorDistanceMetric, HnswIndex> {
+    const key = `${namespace}\u0000${dimension}`;
+    let indexes = this.indexes.get(key);
+    if (!indexes) {
+      indexes = new Map();
+      this.indexes.set(key, indexes);
+    }
+    return indexes;
+  }
+
+  private indexFor(namespace: string, dimension: number, metric: VectorDistanceMetric = this.config.metric): HnswIndex {
+    const indexes = this.indexesFor(namespace, dimension);
+    let index = indexes.get(metric);
+    if (!index) {
+      index = new HnswIndex({
+        m: this.config.m,
+        efConstruction: this.config.efConstruction,
+        efSearch: this.config.efSearch,
+        metric,
+      });
+      for (const record of this.namespaces.get(namespace)?.values() ?? []) {
+        if (record.vector.length === dimension) index.add(record.id, record.vector);
+      }
+      indexes.set(metric, index);
+    }
+    return index;
+  }
+
+  /**
+   * Text rank of each record whose payload contains every term of the text: occurrences of
+   * its terms mapped into [0, 1) like ts_rank_cd's normalization 32
+   */
+  private textScores(records: Map<string, StoredRecord>, text: string): Map<string, number> {
+    const terms = new Set(textTerms(text));
+    const scores = new Map<string, number>();
+    if (terms.size === 0) return scores;
+
+    for (const record of records.values()) {
+      const words = payloadTerms(record.payload);
+      if (![...terms].every(term => words.includes(term))) continue;
+      const occurrences = words.filter(word => terms.has(word)).length;
+      scores.set(record.id, occurrences / (occurrences + 1));
+    }
+    return scores;
+  }
+
+  /**
+   * Nearest neighbours by the HNSW index, after the keyset boundary if there is one
+   */
+  private vectorQuery(
+    records: Map<string, StoredRecord>,
+    params: BackendQueryParams,
+    vector: number[],
+    accept: (record: StoredRecord) => boolean
+  ): BackendQueryResult {
+    const dimension = vector.length;
+    const metric = params.metric ?? this.config.metric;
+    const { after } = params;
+    const follows = (record: StoredRecord) =>
+      !after || rankedAfter(vectorDistance(metric, vector, record.vector), record.id, after, 'asc');
+
+    // One past the page, to tell whether more follow
+    const found = this.indexFor(params.namespace, dimension, metric)
+      .search(vector, params.offset + params.limit + 1, id => {
+        const record = records.get(id) as StoredRecord;
+        return accept(record) && follows(record);
+      })
+      .sort((a, b) => a.distance - b.distance || a.id.localeCompare(b.id));
+    const neighbours = found.slice(params.offset, params.offset + params.limit);
+    const last = neighbours[neighbours.length - 1];
+
+    return {
+      items: neighbours.map(({ id, distance }) => ({
+        ...this.toItem(records.get(id) as StoredRecord),
+        score: distanceToScore(metric, distance),
+      })),
+      total: params.countTotal === false
+        ? undefined
+        : Array.from(records.values()).filter(record => record.vector.length === dimension && accept(record)).length,
+      next: found.length > params.offset + params.limit ? { key: last.distance, id: last.id } : null,
+    };
+  }
+
+  /**
+   * Rank the text matches by exact similarity and by text rank, keyed by the fused score
+   */
+  private hybridRanking(
+    records: Map<string, StoredRecord>,
+    params: BackendQueryParams,
+    vector: number[],
+    textScores: Map<string, number>,
+    accept: (record: StoredRecord) => boolean
+  ): RankedRecord[] {
+    const metric = params.metric ?? this.config.metric;
+    const fusion = resolveFusion(params.fusion);
+
+    const matching = Array.from(records.values())
+      .filter(record => record.vector.length === vector.length && accept(record))
+      .map(record => ({
+        record,
+        key: 0,
+        vectorScore: distanceToScore(metric, vectorDistance(metric, vector, record.vector)),
+        textScore: textScores.get(record.id) as number,
+      }));
+
+    if (fusion.method === 'rrf') {
+      const byVector = [...matching].sort((a, b) => b.vectorScore - a.vectorScore || a.record.id.localeCompare(b.record.id));
+      const byText = [...matching].sort((a, b) => b.textScore - a.textScore || a.record.id.localeCompare(b.record.id));
+      byVector.forEach((match, i) => { match.key += fusion.vectorWeight / (fusion.k + i + 1); });
+      byText.forEach((match, i) => { match.key += fusion.textWeight / (fusion.k + i + 1); });
+    } else {
+      for (const match of matching) {
+        match.key = (fusion.vectorWeight * match.vectorScore + fusion.textWeight * match.textScore)
+          / (fusion.vectorWeight + fusion.textWeight);
+      }
+    }
+
+    return matching.map(match => ({ ...match, score: match.key }));
+  }
+
+  private toItem(record: StoredRecord): BackendQueryResult['items'][number] {
+    return {
+      id: record.id,
+      payload: record.payload,
+      metadata: record.metadata,
+      // Normalised like the postgres backend's TIMESTAMPTZ output
+      timestamp: record.timestamp ? new Date(record.timestamp).toISOString() : undefined,
+    };
+  }
+
+  /**
+   * Apply source/type/metadata/timeRange filters (same semantics as the postgres backend)
+   */
+  private matches(record: StoredRecord, params: { filters?: QueryFilters; timeRange?: BackendQueryParams['timeRange'] }): boolean {
+    const filters = params.filters ?? {};
+    const metadata = record.metadata as Record<string, unknown>;
+
+    for (const field of ['source', 'type'] as const) {
+      const value = filters[field];
+      if (value !== undefined) {
+        const allowed = Array.isArray(value) ? value : [value];
+        if (!allowed.includes(metadata[field] as string)) return false;
+      }
+    }
+
+    if (filters.metadata && !matchesMetadataFilter(metadata, filters.metadata)) {
+      return false;
+    }
+
+    if (params.timeRange) {
+      if (!record.timestamp) return false;
+      const time = Date.parse(record.timestamp);
+      if (time < Date.parse(params.timeRange.start) || time > Date.parse(params.timeRange.end)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+}
+
+export default MemoryVectorBackend;
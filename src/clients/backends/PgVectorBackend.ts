@@ -0,0 +1,545 @@
+/**
+ * pgvector-backed vector store
+ *
+ * Persists vectors in the vector_events table created by DatabaseClient.initialize(),
+ * so a single-database deployment is fully functional without an external RuvVector.
+ */
+import { DatabaseClient } from '../DatabaseClient';
+import logger from '../../utils/logger';
+import {
+  MetadataFieldOperators,
+  MetadataFilter,
+  PredictionInput,
+  QueryFilters,
+  UpsertResult,
+  VectorDistanceMetric,
+  VectorQueryBoundary,
+} from '../../types';
+import {
+  VectorBackend,
+  VectorBackendError,
+  VectorRecord,
+  BackendQueryParams,
+  BackendQueryResult,
+  BackendDeleteParams,
+  BackendSimilarityParams,
+  BackendSimilarityResult,
+  BackendPredictionResult,
+  toVectorBackendError,
+  resolveFusion,
+  metadataPath,
+  isFieldOperators,
+  containedValue,
+} from './VectorBackend';
+
+export interface PgVectorBackendConfig {
+  metric: VectorDistanceMetric;
+}
+
+/**
+ * pgvector distance operator and distance -> similarity score mapping per metric
+ * Ordering always uses the raw operator so pgvector indexes remain usable.
+ */
+const METRIC_SQL: Record<VectorDistanceMetric, { operator: string; score: (distance: string) => string }> = {
+  cosine: { operator: '<=>', score: d => `1 - (${d})` },
+  l2: { operator: '<->', score: d => `1 / (1 + (${d}))` },
+  dot: { operator: '<#>', score: d => `-(${d})` },
+};
+
+interface VectorEventRow {
+  id: string;
+  embedding?: string;
+  payload: object;
+  metadata: object;
+  event_timestamp: Date | null;
+  score?: number | string;
+  vector_score?: number | string;
+  text_score?: number | string;
+  sort_key?: number | string | null;
+}
+
+/**
+ * Full-text document of a payload: its string values. Must match idx_vector_events_payload_text
+ * (DatabaseClient) for searches to use the index.
+ */
+const PAYLOAD_TSVECTOR = `jsonb_to_tsvector('english', payload, '["string"]')`;
+
+// SQL operator of each metadata range bound
+const RANGE_SQL = { $gt: '>', $gte: '>=', $lt: '<', $lte: '<=' } as const;
+
+/**
+ * Compile a metadata filter into a condition on the metadata column, pushing its parameters
+ * onto values. Same semantics as MemoryVectorBackend's matchesMetadataFilter.
+ */
+export function compileMetadataFilter(filter: MetadataFilter, values: unknown[]): string {
+  const conditions = Object.entries(filter).map(([key, condition]) => {
+    switch (key) {
+      case '$and':
+        return joinConditions((condition as MetadataFilter[]).map(branch => compileMetadataFilter(branch, values)), 'AND');
+      case '$or':
+        return joinConditions((condition as MetadataFilter[]).map(branch => compileMetadataFilter(branch, values)), 'OR');
+      case '$not':
+        // Conditions on a missing field are NULL; they must not match before negation either
+        return `NOT COALESCE(${compileMetadataFilter(condition as MetadataFilter, values)}, false)`;
+      default:
+        if (isFieldOperators(condition)) {
+          return compileFieldOperators(key, condition, values);
+        }
+        values.push(JSON.stringify(containedValue(key, condition)));
+        return `metadata @> $${values.length}::jsonb`;
+    }
+  });
+  return joinConditions(conditions, 'AND');
+}
+
+function joinConditions(conditions: string[], operator: 'AND' | 'OR'): string {
+  if (conditions.length === 0) return operator === 'AND' ? 'TRUE' : 'FALSE';
+  if (conditions.length === 1) return conditions[0];
+  return `(${conditions.join(` ${operator} `)})`;
+}
+
+/**
+ * Range bounds only compare values of their own JSON type (jsonb orders across types);
+ * strings compare by code point like the memory backend
+ */
+function compileFieldOperators(field: string, operators: MetadataFieldOperators, values: unknown[]): string {
+  values.push(metadataPath(field));
+  const path = `$${values.length}::text[]`;
+  const value = `metadata #> ${path}`;
+  const conditions: string[] = [];
+
+  if (operators.$eq !== undefined) {
+    values.push(JSON.stringify(operators.$eq));
+    conditions.push(`${value} = $${values.length}::jsonb`);
+  }
+  if (operators.$in !== undefined) {
+    values.push(operators.$in.map(candidate => JSON.stringify(candidate)));
+    conditions.push(`${value} = ANY($${values.length}::jsonb[])`);
+  }
+  for (const bound of ['$gt', '$gte', '$lt', '$lte'] as const) {
+    const limit = operators[bound];
+    if (limit === undefined) continue;
+    if (typeof limit === 'number') {
+      values.push(JSON.stringify(limit));
+      conditions.push(`(jsonb_typeof(${value}) = 'number' AND ${value} ${RANGE_SQL[bound]} $${values.length}::jsonb)`);
+    } else {
+      values.push(limit);
+      conditions.push(`(jsonb_typeof(${value}) = 'string' AND (metadata #>> ${path}) COLLATE "C" ${RANGE_SQL[bound]} $${values.length})`);
+    }
+  }
+  if (operators.$exists !== undefined) {
+    conditions.push(`${value} IS ${operators.$exists ? 'NOT ' : ''}NULL`);
+  }
+
+  return joinConditions(conditions, 'AND');
+}
+
+/**
+ * SQL for rows ranked after a keyset boundary: past its sort key in the query's order, or
+ * level with it and a greater id. Event times sort descending with nulls last.
+ */
+function keysetCondition(
+  sortKey: string,
+  descending: boolean,
+  nullsLast: boolean,
+  after: VectorQueryBoundary,
+  values: unknown[]
+): string {
+  if (after.key === null) {
+    values.push(after.id);
+    return `(${sortKey} IS NULL AND id > $${values.length})`;
+  }
+
+  values.push(after.key, after.id);
+  const key = `$${values.length - 1}`;
+  const id = `$${values.length}`;
+  const past = `${sortKey} ${descending ? '<' : '>'} ${key}${nullsLast ? ` OR ${sortKey} IS NULL` : ''}`;
+  return `(${past} OR (${sortKey} = ${key} AND id > ${id}))`;
+}
+
+/**
+ * Scores come back as strings for numeric expressions and null when not selected
+ */
+function toScore(value: number | string | null | undefined): number | undefined {
+  return value === null || value === undefined ? undefined : Number(value);
+}
+
+/**
+ * Serialize a vector into pgvector's text input format
+ */
+function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(',')}]`;
+}
+
+// Records per multi-row upsert statement
+const UPSERT_CHUNK_SIZE = 500;
+
+// Rows per DELETE statement, so a large delete does not lock every matching row at once
+const DELETE_BATCH_SIZE = 5000;
+
+/**
+ * Data errors (SQLSTATE class 22, e.g. a malformed vector) are the record's fault, not the store's
+ */
+function toRecordError(error: unknown): VectorBackendError {
+  const code = (error as { code?: unknown }).code;
+  if (typeof code === 'string' && code.startsWith('22') && error instanceof Error) {
+    return new VectorBackendError(error.message, 400, 'invalid_record');
+  }
+  return toVectorBackendError(error);
+}
+
+/**
+ * Parse pgvector's text output format ("[1,2,3]")
+ */
+function fromVectorLiteral(value: string | undefined): number[] | undefined {
+  return value ? (JSON.parse(value) as number[]) : undefined;
+}
+
+export class PgVectorBackend implements VectorBackend {
+  readonly kind = 'postgres' as const;
+
+  private metric: VectorDistanceMetric;
+
+  constructor(private dbClient: DatabaseClient, config: PgVectorBackendConfig) {
+    this.metric = config.metric;
+  }
+
+  async connect(): Promise<void> {
+    const result = await this.dbClient.query<{ table: string | null }>(
+      `SELECT to_regclass('public.vector_events')::text AS table`
+    );
+    if (!result.rows[0]?.table) {
+      throw new VectorBackendError(
+        'pgvector store unavailable: vector_events table is missing (is the vector extension installed?)',
+        503,
+        'service_unavailable'
+      );
+    }
+  }
+
+  async upsert(record: VectorRecord): Promise<UpsertResult> {
+    const result = await this.dbClient.query<{ inserted: boolean }>(
+      `INSERT INTO vector_events (namespace, id, embedding, dimension, payload, metadata, event_timestamp)
+       VALUES ($1, $2, $3::vector, $4, $5, $6, $7)
+       ON CONFLICT (namespace, id) DO UPDATE SET
+         embedding = EXCLUDED.embedding,
+         dimension = EXCLUDED.dimension,
+         payload = EXCLUDED.payload,
+         metadata = EXCLUDED.metadata,
+         event_timestamp = EXCLUDED.event_timestamp,
+         updated_at = NOW()
+       RETURNING (xmax = 0) AS inserted`,
+      [
+        record.namespace,
+        record.id,
+        toVectorLiteral(record.vector),
+        record.vector.length,
+        JSON.stringify(record.payload),
+        JSON.stringify(record.metadata),
+        record.timestamp ?? null,
+      ]
+    );
+
+    return {
+      id: record.id,
+      namespace: record.namespace,
+      status: result.rows[0]?.inserted ? 'created' : 'updated',
+    };
+  }
+
+  /**
+   * One multi-row upsert per chunk; when a chunk fails its records are retried one by one
+   * so only the offending records fail
+   */
+  async upsertMany(records: VectorRecord[]): Promise<Array<UpsertResult | VectorBackendError>> {
+    const results: Array<UpsertResult | VectorBackendError> = [];
+    for (let start = 0; start < records.length; start += UPSERT_CHUNK_SIZE) {
+      const chunk = records.slice(start, start + UPSERT_CHUNK_SIZE);
+      try {
+        results.push(...await this.upsertChunk(chunk));
+      } catch (error) {
+        logger.warn({ error, records: chunk.length }, 'Bulk vector upsert failed, retrying records individually');
+        for (const record of chunk) {
+          results.push(await this.upsert(record).catch(toRecordError));
+        }
+      }
+    }
+    return results;
+  }
+
+  private async upsertChunk(records: VectorRecord[]): Promise<UpsertResult[]> {
+    const result = await this.dbClient.query<{ id: string; inserted: boolean }>(
+      `INSERT INTO vector_events (namespace, id, embedding, dimension, payload, metadata, event_timestamp)
+       SELECT * FROM unnest($1::text[], $2::text[], $3::vector[], $4::int[], $5::jsonb[], $6::jsonb[], $7::timestamptz[])
+       ON CONFLICT (namespace, id) DO UPDATE SET
+         embedding = EXCLUDED.embedding,
+         dimension = EXCLUDED.dimension,
+         payload = EXCLUDED.payload,
+         metadata = EXCLUDED.metadata,
+         event_timestamp = EXCLUDED.event_timestamp,
+         updated_at = NOW()
+       RETURNING id, (xmax = 0) AS inserted`,
+      [
+        records.map(record => record.namespace),
+        records.map(record => record.id),
+        records.map(record => toVectorLiteral(record.vector)),
+        records.map(record => record.vector.length),
+        records.map(record => JSON.stringify(record.payload)),
+        records.map(record => JSON.stringify(record.metadata)),
+        records.map(record => record.timestamp ?? null),
+      ]
+    );
+
+    const inserted = new Map(result.rows.map(row => [row.id, row.inserted]));
+    return records.map(record => ({
+      id: record.id,
+      namespace: record.namespace,
+      status: inserted.get(record.id) ? 'created' : 'updated',
+    }));
+  }
+
+  async delete(namespace: string, id: string): Promise<boolean> {
+    const result = await this.dbClient.query(
+      `DELETE FROM vector_events WHERE namespace = $1 AND id = $2`,
+      [namespace, id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async existing(namespace: string, ids: string[]): Promise<string[]> {
+    if (ids.length === 0) return [];
+    const result = await this.dbClient.query<{ id: string }>(
+      `SELECT id FROM vector_events WHERE namespace = $1 AND id = ANY($2)`,
+      [namespace, ids]
+    );
+    return result.rows.map(row => row.id);
+  }
+
+  async deleteWhere(params: BackendDeleteParams): Promise<number> {
+    const conditions: string[] = ['namespace = $1'];
+    const values: unknown[] = [params.namespace];
+
+    this.applyFilters(params, conditions, values);
+
+    if (params.storedBefore) {
+      values.push(params.storedBefore);
+      conditions.push(`created_at < $${values.length}`);
+    }
+
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+    if (params.dryRun) {
+      const countResult = await this.dbClient.query<{ total: string }>(
+        `SELECT COUNT(*) AS total FROM vector_events ${whereClause}`,
+        values
+      );
+      return parseInt(countResult.rows[0]?.total || '0', 10);
+    }
+
+    values.push(DELETE_BATCH_SIZE);
+    let deleted = 0;
+    for (;;) {
+      const result = await this.dbClient.query(
+        `DELETE FROM vector_events
+         WHERE (namespace, id) IN (SELECT namespace, id FROM vector_events ${whereClause} LIMIT $${values.length})`,
+        values
+      );
+      const batch = result.rowCount ?? 0;
+      deleted += batch;
+      if (batch < DELETE_BATCH_SIZE) return deleted;
+    }
+  }
+
+  async query(params: BackendQueryParams): Promise<BackendQueryResult> {
+    const conditions: string[] = ['namespace = $1'];
+    const values: unknown[] = [params.namespace];
+
+    this.applyFilters(params, conditions, values);
+
+    if (params.storedBefore) {
+      values.push(params.storedBefore);
+      conditions.push(`created_at < $${values.length}`);
+    }
+
+    // Results are ordered by sort_key (descending unless ranked by distance), then id
+    let scoreSelect = 'NULL::double precision AS score';
+    let sortKey = 'event_timestamp';
+    let descending = true;
+    let orderBy = 'event_timestamp DESC NULLS LAST, id ASC';
+    let textScore: string | null = null;
+    let distance: string | null = null;
+
+    if (params.text) {
+      values.push(params.text);
+      const tsquery = `websearch_to_tsquery('english', $${values.length})`;
+      conditions.push(`${PAYLOAD_TSVECTOR} @@ ${tsquery}`);
+      // Normalization 32 maps the rank into [0, 1) so it can be weighed against similarity;
+      // as a double it round-trips through continuation tokens exactly
+      textScore = `ts_rank_cd(${PAYLOAD_TSVECTOR}, ${tsquery}, 32)::double precision`;
+      scoreSelect = `${textScore} AS score, ${textScore} AS text_score`;
+      sortKey = textScore;
+      orderBy = `${textScore} DESC, id ASC`;
+    }
+
+    const { operator, score } = METRIC_SQL[params.metric ?? this.metric];
+    if (params.vector) {
+      // Vectors of a different dimension cannot be compared by pgvector
+      values.push(params.vector.length);
+      conditions.push(`dimension = $${values.length}`);
+      values.push(toVectorLiteral(params.vector));
+      distance = `embedding ${operator} $${values.length}::vector`;
+      scoreSelect = `${score(distance)} AS score`;
+      sortKey = distance;
+      descending = false;
+      orderBy = `${distance} ASC, id ASC`;
+    }
+
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+    const countResult = params.countTotal === false
+      ? null
+      : await this.dbClient.query<{ total: string }>(
+        `SELECT COUNT(*) AS total FROM vector_events ${whereClause}`,
+        values.slice(0, params.vector ? values.length - 1 : values.length)
+      );
+
+    let source = `vector_events ${whereClause}`;
+    if (textScore && distance) {
+      // Hybrid: rank every match both ways, then order by the fused score
+      const fusion = resolveFusion(params.fusion);
+      values.push(fusion.vectorWeight, fusion.textWeight);
+      const vectorWeight = `$${values.length - 1}::double precision`;
+      const textWeight = `$${values.length}::double precision`;
+
+      if (fusion.method === 'rrf') {
+        values.push(fusion.k);
+        const k = `$${values.length}::double precision`;
+        sortKey = `${vectorWeight} / (${k} + vector_rank) + ${textWeight} / (${k} + text_rank)`;
+      } else {
+        sortKey = `(${vectorWeight} * vector_score + ${textWeight} * text_score) / (${vectorWeight} + ${textWeight})`;
+      }
+      scoreSelect = `${sortKey} AS score, vector_score, text_score`;
+      descending = true;
+      orderBy = 'score DESC, id ASC';
+      source = `(
+         SELECT id, payload, metadata, event_timestamp,
+           ${score(distance)} AS vector_score,
+           ${textScore} AS text_score,
+           ROW_NUMBER() OVER (ORDER BY ${distance} ASC, id ASC) AS vector_rank,
+           ROW_NUMBER() OVER (ORDER BY ${textScore} DESC, id ASC) AS text_rank
+         FROM vector_events ${whereClause}
+       ) ranked`;
+    }
+
+    // Keyset paging; hybrid ranks are taken over every match, so the boundary applies after ranking
+    const listing = !textScore && !distance;
+    if (params.after) {
+      const after = keysetCondition(sortKey, descending, listing, params.after, values);
+      source = textScore && distance
+        ? `${source} WHERE ${after}`
+        : `vector_events WHERE ${[...conditions, after].join(' AND ')}`;
+    }
+
+    // One row past the page tells whether more follow
+    values.push(params.limit + 1, params.offset);
+    const result = await this.dbClient.query<VectorEventRow>(
+      `SELECT id, payload, metadata, event_timestamp, ${scoreSelect}, ${listing ? 'event_timestamp::text' : sortKey} AS sort_key
+       FROM ${source}
+       ORDER BY ${orderBy}
+       LIMIT $${values.length - 1} OFFSET $${values.length}`,
+      values
+    );
+    const rows = result.rows.slice(0, params.limit);
+    const last = rows[rows.length - 1];
+
+    return {
+      items: rows.map(row => ({
+        id: row.id,
+        score: toScore(row.score),
+        vectorScore: toScore(row.vector_score),
+        textScore: toScore(row.text_score),
+        payload: row.payload,
+        metadata: row.metadata,
+        timestamp: row.event_timestamp ? new Date(row.event_timestamp).toISOString() : undefined,
+      })),
+      total: countResult ? parseInt(countResult.rows[0]?.total || '0', 10) : undefined,
+      next: result.rows.length > params.limit
+        ? { key: listing ? last.sort_key ?? null : Number(last.sort_key), id: last.id }
+        : null,
+    };
+  }
+
+  async similarity(params: BackendSimilarityParams): Promise<BackendSimilarityResult> {
+    const { operator, score } = METRIC_SQL[params.metric ?? this.metric];
+    const groups: BackendSimilarityResult['groups'] = [];
+
+    for (const contextVector of params.contextVectors) {
+      const values: unknown[] = [params.namespace, contextVector.length, toVectorLiteral(contextVector), params.threshold];
+      const distance = `embedding ${operator} $3::vector`;
+      const conditions = ['namespace = $1', 'dimension = $2', `${score(distance)} >= $4`];
+      this.applyFilters(params, conditions, values);
+      values.push(params.k);
+
+      const result = await this.dbClient.query<VectorEventRow>(
+        `SELECT id, embedding::text AS embedding, payload, metadata, ${score(distance)} AS score
+         FROM vector_events
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY ${distance} ASC, id ASC
+         LIMIT $${values.length}`,
+        values
+      );
+
+      groups.push(result.rows.map(row => ({
+        id: row.id,
+        score: Number(row.score),
+        vector: fromVectorLiteral(row.embedding),
+        payload: row.payload,
+        metadata: params.includeMetadata ? row.metadata : undefined,
+      })));
+    }
+
+    return { groups, processed: params.contextVectors.length };
+  }
+
+  async predict(_model: string, _input: PredictionInput): Promise<BackendPredictionResult> {
+    throw new VectorBackendError('Predictions are not supported by the postgres vector backend', 501, 'not_implemented');
+  }
+
+  async ping(): Promise<void> {
+    await this.dbClient.query('SELECT 1 FROM vector_events LIMIT 1');
+  }
+
+  close(): void {
+    // Pool is owned by DatabaseClient and closed during graceful shutdown
+  }
+
+  /**
+   * Translate source/type/metadata/timeRange filters into SQL conditions
+   */
+  private applyFilters(
+    params: { filters?: QueryFilters; timeRange?: BackendQueryParams['timeRange'] },
+    conditions: string[],
+    values: unknown[]
+  ): void {
+    const filters = params.filters ?? {};
+
+    for (const field of ['source', 'type'] as const) {
+      const value = filters[field];
+      if (value !== undefined) {
+        values.push(Array.isArray(value) ? value : [value]);
+        conditions.push(`metadata->>'${field}' = ANY($${values.length})`);
+      }
+    }
+
+    if (filters.metadata && Object.keys(filters.metadata).length > 0) {
+      conditions.push(compileMetadataFilter(filters.metadata, values));
+    }
+
+    if (params.timeRange) {
+      values.push(params.timeRange.start, params.timeRange.end);
+      conditions.push(`event_timestamp BETWEEN $${values.length - 1} AND $${values.length}`);
+    }
+  }
+}
+
+export default PgVectorBackend;
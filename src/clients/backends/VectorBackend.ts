@@ -0,0 +1,154 @@
+/**
+ * Vector storage backend contract
+ *
+ * VectorClient owns the circuit breaker, logging and timing; a backend only
+ * performs the storage operation. Namespaces are always resolved by the client
+ * before a backend is called.
+ */
+import {
+  VectorQueryParams,
+  VectorQueryResult,
+  VectorSimilarityParams,
+  VectorSimilarityResult,
+  VectorDeleteParams,
+  QueryFusion,
+  MetadataFieldOperators,
+  PredictionInput,
+  PredictionResult,
+  UpsertResult,
+  VectorBackendKind,
+} from '../../types';
+
+export type { VectorBackendKind } from '../../types';
+
+/**
+ * A vector with its payload and metadata, as persisted by a backend
+ */
+export interface VectorRecord {
+  namespace: string;
+  id: string;
+  vector: number[];
+  payload: object;
+  metadata: object;
+  timestamp?: string;
+}
+
+export type BackendQueryParams = VectorQueryParams & { namespace: string };
+export type BackendQueryResult = Omit<VectorQueryResult, 'executionTime'>;
+
+export type BackendSimilarityParams = Omit<VectorSimilarityParams, 'aggregate'> & { namespace: string };
+export type BackendSimilarityResult = Omit<VectorSimilarityResult, 'neighbors' | 'executionTime'>;
+
+export type BackendDeleteParams = VectorDeleteParams & { namespace: string };
+
+export type BackendPredictionResult = Omit<PredictionResult, 'executionTime'>;
+
+/**
+ * Error raised by a backend operation
+ * statusCode follows HTTP semantics: 4xx for caller errors (do not trip the circuit breaker),
+ * 5xx or undefined for backend faults.
+ */
+export class VectorBackendError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'VectorBackendError';
+  }
+}
+
+/**
+ * Wrap a failure of one record in a bulk operation as a VectorBackendError
+ */
+export function toVectorBackendError(error: unknown): VectorBackendError {
+  if (error instanceof VectorBackendError) return error;
+  return new VectorBackendError(error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * Default reciprocal rank fusion constant; larger values flatten the rank curve
+ */
+export const DEFAULT_RRF_K = 60;
+
+/**
+ * Hybrid query fusion with defaults applied: RRF with equal weights
+ */
+export function resolveFusion(fusion: QueryFusion | undefined): Required<QueryFusion> {
+  return {
+    method: fusion?.method ?? 'rrf',
+    vectorWeight: fusion?.vectorWeight ?? 1,
+    textWeight: fusion?.textWeight ?? 1,
+    k: fusion?.k ?? DEFAULT_RRF_K,
+  };
+}
+
+/**
+ * Keys of a metadata filter field path ("labels.team" -> ["labels", "team"])
+ */
+export function metadataPath(field: string): string[] {
+  return field.split('.');
+}
+
+/**
+ * Whether a metadata filter field maps to operators ({ "$gt": 1 }) rather than a value to contain
+ */
+export function isFieldOperators(value: unknown): value is MetadataFieldOperators {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    && Object.keys(value).some(key => key.startsWith('$'));
+}
+
+/**
+ * The metadata a field path shorthand must contain: { "labels.team": "x" } -> { labels: { team: "x" } }
+ */
+export function containedValue(field: string, value: unknown): Record<string, unknown> {
+  return metadataPath(field).reduceRight<unknown>((contained, key) => ({ [key]: contained }), value) as Record<string, unknown>;
+}
+
+export interface VectorBackend {
+  readonly kind: VectorBackendKind;
+
+  /** Verify the backing store is reachable and ready */
+  connect(): Promise<void>;
+
+  /** Insert or replace a vector by (namespace, id) */
+  upsert(record: VectorRecord): Promise<UpsertResult>;
+
+  /**
+   * Insert or replace many vectors; ids are unique within a call
+   * Resolves one entry per record, in order: its result, or the error that record failed with.
+   */
+  upsertMany(records: VectorRecord[]): Promise<Array<UpsertResult | VectorBackendError>>;
+
+  /** Remove a vector by (namespace, id); resolves false when it did not exist */
+  delete(namespace: string, id: string): Promise<boolean>;
+
+  /** The ids among `ids` that have a vector in the namespace */
+  existing(namespace: string, ids: string[]): Promise<string[]>;
+
+  /**
+   * Remove the vectors matching every given criterion (filters and timeRange as for query);
+   * a dry run only counts them. Resolves the number deleted or counted.
+   */
+  deleteWhere(params: BackendDeleteParams): Promise<number>;
+
+  /**
+   * Filtered listing, ranked by similarity when a vector is supplied
+   * With text only payloads matching it are listed, ranked by text rank, or with a vector
+   * too by both rankings fused (params.fusion).
+   */
+  query(params: BackendQueryParams): Promise<BackendQueryResult>;
+
+  /** Nearest neighbours of each context vector, among those matching params.filters */
+  similarity(params: BackendSimilarityParams): Promise<BackendSimilarityResult>;
+
+  /** Run a model prediction (backends without models reject with 501) */
+  predict(model: string, input: PredictionInput): Promise<BackendPredictionResult>;
+
+  /** Lightweight liveness check; rejects when unreachable */
+  ping(): Promise<void>;
+
+  /** Release resources owned by the backend */
+  close(): void;
+}
@@ -0,0 +1,41 @@
+/**
+ * Vector backend factory
+ * Selects the storage implementation behind VectorClient (RUVVECTOR_BACKEND)
+ */
+import { DatabaseClient } from '../DatabaseClient';
+import { VectorBackendKind, VectorDistanceMetric } from '../../types';
+import { VectorBackend } from './VectorBackend';
+import { HttpVectorBackend, HttpVectorBackendConfig } from './HttpVectorBackend';
+import { PgVectorBackend } from './PgVectorBackend';
+import { MemoryVectorBackend } from './MemoryVectorBackend';
+
+export interface VectorBackendOptions extends HttpVectorBackendConfig {
+  backend: VectorBackendKind;
+  distanceMetric: VectorDistanceMetric;
+  hnsw: {
+    m: number;
+    efConstruction: number;
+    efSearch: number;
+  };
+}
+
+/**
+ * Create the configured vector backend
+ * The postgres backend shares the service's DatabaseClient pool; the memory
+ * backend is process-local and meant for development and tests.
+ */
+export function createVectorBackend(options: VectorBackendOptions, dbClient: DatabaseClient): VectorBackend {
+  switch (options.backend) {
+    case 'postgres':
+      return new PgVectorBackend(dbClient, { metric: options.distanceMetric });
+    case 'memory':
+      return new MemoryVectorBackend({ metric: options.distanceMetric, ...options.hnsw });
+    case 'http':
+      return new HttpVectorBackend(options);
+  }
+}
+
+export * from './VectorBackend';
+export { HttpVectorBackend, RuvVectorError } from './HttpVectorBackend';
+export { PgVectorBackend } from './PgVectorBackend';
+export { MemoryVectorBackend } from './MemoryVectorBackend';
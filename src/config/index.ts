@@ -1,3 +1,14 @@
+import {
+  AuthorizationPolicy,
+  EmbeddingProviderKind,
+  IdempotencyBackendKind,
+  NamespaceBackendKind,
+  RateLimitBackendKind,
+  RateLimits,
+  VectorBackendKind,
+  VectorDistanceMetric,
+} from '../types';
+
 /**
  * Configuration interface matching SPARC specification
  * All configuration via environment variables only - NO .env files, NO defaults for required vars
@@ -13,6 +24,107 @@ interface Config {
     apiKey?: string;      // OPTIONAL: API key if authentication required
     timeout: number;      // Request timeout (ms)
     poolSize: number;     // Connection pool size
+    backend: VectorBackendKind;           // Storage backend behind VectorClient
+    distanceMetric: VectorDistanceMetric; // Similarity metric for the postgres/memory backends
+    hnsw: {
+      m: number;              // Max links per node (memory backend)
+      efConstruction: number; // Candidate list size while inserting
+      efSearch: number;       // Candidate list size while searching
+    };
+  };
+
+  // Batch ingest (POST /ingest/batch)
+  ingest: {
+    batchMaxEvents: number;   // Events per batch request
+    batchMaxBytes: number;    // Batch request body size limit
+  };
+
+  // Ingest ledger and Idempotency-Key replays (idempotency/)
+  idempotency: {
+    backend: IdempotencyBackendKind;  // postgres (shared) | memory (per instance, development)
+    keyTtlSeconds: number;            // How long Idempotency-Key responses are replayed
+    eventTtlSeconds: number;          // How long ingested eventIds are replayed (0 = forever)
+    lockTimeoutSeconds: number;       // After this an unfinished request's claim can be taken over
+  };
+
+  // Vector namespace registry (/v1/namespaces, namespaces/)
+  namespaces: {
+    backend: NamespaceBackendKind;    // postgres (shared) | memory (per instance, development)
+    cacheTtlSeconds: number;          // How long an instance serves lookups from memory
+  };
+
+  // Continuation tokens of POST /query (utils/queryCursor)
+  query: {
+    cursorSecret?: string;    // HMAC key, required in production; outside it a per-process key when unset
+    cursorTtlSeconds: number; // How long a continuation token can be used
+  };
+
+  // Text embeddings (decision embedding_text)
+  embedding: {
+    provider: EmbeddingProviderKind; // hashing (offline) | http (OpenAI-compatible)
+    dimension: number;    // Vector length produced by the provider
+    serviceUrl?: string;  // http provider base URL
+    apiKey?: string;      // http provider Bearer token
+    model?: string;       // http provider model name
+    timeout: number;      // http provider request timeout (ms)
+  };
+
+  // Decision graph traversal limits (POST /graph)
+  graph: {
+    maxDepth: number;     // Max hops for neighbourhood/shortest_path/repos_for_signal
+    maxNodes: number;     // Max nodes returned by a single traversal
+  };
+
+  // GET /events/decisions long-poll and SSE
+  events: {
+    maxWaitSeconds: number; // Upper bound for ?wait= long-polls
+    heartbeatMs: number;    // SSE keep-alive interval; each heartbeat also re-polls
+    visibilityTimeoutSeconds: number;    // Default ?visibility_timeout= for consumer group leases
+    maxVisibilityTimeoutSeconds: number; // Upper bound for visibility timeouts and nack delays
+  };
+
+  // Deferred review outcomes (POST /decision/approval with outcome=defer)
+  deferrals: {
+    sweepIntervalMs: number; // How often expired deferrals are re-surfaced; 0 disables the in-process sweeper
+  };
+
+  // Vector retention (namespace ttl_seconds, jobs/vectorRetention)
+  retention: {
+    sweepIntervalMs: number; // How often expired vectors are deleted; 0 disables the in-process sweeper
+    dryRun: boolean;         // Only count and audit expired vectors, delete nothing
+  };
+
+  // Webhook delivery of decision events (/v1/subscriptions)
+  webhooks: {
+    pollIntervalMs: number;  // Delivery pass interval (NOTIFY also wakes the worker); 0 disables the worker
+    timeoutMs: number;       // Per-request receiver timeout
+    maxAttempts: number;     // Attempts per event before it is dead-lettered
+    retryBaseMs: number;     // First retry delay; doubles per attempt
+    retryMaxMs: number;      // Retry delay cap
+    batchSize: number;       // Events fetched per subscription per page
+    allowedPrivateHosts: string[]; // Internal receivers allowed on private addresses (hosts, IPs, CIDRs)
+  };
+
+  // x-entitlement-context verification (utils/entitlement)
+  entitlement: {
+    allowUnsigned: boolean;   // Accept plain base64 JSON contexts - development only
+    jwks?: string;            // Inline JWK set (JSON) verifying signed contexts
+    jwksFile?: string;        // JWK set file, re-read when a token names an unknown kid
+    clockSkewSeconds: number; // Tolerance for exp/nbf checks
+  };
+
+  // Scope-based authorization of entitlement contexts (middleware/validation requireScope)
+  authorization: AuthorizationPolicy & {
+    enforce: boolean;     // false (default) logs denials without rejecting, for rolling the policy out
+  };
+
+  // Per-tenant rate limits and daily quotas (middleware/rateLimit)
+  rateLimits: {
+    enabled: boolean;
+    backend: RateLimitBackendKind;                  // memory (per instance) | postgres (shared)
+    defaults: RateLimits;
+    routes: Record<string, Partial<RateLimits>>;    // '<METHOD> <route path>' overrides
+    tenants: Record<string, Partial<RateLimits>>;   // Per-tenant overrides, all routes
   };
 
   // PostgreSQL Database configuration (for plans storage)
@@ -75,6 +187,17 @@ const getEnvNumber = (key: string, defaultValue: number): number => {
   return parsed;
 };
 
+const getEnvChoice = <T extends string>(key: string, choices: readonly T[], defaultValue: T): T => {
+  const value = process.env[key];
+  if (value === undefined || value === '') {
+    return defaultValue;
+  }
+  if (!choices.includes(value as T)) {
+    throw new Error(`Environment variable ${key} must be one of: ${choices.join(', ')}`);
+  }
+  return value as T;
+};
+
 const getEnvBoolean = (key: string, defaultValue: boolean): boolean => {
   const value = process.env[key];
   if (value === undefined) {
@@ -83,6 +206,102 @@ const getEnvBoolean = (key: string, defaultValue: boolean): boolean => {
   return value.toLowerCase() === 'true';
 };
 
+/**
+ * Get optional JSON object environment variable
+ */
+const getEnvJson = <T extends object>(key: string): T | undefined => {
+  const value = getOptionalEnvVar(key);
+  if (value === undefined) {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('not an object');
+    }
+    return parsed as T;
+  } catch {
+    throw new Error(`Environment variable ${key} must be a JSON object`);
+  }
+};
+
+/**
+ * Get optional list environment variable (comma- or space-separated)
+ */
+const getEnvList = (key: string, defaultValue: string[]): string[] => {
+  const value = getOptionalEnvVar(key);
+  return value === undefined ? defaultValue : value.split(/[\s,]+/).filter(Boolean);
+};
+
+/**
+ * Scope required by each route registered in createApp; AUTHZ_POLICY entries override these.
+ * Routes left out (health, readiness, metrics, metadata) are public.
+ */
+const AUTHORIZATION_ROUTES: Record<string, string> = {
+  // Vectors
+  'POST /ingest': 'vectors:write',
+  'POST /ingest/batch': 'vectors:write',
+  'POST /query': 'vectors:read',
+  'POST /simulate': 'vectors:read',
+  'POST /predict': 'vectors:read',
+  'DELETE /vectors/:id': 'vectors:admin',
+  'POST /vectors/delete': 'vectors:admin',
+  'POST /v1/namespaces': 'vectors:admin',
+  'GET /v1/namespaces/:name': 'vectors:read',
+  'PUT /v1/namespaces/:name': 'vectors:admin',
+  'GET /v1/namespaces': 'vectors:read',
+  'DELETE /v1/namespaces/:name': 'vectors:admin',
+  // Plans and deployments
+  'POST /v1/plans': 'plans:write',
+  'GET /v1/plans/:id': 'plans:read',
+  'GET /v1/plans': 'plans:read',
+  'DELETE /v1/plans/:id': 'plans:admin',
+  'POST /v1/deployments': 'deployments:write',
+  'GET /v1/deployments/:id': 'deployments:read',
+  'PUT /v1/deployments/:id': 'deployments:write',
+  'GET /v1/deployments': 'deployments:read',
+  'DELETE /v1/deployments/:id': 'deployments:admin',
+  // Decisions, reviews and the decision event feed
+  'POST /v1/decisions': 'decisions:write',
+  'GET /v1/decisions/similar': 'decisions:read',
+  'GET /v1/decisions/:id/similar': 'decisions:read',
+  'GET /v1/decisions/:id': 'decisions:read',
+  'GET /v1/decisions': 'decisions:read',
+  'POST /decision/approval': 'decisions:write',
+  'GET /events/decisions': 'decisions:read',
+  'POST /events/decisions/ack': 'decisions:read',
+  'POST /events/decisions/nack': 'decisions:read',
+  'GET /events/decisions/groups/:group': 'decisions:read',
+  'DELETE /events/decisions/groups/:group': 'decisions:admin',
+  'POST /graph': 'decisions:read',
+  'GET /v1/graph/export': 'decisions:read',
+  // Webhook subscriptions
+  'POST /v1/subscriptions': 'subscriptions:write',
+  'GET /v1/subscriptions/:id': 'subscriptions:read',
+  'PUT /v1/subscriptions/:id': 'subscriptions:write',
+  'GET /v1/subscriptions': 'subscriptions:read',
+  'DELETE /v1/subscriptions/:id': 'subscriptions:admin',
+  'GET /v1/subscriptions/:id/dead-letters': 'subscriptions:read',
+  'POST /v1/subscriptions/:id/replay': 'subscriptions:write',
+  // Learning
+  'POST /v1/recommendations/score': 'learning:read',
+  'POST /learning/learn': 'learning:emit',
+  'POST /learning/assimilate': 'learning:emit',
+  'GET /learning/inspect': 'learning:read',
+};
+
+/**
+ * Scopes sent before scope enforcement existed, and what they grant
+ * execution-listener is the default context of headerless /events/decisions polls.
+ */
+const AUTHORIZATION_SCOPE_ALIASES: Record<string, string[]> = {
+  all: ['*'],
+  ingest: ['vectors:write'],
+  query: ['vectors:read'],
+  simulate: ['vectors:read'],
+  'execution-listener': ['decisions:read'],
+};
+
 /**
  * Configuration object - SPARC compliant
  * All values from environment variables
@@ -98,6 +317,116 @@ export const config: Config = {
     apiKey: getOptionalEnvVar('RUVVECTOR_API_KEY'),
     timeout: getEnvNumber('RUVVECTOR_TIMEOUT', 30000),
     poolSize: getEnvNumber('RUVVECTOR_POOL_SIZE', 10),
+    backend: getEnvChoice<VectorBackendKind>('RUVVECTOR_BACKEND', ['http', 'postgres', 'memory'], 'http'),
+    distanceMetric: getEnvChoice<VectorDistanceMetric>('RUVVECTOR_DISTANCE_METRIC', ['cosine', 'l2', 'dot'], 'cosine'),
+    hnsw: {
+      m: getEnvNumber('RUVVECTOR_HNSW_M', 16),
+      efConstruction: getEnvNumber('RUVVECTOR_HNSW_EF_CONSTRUCTION', 200),
+      efSearch: getEnvNumber('RUVVECTOR_HNSW_EF_SEARCH', 50),
+    },
+  },
+
+  // Batch ingest
+  ingest: {
+    batchMaxEvents: getEnvNumber('INGEST_BATCH_MAX_EVENTS', 1000),
+    batchMaxBytes: getEnvNumber('INGEST_BATCH_MAX_BYTES', 50 * 1024 * 1024),
+  },
+
+  // Ingest ledger and Idempotency-Key replays
+  idempotency: {
+    backend: getEnvChoice<IdempotencyBackendKind>('IDEMPOTENCY_BACKEND', ['postgres', 'memory'], 'postgres'),
+    keyTtlSeconds: getEnvNumber('IDEMPOTENCY_KEY_TTL_SECONDS', 86400),
+    eventTtlSeconds: getEnvNumber('IDEMPOTENCY_EVENT_TTL_SECONDS', 2592000),
+    lockTimeoutSeconds: getEnvNumber('IDEMPOTENCY_LOCK_TIMEOUT_SECONDS', 60),
+  },
+
+  // Vector namespace registry
+  namespaces: {
+    backend: getEnvChoice<NamespaceBackendKind>('NAMESPACE_BACKEND', ['postgres', 'memory'], 'postgres'),
+    cacheTtlSeconds: getEnvNumber('NAMESPACE_CACHE_TTL_SECONDS', 30),
+  },
+
+  // Continuation tokens of POST /query
+  query: {
+    cursorSecret: getOptionalEnvVar('QUERY_CURSOR_SECRET'),
+    cursorTtlSeconds: getEnvNumber('QUERY_CURSOR_TTL_SECONDS', 86400),
+  },
+
+  // Text embeddings
+  embedding: {
+    provider: getEnvChoice<EmbeddingProviderKind>('EMBEDDING_PROVIDER', ['hashing', 'http'], 'hashing'),
+    dimension: getEnvNumber('EMBEDDING_DIMENSION', 256),
+    serviceUrl: getOptionalEnvVar('EMBEDDING_SERVICE_URL'),
+    apiKey: getOptionalEnvVar('EMBEDDING_API_KEY'),
+    model: getOptionalEnvVar('EMBEDDING_MODEL'),
+    timeout: getEnvNumber('EMBEDDING_TIMEOUT', 10000),
+  },
+
+  // Decision graph
+  graph: {
+    maxDepth: getEnvNumber('GRAPH_MAX_DEPTH', 4),
+    maxNodes: getEnvNumber('GRAPH_MAX_NODES', 500),
+  },
+
+  // GET /events/decisions long-poll and SSE
+  events: {
+    maxWaitSeconds: getEnvNumber('EVENTS_MAX_WAIT_SECONDS', 30),
+    heartbeatMs: getEnvNumber('EVENTS_SSE_HEARTBEAT_MS', 15000),
+    visibilityTimeoutSeconds: getEnvNumber('EVENTS_VISIBILITY_TIMEOUT_SECONDS', 30),
+    maxVisibilityTimeoutSeconds: getEnvNumber('EVENTS_MAX_VISIBILITY_TIMEOUT_SECONDS', 43200),
+  },
+
+  // Deferred review outcomes
+  deferrals: {
+    sweepIntervalMs: getEnvNumber('DEFERRAL_SWEEP_INTERVAL_MS', 60000),
+  },
+
+  // Vector retention
+  retention: {
+    sweepIntervalMs: getEnvNumber('RETENTION_SWEEP_INTERVAL_MS', 3600000),
+    dryRun: getEnvBoolean('RETENTION_DRY_RUN', false),
+  },
+
+  // Webhook delivery
+  webhooks: {
+    pollIntervalMs: getEnvNumber('WEBHOOK_POLL_INTERVAL_MS', 5000),
+    timeoutMs: getEnvNumber('WEBHOOK_TIMEOUT_MS', 10000),
+    maxAttempts: getEnvNumber('WEBHOOK_MAX_ATTEMPTS', 5),
+    retryBaseMs: getEnvNumber('WEBHOOK_RETRY_BASE_MS', 1000),
+    retryMaxMs: getEnvNumber('WEBHOOK_RETRY_MAX_MS', 30000),
+    batchSize: getEnvNumber('WEBHOOK_BATCH_SIZE', 100),
+    allowedPrivateHosts: getEnvList('WEBHOOK_ALLOWED_PRIVATE_HOSTS', []),
+  },
+
+  // Entitlement context verification
+  entitlement: {
+    allowUnsigned: getEnvBoolean('ENTITLEMENT_ALLOW_UNSIGNED', false),
+    jwks: getOptionalEnvVar('ENTITLEMENT_JWKS'),
+    jwksFile: getOptionalEnvVar('ENTITLEMENT_JWKS_FILE'),
+    clockSkewSeconds: getEnvNumber('ENTITLEMENT_CLOCK_SKEW_SECONDS', 60),
+  },
+
+  // Scope-based authorization
+  authorization: {
+    enforce: getEnvBoolean('AUTHZ_ENFORCE', false),
+    anonymousScopes: getEnvList('AUTHZ_ANONYMOUS_SCOPES', []),
+    scopeAliases: AUTHORIZATION_SCOPE_ALIASES,
+    routes: { ...AUTHORIZATION_ROUTES, ...getEnvJson<Record<string, string>>('AUTHZ_POLICY') },
+  },
+
+  // Per-tenant rate limits and daily quotas
+  rateLimits: {
+    enabled: getEnvBoolean('RATE_LIMIT_ENABLED', true),
+    backend: getEnvChoice<RateLimitBackendKind>('RATE_LIMIT_BACKEND', ['memory', 'postgres'], 'memory'),
+    defaults: {
+      burst: getEnvNumber('RATE_LIMIT_BURST', 100),
+      perSecond: getEnvNumber('RATE_LIMIT_PER_SECOND', 20),
+      requestsPerDay: getEnvNumber('RATE_LIMIT_DAILY_REQUESTS', 0),
+      vectorsPerDay: getEnvNumber('RATE_LIMIT_DAILY_VECTORS', 0),
+      bytesPerDay: getEnvNumber('RATE_LIMIT_DAILY_BYTES', 0),
+    },
+    routes: getEnvJson<Record<string, Partial<RateLimits>>>('RATE_LIMIT_ROUTES') ?? {},
+    tenants: getEnvJson<Record<string, Partial<RateLimits>>>('RATE_LIMIT_TENANTS') ?? {},
   },
 
   // PostgreSQL Database configuration (for plans storage)
@@ -0,0 +1,29 @@
+/**
+ * Embedding provider contract
+ *
+ * Turns free text (e.g. a decision's embedding_text) into a fixed-length vector.
+ * `model` identifies the vector space: embeddings produced by different models
+ * are not comparable, so it is stored next to every persisted embedding.
+ */
+import { EmbeddingProviderKind } from '../types';
+
+export interface EmbeddingProvider {
+  readonly kind: EmbeddingProviderKind;
+  readonly model: string;
+  readonly dimension: number;
+
+  /** Embed a single text */
+  embed(text: string): Promise<number[]>;
+}
+
+/**
+ * Error raised when an embedding cannot be produced
+ */
+export class EmbeddingError extends Error {
+  constructor(message: string, public readonly code?: string) {
+    super(message);
+    this.name = 'EmbeddingError';
+  }
+}
+
+export type { EmbeddingProviderKind };
@@ -0,0 +1,71 @@
+/**
+ * Deterministic local embedder (feature hashing)
+ *
+ * Works offline with no model download: unigrams and bigrams are hashed into
+ * `dimension` buckets with a sign hash, weighted by sublinear term frequency
+ * (1 + ln tf) and L2-normalised. Texts sharing vocabulary get high cosine
+ * similarity; the same text always yields the same vector.
+ */
+import { EmbeddingProvider } from './EmbeddingProvider';
+
+export interface HashingEmbedderConfig {
+  dimension: number;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string, seed = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Lowercased alphanumeric tokens; single characters carry no signal
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(token => token.length > 1);
+}
+
+export class HashingEmbedder implements EmbeddingProvider {
+  readonly kind = 'hashing' as const;
+  readonly model: string;
+  readonly dimension: number;
+
+  constructor(config: HashingEmbedderConfig) {
+    if (!Number.isInteger(config.dimension) || config.dimension <= 0) {
+      throw new Error('HashingEmbedder dimension must be a positive integer');
+    }
+    this.dimension = config.dimension;
+    this.model = `hashing-v1-${config.dimension}`;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const tokens = tokenize(text);
+    const features = new Map<string, number>();
+
+    tokens.forEach((token, i) => {
+      features.set(token, (features.get(token) ?? 0) + 1);
+      if (i > 0) {
+        const bigram = `${tokens[i - 1]} ${token}`;
+        features.set(bigram, (features.get(bigram) ?? 0) + 1);
+      }
+    });
+
+    const vector = new Array<number>(this.dimension).fill(0);
+    for (const [feature, count] of features) {
+      const bucket = fnv1a(feature) % this.dimension;
+      const sign = fnv1a(feature, 0x9747b28c) & 1 ? -1 : 1;
+      vector[bucket] += sign * (1 + Math.log(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+}
+
+export default HashingEmbedder;
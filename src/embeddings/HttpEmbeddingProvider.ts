@@ -0,0 +1,80 @@
+/**
+ * Remote embedding provider
+ *
+ * Calls an OpenAI-compatible `POST {serviceUrl}/embeddings` endpoint
+ * (`{ model, input }` -> `{ data: [{ embedding }] }`).
+ */
+import { EmbeddingProvider, EmbeddingError } from './EmbeddingProvider';
+
+export interface HttpEmbeddingProviderConfig {
+  serviceUrl: string;
+  apiKey?: string;
+  model: string;
+  dimension: number;
+  timeout: number;
+}
+
+interface EmbeddingsResponse {
+  data?: Array<{ embedding?: number[] }>;
+}
+
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  readonly kind = 'http' as const;
+  readonly model: string;
+  readonly dimension: number;
+
+  private url: URL;
+  private apiKey?: string;
+  private timeout: number;
+
+  constructor(config: HttpEmbeddingProviderConfig) {
+    this.url = new URL('embeddings', config.serviceUrl.endsWith('/') ? config.serviceUrl : `${config.serviceUrl}/`);
+    this.apiKey = config.apiKey;
+    this.model = config.model;
+    this.dimension = config.dimension;
+    this.timeout = config.timeout;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const headers: Record<string, string> = { 'content-type': 'application/json' };
+    if (this.apiKey) {
+      headers.authorization = `Bearer ${this.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(this.url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ model: this.model, input: text }),
+        signal: AbortSignal.timeout(this.timeout),
+      });
+    } catch (error) {
+      const timedOut = (error as Error).name === 'TimeoutError';
+      throw new EmbeddingError(
+        timedOut ? `Embedding request timeout after ${this.timeout}ms` : `Embedding request error: ${(error as Error).message}`,
+        timedOut ? 'upstream_timeout' : 'upstream_error'
+      );
+    }
+
+    if (!response.ok) {
+      throw new EmbeddingError(`Embedding request failed with status ${response.status}`, 'upstream_error');
+    }
+
+    const body = (await response.json()) as EmbeddingsResponse;
+    const embedding = body.data?.[0]?.embedding;
+    if (!Array.isArray(embedding)) {
+      throw new EmbeddingError('Embedding response did not contain data[0].embedding', 'invalid_response');
+    }
+    if (embedding.length !== this.dimension) {
+      throw new EmbeddingError(
+        `Embedding dimension ${embedding.length} does not match configured EMBEDDING_DIMENSION ${this.dimension}`,
+        'dimension_mismatch'
+      );
+    }
+
+    return embedding;
+  }
+}
+
+export default HttpEmbeddingProvider;
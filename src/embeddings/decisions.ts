@@ -0,0 +1,35 @@
+/**
+ * Decision embeddings in the vector store
+ *
+ * PostgreSQL (decisions.embedding) is the source of truth; the `decisions`
+ * namespace is a searchable copy that the backfill job can rebuild at any time.
+ */
+import { VectorClient } from '../clients/VectorClient';
+import { DecisionRecord } from '../types';
+
+export const DECISIONS_NAMESPACE = 'decisions';
+
+/**
+ * Upsert a decision's embedding into the decisions namespace
+ */
+export async function indexDecisionEmbedding(
+  vectorClient: VectorClient,
+  decision: Pick<DecisionRecord, 'id' | 'objective' | 'recommendation' | 'confidence' | 'created_at'>,
+  embedding: number[],
+  model: string
+): Promise<void> {
+  await vectorClient.insert({
+    namespace: DECISIONS_NAMESPACE,
+    id: decision.id,
+    vector: embedding,
+    payload: {
+      objective: decision.objective,
+      recommendation: decision.recommendation,
+    },
+    metadata: {
+      confidence: decision.confidence,
+      embedding_model: model,
+    },
+    timestamp: decision.created_at,
+  });
+}
@@ -0,0 +1,45 @@
+/**
+ * Embedding providers
+ *
+ * Selected by EMBEDDING_PROVIDER: `hashing` (deterministic, offline) or
+ * `http` (OpenAI-compatible embeddings endpoint).
+ */
+import { EmbeddingProviderKind } from '../types';
+import { EmbeddingProvider } from './EmbeddingProvider';
+import { HashingEmbedder } from './HashingEmbedder';
+import { HttpEmbeddingProvider } from './HttpEmbeddingProvider';
+
+export interface EmbeddingOptions {
+  provider: EmbeddingProviderKind;
+  dimension: number;
+  serviceUrl?: string;
+  apiKey?: string;
+  model?: string;
+  timeout: number;
+}
+
+/**
+ * Build the configured embedding provider
+ */
+export function createEmbeddingProvider(options: EmbeddingOptions): EmbeddingProvider {
+  switch (options.provider) {
+    case 'http':
+      if (!options.serviceUrl || !options.model) {
+        throw new Error('EMBEDDING_SERVICE_URL and EMBEDDING_MODEL are required when EMBEDDING_PROVIDER=http');
+      }
+      return new HttpEmbeddingProvider({
+        serviceUrl: options.serviceUrl,
+        apiKey: options.apiKey,
+        model: options.model,
+        dimension: options.dimension,
+        timeout: options.timeout,
+      });
+    case 'hashing':
+      return new HashingEmbedder({ dimension: options.dimension });
+  }
+}
+
+export * from './EmbeddingProvider';
+export { HashingEmbedder, tokenize } from './HashingEmbedder';
+export { HttpEmbeddingProvider } from './HttpEmbeddingProvider';
+export { DECISIONS_NAMESPACE, indexDecisionEmbedding } from './decisions';
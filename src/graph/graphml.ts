@@ -0,0 +1,46 @@
+/**
+ * GraphML serialisation of decision/knowledge graphs (http://graphml.graphdrawing.org/)
+ */
+import { GraphNode, KnowledgeGraphEdge } from '../types';
+
+const escapeXml = (value: string): string =>
+  value.replace(/[<>&"']/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' })[char] as string);
+
+const data = (key: string, value: string | number | undefined): string =>
+  value === undefined ? '' : `<data key="${key}">${escapeXml(String(value))}</data>`;
+
+/**
+ * Directed GraphML document; edge ids are positional
+ */
+export function toGraphML(nodes: GraphNode[], edges: KnowledgeGraphEdge[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    '  <key id="type" for="node" attr.name="type" attr.type="string"/>',
+    '  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+    '  <key id="relation" for="edge" attr.name="relation" attr.type="string"/>',
+    '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+    '  <key id="update_count" for="edge" attr.name="update_count" attr.type="int"/>',
+    '  <key id="qualifier" for="edge" attr.name="qualifier" attr.type="string"/>',
+    '  <graph id="decisions" edgedefault="directed">',
+  ];
+
+  for (const node of nodes) {
+    lines.push(`    <node id="${escapeXml(node.id)}">${data('type', node.type)}${data('label', node.label)}</node>`);
+  }
+
+  edges.forEach((edge, index) => {
+    const learned = edge.relation === 'learned' ? edge : undefined;
+    lines.push(
+      `    <edge id="e${index}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}">` +
+      data('relation', edge.relation) +
+      data('weight', edge.weight) +
+      data('update_count', learned?.update_count) +
+      data('qualifier', learned?.qualifier) +
+      '</edge>'
+    );
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n') + '\n';
+}
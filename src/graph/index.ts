@@ -0,0 +1,34 @@
+/**
+ * Decision graph - materialisation and traversals over decisions.graph_relations,
+ * joined with learned recommendation weights
+ */
+export {
+  graphNodeId,
+  buildDecisionGraph,
+  materializeDecisionGraph,
+  type DecisionGraphSource,
+  type DecisionGraphEdge,
+} from './materialize';
+
+export {
+  loadGraphNodes,
+  neighbourhood,
+  shortestPath,
+  reposForSignal,
+  type NeighbourhoodOptions,
+  type NeighbourhoodResult,
+  type ShortestPathOptions,
+  type ShortestPathResult,
+  type RepoForSignal,
+} from './traversal';
+
+export {
+  loadLearnedEdges,
+  resolveLearnedNodes,
+  attachLearnedEdges,
+  strongestRecommendations,
+  weightedSubgraph,
+  type LearnedEdgeFilter,
+} from './learned';
+
+export { toGraphML } from './graphml';
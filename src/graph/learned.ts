@@ -0,0 +1,266 @@
+/**
+ * Learned edges - learning_weights joined onto the decision graph
+ *
+ * updateLearningWeight keys weights by learning source; this module maps them onto graph nodes:
+ *   decision  <decision id>          -> decision:<id>
+ *   objective <objective[0..200]>    -> objective:<objective>
+ *   signal    <type>:<summary[0..50]> -> signal:<type> (summary kept as the edge qualifier)
+ * Trajectory rows ("trajectory:<id>" -> "pattern:<type>") are bookkeeping and are not graph edges.
+ */
+import { DatabaseClient } from '../clients/DatabaseClient';
+import { GraphEdge, GraphNode, KnowledgeGraphEdge, LearnedGraphEdge, RecommendationStrength } from '../types';
+import { objectiveSourceId } from '../handlers/approvals';
+import { graphNodeId } from './materialize';
+import { loadGraphNodes } from './traversal';
+
+export interface LearnedEdgeFilter {
+  decisions?: string[];           // Decision node ids
+  objectives?: string[];          // Objective node ids
+  signals?: string[];             // Signal node ids
+  minWeight?: number;
+  limit?: number;
+}
+
+interface LearningWeightRow {
+  source_type: 'decision' | 'signal' | 'objective';
+  source_id: string;
+  target_value: string;
+  weight: number;
+  update_count: number;
+}
+
+const nodeKey = (nodeId: string): string => nodeId.slice(nodeId.indexOf(':') + 1);
+
+/**
+ * Map a learning_weights row onto a graph edge
+ */
+function toLearnedEdge(row: LearningWeightRow, objectiveNodes: Map<string, string>): LearnedGraphEdge {
+  const edge: LearnedGraphEdge = {
+    source: '',
+    target: graphNodeId('recommendation', row.target_value),
+    relation: 'learned',
+    weight: Number(row.weight),
+    update_count: Number(row.update_count),
+  };
+
+  if (row.source_type === 'signal') {
+    const separator = row.source_id.indexOf(':');
+    edge.source = graphNodeId('signal', separator === -1 ? row.source_id : row.source_id.slice(0, separator));
+    if (separator !== -1) edge.qualifier = row.source_id.slice(separator + 1);
+  } else if (row.source_type === 'objective') {
+    // Weights are keyed by a truncated objective; resolve back to the full node when it is known
+    edge.source = objectiveNodes.get(row.source_id) ?? graphNodeId('objective', row.source_id);
+  } else {
+    edge.source = graphNodeId('decision', row.source_id);
+  }
+
+  return edge;
+}
+
+/**
+ * Learned edges leaving the given nodes (or all learned edges when no nodes are given)
+ */
+export async function loadLearnedEdges(
+  dbClient: DatabaseClient,
+  filter: LearnedEdgeFilter = {}
+): Promise<LearnedGraphEdge[]> {
+  const objectiveNodes = new Map((filter.objectives ?? []).map(id => [objectiveSourceId(nodeKey(id)), id]));
+  const params: unknown[] = [];
+  const conditions = [
+    `target_type = 'recommendation'`,
+    `source_id NOT LIKE 'trajectory:%'`,
+  ];
+
+  if (filter.decisions || filter.objectives || filter.signals) {
+    params.push(
+      (filter.decisions ?? []).map(nodeKey),
+      Array.from(objectiveNodes.keys()),
+      (filter.signals ?? []).map(nodeKey)
+    );
+    conditions.push(`(
+      (source_type = 'decision' AND source_id = ANY($1))
+      OR (source_type = 'objective' AND source_id = ANY($2))
+      OR (source_type = 'signal' AND split_part(source_id, ':', 1) = ANY($3))
+    )`);
+  }
+  if (filter.minWeight !== undefined) {
+    params.push(filter.minWeight);
+    conditions.push(`weight >= $${params.length}`);
+  }
+  let limitClause = '';
+  if (filter.limit !== undefined) {
+    params.push(filter.limit);
+    limitClause = `LIMIT $${params.length}`;
+  }
+
+  const result = await dbClient.query<LearningWeightRow>(
+    `SELECT source_type, source_id, target_value, weight, update_count
+     FROM learning_weights
+     WHERE ${conditions.join(' AND ')}
+     ORDER BY weight DESC, source_type, source_id, target_value
+     ${limitClause}`,
+    params
+  );
+
+  return result.rows.map(row => toLearnedEdge(row, objectiveNodes));
+}
+
+/**
+ * Node stubs for learned-edge endpoints missing from graph_nodes (e.g. decisions stored before the graph existed)
+ */
+export async function resolveLearnedNodes(
+  dbClient: DatabaseClient,
+  edges: LearnedGraphEdge[],
+  known: Map<string, GraphNode> = new Map()
+): Promise<Map<string, GraphNode>> {
+  const ids = new Set<string>();
+  for (const edge of edges) {
+    if (!known.has(edge.source)) ids.add(edge.source);
+    if (!known.has(edge.target)) ids.add(edge.target);
+  }
+
+  const stored = await loadGraphNodes(dbClient, Array.from(ids));
+  const resolved = new Map(known);
+  for (const id of ids) {
+    const type = id.slice(0, id.indexOf(':')) as GraphNode['type'];
+    resolved.set(id, stored.get(id) ?? { id, type, label: nodeKey(id) });
+  }
+  return resolved;
+}
+
+/**
+ * Rank recommendations by learned weight from an objective/signal/decision set
+ *
+ * Each source contributes its learned weight once per recommendation; a signal node learned under
+ * several summaries contributes the update-count-weighted mean of those weights. Structural
+ * signal -supports-> recommendation counts are reported as `support` and break ties.
+ */
+export async function strongestRecommendations(
+  dbClient: DatabaseClient,
+  sources: { objective?: string; signals?: string[]; decision?: string },
+  limit: number
+): Promise<RecommendationStrength[]> {
+  const signals = sources.signals ?? [];
+  const learned = await loadLearnedEdges(dbClient, {
+    decisions: sources.decision ? [sources.decision] : [],
+    objectives: sources.objective ? [sources.objective] : [],
+    signals,
+  });
+
+  const ranked = new Map<string, RecommendationStrength>();
+  const entry = (recommendation: string): RecommendationStrength => {
+    let existing = ranked.get(recommendation);
+    if (!existing) {
+      existing = { recommendation, label: nodeKey(recommendation), weight: 0, support: 0, edges: [] };
+      ranked.set(recommendation, existing);
+    }
+    return existing;
+  };
+
+  // Group per (source, recommendation) so multi-summary signals count once
+  const perSource = new Map<string, LearnedGraphEdge[]>();
+  for (const edge of learned) {
+    const key = `${edge.source}\u0000${edge.target}`;
+    perSource.set(key, [...(perSource.get(key) ?? []), edge]);
+  }
+  for (const edges of perSource.values()) {
+    const updates = edges.reduce((sum, edge) => sum + Math.max(edge.update_count, 1), 0);
+    const weight = edges.reduce((sum, edge) => sum + edge.weight * Math.max(edge.update_count, 1), 0) / updates;
+    const strength = entry(edges[0].target);
+    strength.weight += weight;
+    strength.edges.push(...edges);
+  }
+
+  if (signals.length > 0) {
+    const support = await dbClient.query<{ target_id: string; support: number | string }>(
+      `SELECT target_id, COUNT(DISTINCT decision_id) AS support
+       FROM graph_edges
+       WHERE relation = 'supports' AND source_id = ANY($1)
+       GROUP BY target_id`,
+      [signals]
+    );
+    for (const row of support.rows) {
+      entry(row.target_id).support = Number(row.support);
+    }
+  }
+
+  return Array.from(ranked.values())
+    .map(strength => ({ ...strength, weight: Math.round(strength.weight * 1e6) / 1e6 }))
+    .sort((a, b) => b.weight - a.weight || b.support - a.support || a.recommendation.localeCompare(b.recommendation))
+    .slice(0, limit);
+}
+
+/**
+ * Weight-thresholded knowledge graph: structural edges with at least `minSupport` asserting
+ * decisions plus learned edges with weight >= `minWeight`, strongest first, at most `limit` of each
+ */
+export async function weightedSubgraph(
+  dbClient: DatabaseClient,
+  options: { minWeight: number; minSupport: number; limit: number; learned: boolean }
+): Promise<{ nodes: GraphNode[]; edges: KnowledgeGraphEdge[]; truncated: boolean }> {
+  const structural = await dbClient.query<{ source_id: string; target_id: string; relation: GraphEdge['relation']; weight: number | string }>(
+    `SELECT source_id, target_id, relation, COUNT(*) AS weight
+     FROM graph_edges
+     GROUP BY source_id, target_id, relation
+     HAVING COUNT(*) >= $1
+     ORDER BY weight DESC, source_id, target_id, relation
+     LIMIT $2`,
+    [options.minSupport, options.limit + 1]
+  );
+  const learned = options.learned
+    ? await loadLearnedEdges(dbClient, { minWeight: options.minWeight, limit: options.limit + 1 })
+    : [];
+
+  const kept: KnowledgeGraphEdge[] = [
+    ...structural.rows.slice(0, options.limit).map(row => ({
+      source: row.source_id,
+      target: row.target_id,
+      relation: row.relation,
+      weight: Number(row.weight),
+    })),
+    ...learned.slice(0, options.limit),
+  ];
+  const truncated = structural.rows.length > options.limit || learned.length > options.limit;
+
+  const ids = new Set(kept.flatMap(edge => [edge.source, edge.target]));
+  const nodes = await loadGraphNodes(dbClient, Array.from(ids));
+  const resolved = await resolveLearnedNodes(
+    dbClient,
+    kept.filter((edge): edge is LearnedGraphEdge => edge.relation === 'learned'),
+    nodes
+  );
+
+  return {
+    nodes: Array.from(ids).map(id => resolved.get(id) as GraphNode).filter(Boolean),
+    edges: kept,
+    truncated,
+  };
+}
+
+/**
+ * Add learned edges leaving a traversal result's decision/objective/signal nodes;
+ * recommendation nodes reached only through learning are placed one hop beyond their source
+ */
+export async function attachLearnedEdges<T extends { nodes: GraphNode[]; edges: KnowledgeGraphEdge[] }>(
+  dbClient: DatabaseClient,
+  result: T
+): Promise<Omit<T, 'edges'> & { edges: KnowledgeGraphEdge[] }> {
+  const ofType = (type: GraphNode['type']) => result.nodes.filter(node => node.type === type).map(node => node.id);
+  const learned = await loadLearnedEdges(dbClient, {
+    decisions: ofType('decision'),
+    objectives: ofType('objective'),
+    signals: ofType('signal'),
+  });
+  if (learned.length === 0) return result;
+
+  const known = new Map(result.nodes.map(node => [node.id, node]));
+  const resolved = await resolveLearnedNodes(dbClient, learned, known);
+  const added: GraphNode[] = [];
+  for (const edge of learned) {
+    if (known.has(edge.target) || added.some(node => node.id === edge.target)) continue;
+    const sourceDepth = known.get(edge.source)?.depth;
+    added.push({ ...(resolved.get(edge.target) as GraphNode), depth: sourceDepth === undefined ? undefined : sourceDepth + 1 });
+  }
+
+  return { ...result, nodes: [...result.nodes, ...added], edges: [...result.edges, ...learned] };
+}
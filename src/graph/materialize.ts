@@ -0,0 +1,110 @@
+/**
+ * Decision graph materialisation
+ *
+ * Projects a decision's graph_relations into graph_nodes/graph_edges:
+ *   decision -addresses-> objective -involves-> repo -emits-> signal -supports-> recommendation
+ *   decision -recommends-> recommendation
+ * Edges are stored per asserting decision, so re-storing a decision replaces only its own edges.
+ * Rows belong to the current tenant: each tenant has its own graph.
+ */
+import { DatabaseClient } from '../clients/DatabaseClient';
+import { DecisionRecord, GraphNode, GraphNodeType, GraphRelation } from '../types';
+import { extractRecommendationType } from '../handlers/approvals';
+
+export type DecisionGraphSource = Pick<DecisionRecord, 'id' | 'objective' | 'recommendation' | 'graph_relations'>;
+
+export interface DecisionGraphEdge {
+  source: string;
+  target: string;
+  relation: GraphRelation;
+}
+
+/**
+ * Canonical node id: "<type>:<key>" (recommendation keys are upper-cased)
+ */
+export function graphNodeId(type: GraphNodeType, key: string): string {
+  const trimmed = key.trim();
+  return `${type}:${type === 'recommendation' ? trimmed.toUpperCase() : trimmed}`;
+}
+
+/**
+ * Nodes and edges asserted by a single decision
+ */
+export function buildDecisionGraph(decision: DecisionGraphSource): { nodes: GraphNode[]; edges: DecisionGraphEdge[] } {
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, DecisionGraphEdge>();
+
+  const node = (type: GraphNodeType, key: string): string => {
+    const id = graphNodeId(type, key);
+    if (!nodes.has(id)) {
+      nodes.set(id, { id, type, label: key.trim() });
+    }
+    return id;
+  };
+  const edge = (source: string, target: string, relation: GraphRelation): void => {
+    edges.set(`${source}\u0000${target}\u0000${relation}`, { source, target, relation });
+  };
+
+  const relations = decision.graph_relations;
+  const decisionNode = node('decision', decision.id);
+  const objectiveNode = node('objective', decision.objective);
+  edge(decisionNode, objectiveNode, 'addresses');
+
+  for (const repo of relations.objective_to_repos) {
+    edge(objectiveNode, node('repo', repo), 'involves');
+  }
+
+  const recommendations = relations.signals_to_recommendation.filter(value => value.trim().length > 0);
+  const recommendationType = extractRecommendationType(decision.recommendation);
+  if (recommendationType !== 'UNKNOWN') {
+    recommendations.push(recommendationType);
+  }
+  const recommendationNodes = recommendations.map(value => node('recommendation', value));
+
+  for (const [repo, signals] of Object.entries(relations.repos_to_signals)) {
+    const repoNode = node('repo', repo);
+    for (const signal of signals) {
+      const signalNode = node('signal', signal);
+      edge(repoNode, signalNode, 'emits');
+      for (const recommendationNode of recommendationNodes) {
+        edge(signalNode, recommendationNode, 'supports');
+      }
+    }
+  }
+
+  for (const recommendationNode of recommendationNodes) {
+    edge(decisionNode, recommendationNode, 'recommends');
+  }
+
+  return { nodes: Array.from(nodes.values()), edges: Array.from(edges.values()) };
+}
+
+/**
+ * Write (or replace) the graph projection of a decision in one transaction
+ */
+export async function materializeDecisionGraph(
+  dbClient: DatabaseClient,
+  decision: DecisionGraphSource
+): Promise<{ nodes: number; edges: number }> {
+  const { nodes, edges } = buildDecisionGraph(decision);
+
+  await dbClient.transaction(async (client) => {
+    await client.query(
+      `INSERT INTO graph_nodes (id, type, label)
+       SELECT * FROM unnest($1::text[], $2::text[], $3::text[])
+       ON CONFLICT (tenant_id, id) DO NOTHING`,
+      [nodes.map(n => n.id), nodes.map(n => n.type), nodes.map(n => n.label)]
+    );
+
+    await client.query('DELETE FROM graph_edges WHERE decision_id = $1', [decision.id]);
+
+    await client.query(
+      `INSERT INTO graph_edges (source_id, target_id, relation, decision_id)
+       SELECT source_id, target_id, relation, $4
+       FROM unnest($1::text[], $2::text[], $3::text[]) AS e(source_id, target_id, relation)`,
+      [edges.map(e => e.source), edges.map(e => e.target), edges.map(e => e.relation), decision.id]
+    );
+  });
+
+  return { nodes: nodes.length, edges: edges.length };
+}
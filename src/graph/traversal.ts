@@ -0,0 +1,224 @@
+/**
+ * Decision graph traversals
+ *
+ * Breadth-first, one edge query per hop, so cost is bounded by the depth limit
+ * rather than the size of the graph. Edges asserted by several decisions are
+ * collapsed into one with weight = number of asserting decisions.
+ */
+import { DatabaseClient } from '../clients/DatabaseClient';
+import { GraphDirection, GraphEdge, GraphNode, GraphRelation } from '../types';
+
+export interface NeighbourhoodOptions {
+  depth: number;
+  direction: GraphDirection;
+  relations?: GraphRelation[];
+  maxNodes: number;
+}
+
+export interface ShortestPathOptions {
+  maxDepth: number;
+  direction: GraphDirection;
+}
+
+export interface NeighbourhoodResult {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  truncated: boolean;             // maxNodes reached before the depth limit
+}
+
+export interface ShortestPathResult {
+  found: boolean;
+  length: number | null;          // Hops from `from` to `to`
+  nodes: GraphNode[];             // Path order, from -> to
+  edges: GraphEdge[];
+}
+
+export interface RepoForSignal extends GraphNode {
+  weight: number;                 // Decisions with a direct repo -emits-> signal edge (0 when indirect)
+}
+
+const edgeKey = (edge: GraphEdge): string => `${edge.source}\u0000${edge.target}\u0000${edge.relation}`;
+
+/**
+ * Load nodes by id
+ */
+export async function loadGraphNodes(dbClient: DatabaseClient, ids: string[]): Promise<Map<string, GraphNode>> {
+  if (ids.length === 0) return new Map();
+  const result = await dbClient.query<GraphNode>(
+    'SELECT id, type, label FROM graph_nodes WHERE id = ANY($1)',
+    [ids]
+  );
+  return new Map(result.rows.map(row => [row.id, { id: row.id, type: row.type, label: row.label }]));
+}
+
+/**
+ * Edges incident to the frontier in the requested direction
+ */
+async function loadIncidentEdges(
+  dbClient: DatabaseClient,
+  frontier: string[],
+  direction: GraphDirection,
+  relations?: GraphRelation[]
+): Promise<GraphEdge[]> {
+  const incidence = {
+    out: 'source_id = ANY($1)',
+    in: 'target_id = ANY($1)',
+    both: '(source_id = ANY($1) OR target_id = ANY($1))',
+  }[direction];
+  const params: unknown[] = [frontier];
+  let relationClause = '';
+  if (relations && relations.length > 0) {
+    params.push(relations);
+    relationClause = 'AND relation = ANY($2)';
+  }
+
+  const result = await dbClient.query<{ source_id: string; target_id: string; relation: GraphRelation; weight: number | string }>(
+    `SELECT source_id, target_id, relation, COUNT(*) AS weight
+     FROM graph_edges
+     WHERE ${incidence} ${relationClause}
+     GROUP BY source_id, target_id, relation
+     ORDER BY source_id, target_id, relation`,
+    params
+  );
+
+  return result.rows.map(row => ({
+    source: row.source_id,
+    target: row.target_id,
+    relation: row.relation,
+    weight: Number(row.weight),
+  }));
+}
+
+/**
+ * Nodes reachable from an edge endpoint in the frontier, honouring direction
+ */
+function reachable(edge: GraphEdge, frontier: Set<string>, direction: GraphDirection): string[] {
+  const next: string[] = [];
+  if (direction !== 'in' && frontier.has(edge.source)) next.push(edge.target);
+  if (direction !== 'out' && frontier.has(edge.target)) next.push(edge.source);
+  return next;
+}
+
+/**
+ * Nodes and edges within `depth` hops of root; null when root does not exist
+ */
+export async function neighbourhood(
+  dbClient: DatabaseClient,
+  root: string,
+  options: NeighbourhoodOptions
+): Promise<NeighbourhoodResult | null> {
+  const rootNodes = await loadGraphNodes(dbClient, [root]);
+  if (!rootNodes.has(root)) return null;
+
+  const depths = new Map<string, number>([[root, 0]]);
+  const edges = new Map<string, GraphEdge>();
+  let frontier = [root];
+  let truncated = false;
+
+  for (let level = 1; level <= options.depth && frontier.length > 0; level++) {
+    const frontierSet = new Set(frontier);
+    const next: string[] = [];
+
+    for (const edge of await loadIncidentEdges(dbClient, frontier, options.direction, options.relations)) {
+      edges.set(edgeKey(edge), edge);
+      for (const id of reachable(edge, frontierSet, options.direction)) {
+        if (depths.has(id)) continue;
+        if (depths.size >= options.maxNodes) {
+          truncated = true;
+          continue;
+        }
+        depths.set(id, level);
+        next.push(id);
+      }
+    }
+
+    frontier = next;
+  }
+
+  const nodes = await loadGraphNodes(dbClient, Array.from(depths.keys()));
+
+  return {
+    nodes: Array.from(depths.entries())
+      .filter(([id]) => nodes.has(id))
+      .map(([id, depth]) => ({ ...(nodes.get(id) as GraphNode), depth })),
+    // Drop edges leading to nodes cut off by maxNodes
+    edges: Array.from(edges.values()).filter(edge => depths.has(edge.source) && depths.has(edge.target)),
+    truncated,
+  };
+}
+
+/**
+ * Fewest-hop path between two nodes within maxDepth; null when either node does not exist
+ */
+export async function shortestPath(
+  dbClient: DatabaseClient,
+  from: string,
+  to: string,
+  options: ShortestPathOptions
+): Promise<ShortestPathResult | null> {
+  const endpoints = await loadGraphNodes(dbClient, [from, to]);
+  if (!endpoints.has(from) || !endpoints.has(to)) return null;
+
+  const parents = new Map<string, { previous: string; edge: GraphEdge } | null>([[from, null]]);
+  let frontier = [from];
+
+  for (let level = 1; level <= options.maxDepth && frontier.length > 0 && !parents.has(to); level++) {
+    const frontierSet = new Set(frontier);
+    const next: string[] = [];
+
+    for (const edge of await loadIncidentEdges(dbClient, frontier, options.direction)) {
+      for (const id of reachable(edge, frontierSet, options.direction)) {
+        if (parents.has(id)) continue;
+        parents.set(id, { previous: id === edge.target ? edge.source : edge.target, edge });
+        next.push(id);
+      }
+    }
+
+    frontier = next;
+  }
+
+  if (!parents.has(to)) {
+    return { found: false, length: null, nodes: [], edges: [] };
+  }
+
+  const pathIds = [to];
+  const pathEdges: GraphEdge[] = [];
+  for (let step = parents.get(to); step; step = parents.get(step.previous)) {
+    pathIds.unshift(step.previous);
+    pathEdges.unshift(step.edge);
+  }
+
+  const nodes = await loadGraphNodes(dbClient, pathIds);
+  return {
+    found: true,
+    length: pathEdges.length,
+    nodes: pathIds.map(id => nodes.get(id) as GraphNode),
+    edges: pathEdges,
+  };
+}
+
+/**
+ * Repos within `depth` hops of a signal (direct emitters first) plus the connecting subgraph;
+ * null when the signal does not exist
+ */
+export async function reposForSignal(
+  dbClient: DatabaseClient,
+  signal: string,
+  options: Pick<NeighbourhoodOptions, 'depth' | 'maxNodes'>
+): Promise<(NeighbourhoodResult & { repos: RepoForSignal[] }) | null> {
+  const result = await neighbourhood(dbClient, signal, { ...options, direction: 'both' });
+  if (!result) return null;
+
+  const directWeights = new Map(
+    result.edges
+      .filter(edge => edge.relation === 'emits' && edge.target === signal)
+      .map(edge => [edge.source, edge.weight])
+  );
+
+  const repos = result.nodes
+    .filter(node => node.type === 'repo')
+    .map(node => ({ ...node, weight: directWeights.get(node.id) ?? 0 }))
+    .sort((a, b) => (a.depth ?? 0) - (b.depth ?? 0) || b.weight - a.weight || a.id.localeCompare(b.id));
+
+  return { ...result, repos };
+}
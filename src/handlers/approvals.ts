@@ -9,6 +9,7 @@ import { DatabaseClient } from '../clients/DatabaseClient';
 import {
   DecisionRecord,
   CreateApprovalResponse,
+  ReviewOutcome,
 } from '../types';
 import logger from '../utils/logger';
 import { getOrCreateCorrelationId } from '../utils/correlation';
@@ -16,24 +17,94 @@ import { getOrCreateCorrelationId } from '../utils/correlation';
 // Learning rate for weight updates
 const LEARNING_RATE = 0.1;
 
+// Deferral is a mild negative: the recommendation was not actionable yet, but not wrong
+export const DEFER_REWARD = -0.25;
+
+export const REVIEW_OUTCOMES = ['approve', 'reject', 'defer'] as const;
+
+// Base reward per outcome, before confidence_adjustment
+const OUTCOME_REWARDS: Record<ReviewOutcome, number> = {
+  approve: 1.0,
+  reject: -1.0,
+  defer: DEFER_REWARD,
+};
+
 // Validation schema for approval event
+// `outcome` supersedes the legacy boolean `approved`; either may be sent, but they must agree
 export const createApprovalSchema = z.object({
   decision_id: z.string().min(1),           // Accept any string ID format
-  approved: z.boolean(),
+  approved: z.boolean().optional(),
+  outcome: z.enum(REVIEW_OUTCOMES).optional(),
+  defer_until: z.string().datetime({ offset: true }).optional(),  // Required for defer
+  defer_reason: z.string().trim().min(1).max(1000).optional(),    // Required for defer
   confidence_adjustment: z.number().min(-1).max(1).optional(),
   advisory: z.boolean().optional().default(false),  // Advisory approvals don't trigger execution
   timestamp: z.string().optional(),
+}).superRefine((data, ctx) => {
+  if (data.outcome === undefined && data.approved === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['outcome'], message: 'Either outcome or approved is required' });
+    return;
+  }
+  if (data.outcome !== undefined && data.approved !== undefined && data.approved !== (data.outcome === 'approve')) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['approved'], message: `approved conflicts with outcome '${data.outcome}'` });
+  }
+
+  if (data.outcome === 'defer') {
+    if (data.defer_until === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['defer_until'], message: 'defer_until is required when deferring' });
+    } else if (Date.parse(data.defer_until) <= Date.now()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['defer_until'], message: 'defer_until must be in the future' });
+    }
+    if (data.defer_reason === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['defer_reason'], message: 'defer_reason is required when deferring' });
+    }
+    if (data.advisory) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['advisory'], message: 'Advisory reviews cannot defer a plan' });
+    }
+  } else {
+    for (const field of ['defer_until', 'defer_reason'] as const) {
+      if (data[field] !== undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `${field} is only valid with outcome 'defer'` });
+      }
+    }
+  }
 });
 
+/**
+ * Tri-state outcome of a validated approval body
+ */
+export function resolveReviewOutcome(data: { outcome?: ReviewOutcome; approved?: boolean }): ReviewOutcome {
+  return data.outcome ?? (data.approved ? 'approve' : 'reject');
+}
+
+// Recommendation types learning_weights edges point at
+export const RECOMMENDATION_TYPES = ['PROCEED', 'DEFER', 'REJECT', 'REVIEW', 'HALT'] as const;
+
+const RECOMMENDATION_TYPE_PATTERN = new RegExp(`^(${RECOMMENDATION_TYPES.join('|')})`, 'i');
+
 /**
  * Extract recommendation type from recommendation string
  * e.g., "PROCEED: Ready to deploy" -> "PROCEED"
  */
-function extractRecommendationType(recommendation: string): string {
-  const match = recommendation.match(/^(PROCEED|DEFER|REJECT|REVIEW|HALT)/i);
+export function extractRecommendationType(recommendation: string): string {
+  const match = recommendation.match(RECOMMENDATION_TYPE_PATTERN);
   return match ? match[1].toUpperCase() : 'UNKNOWN';
 }
 
+/**
+ * learning_weights source_id for a signal edge: signal type plus truncated summary
+ */
+export function signalSourceId(signalType: string, signalValue: string): string {
+  return `${signalType}:${signalValue.substring(0, 50)}`;
+}
+
+/**
+ * learning_weights source_id for an objective edge: truncated objective text
+ */
+export function objectiveSourceId(objective: string): string {
+  return objective.substring(0, 200);
+}
+
 /**
  * Apply reward to a learning weight edge
  * Uses exponential moving average for smooth updates
@@ -52,7 +123,7 @@ async function updateLearningWeight(
   await dbClient.query(
     `INSERT INTO learning_weights (id, source_type, source_id, target_type, target_value, weight, update_count, created_at, updated_at)
      VALUES ($1, $2, $3, 'recommendation', $4, $5, 1, $6, $6)
-     ON CONFLICT (source_type, source_id, target_type, target_value)
+     ON CONFLICT (tenant_id, source_type, source_id, target_type, target_value)
      DO UPDATE SET
        weight = learning_weights.weight + $7 * ($5 - learning_weights.weight),
        update_count = learning_weights.update_count + 1,
@@ -61,6 +132,48 @@ async function updateLearningWeight(
   );
 }
 
+/**
+ * Respond 200 with the decision's final (approve/reject) non-advisory review, if it has one
+ * Returns false when there is none so the caller carries on
+ */
+async function respondWithFinalReview(
+  res: Response,
+  dbClient: DatabaseClient,
+  decisionId: string,
+  correlationId: string
+): Promise<boolean> {
+  const existingResult = await dbClient.query<{ id: string; reward: number; outcome: ReviewOutcome }>(
+    `SELECT id, reward, outcome FROM approvals
+     WHERE decision_id = $1 AND advisory = false AND outcome <> 'defer'`,
+    [decisionId]
+  );
+  if (existingResult.rows.length === 0) {
+    return false;
+  }
+
+  const existing = existingResult.rows[0];
+  logger.info(
+    {
+      correlationId,
+      decisionId,
+      existingApprovalId: existing.id,
+    },
+    'Idempotent approval: non-advisory approval already exists for decision'
+  );
+
+  const response: CreateApprovalResponse = {
+    id: existing.id,
+    decision_id: decisionId,
+    outcome: existing.outcome,
+    reward: existing.reward,
+    weights_updated: 0,
+    learning_applied: false,
+  };
+
+  res.status(200).json(response);
+  return true;
+}
+
 /**
  * POST /decision/approval - Process approval event and apply learning
  */
@@ -78,11 +191,13 @@ export async function createApprovalHandler(
 
     const {
       decision_id,
-      approved,
       confidence_adjustment,
       advisory,
       timestamp,
+      defer_until,
+      defer_reason,
     } = validatedData;
+    const outcome = resolveReviewOutcome(validatedData);
 
     // Load the associated decision record
     const decisionResult = await dbClient.query<DecisionRecord>(
@@ -102,8 +217,13 @@ export async function createApprovalHandler(
 
     const decision = decisionResult.rows[0];
 
-    // Derive reward signal: +1.0 for approval, -1.0 for rejection
-    const reward = approved ? 1.0 : -1.0;
+    // A decided plan cannot be deferred - answer with the final outcome as for a repeated approval
+    if (outcome === 'defer' && await respondWithFinalReview(res, dbClient, decision_id, correlationId)) {
+      return;
+    }
+
+    // Derive reward signal: +1.0 for approval, -1.0 for rejection, DEFER_REWARD for deferral
+    const reward = OUTCOME_REWARDS[outcome];
 
     // Apply confidence adjustment if provided
     const adjustedReward = confidence_adjustment
@@ -115,46 +235,34 @@ export async function createApprovalHandler(
     const eventTimestamp = timestamp || new Date().toISOString();
     const now = new Date().toISOString();
 
-    // Insert approval with idempotency protection for non-advisory approvals
-    // Only one non-advisory approval per decision is allowed (triggers plan_approved event)
-    // Advisory approvals can be added multiple times (for review tracking without execution)
+    // Insert approval with idempotency protection for final non-advisory outcomes
+    // Only one non-advisory approve/reject per decision is allowed (triggers plan_approved event)
+    // Advisory approvals and deferrals can be added multiple times
     const insertResult = await dbClient.query(
-      `INSERT INTO approvals (id, decision_id, approved, confidence_adjustment, reward, advisory, timestamp, created_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-       ON CONFLICT (decision_id) WHERE advisory = false
+      `INSERT INTO approvals (id, decision_id, approved, outcome, defer_until, defer_reason, confidence_adjustment, reward, advisory, timestamp, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       ON CONFLICT (decision_id) WHERE advisory = false AND outcome <> 'defer'
        DO NOTHING
        RETURNING id`,
-      [approvalId, decision_id, approved, confidence_adjustment || null, adjustedReward, advisory, eventTimestamp, now]
+      [
+        approvalId,
+        decision_id,
+        outcome === 'approve',
+        outcome,
+        defer_until ?? null,
+        defer_reason ?? null,
+        confidence_adjustment || null,
+        adjustedReward,
+        advisory,
+        eventTimestamp,
+        now,
+      ]
     );
 
     // Check if insert was skipped due to existing non-advisory approval
-    if (!advisory && insertResult.rowCount === 0) {
-      // Fetch existing approval for idempotent response
-      const existingResult = await dbClient.query<{ id: string; reward: number }>(
-        `SELECT id, reward FROM approvals WHERE decision_id = $1 AND advisory = false`,
-        [decision_id]
-      );
-      if (existingResult.rows.length > 0) {
-        logger.info(
-          {
-            correlationId,
-            decisionId: decision_id,
-            existingApprovalId: existingResult.rows[0].id,
-          },
-          'Idempotent approval: non-advisory approval already exists for decision'
-        );
-
-        const response: CreateApprovalResponse = {
-          id: existingResult.rows[0].id,
-          decision_id,
-          reward: existingResult.rows[0].reward,
-          weights_updated: 0,
-          learning_applied: false,
-        };
-
-        res.status(200).json(response);
-        return;
-      }
+    if (!advisory && insertResult.rowCount === 0
+      && await respondWithFinalReview(res, dbClient, decision_id, correlationId)) {
+      return;
     }
 
     // Extract recommendation type for edge updates
@@ -177,7 +285,7 @@ export async function createApprovalHandler(
     const signals = decision.signals as { financial: string; risk: string; complexity: string };
     for (const [signalType, signalValue] of Object.entries(signals)) {
       // Create a composite signal ID from type and summary hash
-      const signalId = `${signalType}:${signalValue.substring(0, 50)}`;
+      const signalId = signalSourceId(signalType, signalValue);
       await updateLearningWeight(
         dbClient,
         'signal',
@@ -190,7 +298,7 @@ export async function createApprovalHandler(
 
     // 3. Update objective → recommendation trajectory
     // Use objective text (truncated) as identifier
-    const objectiveId = decision.objective.substring(0, 200);
+    const objectiveId = objectiveSourceId(decision.objective);
     await updateLearningWeight(
       dbClient,
       'objective',
@@ -206,7 +314,7 @@ export async function createApprovalHandler(
     await dbClient.query(
       `INSERT INTO learning_weights (id, source_type, source_id, target_type, target_value, weight, update_count, created_at, updated_at)
        VALUES ($1, 'decision', $2, 'recommendation', $3, $4, 1, $5, $5)
-       ON CONFLICT (source_type, source_id, target_type, target_value)
+       ON CONFLICT (tenant_id, source_type, source_id, target_type, target_value)
        DO UPDATE SET
          weight = learning_weights.weight + $6 * ($4 - learning_weights.weight),
          update_count = learning_weights.update_count + 1,
@@ -220,7 +328,8 @@ export async function createApprovalHandler(
         correlationId,
         approvalId,
         decisionId: decision_id,
-        approved,
+        outcome,
+        deferUntil: defer_until,
         advisory,
         reward: adjustedReward,
         recommendationType,
@@ -232,6 +341,8 @@ export async function createApprovalHandler(
     const response: CreateApprovalResponse = {
       id: approvalId,
       decision_id,
+      outcome,
+      ...(defer_until ? { defer_until } : {}),
       reward: adjustedReward,
       weights_updated: weightsUpdated,
       learning_applied: true,
@@ -265,4 +376,5 @@ export async function createApprovalHandler(
 export default {
   createApprovalHandler,
   createApprovalSchema,
+  resolveReviewOutcome,
 };
@@ -0,0 +1,649 @@
+/**
+ * Decision Event Consumer Groups
+ *
+ * GET /events/decisions?group=<name> leases events to a named group instead of serving a
+ * client-side cursor: each event goes to one consumer of the group and stays in flight for
+ * the visibility timeout. POST /events/decisions/ack and /nack settle events by id; events
+ * neither acked nor nacked in time are re-delivered, so a consumer crashing mid-batch neither
+ * replays its whole history nor loses events. The group's committed offset advances past
+ * every contiguously acked event.
+ */
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { DatabaseClient } from '../clients/DatabaseClient';
+import { config } from '../config';
+import {
+  DecisionEvent,
+  DecisionEventType,
+  GroupDecisionEvent,
+  GroupDecisionEventsResponse,
+  DecisionEventGroup,
+  AckDecisionEventsResponse,
+  NackDecisionEventsResponse,
+  DeleteDecisionEventGroupResponse,
+} from '../types';
+import {
+  AFTER_CURSOR_CTE,
+  FALLBACK_POLL_MS,
+  acceptsEventStream,
+  cursorParams,
+  fetchOutboxEvents,
+  hasHeldBackEvents,
+  parseEventTypes,
+  parseLimit,
+  parseWaitSeconds,
+  sanitizeCursor,
+  sanitizeQueryParam,
+  waitForEvents,
+} from './decisionEvents';
+import logger from '../utils/logger';
+import { getOrCreateCorrelationId } from '../utils/correlation';
+
+/**
+ * Group names appear in metric labels and URLs
+ */
+const groupNameSchema = z.string().regex(
+  /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/,
+  'group must be 1-128 letters, digits, ".", "_" or "-"'
+);
+
+// Event ids settled per ack/nack request
+const MAX_SETTLE_IDS = 1000;
+
+// Validation schema for POST /events/decisions/ack
+export const ackDecisionEventsSchema = z.object({
+  group: groupNameSchema,
+  event_ids: z.array(z.string().min(1)).min(1).max(MAX_SETTLE_IDS),
+});
+
+// Validation schema for POST /events/decisions/nack
+export const nackDecisionEventsSchema = ackDecisionEventsSchema.extend({
+  delay_seconds: z.number().min(0).max(config.events.maxVisibilityTimeoutSeconds).default(0),
+});
+
+/**
+ * Lease attempts when concurrent consumers of a group claim the same new events
+ */
+const CLAIM_ATTEMPTS = 3;
+
+interface GroupRow {
+  name: string;
+  event_types: DecisionEventType[];
+  committed_cursor: string | null;
+}
+
+interface GroupStatusRow extends GroupRow {
+  in_flight: number;
+  lag: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface DeliveryRow {
+  seq: string;
+  tx_id: string;
+  event: DecisionEvent;
+  delivery_count: number;
+}
+
+// Lag of a group: outbox events of its types after the committed offset
+const GROUP_LAG_SQL = `(SELECT COUNT(*) FROM decision_events e
+       WHERE e.event_type = ANY(g.event_types)
+         AND e.tenant_id = g.tenant_id
+         AND (e.tx_id, e.seq) > (g.committed_tx_id, g.committed_seq))::int`;
+
+/**
+ * Parse ?visibility_timeout= seconds - defaults to EVENTS_VISIBILITY_TIMEOUT_SECONDS,
+ * clamped to EVENTS_MAX_VISIBILITY_TIMEOUT_SECONDS
+ */
+function parseVisibilityTimeout(param: unknown): number {
+  const parsed = parseFloat(sanitizeQueryParam(param) || '');
+  if (isNaN(parsed) || parsed <= 0) return config.events.visibilityTimeoutSeconds;
+  return Math.min(parsed, config.events.maxVisibilityTimeoutSeconds);
+}
+
+/**
+ * Outbox (tx_id, seq) order; both are 64-bit, so compare as bigints
+ */
+function comparePosition(a: DeliveryRow, b: DeliveryRow): number {
+  const [aTx, bTx, aSeq, bSeq] = [BigInt(a.tx_id), BigInt(b.tx_id), BigInt(a.seq), BigInt(b.seq)];
+  if (aTx !== bTx) return aTx < bTx ? -1 : 1;
+  return aSeq === bSeq ? 0 : aSeq < bSeq ? -1 : 1;
+}
+
+async function findGroup(dbClient: DatabaseClient, name: string): Promise<GroupRow | null> {
+  const result = await dbClient.query<GroupRow>(
+    'SELECT name, event_types, committed_cursor FROM decision_event_groups WHERE name = $1',
+    [name]
+  );
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Look up a group, creating it on first use with its offset at `after` (null = start of the feed)
+ * Group names are per tenant.
+ */
+async function ensureGroup(
+  dbClient: DatabaseClient,
+  name: string,
+  eventTypes: DecisionEventType[],
+  after: string | null
+): Promise<GroupRow> {
+  const existing = await findGroup(dbClient, name);
+  if (existing) return existing;
+
+  await dbClient.query(
+    `${AFTER_CURSOR_CTE}
+     INSERT INTO decision_event_groups (name, event_types, committed_cursor, committed_tx_id, committed_seq)
+     SELECT $5, $1, $6, after.tx_id, after.seq FROM after
+     ON CONFLICT (tenant_id, name) DO NOTHING`,
+    [...cursorParams(eventTypes, after), name, after]
+  );
+  logger.info({ group: name, eventTypes, after }, 'Decision event consumer group created');
+
+  // A concurrent first poll may have won the insert
+  const group = await findGroup(dbClient, name);
+  if (!group) {
+    throw new Error(`Consumer group ${name} was deleted while it was being created`);
+  }
+  return group;
+}
+
+/**
+ * Cursor of the last event handed to the group - new events are leased after it
+ */
+async function groupHighWaterCursor(dbClient: DatabaseClient, name: string): Promise<string | null> {
+  const result = await dbClient.query<{ cursor: string | null }>(
+    `SELECT COALESCE(
+       (SELECT event_id FROM decision_event_deliveries WHERE group_name = $1 ORDER BY tx_id DESC, seq DESC LIMIT 1),
+       (SELECT committed_cursor FROM decision_event_groups WHERE name = $1)
+     ) AS cursor`,
+    [name]
+  );
+  return result.rows[0]?.cursor ?? null;
+}
+
+/**
+ * Re-lease in-flight events whose visibility timeout lapsed (or that were nacked)
+ */
+async function redeliverVisibleEvents(
+  dbClient: DatabaseClient,
+  group: GroupRow,
+  limit: number,
+  visibilityTimeout: number
+): Promise<DeliveryRow[]> {
+  const result = await dbClient.query<DeliveryRow>(
+    `UPDATE decision_event_deliveries d
+     SET delivery_count = d.delivery_count + 1,
+         visible_at = NOW() + $3::double precision * INTERVAL '1 second'
+     FROM (
+       SELECT seq FROM decision_event_deliveries
+       WHERE group_name = $1 AND state = 'in_flight' AND visible_at <= NOW()
+       ORDER BY tx_id ASC, seq ASC
+       LIMIT $2
+       FOR UPDATE SKIP LOCKED
+     ) due
+     WHERE d.group_name = $1 AND d.seq = due.seq
+     RETURNING d.seq, d.tx_id::text AS tx_id, d.event, d.delivery_count`,
+    [group.name, limit, visibilityTimeout]
+  );
+  return result.rows.sort(comparePosition);
+}
+
+/**
+ * Lease outbox events after the group's high-water mark
+ *
+ * Claims are inserted with ON CONFLICT DO NOTHING, so of two consumers reading the same
+ * page only one gets each event. The insert locks the group row and skips events at or
+ * before the committed offset, which an ack may have advanced past this page meanwhile.
+ */
+async function leaseNewEvents(
+  dbClient: DatabaseClient,
+  group: GroupRow,
+  limit: number,
+  visibilityTimeout: number
+): Promise<DeliveryRow[]> {
+  for (let attempt = 0; attempt < CLAIM_ATTEMPTS; attempt++) {
+    const cursor = await groupHighWaterCursor(dbClient, group.name);
+    const page = await fetchOutboxEvents(dbClient, { eventTypes: group.event_types, cursor, limit });
+    if (page.length === 0) return [];
+
+    const claimed = await dbClient.query<{ seq: string }>(
+      `INSERT INTO decision_event_deliveries (tenant_id, group_name, seq, tx_id, event_id, event, visible_at)
+       SELECT g.tenant_id, g.name, e.seq, e.tx_id::xid8, e.event_id, e.event,
+              NOW() + $3::double precision * INTERVAL '1 second'
+       FROM decision_event_groups g
+       CROSS JOIN jsonb_to_recordset($2::jsonb) AS e(seq BIGINT, tx_id TEXT, event_id TEXT, event JSONB)
+       WHERE g.name = $1 AND (e.tx_id::xid8, e.seq) > (g.committed_tx_id, g.committed_seq)
+       FOR UPDATE OF g
+       ON CONFLICT (tenant_id, group_name, seq) DO NOTHING
+       RETURNING seq`,
+      [
+        group.name,
+        JSON.stringify(page.map(({ seq, txId, event }) => ({ seq, tx_id: txId, event_id: event.id, event }))),
+        visibilityTimeout,
+      ]
+    );
+
+    if (claimed.rows.length > 0) {
+      const claimedSeqs = new Set(claimed.rows.map(row => String(row.seq)));
+      return page
+        .filter(({ seq }) => claimedSeqs.has(seq))
+        .map(({ seq, txId, event }) => ({ seq, tx_id: txId, event, delivery_count: 1 }));
+    }
+  }
+  return [];
+}
+
+/**
+ * Lease up to `limit` events to a group: due re-deliveries first, then new events
+ */
+async function leaseGroupEvents(
+  dbClient: DatabaseClient,
+  group: GroupRow,
+  limit: number,
+  visibilityTimeout: number
+): Promise<GroupDecisionEvent[]> {
+  const redelivered = await redeliverVisibleEvents(dbClient, group, limit, visibilityTimeout);
+  const leased = redelivered.length < limit
+    ? await leaseNewEvents(dbClient, group, limit - redelivered.length, visibilityTimeout)
+    : [];
+
+  return [...redelivered, ...leased].map(row => ({ ...row.event, delivery_count: row.delivery_count }));
+}
+
+/**
+ * Long-poll re-poll interval for a group: when the next in-flight event becomes visible
+ * again, or shortly if committed events are held back - neither sends a notification
+ */
+async function groupRepollMs(dbClient: DatabaseClient, group: GroupRow): Promise<number | null> {
+  const result = await dbClient.query<{ next_visible_ms: number | null }>(
+    `SELECT (EXTRACT(EPOCH FROM MIN(visible_at) - NOW()) * 1000)::float8 AS next_visible_ms
+     FROM decision_event_deliveries
+     WHERE group_name = $1 AND state = 'in_flight'`,
+    [group.name]
+  );
+  const nextVisibleMs = result.rows[0]?.next_visible_ms ?? null;
+
+  const cursor = await groupHighWaterCursor(dbClient, group.name);
+  const heldBack = await hasHeldBackEvents(dbClient, { eventTypes: group.event_types, cursor, limit: 1 });
+
+  const candidates = [
+    ...(nextVisibleMs !== null ? [Math.max(nextVisibleMs, 0)] : []),
+    ...(heldBack ? [FALLBACK_POLL_MS] : []),
+  ];
+  return candidates.length > 0 ? Math.min(...candidates) : null;
+}
+
+/**
+ * Mark in-flight events acked, then advance the committed offset
+ */
+async function ackEvents(dbClient: DatabaseClient, name: string, eventIds: string[]): Promise<number> {
+  const result = await dbClient.query(
+    `UPDATE decision_event_deliveries SET state = 'acked'
+     WHERE group_name = $1 AND event_id = ANY($2) AND state = 'in_flight'
+     RETURNING seq`,
+    [name, eventIds]
+  );
+  return result.rows.length;
+}
+
+/**
+ * Move the committed offset to the last acked event before the oldest in-flight one and
+ * drop the acked rows it now covers; returns the committed cursor
+ * The offset only ever moves forward, so concurrent acks cannot rewind it.
+ */
+async function advanceCommittedOffset(dbClient: DatabaseClient, name: string): Promise<string | null> {
+  const result = await dbClient.query<{ committed_cursor: string | null }>(
+    `WITH pending AS (
+       SELECT tx_id, seq FROM decision_event_deliveries
+       WHERE group_name = $1 AND state = 'in_flight'
+       ORDER BY tx_id ASC, seq ASC
+       LIMIT 1
+     ), candidate AS (
+       SELECT d.tx_id, d.seq, d.event_id FROM decision_event_deliveries d
+       WHERE d.group_name = $1 AND d.state = 'acked'
+         AND NOT EXISTS (SELECT 1 FROM pending p WHERE (p.tx_id, p.seq) < (d.tx_id, d.seq))
+       ORDER BY d.tx_id DESC, d.seq DESC
+       LIMIT 1
+     ), advanced AS (
+       UPDATE decision_event_groups g
+       SET committed_cursor = c.event_id, committed_tx_id = c.tx_id, committed_seq = c.seq, updated_at = NOW()
+       FROM candidate c
+       WHERE g.name = $1 AND (c.tx_id, c.seq) > (g.committed_tx_id, g.committed_seq)
+       RETURNING g.committed_cursor, g.committed_tx_id, g.committed_seq
+     ), cleared AS (
+       DELETE FROM decision_event_deliveries d
+       USING advanced a
+       WHERE d.group_name = $1 AND d.state = 'acked'
+         AND (d.tx_id, d.seq) <= (a.committed_tx_id, a.committed_seq)
+     )
+     SELECT COALESCE(
+       (SELECT committed_cursor FROM advanced),
+       (SELECT committed_cursor FROM decision_event_groups WHERE name = $1)
+     ) AS committed_cursor`,
+    [name]
+  );
+  return result.rows[0]?.committed_cursor ?? null;
+}
+
+/**
+ * Make in-flight events visible again after `delaySeconds`
+ */
+async function nackEvents(dbClient: DatabaseClient, name: string, eventIds: string[], delaySeconds: number): Promise<number> {
+  const result = await dbClient.query(
+    `UPDATE decision_event_deliveries
+     SET visible_at = NOW() + $3::double precision * INTERVAL '1 second'
+     WHERE group_name = $1 AND event_id = ANY($2) AND state = 'in_flight'
+     RETURNING seq`,
+    [name, eventIds, delaySeconds]
+  );
+  return result.rows.length;
+}
+
+/**
+ * Lag of every tenant's consumer groups, for the ruvvector_decision_event_group_lag gauge
+ */
+export async function decisionEventGroupLags(
+  dbClient: DatabaseClient
+): Promise<Array<{ tenant: string; group: string; lag: number }>> {
+  const result = await dbClient.query<{ tenant_id: string; name: string; lag: number }>(
+    `SELECT g.tenant_id, g.name, ${GROUP_LAG_SQL} AS lag FROM decision_event_groups g`
+  );
+  return result.rows.map(row => ({ tenant: row.tenant_id, group: row.name, lag: Number(row.lag) }));
+}
+
+function sameEventTypes(a: DecisionEventType[], b: DecisionEventType[]): boolean {
+  return a.length === b.length && a.every(type => b.includes(type));
+}
+
+function respondInvalidGroup(res: Response, correlationId: string): void {
+  res.status(400).json({
+    error: 'validation_error',
+    message: 'Invalid consumer group name (1-128 letters, digits, ".", "_" or "-")',
+    correlationId,
+  });
+}
+
+function respondGroupNotFound(res: Response, name: string, correlationId: string): void {
+  res.status(404).json({
+    error: 'not_found',
+    message: `Consumer group ${name} not found`,
+    correlationId,
+  });
+}
+
+function respondError(res: Response, error: unknown, correlationId: string, action: string): void {
+  if (error instanceof z.ZodError) {
+    logger.warn({ correlationId, errors: error.errors }, 'Consumer group request validation failed');
+    res.status(400).json({
+      error: 'validation_error',
+      message: 'Request validation failed',
+      correlationId,
+      details: error.errors.map(e => ({
+        path: e.path.join('.'),
+        message: e.message,
+      })),
+    });
+    return;
+  }
+
+  logger.error({ correlationId, error }, `Failed to ${action} consumer group`);
+  res.status(500).json({
+    error: 'internal_error',
+    message: `Failed to ${action} consumer group`,
+    correlationId,
+  });
+}
+
+/**
+ * GET /events/decisions?group=<name> - Lease decision events to a consumer group
+ *
+ * Query Parameters:
+ * - group: consumer group name; created on first use
+ * - types: comma-separated event types (optional; fixed when the group is created)
+ * - after: cursor the group's offset starts from on creation (optional, default: start of the feed)
+ * - limit: number of events to lease (optional, default 100, max 1000)
+ * - visibility_timeout: seconds before un-acked events are re-delivered
+ *   (optional, default EVENTS_VISIBILITY_TIMEOUT_SECONDS)
+ * - wait: long-poll as for plain polling
+ *
+ * Response:
+ * {
+ *   "group": "<name>",
+ *   "events": [...],          // each with delivery_count
+ *   "next_cursor": "<event_id | null>",
+ *   "visibility_timeout": <seconds>
+ * }
+ */
+export async function listGroupDecisionEventsHandler(
+  req: Request,
+  res: Response,
+  dbClient: DatabaseClient
+): Promise<void> {
+  const correlationId = req.correlationId || getOrCreateCorrelationId(req.headers);
+  res.setHeader('x-correlation-id', correlationId);
+
+  try {
+    const { group: groupParam, types, after, limit, wait, visibility_timeout: visibilityParam } = req.query;
+
+    const name = sanitizeQueryParam(groupParam);
+    if (!name || !groupNameSchema.safeParse(name).success) {
+      respondInvalidGroup(res, correlationId);
+      return;
+    }
+
+    if (acceptsEventStream(req)) {
+      res.status(400).json({
+        error: 'validation_error',
+        message: 'Consumer groups are polled - use ?wait= instead of text/event-stream',
+        correlationId,
+      });
+      return;
+    }
+
+    const requestedTypes = sanitizeQueryParam(types) ? parseEventTypes(types) : null;
+    const group = await ensureGroup(dbClient, name, requestedTypes ?? parseEventTypes(undefined), sanitizeCursor(after));
+
+    if (requestedTypes && !sameEventTypes(requestedTypes, group.event_types)) {
+      res.status(409).json({
+        error: 'conflict',
+        message: `Consumer group ${name} consumes ${group.event_types.join(',')}`,
+        correlationId,
+      });
+      return;
+    }
+
+    const parsedLimit = parseLimit(limit);
+    const visibilityTimeout = parseVisibilityTimeout(visibilityParam);
+    const waitSeconds = parseWaitSeconds(wait);
+
+    const lease = async () => ({ events: await leaseGroupEvents(dbClient, group, parsedLimit, visibilityTimeout) });
+    const { events } = waitSeconds > 0
+      ? await waitForEvents(res, dbClient, lease, () => groupRepollMs(dbClient, group), waitSeconds * 1000, correlationId)
+      : await lease();
+
+    const nextCursor = events.length > 0 ? events[events.length - 1].id : null;
+
+    logger.info(
+      {
+        correlationId,
+        group: name,
+        eventCount: events.length,
+        redelivered: events.filter(event => event.delivery_count > 1).length,
+        limit: parsedLimit,
+        visibilityTimeout,
+        waitSeconds,
+      },
+      'Decision events leased to consumer group'
+    );
+
+    const response: GroupDecisionEventsResponse = {
+      group: name,
+      events,
+      next_cursor: nextCursor,
+      visibility_timeout: visibilityTimeout,
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    respondError(res, error, correlationId, 'lease events for');
+  }
+}
+
+/**
+ * POST /events/decisions/ack - Acknowledge processed events
+ *
+ * Body: { "group": "<name>", "event_ids": ["<event_id>", ...] }
+ */
+export async function ackDecisionEventsHandler(
+  req: Request,
+  res: Response,
+  dbClient: DatabaseClient
+): Promise<void> {
+  const correlationId = req.correlationId || getOrCreateCorrelationId(req.headers);
+  res.setHeader('x-correlation-id', correlationId);
+
+  try {
+    const { group: name, event_ids } = ackDecisionEventsSchema.parse(req.body);
+
+    if (!await findGroup(dbClient, name)) {
+      respondGroupNotFound(res, name, correlationId);
+      return;
+    }
+
+    const acked = await ackEvents(dbClient, name, event_ids);
+    const committedCursor = await advanceCommittedOffset(dbClient, name);
+
+    logger.info({ correlationId, group: name, requested: event_ids.length, acked, committedCursor }, 'Decision events acked');
+
+    const response: AckDecisionEventsResponse = { group: name, acked, committed_cursor: committedCursor };
+    res.status(200).json(response);
+  } catch (error) {
+    respondError(res, error, correlationId, 'ack events for');
+  }
+}
+
+/**
+ * POST /events/decisions/nack - Return events for re-delivery
+ *
+ * Body: { "group": "<name>", "event_ids": [...], "delay_seconds": 0 }
+ */
+export async function nackDecisionEventsHandler(
+  req: Request,
+  res: Response,
+  dbClient: DatabaseClient
+): Promise<void> {
+  const correlationId = req.correlationId || getOrCreateCorrelationId(req.headers);
+  res.setHeader('x-correlation-id', correlationId);
+
+  try {
+    const { group: name, event_ids, delay_seconds } = nackDecisionEventsSchema.parse(req.body);
+
+    if (!await findGroup(dbClient, name)) {
+      respondGroupNotFound(res, name, correlationId);
+      return;
+    }
+
+    const nacked = await nackEvents(dbClient, name, event_ids, delay_seconds);
+
+    logger.info({ correlationId, group: name, requested: event_ids.length, nacked, delaySeconds: delay_seconds }, 'Decision events nacked');
+
+    const response: NackDecisionEventsResponse = { group: name, nacked };
+    res.status(200).json(response);
+  } catch (error) {
+    respondError(res, error, correlationId, 'nack events for');
+  }
+}
+
+/**
+ * GET /events/decisions/groups/:group - Committed offset, in-flight count and lag
+ */
+export async function getDecisionEventGroupHandler(
+  req: Request,
+  res: Response,
+  dbClient: DatabaseClient
+): Promise<void> {
+  const correlationId = req.correlationId || getOrCreateCorrelationId(req.headers);
+  res.setHeader('x-correlation-id', correlationId);
+
+  try {
+    const { group: name } = req.params;
+    if (!groupNameSchema.safeParse(name).success) {
+      respondInvalidGroup(res, correlationId);
+      return;
+    }
+
+    const result = await dbClient.query<GroupStatusRow>(
+      `SELECT g.name, g.event_types, g.committed_cursor, g.created_at, g.updated_at,
+         (SELECT COUNT(*) FROM decision_event_deliveries d
+          WHERE d.tenant_id = g.tenant_id AND d.group_name = g.name AND d.state = 'in_flight')::int AS in_flight,
+         ${GROUP_LAG_SQL} AS lag
+       FROM decision_event_groups g
+       WHERE g.name = $1`,
+      [name]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      respondGroupNotFound(res, name, correlationId);
+      return;
+    }
+
+    const response: DecisionEventGroup = {
+      group: row.name,
+      event_types: row.event_types,
+      committed_cursor: row.committed_cursor,
+      in_flight: Number(row.in_flight),
+      lag: Number(row.lag),
+      created_at: new Date(row.created_at).toISOString(),
+      updated_at: new Date(row.updated_at).toISOString(),
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    respondError(res, error, correlationId, 'inspect');
+  }
+}
+
+/**
+ * DELETE /events/decisions/groups/:group - Drop a group, its offset and in-flight events
+ */
+export async function deleteDecisionEventGroupHandler(
+  req: Request,
+  res: Response,
+  dbClient: DatabaseClient
+): Promise<void> {
+  const correlationId = req.correlationId || getOrCreateCorrelationId(req.headers);
+  res.setHeader('x-correlation-id', correlationId);
+
+  try {
+    const { group: name } = req.params;
+    if (!groupNameSchema.safeParse(name).success) {
+      respondInvalidGroup(res, correlationId);
+      return;
+    }
+
+    const result = await dbClient.query('DELETE FROM decision_event_groups WHERE name = $1 RETURNING name', [name]);
+    if (result.rows.length === 0) {
+      respondGroupNotFound(res, name, correlationId);
+      return;
+    }
+
+    logger.info({ correlationId, group: name }, 'Decision event consumer group deleted');
+
+    const response: DeleteDecisionEventGroupResponse = { deleted: true, group: name };
+    res.status(200).json(response);
+  } catch (error) {
+    respondError(res, error, correlationId, 'delete');
+  }
+}
+
+export default {
+  listGroupDecisionEventsHandler,
+  ackDecisionEventsHandler,
+  nackDecisionEventsHandler,
+  getDecisionEventGroupHandler,
+  deleteDecisionEventGroupHandler,
+  decisionEventGroupLags,
+};
@@ -3,10 +3,13 @@
  * Exposes DecisionEvent consumption API for downstream execution engines
  *
  * Endpoint: GET /events/decisions
- * Purpose: Allow execution engines to poll for approved plans and execution-relevant events
+ * Purpose: Allow execution engines to poll for approved plans and execution-relevant events,
+ * or to long-poll / stream them (woken by Postgres NOTIFY on decision and approval inserts)
  */
 import { Request, Response } from 'express';
-import { DatabaseClient } from '../clients/DatabaseClient';
+import { DatabaseClient, DECISION_EVENTS_CHANNEL } from '../clients/DatabaseClient';
+import { config } from '../config';
+import { ReviewOutcome } from '../types';
 import logger from '../utils/logger';
 import { getOrCreateCorrelationId } from '../utils/correlation';
 
@@ -53,6 +56,25 @@ export interface DecisionEventsResponse {
   next_cursor: string | null;
 }
 
+/**
+ * Page of events requested from fetchDecisionEvents
+ */
+export interface DecisionEventQuery {
+  eventTypes: DecisionEventType[];
+  cursor: string | null;      // Composite type:id:timestamp cursor, null for the first poll
+  limit: number;
+}
+
+/**
+ * An outbox event with its (tx_id, seq) position, for consumers that track positions
+ * themselves (consumer groups)
+ */
+export interface OutboxEvent {
+  seq: string;
+  txId: string;
+  event: DecisionEvent;
+}
+
 /**
  * Default pagination limit
  */
@@ -67,13 +89,13 @@ const DEFAULT_EVENT_TYPES: DecisionEventType[] = ['plan_approved'];
 /**
  * All valid event types
  */
-const VALID_EVENT_TYPES: DecisionEventType[] = ['plan_created', 'plan_approved', 'plan_rejected', 'plan_deferred'];
+export const VALID_EVENT_TYPES: DecisionEventType[] = ['plan_created', 'plan_approved', 'plan_rejected', 'plan_deferred'];
 
 /**
  * Sanitize query parameter - handles null, undefined, empty string, arrays
  * Returns undefined for empty/invalid values, string otherwise
  */
-function sanitizeQueryParam(param: unknown): string | undefined {
+export function sanitizeQueryParam(param: unknown): string | undefined {
   if (param === null || param === undefined) return undefined;
   if (Array.isArray(param)) {
     // Take first element if array
@@ -95,7 +117,7 @@ function sanitizeQueryParam(param: unknown): string | undefined {
  * Returns DEFAULT_EVENT_TYPES if param is missing/empty/invalid
  * Ignores unknown types (does not fail)
  */
-function parseEventTypes(typesParam: unknown): DecisionEventType[] {
+export function parseEventTypes(typesParam: unknown): DecisionEventType[] {
   const sanitized = sanitizeQueryParam(typesParam);
 
   // Default to plan_approved if no types specified
@@ -110,20 +132,432 @@ function parseEventTypes(typesParam: unknown): DecisionEventType[] {
   return filteredTypes.length > 0 ? filteredTypes : DEFAULT_EVENT_TYPES;
 }
 
+/**
+ * Parse ?limit= (default 100, clamped to 1-1000)
+ */
+export function parseLimit(limitParam: unknown): number {
+  return Math.min(
+    Math.max(parseInt(sanitizeQueryParam(limitParam) || '', 10) || DEFAULT_LIMIT, 1),
+    MAX_LIMIT
+  );
+}
+
 /**
  * Parse cursor parameter - tolerant of missing/empty/invalid values
  * Returns null for first poll (no cursor filtering applied)
  */
-function sanitizeCursor(afterParam: unknown): string | null {
+export function sanitizeCursor(afterParam: unknown): string | null {
   const sanitized = sanitizeQueryParam(afterParam);
   return sanitized || null;
 }
 
 /**
- * Map approval outcome to event type
+ * Interval for re-polling when LISTEN is unavailable (e.g. the listener connection failed)
+ * or committed events are held back (see fetchDecisionEvents)
+ */
+export const FALLBACK_POLL_MS = 1000;
+
+/**
+ * SSE reconnection delay advertised to clients
  */
-function mapApprovalToEventType(approved: boolean): DecisionEventType {
-  return approved ? 'plan_approved' : 'plan_rejected';
+const SSE_RETRY_MS = 3000;
+
+/**
+ * Parse ?wait= seconds - tolerant like the other params, clamped to EVENTS_MAX_WAIT_SECONDS
+ */
+export function parseWaitSeconds(waitParam: unknown): number {
+  const parsed = parseFloat(sanitizeQueryParam(waitParam) || '');
+  if (isNaN(parsed) || parsed <= 0) return 0;
+  return Math.min(parsed, config.events.maxWaitSeconds);
+}
+
+/**
+ * Whether the client asked for a server-sent event stream
+ */
+export function acceptsEventStream(req: Request): boolean {
+  return (req.headers.accept || '').includes('text/event-stream');
+}
+
+/**
+ * Waits for the next decision_events notification, a timeout or interrupt()
+ * Degrades to FALLBACK_POLL_MS sleeps when the LISTEN subscription cannot be opened.
+ */
+class NotificationWaiter {
+  private notified = false;
+  private wake: (() => void) | null = null;
+
+  private constructor(private readonly unsubscribe: (() => Promise<void>) | null) {}
+
+  static async open(dbClient: DatabaseClient, correlationId: string): Promise<NotificationWaiter> {
+    let waiter: NotificationWaiter | null = null;
+    try {
+      const unsubscribe = await dbClient.subscribe(DECISION_EVENTS_CHANNEL, () => waiter?.signal());
+      waiter = new NotificationWaiter(unsubscribe);
+    } catch (error) {
+      logger.warn({ correlationId, error }, 'Decision event notifications unavailable - falling back to polling');
+      waiter = new NotificationWaiter(null);
+    }
+    return waiter;
+  }
+
+  private signal(): void {
+    this.notified = true;
+    this.wake?.();
+  }
+
+  /**
+   * Resolve true if a notification arrived (possibly before the call), false on timeout/interrupt
+   */
+  async wait(timeoutMs: number): Promise<boolean> {
+    if (!this.notified && timeoutMs > 0) {
+      const delay = this.unsubscribe ? timeoutMs : Math.min(timeoutMs, FALLBACK_POLL_MS);
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, delay);
+        this.wake = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.wake = null;
+    }
+    const notified = this.notified;
+    this.notified = false;
+    return notified;
+  }
+
+  interrupt(): void {
+    this.wake?.();
+  }
+
+  async close(): Promise<void> {
+    this.interrupt();
+    await this.unsubscribe?.();
+  }
+}
+
+/**
+ * Lift the server's socket timeout (server.timeout, the upstream request timeout) for a response
+ * that is held open on purpose; the wait or the client leaving ends it instead
+ */
+function holdOpen(res: Response): void {
+  res.socket?.setTimeout(0);
+}
+
+/**
+ * Long-poll: re-fetch on each notification until events arrive, the wait elapses or the client leaves
+ * repollMs says how soon to re-fetch after an empty page even without a notification (null = wait for one)
+ */
+export async function waitForEvents<T extends { events: unknown[] }>(
+  res: Response,
+  dbClient: DatabaseClient,
+  fetchPage: () => Promise<T>,
+  repollMs: () => Promise<number | null>,
+  waitMs: number,
+  correlationId: string
+): Promise<T> {
+  const deadline = Date.now() + waitMs;
+  let disconnected = false;
+  holdOpen(res);
+  // Subscribe before the first fetch so an insert between the two is not missed
+  const waiter = await NotificationWaiter.open(dbClient, correlationId);
+  const onClose = () => {
+    disconnected = true;
+    waiter.interrupt();
+  };
+  res.on('close', onClose);
+
+  try {
+    for (;;) {
+      const result = await fetchPage();
+      const remaining = deadline - Date.now();
+      if (result.events.length > 0 || remaining <= 0 || disconnected) {
+        return result;
+      }
+      const repoll = await repollMs();
+      await waiter.wait(repoll === null ? remaining : Math.min(remaining, repoll));
+    }
+  } finally {
+    res.off('close', onClose);
+    await waiter.close();
+  }
+}
+
+/**
+ * SSE: write events as they arrive; heartbeats keep proxies from idling the connection out
+ * and double as a re-poll in case a notification was lost
+ */
+async function streamDecisionEvents(
+  req: Request,
+  res: Response,
+  dbClient: DatabaseClient,
+  query: DecisionEventQuery,
+  correlationId: string
+): Promise<void> {
+  const waiter = await NotificationWaiter.open(dbClient, correlationId);
+  let disconnected = false;
+  holdOpen(res);
+  res.on('close', () => {
+    disconnected = true;
+    waiter.interrupt();
+  });
+
+  res.writeHead(200, {
+    'content-type': 'text/event-stream',
+    'cache-control': 'no-cache',
+    'connection': 'keep-alive',
+    'x-accel-buffering': 'no',
+  });
+  res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+
+  logger.info(
+    { correlationId, types: query.eventTypes, cursor: query.cursor, lastEventId: req.headers['last-event-id'] },
+    'Decision event stream opened'
+  );
+
+  let cursor = query.cursor;
+  let delivered = 0;
+  try {
+    while (!disconnected) {
+      const page = await fetchDecisionEvents(dbClient, { ...query, cursor });
+      for (const event of page.events) {
+        res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      }
+      delivered += page.events.length;
+      cursor = page.next_cursor ?? cursor;
+
+      // A full page means there is more backlog - keep draining before waiting
+      if (page.events.length === query.limit) continue;
+
+      // Re-poll shortly while committed events are held back behind an older open transaction
+      const heldBack = await hasHeldBackEvents(dbClient, { ...query, cursor });
+      const notified = await waiter.wait(heldBack ? FALLBACK_POLL_MS : config.events.heartbeatMs);
+      if (!notified && !disconnected && !heldBack) {
+        res.write(': keepalive\n\n');
+      }
+    }
+  } catch (error) {
+    // Headers are already sent - end the stream and let the client reconnect with Last-Event-ID
+    logger.error({ correlationId, error, cursor }, 'Decision event stream failed');
+  } finally {
+    await waiter.close();
+    res.end();
+    logger.info({ correlationId, delivered, cursor }, 'Decision event stream closed');
+  }
+}
+
+/**
+ * Outbox row joined with the decision (and approval) it describes
+ */
+interface DecisionEventRow {
+  seq: string;
+  tx_id: string;
+  event_type: DecisionEventType;
+  source_id: string;
+  decision_id: string;
+  occurred_at: Date;
+  objective: string;
+  recommendation: string;
+  confidence: string;
+  command: string;
+  raw_output_hash: string;
+  approved: boolean | null;
+  outcome: ReviewOutcome | null;
+  defer_until: Date | null;
+  defer_reason: string | null;
+  reward: number | null;
+  confidence_adjustment: number | null;
+  advisory: boolean | null;
+}
+
+// reviewer_outcome reported for each review outcome
+const REVIEWER_OUTCOMES: Record<ReviewOutcome, string> = {
+  approve: 'approved',
+  reject: 'rejected',
+  defer: 'deferred',
+};
+
+/**
+ * Map an outbox row to the DecisionEvent shape consumers already rely on
+ */
+function toDecisionEvent(row: DecisionEventRow): DecisionEvent {
+  const timestamp = new Date(row.occurred_at).toISOString();
+
+  if (row.event_type === 'plan_created') {
+    return {
+      id: buildEventId('plan_created', row.source_id, row.occurred_at),
+      type: 'plan_created',
+      timestamp,
+      payload: {
+        plan_id: row.decision_id,
+        decision_id: row.decision_id,
+        objective: row.objective,
+        recommendation: row.recommendation,
+        confidence: row.confidence,
+        command: row.command,
+        checksum: row.raw_output_hash,
+        // Re-surfaced after a deferral expired: the outbox row is keyed by the deferral
+        ...(row.source_id !== row.decision_id ? { resurfaced_from: row.source_id, defer_reason: row.defer_reason } : {}),
+      },
+    };
+  }
+
+  return {
+    id: buildEventId(row.event_type, row.source_id, row.occurred_at),
+    type: row.event_type,
+    timestamp,
+    payload: {
+      plan_id: row.decision_id,
+      decision_id: row.decision_id,
+      simulation_id: row.decision_id, // Alias for execution engine compatibility
+      timestamp,                      // Required: timestamp in payload for execution engine
+      objective: row.objective,
+      recommendation: row.recommendation,
+      reward: row.reward ?? undefined,
+      confidence_adjustment: row.confidence_adjustment,
+      reviewer_outcome: REVIEWER_OUTCOMES[row.outcome ?? (row.approved ? 'approve' : 'reject')],
+      advisory: row.advisory ?? false, // Required: advisory flag (false for execution-triggering events)
+      ...(row.event_type === 'plan_deferred'
+        ? { defer_until: row.defer_until ? new Date(row.defer_until).toISOString() : null, defer_reason: row.defer_reason }
+        : {}),
+    },
+  };
+}
+
+/**
+ * Outbox position ($2 type, $3 id, $4 timestamp) a cursor resolves to: the cursor's own event,
+ * else the last event at or before its timestamp, else the start of the outbox
+ */
+export const AFTER_CURSOR_CTE = `WITH after AS (
+       SELECT tx_id, seq FROM (
+         SELECT 1 AS priority, tx_id, seq FROM decision_events WHERE event_type = $2 AND source_id = $3
+         UNION ALL
+         (SELECT 2, tx_id, seq FROM decision_events WHERE occurred_at <= $4 ORDER BY tx_id DESC, seq DESC LIMIT 1)
+         UNION ALL
+         SELECT 3, '0'::xid8, 0
+       ) candidates
+       ORDER BY priority
+       LIMIT 1
+     )`;
+
+/**
+ * Bind parameters $1-$4 shared by the outbox queries
+ */
+export function cursorParams(eventTypes: DecisionEventType[], cursor: string | null): unknown[] {
+  // If cursor is null/missing/unparseable, this is a first poll - start from the earliest event
+  const cursorParts = cursor ? parseCursor(cursor) : null;
+  return [eventTypes, cursorParts?.type ?? null, cursorParts?.id ?? null, cursorParts?.timestamp ?? null];
+}
+
+/**
+ * Whether committed events after the cursor are being held back by an older open transaction
+ */
+export async function hasHeldBackEvents(dbClient: DatabaseClient, query: DecisionEventQuery): Promise<boolean> {
+  const result = await dbClient.query<{ held_back: boolean }>(
+    `${AFTER_CURSOR_CTE}
+     SELECT EXISTS (
+       SELECT 1 FROM decision_events e CROSS JOIN after
+       WHERE e.event_type = ANY($1)
+         AND (e.tx_id, e.seq) > (after.tx_id, after.seq)
+         AND e.tx_id >= pg_snapshot_xmin(pg_current_snapshot())
+     ) AS held_back`,
+    cursorParams(query.eventTypes, query.cursor)
+  );
+  return result.rows[0]?.held_back === true;
+}
+
+/**
+ * Seconds since the oldest held-back event was written, across all tenants and types
+ * Feeds ruvvector_decision_events_holdback_age_seconds: the snapshot xmin is database-wide,
+ * so one long-running transaction - in this service or not - stalls every consumer.
+ */
+export async function oldestHeldBackEventAge(dbClient: DatabaseClient): Promise<number> {
+  const result = await dbClient.query<{ age_seconds: string | null }>(
+    `SELECT EXTRACT(EPOCH FROM NOW() - MIN(occurred_at)) AS age_seconds
+     FROM decision_events
+     WHERE tx_id >= pg_snapshot_xmin(pg_current_snapshot())`
+  );
+  return Math.max(0, Number(result.rows[0]?.age_seconds ?? 0));
+}
+
+/**
+ * Fetch one page of decision events after a composite cursor
+ * Shared by the JSON, long-poll and SSE modes of GET /events/decisions.
+ *
+ * Events come from the decision_events outbox in (tx_id, seq) order, so one LIMIT covers
+ * every requested type and a cursor never skips events of another type. Only rows from
+ * transactions older than the snapshot xmin are served: every such transaction has finished,
+ * and any transaction still running (or started later) has a larger tx_id, so nothing can
+ * later appear behind the cursor. The type:id:timestamp cursor is resolved to its event's
+ * position; cursors for events no longer in the outbox fall back to their timestamp.
+ */
+export async function fetchDecisionEvents(
+  dbClient: DatabaseClient,
+  query: DecisionEventQuery
+): Promise<DecisionEventsResponse> {
+  const events = (await fetchOutboxEvents(dbClient, query)).map(row => row.event);
+
+  return {
+    events,
+    // Compute next_cursor from the last event
+    next_cursor: events.length > 0 ? events[events.length - 1].id : null,
+  };
+}
+
+/**
+ * fetchDecisionEvents with each event's outbox position
+ */
+export async function fetchOutboxEvents(
+  dbClient: DatabaseClient,
+  query: DecisionEventQuery
+): Promise<OutboxEvent[]> {
+  const { eventTypes, cursor, limit } = query;
+
+  const result = await dbClient.query<DecisionEventRow>(
+    `${AFTER_CURSOR_CTE}
+     SELECT
+       e.seq,
+       e.tx_id::text AS tx_id,
+       e.event_type,
+       e.source_id,
+       e.decision_id,
+       e.occurred_at,
+       d.objective,
+       d.recommendation,
+       d.confidence,
+       d.command,
+       d.raw_output_hash,
+       a.approved,
+       a.outcome,
+       a.defer_until,
+       a.defer_reason,
+       a.reward,
+       a.confidence_adjustment,
+       a.advisory
+     FROM decision_events e
+     JOIN decisions d ON d.id = e.decision_id
+     LEFT JOIN approvals a ON e.source_id <> e.decision_id AND a.id::text = e.source_id
+     CROSS JOIN after
+     WHERE e.event_type = ANY($1)
+       AND (e.tx_id, e.seq) > (after.tx_id, after.seq)
+       AND e.tx_id < pg_snapshot_xmin(pg_current_snapshot())
+     ORDER BY e.tx_id ASC, e.seq ASC
+     LIMIT $5`,
+    [...cursorParams(eventTypes, cursor), limit]
+  );
+
+  return result.rows.map(row => ({ seq: String(row.seq), txId: row.tx_id, event: toDecisionEvent(row) }));
+}
+
+/**
+ * Cursor of the most recent outbox event, or null when there are none
+ * Lets a new consumer start from "now" instead of replaying the whole feed
+ */
+export async function latestDecisionEventCursor(dbClient: DatabaseClient): Promise<string | null> {
+  const result = await dbClient.query<{ event_type: DecisionEventType; source_id: string; occurred_at: Date }>(
+    `SELECT event_type, source_id, occurred_at FROM decision_events ORDER BY tx_id DESC, seq DESC LIMIT 1`
+  );
+  const row = result.rows[0];
+  return row ? buildEventId(row.event_type, row.source_id, row.occurred_at) : null;
 }
 
 /**
@@ -133,6 +567,13 @@ function mapApprovalToEventType(approved: boolean): DecisionEventType {
  * - types: comma-separated event types (optional)
  * - after: cursor - last seen event ID (optional)
  * - limit: number of events to return (optional, default 100, max 1000)
+ * - wait: long-poll - hold an empty response up to this many seconds for new events
+ *   (optional, max EVENTS_MAX_WAIT_SECONDS)
+ *
+ * With `Accept: text/event-stream` the response is a server-sent event stream instead;
+ * event ids are cursors, so reconnecting with Last-Event-ID resumes where it left off.
+ *
+ * With `?group=<name>` the consumer group's offset replaces the cursor (see consumerGroups).
  *
  * Response:
  * {
@@ -150,215 +591,62 @@ export async function listDecisionEventsHandler(
   res.setHeader('x-correlation-id', correlationId);
 
   try {
-    const { types, after, limit } = req.query;
+    const { types, after, limit, wait } = req.query;
 
     // =========================================================================
     // QUERY PARAM SANITIZATION (tolerant of missing/empty/invalid values)
     // =========================================================================
 
     // Parse and validate limit (default 100, max 1000)
-    const sanitizedLimit = sanitizeQueryParam(limit);
-    const parsedLimit = Math.min(
-      Math.max(parseInt(sanitizedLimit || '', 10) || DEFAULT_LIMIT, 1),
-      MAX_LIMIT
-    );
+    const parsedLimit = parseLimit(limit);
 
     // Parse event types filter (defaults to ['plan_approved'] if missing/empty)
     const eventTypes = parseEventTypes(types);
 
-    // Sanitize cursor (null = first poll, no filtering)
-    const cursor = sanitizeCursor(after);
+    // Sanitize cursor (null = first poll, no filtering); SSE reconnects resume from Last-Event-ID
+    const cursor = sanitizeCursor(req.headers['last-event-id']) ?? sanitizeCursor(after);
 
     // =========================================================================
-    // BUILD QUERY (safe for first poll and cursor-based continuation)
+    // STREAMING MODES (SSE via Accept header, long-poll via ?wait=)
     // =========================================================================
 
-    const events: DecisionEvent[] = [];
-
-    // Determine which event types to query based on parsed types
-    const includeCreated = eventTypes.includes('plan_created');
-    const includeApproved = eventTypes.includes('plan_approved');
-    const includeRejected = eventTypes.includes('plan_rejected');
-    const includeDeferred = eventTypes.includes('plan_deferred');
-
-    // Query for plan_created events from decisions table
-    if (includeCreated) {
-      let decisionsQuery = `
-        SELECT
-          id,
-          'plan_created' as event_type,
-          created_at as timestamp,
-          objective,
-          recommendation,
-          confidence,
-          command,
-          raw_output_hash
-        FROM decisions
-      `;
-      const decisionsParams: unknown[] = [];
-      let paramIndex = 1;
-
-      // Apply cursor filter if provided (cursor is composite: type:id:timestamp)
-      // If cursor is null/missing, this is a first poll - return earliest events
-      if (cursor) {
-        const cursorParts = parseCursor(cursor);
-        if (cursorParts) {
-          decisionsQuery += ` WHERE (created_at, id) > ($${paramIndex}, $${paramIndex + 1})`;
-          decisionsParams.push(cursorParts.timestamp, cursorParts.id);
-          paramIndex += 2;
-        }
-      }
-
-      decisionsQuery += ` ORDER BY created_at ASC, id ASC LIMIT $${paramIndex}`;
-      decisionsParams.push(parsedLimit);
-
-      const decisionsResult = await dbClient.query<{
-        id: string;
-        event_type: string;
-        timestamp: Date;
-        objective: string;
-        recommendation: string;
-        confidence: string;
-        command: string;
-        raw_output_hash: string;
-      }>(decisionsQuery, decisionsParams);
-
-      for (const row of decisionsResult.rows) {
-        events.push({
-          id: buildEventId('plan_created', row.id, row.timestamp),
-          type: 'plan_created',
-          timestamp: new Date(row.timestamp).toISOString(),
-          payload: {
-            plan_id: row.id,
-            decision_id: row.id,
-            objective: row.objective,
-            recommendation: row.recommendation,
-            confidence: row.confidence,
-            command: row.command,
-            checksum: row.raw_output_hash,
-          },
-        });
-      }
-    }
-
-    // Query for plan_approved/plan_rejected events from approvals table
-    // NOTE: plan_approved events are ONLY emitted for non-advisory approvals (advisory=false)
-    // This ensures only finalized approvals trigger downstream execution
-    if (includeApproved || includeRejected || includeDeferred) {
-      let approvalsQuery = `
-        SELECT
-          a.id,
-          a.decision_id,
-          a.approved,
-          a.reward,
-          a.confidence_adjustment,
-          a.advisory,
-          a.created_at as timestamp,
-          d.objective,
-          d.recommendation
-        FROM approvals a
-        JOIN decisions d ON d.id = a.decision_id
-      `;
-      const approvalsParams: unknown[] = [];
-      let paramIndex = 1;
-      const conditions: string[] = [];
-
-      // Filter by approval status based on requested event types
-      // For plan_approved: only include non-advisory approvals (advisory=false)
-      const approvalFilters: string[] = [];
-      if (includeApproved) approvalFilters.push('(a.approved = true AND a.advisory = false)');
-      if (includeRejected) approvalFilters.push('a.approved = false');
-
-      if (approvalFilters.length > 0 && approvalFilters.length < 2) {
-        conditions.push(`(${approvalFilters.join(' OR ')})`);
-      } else if (approvalFilters.length === 2) {
-        conditions.push(`(${approvalFilters.join(' OR ')})`);
-      }
-
-      // Apply cursor filter if provided
-      // If cursor is null/missing, this is a first poll - return earliest events
-      if (cursor) {
-        const cursorParts = parseCursor(cursor);
-        if (cursorParts) {
-          conditions.push(`(a.created_at, a.id::text) > ($${paramIndex}, $${paramIndex + 1})`);
-          approvalsParams.push(cursorParts.timestamp, cursorParts.id);
-          paramIndex += 2;
-        }
-      }
-
-      if (conditions.length > 0) {
-        approvalsQuery += ` WHERE ${conditions.join(' AND ')}`;
-      }
+    const query: DecisionEventQuery = { eventTypes, cursor, limit: parsedLimit };
 
-      approvalsQuery += ` ORDER BY a.created_at ASC, a.id ASC LIMIT $${paramIndex}`;
-      approvalsParams.push(parsedLimit);
-
-      const approvalsResult = await dbClient.query<{
-        id: string;
-        decision_id: string;
-        approved: boolean;
-        reward: number;
-        confidence_adjustment: number | null;
-        advisory: boolean;
-        timestamp: Date;
-        objective: string;
-        recommendation: string;
-      }>(approvalsQuery, approvalsParams);
-
-      for (const row of approvalsResult.rows) {
-        const eventType = mapApprovalToEventType(row.approved);
-        const eventTimestamp = new Date(row.timestamp).toISOString();
-        events.push({
-          id: buildEventId(eventType, row.id, row.timestamp),
-          type: eventType,
-          timestamp: eventTimestamp,
-          payload: {
-            plan_id: row.decision_id,
-            decision_id: row.decision_id,
-            simulation_id: row.decision_id, // Alias for execution engine compatibility
-            timestamp: eventTimestamp,      // Required: timestamp in payload for execution engine
-            objective: row.objective,
-            recommendation: row.recommendation,
-            reward: row.reward,
-            confidence_adjustment: row.confidence_adjustment,
-            reviewer_outcome: row.approved ? 'approved' : 'rejected',
-            advisory: row.advisory,         // Required: advisory flag (false for execution-triggering events)
-          },
-        });
-      }
+    if (acceptsEventStream(req)) {
+      await streamDecisionEvents(req, res, dbClient, query, correlationId);
+      return;
     }
 
-    // Sort all events by timestamp (ascending) for stable ordering
-    events.sort((a, b) => {
-      const timeA = new Date(a.timestamp).getTime();
-      const timeB = new Date(b.timestamp).getTime();
-      if (timeA !== timeB) return timeA - timeB;
-      return a.id.localeCompare(b.id);
-    });
-
-    // Trim to requested limit (we may have fetched more from combined queries)
-    const trimmedEvents = events.slice(0, parsedLimit);
-
-    // Compute next_cursor from the last event
-    const nextCursor = trimmedEvents.length > 0
-      ? trimmedEvents[trimmedEvents.length - 1].id
-      : null;
+    const waitSeconds = parseWaitSeconds(wait);
+    const { events, next_cursor: nextCursor } = waitSeconds > 0
+      ? await waitForEvents(
+        res,
+        dbClient,
+        () => fetchDecisionEvents(dbClient, query),
+        // Committed events held back behind an older open transaction send no further
+        // notification when they become servable - re-poll shortly instead
+        async () => (await hasHeldBackEvents(dbClient, query) ? FALLBACK_POLL_MS : null),
+        waitSeconds * 1000,
+        correlationId
+      )
+      : await fetchDecisionEvents(dbClient, query);
 
     logger.info(
       {
         correlationId,
-        eventCount: trimmedEvents.length,
+        eventCount: events.length,
         types: eventTypes,
         cursor,
         limit: parsedLimit,
         nextCursor,
         isFirstPoll: !cursor,
+        waitSeconds,
       },
       'Decision events retrieved successfully'
     );
 
     const response: DecisionEventsResponse = {
-      events: trimmedEvents,
+      events,
       next_cursor: nextCursor,
     };
 
@@ -409,4 +697,8 @@ function parseCursor(cursor: string): { type: string; id: string; timestamp: Dat
 
 export default {
   listDecisionEventsHandler,
+  fetchDecisionEvents,
+  fetchOutboxEvents,
+  latestDecisionEventCursor,
+  oldestHeldBackEventAge,
 };
@@ -4,17 +4,25 @@
  */
 import { Request, Response } from 'express';
 import { z } from 'zod';
-import { DatabaseClient } from '../clients/DatabaseClient';
+import { DatabaseClient, isKeyConflict } from '../clients/DatabaseClient';
+import { VectorClient } from '../clients/VectorClient';
+import { EmbeddingProvider, indexDecisionEmbedding, DECISIONS_NAMESPACE } from '../embeddings';
 import {
   DecisionRecord,
   CreateDecisionResponse,
   ListDecisionsResponse,
+  SimilarDecision,
+  SimilarDecisionsResponse,
+  VectorSimilarityResult,
+  ReviewOutcome,
 } from '../types';
+import { materializeDecisionGraph } from '../graph';
+import { signalSourceId, objectiveSourceId, resolveReviewOutcome } from './approvals';
 import logger from '../utils/logger';
 import { getOrCreateCorrelationId } from '../utils/correlation';
 
 // Validation schema for signals
-const signalsSchema = z.object({
+export const signalsSchema = z.object({
   financial: z.string(),
   risk: z.string(),
   complexity: z.string(),
@@ -41,13 +49,26 @@ export const createDecisionSchema = z.object({
   created_at: z.string().optional(),
 });
 
+// Validation schema for similar-decision query parameters
+export const similarDecisionsQuerySchema = z.object({
+  k: z.coerce.number().int().min(1).max(50).default(5),
+  min_score: z.coerce.number().default(0),
+  embedding_text: z.string().min(1).optional(),
+});
+
 /**
  * POST /v1/decisions - Store a new decision record
+ *
+ * embedding_text is embedded on insert and the vector is indexed in the
+ * `decisions` namespace. Embedding or indexing failures do not fail the
+ * request; the decision-embedding backfill job picks those rows up later.
  */
 export async function createDecisionHandler(
   req: Request,
   res: Response,
-  dbClient: DatabaseClient
+  dbClient: DatabaseClient,
+  vectorClient: VectorClient,
+  embedder: EmbeddingProvider
 ): Promise<void> {
   const correlationId = getOrCreateCorrelationId(req.headers);
   res.setHeader('x-correlation-id', correlationId);
@@ -72,11 +93,21 @@ export async function createDecisionHandler(
     // Use provided timestamp or default to now
     const createdAt = created_at || new Date().toISOString();
 
+    let embedding: number[] | null = null;
+    try {
+      embedding = await embedder.embed(embedding_text);
+    } catch (embeddingError) {
+      logger.warn(
+        { correlationId, decisionId: id, error: embeddingError },
+        'Decision embedding failed - storing without embedding'
+      );
+    }
+    const embeddingModel = embedding ? embedder.model : null;
+
     // Insert decision into database
-    // Note: embedding field left null - actual embedding generation is a future enhancement
     await dbClient.query(
-      `INSERT INTO decisions (id, objective, command, raw_output_hash, recommendation, confidence, signals, embedding_text, embedding, graph_relations, created_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      `INSERT INTO decisions (id, objective, command, raw_output_hash, recommendation, confidence, signals, embedding_text, embedding, embedding_model, graph_relations, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
        ON CONFLICT (id) DO UPDATE SET
          objective = EXCLUDED.objective,
          command = EXCLUDED.command,
@@ -85,7 +116,10 @@ export async function createDecisionHandler(
          confidence = EXCLUDED.confidence,
          signals = EXCLUDED.signals,
          embedding_text = EXCLUDED.embedding_text,
-         graph_relations = EXCLUDED.graph_relations`,
+         embedding = EXCLUDED.embedding,
+         embedding_model = EXCLUDED.embedding_model,
+         graph_relations = EXCLUDED.graph_relations,
+         indexed_at = NULL`,
       [
         id,
         objective,
@@ -95,7 +129,8 @@ export async function createDecisionHandler(
         confidence,
         JSON.stringify(signals),
         embedding_text,
-        null, // embedding - placeholder for future vector embedding
+        embedding ? JSON.stringify(embedding) : null,
+        embeddingModel,
         JSON.stringify(graph_relations),
         createdAt,
       ]
@@ -106,6 +141,32 @@ export async function createDecisionHandler(
       'Decision stored successfully'
     );
 
+    if (embedding) {
+      try {
+        await indexDecisionEmbedding(
+          vectorClient,
+          { id, objective, recommendation, confidence, created_at: createdAt },
+          embedding,
+          embedder.model
+        );
+        await dbClient.query(`UPDATE decisions SET indexed_at = NOW() WHERE id = $1`, [id]);
+      } catch (vectorError) {
+        logger.warn(
+          { correlationId, decisionId: id, error: vectorError },
+          'Decision embedding not indexed in vector store - left for the embedding backfill'
+        );
+      }
+    }
+
+    try {
+      await materializeDecisionGraph(dbClient, { id, objective, recommendation, graph_relations });
+    } catch (graphError) {
+      logger.warn(
+        { correlationId, decisionId: id, error: graphError },
+        'Decision graph not materialised - backfill will retry'
+      );
+    }
+
     // Build the stored decision for response
     const storedDecision: DecisionRecord = {
       id,
@@ -116,7 +177,8 @@ export async function createDecisionHandler(
       confidence,
       signals,
       embedding_text,
-      embedding: null,
+      embedding,
+      embedding_model: embeddingModel,
       graph_relations,
       created_at: createdAt,
     };
@@ -143,6 +205,16 @@ export async function createDecisionHandler(
       return;
     }
 
+    if (isKeyConflict(error)) {
+      logger.warn({ correlationId, error }, 'Decision id is in use');
+      res.status(409).json({
+        error: 'conflict',
+        message: 'Decision id is already in use',
+        correlationId,
+      });
+      return;
+    }
+
     logger.error({ correlationId, error }, 'Failed to store decision');
     res.status(500).json({
       error: 'internal_error',
@@ -177,7 +249,7 @@ export async function getDecisionHandler(
     }
 
     const result = await dbClient.query<DecisionRecord>(
-      `SELECT id, objective, command, raw_output_hash, recommendation, confidence, signals, embedding_text, embedding, graph_relations, created_at
+      `SELECT id, objective, command, raw_output_hash, recommendation, confidence, signals, embedding_text, embedding, embedding_model, graph_relations, created_at
        FROM decisions WHERE id = $1`,
       [id]
     );
@@ -204,6 +276,7 @@ export async function getDecisionHandler(
       signals: row.signals,
       embedding_text: row.embedding_text,
       embedding: row.embedding,
+      embedding_model: row.embedding_model,
       graph_relations: row.graph_relations,
       created_at: new Date(row.created_at).toISOString(),
     };
@@ -263,7 +336,7 @@ export async function listDecisionsHandler(
     // Weight is accumulated from approval signals: positive = approved, negative = rejected
     const selectQuery = `
       SELECT d.id, d.objective, d.command, d.raw_output_hash, d.recommendation, d.confidence,
-             d.signals, d.embedding_text, d.embedding, d.graph_relations, d.created_at,
+             d.signals, d.embedding_text, d.embedding, d.embedding_model, d.graph_relations, d.created_at,
              COALESCE(lw.weight, 0) as approval_weight
       FROM decisions d
       LEFT JOIN learning_weights lw ON lw.source_type = 'decision'
@@ -287,6 +360,7 @@ export async function listDecisionsHandler(
       signals: row.signals,
       embedding_text: row.embedding_text,
       embedding: row.embedding,
+      embedding_model: row.embedding_model,
       graph_relations: row.graph_relations,
       created_at: new Date(row.created_at).toISOString(),
     }));
@@ -314,9 +388,226 @@ export async function listDecisionsHandler(
   }
 }
 
+/**
+ * Attach stored records, approval outcomes and learning weights to vector neighbours
+ * Neighbours whose decision row no longer exists are dropped.
+ */
+async function loadDecisionPrecedents(
+  dbClient: DatabaseClient,
+  neighbors: VectorSimilarityResult['neighbors']
+): Promise<SimilarDecision[]> {
+  if (neighbors.length === 0) return [];
+
+  const ids = neighbors.map(neighbor => neighbor.id);
+
+  const decisionResult = await dbClient.query<DecisionRecord>(
+    `SELECT id, objective, command, raw_output_hash, recommendation, confidence, signals, embedding_text, embedding, embedding_model, graph_relations, created_at
+     FROM decisions WHERE id = ANY($1)`,
+    [ids]
+  );
+  const decisions = new Map(decisionResult.rows.map(row => [row.id, row]));
+
+  const approvalResult = await dbClient.query<{
+    id: string;
+    decision_id: string;
+    approved: boolean;
+    outcome: ReviewOutcome;
+    defer_until: Date | null;
+    confidence_adjustment: number | null;
+    reward: number;
+    advisory: boolean;
+    timestamp: Date;
+  }>(
+    `SELECT id, decision_id, approved, outcome, defer_until, confidence_adjustment, reward, advisory, timestamp
+     FROM approvals WHERE decision_id = ANY($1)
+     ORDER BY timestamp DESC, id ASC`,
+    [ids]
+  );
+
+  // Edges written by the approval handler: decision, trajectory, signal and objective sources
+  const decisionSources = ids.flatMap(id => [id, `trajectory:${id}`]);
+  const signalSources = decisionResult.rows.flatMap(row =>
+    Object.entries(row.signals).map(([signalType, signalValue]) => signalSourceId(signalType, signalValue))
+  );
+  const objectiveSources = decisionResult.rows.map(row => objectiveSourceId(row.objective));
+
+  const weightResult = await dbClient.query<SimilarDecision['learning_weights'][number] & { updated_at: Date }>(
+    `SELECT source_type, source_id, target_value, weight, update_count, updated_at
+     FROM learning_weights
+     WHERE (source_type = 'decision' AND source_id = ANY($1))
+        OR (source_type = 'signal' AND source_id = ANY($2))
+        OR (source_type = 'objective' AND source_id = ANY($3))
+     ORDER BY weight DESC`,
+    [decisionSources, signalSources, objectiveSources]
+  );
+
+  return neighbors.flatMap(neighbor => {
+    const row = decisions.get(neighbor.id);
+    if (!row) return [];
+
+    const approvals = approvalResult.rows
+      .filter(approval => approval.decision_id === row.id)
+      .map(approval => ({
+        id: approval.id,
+        approved: approval.approved,
+        outcome: resolveReviewOutcome(approval),
+        defer_until: approval.defer_until ? new Date(approval.defer_until).toISOString() : undefined,
+        advisory: approval.advisory,
+        reward: approval.reward,
+        confidence_adjustment: approval.confidence_adjustment ?? undefined,
+        timestamp: new Date(approval.timestamp).toISOString(),
+      }));
+    const reviews = approvals.filter(approval => !approval.advisory);
+    const binding = reviews.find(approval => approval.outcome !== 'defer') ?? reviews[0];
+    const statuses = { approve: 'approved', reject: 'rejected', defer: 'deferred' } as const;
+
+    const ownSources = new Set([
+      `decision:${row.id}`,
+      `decision:trajectory:${row.id}`,
+      `objective:${objectiveSourceId(row.objective)}`,
+      ...Object.entries(row.signals).map(([signalType, signalValue]) => `signal:${signalSourceId(signalType, signalValue)}`),
+    ]);
+
+    return [{
+      decision: {
+        ...row,
+        created_at: new Date(row.created_at).toISOString(),
+      },
+      similarity: neighbor.score,
+      outcome: {
+        status: binding ? statuses[binding.outcome] : 'pending',
+        approvals,
+      },
+      learning_weights: weightResult.rows
+        .filter(weight => ownSources.has(`${weight.source_type}:${weight.source_id}`))
+        .map(weight => ({ ...weight, updated_at: new Date(weight.updated_at).toISOString() })),
+    }];
+  });
+}
+
+/**
+ * GET /v1/decisions/:id/similar - Past decisions most similar to a stored decision
+ * GET /v1/decisions/similar?embedding_text=... - Past decisions most similar to free text
+ * Query params: k (default 5, max 50), min_score (default 0)
+ */
+export async function similarDecisionsHandler(
+  req: Request,
+  res: Response,
+  dbClient: DatabaseClient,
+  vectorClient: VectorClient,
+  embedder: EmbeddingProvider
+): Promise<void> {
+  const correlationId = getOrCreateCorrelationId(req.headers);
+  res.setHeader('x-correlation-id', correlationId);
+
+  try {
+    const { k, min_score, embedding_text } = similarDecisionsQuerySchema.parse(req.query);
+    const decisionId = req.params.id as string | undefined;
+
+    let text: string;
+    let storedEmbedding: number[] | null = null;
+
+    if (decisionId !== undefined) {
+      const result = await dbClient.query<Pick<DecisionRecord, 'embedding_text' | 'embedding' | 'embedding_model'>>(
+        `SELECT embedding_text, embedding, embedding_model FROM decisions WHERE id = $1`,
+        [decisionId]
+      );
+
+      if (result.rows.length === 0) {
+        res.status(404).json({
+          error: 'not_found',
+          message: `Decision with ID ${decisionId} not found`,
+          correlationId,
+        });
+        return;
+      }
+
+      const row = result.rows[0];
+      text = row.embedding_text;
+      // Stored vectors from another embedding model live in a different vector space
+      if (row.embedding && row.embedding_model === embedder.model) {
+        storedEmbedding = row.embedding;
+      }
+    } else if (embedding_text) {
+      text = embedding_text;
+    } else {
+      res.status(400).json({
+        error: 'validation_error',
+        message: 'embedding_text query parameter is required',
+        correlationId,
+      });
+      return;
+    }
+
+    let neighbors: VectorSimilarityResult['neighbors'];
+    try {
+      const queryVector = storedEmbedding ?? await embedder.embed(text);
+      // Ask for one extra neighbour so the source decision itself can be dropped
+      const similar = await vectorClient.similarity({
+        namespace: DECISIONS_NAMESPACE,
+        contextVectors: [queryVector],
+        k: decisionId !== undefined ? k + 1 : k,
+        threshold: min_score,
+        includeMetadata: false,
+      });
+      neighbors = similar.neighbors.filter(neighbor => neighbor.id !== decisionId).slice(0, k);
+    } catch (searchError) {
+      logger.warn({ correlationId, decisionId, error: searchError }, 'Similar decision search unavailable');
+      res.status(503).json({
+        error: 'service_unavailable',
+        message: 'Similar decision search is temporarily unavailable',
+        correlationId,
+      });
+      return;
+    }
+
+    const results = await loadDecisionPrecedents(dbClient, neighbors);
+
+    logger.info(
+      { correlationId, decisionId, k, count: results.length },
+      'Similar decisions retrieved successfully'
+    );
+
+    const response: SimilarDecisionsResponse = {
+      query: {
+        decision_id: decisionId,
+        embedding_text: decisionId === undefined ? text : undefined,
+        embedding_model: embedder.model,
+      },
+      k,
+      results,
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.warn({ correlationId, errors: error.errors }, 'Similar decisions validation failed');
+      res.status(400).json({
+        error: 'validation_error',
+        message: 'Request validation failed',
+        correlationId,
+        details: error.errors.map(e => ({
+          path: e.path.join('.'),
+          message: e.message,
+        })),
+      });
+      return;
+    }
+
+    logger.error({ correlationId, error }, 'Failed to find similar decisions');
+    res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to find similar decisions',
+      correlationId,
+    });
+  }
+}
+
 export default {
   createDecisionHandler,
   getDecisionHandler,
   listDecisionsHandler,
+  similarDecisionsHandler,
   createDecisionSchema,
+  similarDecisionsQuerySchema,
 };
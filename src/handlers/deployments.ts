@@ -4,7 +4,7 @@
  */
 import { Request, Response } from 'express';
 import { z } from 'zod';
-import { DatabaseClient } from '../clients/DatabaseClient';
+import { DatabaseClient, isKeyConflict } from '../clients/DatabaseClient';
 import {
   Deployment,
   CreateDeploymentResponse,
@@ -154,6 +154,16 @@ export async function createDeploymentHandler(
       return;
     }
 
+    if (isKeyConflict(error)) {
+      logger.warn({ correlationId, error }, 'Deployment id is in use');
+      res.status(409).json({
+        error: 'conflict',
+        message: 'Deployment id is already in use',
+        correlationId,
+      });
+      return;
+    }
+
     logger.error({ correlationId, error }, 'Failed to store deployment');
     res.status(500).json({
       error: 'internal_error',
@@ -1,37 +1,171 @@
 import { Request, Response } from 'express';
-import { VectorClient } from '../clients/VectorClient';
+import { z } from 'zod';
+import { DatabaseClient } from '../clients/DatabaseClient';
+import { GraphRequest, GraphResponse } from '../types';
+import {
+  neighbourhood,
+  shortestPath,
+  reposForSignal,
+  attachLearnedEdges,
+  strongestRecommendations,
+  resolveLearnedNodes,
+  weightedSubgraph,
+  toGraphML,
+} from '../graph';
+import { config } from '../config';
 import logger from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+import { getOrCreateCorrelationId } from '../utils/correlation';
+
+// Validation schema for knowledge graph export query parameters
+export const graphExportQuerySchema = z.object({
+  format: z.enum(['json', 'graphml']).default('json'),
+  min_weight: z.coerce.number().min(-1).max(1).optional(),
+  min_support: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(10000).default(config.graph.maxNodes),
+  learned: z.enum(['true', 'false']).default('true').transform(value => value === 'true'),
+});
 
 /**
  * Handler for POST /graph
- * SPARC: Graph operations for vector relationships
+ * SPARC: Graph operations over decision relationships
  *
- * TODO: Implement graph traversal and relationship queries
- * This handler is a stub for Layer 3 contract compatibility
+ * Traverses the graph materialised from decisions.graph_relations:
+ * - neighbourhood: nodes/edges within `depth` hops of `node`
+ * - shortest_path: fewest-hop path from `from` to `to` within `maxDepth`
+ * - repos_for_signal: repos connected to `signal`, direct emitters first
+ * - strongest_recommendation: recommendations ranked by learned weight from an objective/signal set
+ * `learned: true` on neighbourhood adds learning_weights edges leaving the returned nodes.
  */
 export async function graphHandler(
   req: Request,
   res: Response,
-  _vectorClient: VectorClient
+  dbClient: DatabaseClient
 ): Promise<void> {
+  const startTime = Date.now();
   const correlationId = req.correlationId;
+  const body = req.body as GraphRequest;
 
   logger.info(
     {
       correlationId,
       tenant: req.entitlement?.tenant,
+      operation: body.operation,
       endpoint: '/graph'
     },
     'Processing graph request'
   );
 
-  // TODO: Implement actual graph operations
-  // This is a stub handler for Layer 3 contract compatibility
-  res.status(501).json({
-    error: 'not_implemented',
-    message: 'Graph endpoint is not yet implemented',
-    correlationId,
+  let result: Omit<GraphResponse, 'metadata'>;
+
+  switch (body.operation) {
+    case 'neighbourhood': {
+      const found = await neighbourhood(dbClient, body.node, {
+        depth: body.depth ?? 1,
+        direction: body.direction ?? 'both',
+        relations: body.relations,
+        maxNodes: body.limit ?? config.graph.maxNodes,
+      });
+      if (!found) {
+        throw new AppError(404, 'not_found', `Graph node not found: ${body.node}`);
+      }
+      result = { operation: body.operation, ...(body.learned ? await attachLearnedEdges(dbClient, found) : found) };
+      break;
+    }
+    case 'shortest_path': {
+      const path = await shortestPath(dbClient, body.from, body.to, {
+        maxDepth: body.maxDepth ?? config.graph.maxDepth,
+        direction: body.direction ?? 'both',
+      });
+      if (!path) {
+        throw new AppError(404, 'not_found', `Graph node not found: ${body.from} or ${body.to}`);
+      }
+      result = { operation: body.operation, ...path, truncated: false };
+      break;
+    }
+    case 'repos_for_signal': {
+      const found = await reposForSignal(dbClient, body.signal, {
+        depth: body.depth ?? config.graph.maxDepth,
+        maxNodes: body.limit ?? config.graph.maxNodes,
+      });
+      if (!found) {
+        throw new AppError(404, 'not_found', `Graph node not found: ${body.signal}`);
+      }
+      result = { operation: body.operation, ...found };
+      break;
+    }
+    case 'strongest_recommendation': {
+      const recommendations = await strongestRecommendations(
+        dbClient,
+        { objective: body.objective, signals: body.signals, decision: body.decision },
+        body.limit ?? 5
+      );
+      const edges = recommendations.flatMap(strength => strength.edges);
+      const nodes = await resolveLearnedNodes(dbClient, edges);
+      for (const strength of recommendations) {
+        if (!nodes.has(strength.recommendation)) {
+          nodes.set(strength.recommendation, { id: strength.recommendation, type: 'recommendation', label: strength.label });
+        }
+      }
+      result = { operation: body.operation, nodes: Array.from(nodes.values()), edges, recommendations, truncated: false };
+      break;
+    }
+    default:
+      throw new AppError(400, 'validation_error', 'Unsupported graph operation');
+  }
+
+  const executionTime = Date.now() - startTime;
+
+  logger.info(
+    { correlationId, operation: body.operation, nodes: result.nodes.length, edges: result.edges.length, executionTime },
+    'Graph request completed successfully'
+  );
+
+  const response: GraphResponse = {
+    ...result,
+    metadata: { correlationId, executionTime },
+  };
+
+  res.status(200).json(response);
+}
+
+/**
+ * GET /v1/graph/export - Weight-thresholded knowledge graph as JSON or GraphML
+ *
+ * Structural edges are kept when at least `min_support` decisions assert them, learned
+ * edges when their weight is at least `min_weight`; each kind is capped at `limit`.
+ */
+export async function graphExportHandler(
+  req: Request,
+  res: Response,
+  dbClient: DatabaseClient
+): Promise<void> {
+  const correlationId = getOrCreateCorrelationId(req.headers);
+  req.correlationId = correlationId;
+  res.setHeader('x-correlation-id', correlationId);
+
+  // Invalid parameters surface as ZodError and are answered by the error middleware
+  const query = graphExportQuerySchema.parse(req.query);
+
+  const graph = await weightedSubgraph(dbClient, {
+    minWeight: query.min_weight ?? -1,
+    minSupport: query.min_support,
+    limit: query.limit,
+    learned: query.learned,
   });
+
+  logger.info(
+    { correlationId, format: query.format, nodes: graph.nodes.length, edges: graph.edges.length, truncated: graph.truncated },
+    'Knowledge graph exported'
+  );
+
+  if (query.format === 'graphml') {
+    res.setHeader('x-graph-truncated', String(graph.truncated));
+    res.status(200).type('application/graphml+xml').send(toGraphML(graph.nodes, graph.edges));
+    return;
+  }
+
+  res.status(200).json(graph);
 }
 
 export default graphHandler;
@@ -1,9 +1,146 @@
 import { Request, Response } from 'express';
-import { IngestRequest, IngestResponse } from '../types';
-import { VectorClient } from '../clients/VectorClient';
+import { IngestBatchItemResult, IngestBatchResponse, IngestRequest, IngestResponse, VectorNamespace } from '../types';
+import { VectorClient, VectorBackendError, DEFAULT_NAMESPACE } from '../clients/VectorClient';
+import { config } from '../config';
 import logger from '../utils/logger';
 import { ruvvectorUpstreamErrorsTotal } from '../utils/metrics';
 import { AppError } from '../middleware/errorHandler';
+import { IngestBatchEntry, ingestSchema } from '../middleware/validation';
+import { NamespaceStore, checkVector, conformVector } from '../namespaces';
+import { fitVector, resolveNamespace } from './namespaces';
+import {
+  ContentHashes,
+  EVENT_SCOPE,
+  IdempotencyClaim,
+  IdempotencyStore,
+  contentHash,
+  diffContentHashes,
+} from '../idempotency';
+
+/**
+ * SPARC: RETURN error(502, 'Upstream service error'), 503 while the circuit is open, 504 on timeout
+ */
+function toUpstreamAppError(error: unknown): unknown {
+  if (error instanceof Error) {
+    if (error.message.includes('Circuit breaker')) {
+      return new AppError(503, 'service_unavailable', 'Service temporarily unavailable');
+    }
+    if (error instanceof VectorBackendError && error.code === 'upstream_timeout') {
+      return new AppError(504, 'upstream_timeout', 'Upstream service timeout');
+    }
+    return new AppError(502, 'upstream_error', 'Upstream service error');
+  }
+  return error;
+}
+
+/**
+ * Per-item error for an event the backend failed to store
+ * Caller faults (4xx other than 429) are not retryable; store faults and timeouts are.
+ */
+function toItemError(error: VectorBackendError): NonNullable<IngestBatchItemResult['error']> {
+  if (error.code === 'upstream_timeout') {
+    return { code: 'upstream_timeout', message: 'Upstream service timeout', retryable: true };
+  }
+  if (error.statusCode !== undefined && error.statusCode < 500 && error.statusCode !== 429) {
+    return { code: 'upstream_rejected', message: error.message, retryable: false };
+  }
+  return { code: 'upstream_error', message: 'Upstream service error', retryable: true };
+}
+
+/**
+ * Ledger hashes of an event's content; correlationId is per delivery and not part of it
+ */
+function eventContentHashes(event: IngestRequest): ContentHashes {
+  return {
+    namespace: contentHash(event.namespace ?? DEFAULT_NAMESPACE),
+    vector: contentHash(event.vector),
+    payload: contentHash(event.payload),
+    metadata: contentHash(event.metadata),
+    timestamp: contentHash(event.timestamp),
+  };
+}
+
+/**
+ * Claim eventIds in the ingest ledger; without the ledger replays cannot be detected, so fail
+ * Records expire after IDEMPOTENCY_EVENT_TTL_SECONDS; an eventId sent after that is stored again.
+ */
+async function claimEvents(ledger: IdempotencyStore, events: IngestRequest[]): Promise<IdempotencyClaim[]> {
+  const entries = events.map(event => ({ key: event.eventId, hashes: eventContentHashes(event) }));
+  try {
+    return await ledger.claim(EVENT_SCOPE, entries, config.idempotency.eventTtlSeconds);
+  } catch (error) {
+    logger.error({ error, events: events.length }, 'Ingest ledger unavailable');
+    throw new AppError(503, 'service_unavailable', 'Ingest ledger unavailable');
+  }
+}
+
+/**
+ * Claim eventIds like claimEvents, except that events whose vector has since been deleted or
+ * expired are not replayed or rejected: their ledger records are dropped and claimed anew,
+ * so re-ingesting them stores them again. Only records of the same namespace are checked;
+ * the namespace of a conflicting record in another one is not known.
+ */
+async function claimStoredEvents(
+  ledger: IdempotencyStore,
+  vectorClient: VectorClient,
+  events: IngestRequest[]
+): Promise<IdempotencyClaim[]> {
+  const claims = await claimEvents(ledger, events);
+
+  const known = new Map<string, number[]>();
+  claims.forEach((claim, i) => {
+    const namespace = events[i].namespace ?? DEFAULT_NAMESPACE;
+    const sameNamespace = claim.status === 'replay'
+      || (claim.status === 'conflict' && claim.stored.namespace === contentHash(namespace));
+    if (sameNamespace) {
+      known.set(namespace, [...(known.get(namespace) ?? []), i]);
+    }
+  });
+  if (known.size === 0) return claims;
+
+  const gone: number[] = [];
+  try {
+    for (const [namespace, indexes] of known) {
+      const stored = await vectorClient.existing(namespace, indexes.map(i => events[i].eventId));
+      gone.push(...indexes.filter(i => !stored.has(events[i].eventId)));
+    }
+  } catch (error) {
+    logger.error({ error, events: events.length }, 'Vector lookup of known events failed');
+    ruvvectorUpstreamErrorsTotal.inc({ type: 'lookup_failed' });
+    await releaseEvents(ledger, events.filter((_, i) => claims[i].status === 'claimed').map(event => event.eventId));
+    throw toUpstreamAppError(error);
+  }
+  if (gone.length === 0) return claims;
+
+  const goneEvents = gone.map(i => events[i]);
+  await ledger.forget(EVENT_SCOPE, goneEvents.map(event => event.eventId)).catch(error => {
+    logger.warn({ error, events: goneEvents.length }, 'Failed to drop ingest ledger records of deleted events');
+  });
+  const reclaimed = await claimEvents(ledger, goneEvents);
+  gone.forEach((i, j) => {
+    claims[i] = reclaimed[j];
+  });
+  return claims;
+}
+
+/**
+ * Release claims of events that were not stored so they can be resent
+ */
+async function releaseEvents(ledger: IdempotencyStore, eventIds: string[]): Promise<void> {
+  await ledger.release(EVENT_SCOPE, eventIds).catch(error => {
+    logger.warn({ error, events: eventIds.length }, 'Failed to release ingest ledger claims');
+  });
+}
+
+/**
+ * Record the responses of stored events; a failure only delays replays until the claim times out
+ */
+async function completeEvents(ledger: IdempotencyStore, responses: IngestResponse[]): Promise<void> {
+  const completions = responses.map(response => ({ key: response.eventId, statusCode: 201, response }));
+  await ledger.complete(EVENT_SCOPE, completions).catch(error => {
+    logger.warn({ error, events: responses.length }, 'Failed to record ingest ledger responses');
+  });
+}
 
 /**
  * Handler for POST /ingest
@@ -18,51 +155,69 @@ import { AppError } from '../middleware/errorHandler';
 export async function ingestHandler(
   req: Request,
   res: Response,
-  vectorClient: VectorClient
+  vectorClient: VectorClient,
+  ledger: IdempotencyStore,
+  namespaces: NamespaceStore
 ): Promise<void> {
   const startTime = Date.now();
   const correlationId = req.correlationId;
   const body = req.body as IngestRequest;
 
-  try {
-    logger.info(
-      {
-        correlationId,
-        eventId: body.eventId,
-        tenant: req.entitlement?.tenant,
-        endpoint: '/ingest'
-      },
-      'Processing ingest request'
-    );
+  logger.info(
+    {
+      correlationId,
+      eventId: body.eventId,
+      tenant: req.entitlement?.tenant,
+      endpoint: '/ingest'
+    },
+    'Processing ingest request'
+  );
+
+  // Vectors must fit the namespace's registered dimension
+  const { name: namespace, namespace: registration } = await resolveNamespace(namespaces, body.namespace);
+  const vector = fitVector(registration, body.vector, 'vector');
+
+  // Re-ingesting a stored eventId replays the original response, or 409s if the content changed
+  const [claim] = await claimStoredEvents(ledger, vectorClient, [body]);
+  if (claim.status === 'replay') {
+    logger.info({ correlationId, eventId: body.eventId }, 'Replaying ingest of known event');
+    res.setHeader('Idempotent-Replayed', 'true');
+    res.status(claim.statusCode).json(claim.response);
+    return;
+  }
+  if (claim.status === 'conflict') {
+    logger.warn({ correlationId, eventId: body.eventId }, 'Event re-ingested with different content');
+    res.status(409).json({
+      error: 'conflict',
+      message: `Event ${body.eventId} was already ingested with different content`,
+      eventId: body.eventId,
+      diff: diffContentHashes(claim.stored, eventContentHashes(body)),
+      correlationId,
+    });
+    return;
+  }
+  if (claim.status === 'in_progress') {
+    res.setHeader('Retry-After', '1');
+    res.status(409).json({
+      error: 'conflict',
+      message: `Event ${body.eventId} is being ingested by another request`,
+      eventId: body.eventId,
+      correlationId,
+    });
+    return;
+  }
 
+  let result: Awaited<ReturnType<VectorClient['insert']>>;
+  try {
     // SPARC Step 3: Forward to RuvVector
-    const result = await vectorClient.insert({
+    result = await vectorClient.insert({
+      namespace,
       id: body.eventId,
-      vector: body.vector,
+      vector,
       payload: body.payload,
       metadata: body.metadata,
+      timestamp: body.timestamp,
     });
-
-    const processingTime = Date.now() - startTime;
-
-    // SPARC Step 4: Return acknowledgment
-    const response: IngestResponse = {
-      eventId: body.eventId,
-      vectorId: result.id,
-      status: 'stored',
-      timestamp: new Date().toISOString(),
-      metadata: {
-        correlationId,
-        processingTime,
-      },
-    };
-
-    logger.info(
-      { correlationId, eventId: body.eventId, processingTime },
-      'Ingest completed successfully'
-    );
-
-    res.status(201).json(response);
   } catch (error) {
     // SPARC: logError('Vector insert failed', error, headers['x-correlation-id'])
     logger.error(
@@ -73,15 +228,202 @@ export async function ingestHandler(
     // Track upstream error metric
     ruvvectorUpstreamErrorsTotal.inc({ type: 'insert_failed' });
 
-    // SPARC: RETURN error(502, 'Upstream service error')
-    if (error instanceof Error) {
-      if (error.message.includes('Circuit breaker')) {
-        throw new AppError(503, 'service_unavailable', 'Service temporarily unavailable');
-      }
-      throw new AppError(502, 'upstream_error', 'Upstream service error');
+    await releaseEvents(ledger, [body.eventId]);
+    throw toUpstreamAppError(error);
+  }
+
+  const processingTime = Date.now() - startTime;
+
+  // SPARC Step 4: Return acknowledgment
+  const response: IngestResponse = {
+    eventId: body.eventId,
+    vectorId: result.id,
+    status: 'stored',
+    timestamp: new Date().toISOString(),
+    metadata: {
+      correlationId,
+      processingTime,
+    },
+  };
+  await completeEvents(ledger, [response]);
+
+  logger.info(
+    { correlationId, eventId: body.eventId, processingTime },
+    'Ingest completed successfully'
+  );
+
+  res.status(201).json(response);
+}
+
+/**
+ * Handler for POST /ingest/batch
+ * Validates each event against ingestSchema and stores the valid ones with one bulk insert.
+ * Responds 201 when every event was stored, otherwise 207 with the per-item outcomes;
+ * failed items carry an error code and whether resending them may succeed.
+ */
+export async function ingestBatchHandler(
+  req: Request,
+  res: Response,
+  vectorClient: VectorClient,
+  ledger: IdempotencyStore,
+  namespaces: NamespaceStore
+): Promise<void> {
+  const startTime = Date.now();
+  const correlationId = req.correlationId;
+  const entries = req.body as IngestBatchEntry[];
+
+  const items: IngestBatchItemResult[] = [];
+  const valid: Array<{ index: number; event: IngestRequest }> = [];
+  const seen = new Set<string>();
+
+  entries.forEach((entry, index) => {
+    if ('parseError' in entry) {
+      items[index] = { index, eventId: null, status: 'failed', error: { code: 'invalid_json', message: entry.parseError, retryable: false } };
+      return;
+    }
+
+    const rawId = (entry.value as { eventId?: unknown } | null)?.eventId;
+    const eventId = typeof rawId === 'string' ? rawId : null;
+    const parsed = ingestSchema.safeParse(entry.value);
+    if (!parsed.success) {
+      const message = parsed.error.errors.map(e => `${e.path.join('.') || 'event'}: ${e.message}`).join('; ');
+      items[index] = { index, eventId, status: 'failed', error: { code: 'validation_error', message, retryable: false } };
+      return;
+    }
+    if (seen.has(parsed.data.eventId)) {
+      items[index] = {
+        index,
+        eventId,
+        status: 'failed',
+        error: { code: 'duplicate_event_id', message: 'eventId appears earlier in the batch', retryable: false },
+      };
+      return;
+    }
+    seen.add(parsed.data.eventId);
+    valid.push({ index, event: parsed.data as IngestRequest });
+  });
+
+  // Each namespace is looked up once; events that do not fit theirs fail on their own
+  const registrations = new Map<string, VectorNamespace | null>();
+  const unregistered = new Set<string>();
+  for (const name of new Set(valid.map(({ event }) => event.namespace ?? DEFAULT_NAMESPACE))) {
+    try {
+      registrations.set(name, (await resolveNamespace(namespaces, name)).namespace);
+    } catch (error) {
+      if (!(error instanceof AppError) || error.statusCode !== 404) throw error;
+      unregistered.add(name);
+    }
+  }
+  const fitting: typeof valid = [];
+  for (const { index, event } of valid) {
+    const name = event.namespace ?? DEFAULT_NAMESPACE;
+    const registration = registrations.get(name) ?? null;
+    const problem = unregistered.has(name)
+      ? { code: 'not_found', message: `Namespace ${name} is not registered` }
+      : registration && checkVector(registration, event.vector);
+    if (problem) {
+      items[index] = { index, eventId: event.eventId, status: 'failed', error: { ...problem, retryable: false } };
+    } else {
+      fitting.push({ index, event });
     }
-    throw error;
   }
+
+  logger.info(
+    { correlationId, events: entries.length, valid: valid.length, tenant: req.entitlement?.tenant, endpoint: '/ingest/batch' },
+    'Processing batch ingest request'
+  );
+
+  // Events already in the ledger are replayed or rejected rather than stored again
+  const claims = fitting.length > 0 ? await claimStoredEvents(ledger, vectorClient, fitting.map(({ event }) => event)) : [];
+  const toStore: typeof valid = [];
+  claims.forEach((claim, i) => {
+    const { index, event } = fitting[i];
+    if (claim.status === 'claimed') {
+      toStore.push(fitting[i]);
+    } else if (claim.status === 'replay') {
+      const original = claim.response as IngestResponse;
+      items[index] = { index, eventId: event.eventId, status: 'stored', vectorId: original.vectorId, replayed: true };
+    } else if (claim.status === 'conflict') {
+      const fields = Object.keys(diffContentHashes(claim.stored, eventContentHashes(event))).join(', ');
+      items[index] = {
+        index,
+        eventId: event.eventId,
+        status: 'failed',
+        error: { code: 'conflict', message: `Already ingested with different ${fields}`, retryable: false },
+      };
+    } else {
+      items[index] = {
+        index,
+        eventId: event.eventId,
+        status: 'failed',
+        error: { code: 'in_progress', message: 'Being ingested by another request', retryable: true },
+      };
+    }
+  });
+
+  if (toStore.length > 0) {
+    let results: Awaited<ReturnType<VectorClient['insertMany']>>;
+    try {
+      results = await vectorClient.insertMany(toStore.map(({ event }) => {
+        const registration = registrations.get(event.namespace ?? DEFAULT_NAMESPACE);
+        return {
+          namespace: event.namespace ?? DEFAULT_NAMESPACE,
+          id: event.eventId,
+          vector: registration ? conformVector(registration, event.vector) : event.vector,
+          payload: event.payload,
+          metadata: event.metadata,
+          timestamp: event.timestamp,
+        };
+      }));
+    } catch (error) {
+      logger.error({ correlationId, events: toStore.length, error }, 'Batch vector insert failed');
+      ruvvectorUpstreamErrorsTotal.inc({ type: 'insert_failed' });
+      await releaseEvents(ledger, toStore.map(({ event }) => event.eventId));
+      throw toUpstreamAppError(error);
+    }
+
+    const failedIds: string[] = [];
+    const storedResponses: IngestResponse[] = [];
+    results.forEach((result, i) => {
+      const { index, event } = toStore[i];
+      if (result instanceof VectorBackendError) {
+        ruvvectorUpstreamErrorsTotal.inc({ type: 'insert_failed' });
+        failedIds.push(event.eventId);
+        items[index] = { index, eventId: event.eventId, status: 'failed', error: toItemError(result) };
+      } else {
+        items[index] = { index, eventId: event.eventId, status: 'stored', vectorId: result.id };
+        // Ledger entries hold /ingest responses so either endpoint can replay them
+        storedResponses.push({
+          eventId: event.eventId,
+          vectorId: result.id,
+          status: 'stored',
+          timestamp: new Date().toISOString(),
+          metadata: { correlationId, processingTime: Date.now() - startTime },
+        });
+      }
+    });
+    await releaseEvents(ledger, failedIds);
+    await completeEvents(ledger, storedResponses);
+  }
+
+  const stored = items.filter(item => item.status === 'stored').length;
+  const processingTime = Date.now() - startTime;
+  const response: IngestBatchResponse = {
+    stored,
+    failed: items.length - stored,
+    items,
+    metadata: {
+      correlationId,
+      processingTime,
+    },
+  };
+
+  logger.info(
+    { correlationId, stored, failed: response.failed, processingTime },
+    'Batch ingest completed'
+  );
+
+  res.status(response.failed === 0 ? 201 : 207).json(response);
 }
 
 export default ingestHandler;
@@ -138,7 +138,7 @@ async function emitLearningDecisionEvent(
       outputs, inputs_hash, confidence, constraints_applied, source_type, created_at
     )
     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
-    ON CONFLICT (inputs_hash) DO NOTHING`;
+    ON CONFLICT (tenant_id, inputs_hash) DO NOTHING`;
 
   // MEMORY LAYER: Guard against mutation (this query is safe, but we verify anyway)
   guardAgainstMutation(query);
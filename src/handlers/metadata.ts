@@ -1,7 +1,12 @@
 import { Request, Response } from 'express';
 import { VectorClient } from '../clients/VectorClient';
+import { NamespaceStore } from '../namespaces';
+import { VectorNamespace } from '../types';
 import logger from '../utils/logger';
 
+// Namespaces listed in the metadata response; /v1/namespaces pages through the rest
+const METADATA_NAMESPACE_LIMIT = 100;
+
 /**
  * Response body for GET /metadata
  */
@@ -10,6 +15,7 @@ interface MetadataResponse {
   version: string;
   endpoints: string[];
   connected: boolean;
+  namespaces?: VectorNamespace[];   // The caller's registered namespaces; omitted if the registry is unavailable
   timestamp: string;
 }
 
@@ -17,12 +23,14 @@ interface MetadataResponse {
  * Handler for GET /metadata
  * SPARC: Service metadata and capability discovery
  *
- * Returns information about the service and its capabilities
+ * Returns information about the service and its capabilities, and the vector namespaces
+ * registered for the caller's tenant
  */
 export async function metadataHandler(
   req: Request,
   res: Response,
-  vectorClient: VectorClient
+  vectorClient: VectorClient,
+  namespaceStore: NamespaceStore
 ): Promise<void> {
   const correlationId = req.correlationId || 'system';
 
@@ -34,6 +42,13 @@ export async function metadataHandler(
     'Processing metadata request'
   );
 
+  let namespaces: VectorNamespace[] | undefined;
+  try {
+    namespaces = (await namespaceStore.list(METADATA_NAMESPACE_LIMIT, 0)).namespaces;
+  } catch (error) {
+    logger.warn({ correlationId, error }, 'Namespace registry unavailable for metadata');
+  }
+
   // TODO: Enhance with dynamic capability detection
   const response: MetadataResponse = {
     service: 'ruvvector-service',
@@ -50,6 +65,7 @@ export async function metadataHandler(
       'GET /metrics',
     ],
     connected: vectorClient.isConnected(),
+    namespaces,
     timestamp: new Date().toISOString(),
   };
 
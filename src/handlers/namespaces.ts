@@ -0,0 +1,292 @@
+/**
+ * Vector Namespace Registry API Handlers
+ * CRUD for /v1/namespaces, and the namespace checks /ingest, /query and /simulate run
+ */
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { config } from '../config';
+import { DEFAULT_NAMESPACE } from '../clients/VectorClient';
+import { DECISIONS_NAMESPACE } from '../embeddings';
+import { AppError } from '../middleware/errorHandler';
+import { NAMESPACE_NAME_PATTERN, NamespaceStore, checkVector, conformVector } from '../namespaces';
+import {
+  VectorNamespace,
+  ListVectorNamespacesResponse,
+  DeleteVectorNamespaceResponse,
+} from '../types';
+import logger from '../utils/logger';
+import { getOrCreateCorrelationId } from '../utils/correlation';
+
+// pgvector's limit for stored vectors
+const MAX_DIMENSION = 16000;
+
+// Vector retention: at least a minute, at most ten years
+const MAX_TTL_SECONDS = 10 * 365 * 24 * 60 * 60;
+const ttlSecondsSchema = z.number().int().min(60).max(MAX_TTL_SECONDS).nullable().optional();
+
+const NAMESPACE_NAME_MESSAGE = 'Namespace names are 1-128 letters, digits, ".", "_" or "-"';
+
+export const namespaceNameSchema = z.string().regex(NAMESPACE_NAME_PATTERN, NAMESPACE_NAME_MESSAGE);
+
+// Validation schema for registering a namespace
+export const createNamespaceSchema = z.object({
+  name: namespaceNameSchema.refine(name => name !== DECISIONS_NAMESPACE, `${DECISIONS_NAMESPACE} is reserved for decision embeddings`),
+  dimension: z.number().int().min(1).max(MAX_DIMENSION),
+  metric: z.enum(['cosine', 'l2', 'dot']).optional().default(config.ruvVector.distanceMetric),
+  normalize: z.boolean().optional().default(false),
+  description: z.string().max(500).nullable().optional(),
+  ttl_seconds: ttlSecondsSchema,
+});
+
+// Validation schema for updating a namespace; dimension and metric are fixed once registered
+export const updateNamespaceSchema = z.object({
+  normalize: z.boolean().optional(),
+  description: z.string().max(500).nullable().optional(),
+  ttl_seconds: ttlSecondsSchema,
+}).strict();
+
+/**
+ * Namespace a vector request targets, and its registration if it has one
+ * The default namespace may be used unregistered (its vectors are not checked); any other
+ * namespace must be registered.
+ */
+export async function resolveNamespace(
+  store: NamespaceStore,
+  requested: string | undefined
+): Promise<{ name: string; namespace: VectorNamespace | null }> {
+  const name = requested ?? DEFAULT_NAMESPACE;
+
+  let namespace: VectorNamespace | null;
+  try {
+    namespace = await store.get(name);
+  } catch (error) {
+    logger.error({ error, namespace: name }, 'Namespace registry unavailable');
+    throw new AppError(503, 'service_unavailable', 'Namespace registry unavailable');
+  }
+
+  if (!namespace && name !== DEFAULT_NAMESPACE) {
+    throw new AppError(404, 'not_found', `Namespace ${name} is not registered`);
+  }
+  return { name, namespace };
+}
+
+/**
+ * The vector to store or search with in a namespace: checked against and conformed to its
+ * registration, if any. Throws 400 (invalid_vector_dimension or validation_error) when it does not fit.
+ */
+export function fitVector(namespace: VectorNamespace | null, vector: number[], field: string): number[] {
+  if (!namespace) return vector;
+  const problem = checkVector(namespace, vector);
+  if (problem) {
+    throw new AppError(400, problem.code, `${field}: ${problem.message}`);
+  }
+  return conformVector(namespace, vector);
+}
+
+/**
+ * Respond 400 unless :name is a valid namespace name
+ */
+function validNamespaceName(req: Request, res: Response, correlationId: string): string | null {
+  const { name } = req.params;
+  if (!namespaceNameSchema.safeParse(name).success) {
+    res.status(400).json({
+      error: 'validation_error',
+      message: NAMESPACE_NAME_MESSAGE,
+      correlationId,
+    });
+    return null;
+  }
+  return name;
+}
+
+function respondNotFound(res: Response, name: string, correlationId: string): void {
+  res.status(404).json({
+    error: 'not_found',
+    message: `Namespace ${name} not found`,
+    correlationId,
+  });
+}
+
+function respondError(res: Response, error: unknown, correlationId: string, action: string): void {
+  if (error instanceof z.ZodError) {
+    logger.warn({ correlationId, errors: error.errors }, `Namespace ${action} validation failed`);
+    res.status(400).json({
+      error: 'validation_error',
+      message: 'Request validation failed',
+      correlationId,
+      details: error.errors.map(e => ({
+        path: e.path.join('.'),
+        message: e.message,
+      })),
+    });
+    return;
+  }
+
+  logger.error({ correlationId, error }, `Failed to ${action} namespace`);
+  res.status(500).json({
+    error: 'internal_error',
+    message: `Failed to ${action} namespace`,
+    correlationId,
+  });
+}
+
+/**
+ * POST /v1/namespaces - Register a namespace, pinning its dimension and metric
+ */
+export async function createNamespaceHandler(
+  req: Request,
+  res: Response,
+  store: NamespaceStore
+): Promise<void> {
+  const correlationId = getOrCreateCorrelationId(req.headers);
+  res.setHeader('x-correlation-id', correlationId);
+
+  try {
+    const { name, dimension, metric, normalize, description, ttl_seconds } = createNamespaceSchema.parse(req.body);
+
+    const namespace = await store.create({
+      name,
+      dimension,
+      metric,
+      normalize,
+      description: description ?? null,
+      ttl_seconds: ttl_seconds ?? null,
+    });
+    if (!namespace) {
+      res.status(409).json({
+        error: 'conflict',
+        message: `Namespace ${name} already exists`,
+        correlationId,
+      });
+      return;
+    }
+
+    logger.info({ correlationId, namespace: name, dimension, metric, normalize, ttl_seconds }, 'Namespace registered');
+    res.status(201).json(namespace);
+  } catch (error) {
+    respondError(res, error, correlationId, 'create');
+  }
+}
+
+/**
+ * GET /v1/namespaces/:name - Retrieve a namespace
+ */
+export async function getNamespaceHandler(
+  req: Request,
+  res: Response,
+  store: NamespaceStore
+): Promise<void> {
+  const correlationId = getOrCreateCorrelationId(req.headers);
+  res.setHeader('x-correlation-id', correlationId);
+
+  try {
+    const name = validNamespaceName(req, res, correlationId);
+    if (!name) return;
+
+    const namespace = await store.get(name);
+    if (!namespace) {
+      respondNotFound(res, name, correlationId);
+      return;
+    }
+
+    res.status(200).json(namespace);
+  } catch (error) {
+    respondError(res, error, correlationId, 'retrieve');
+  }
+}
+
+/**
+ * GET /v1/namespaces - List namespaces by name
+ */
+export async function listNamespacesHandler(
+  req: Request,
+  res: Response,
+  store: NamespaceStore
+): Promise<void> {
+  const correlationId = getOrCreateCorrelationId(req.headers);
+  res.setHeader('x-correlation-id', correlationId);
+
+  try {
+    const { limit = '50', offset = '0' } = req.query;
+
+    // Validate and sanitize pagination
+    const parsedLimit = Math.min(Math.max(parseInt(limit as string, 10) || 50, 1), 1000);
+    const parsedOffset = Math.max(parseInt(offset as string, 10) || 0, 0);
+
+    const { namespaces, total } = await store.list(parsedLimit, parsedOffset);
+
+    const response: ListVectorNamespacesResponse = {
+      data: namespaces,
+      total,
+      limit: parsedLimit,
+      offset: parsedOffset,
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    respondError(res, error, correlationId, 'list');
+  }
+}
+
+/**
+ * PUT /v1/namespaces/:name - Update normalization, description or vector TTL
+ */
+export async function updateNamespaceHandler(
+  req: Request,
+  res: Response,
+  store: NamespaceStore
+): Promise<void> {
+  const correlationId = getOrCreateCorrelationId(req.headers);
+  res.setHeader('x-correlation-id', correlationId);
+
+  try {
+    const name = validNamespaceName(req, res, correlationId);
+    if (!name) return;
+
+    const changes = updateNamespaceSchema.parse(req.body);
+
+    const namespace = await store.update(name, changes);
+    if (!namespace) {
+      respondNotFound(res, name, correlationId);
+      return;
+    }
+
+    logger.info({ correlationId, namespace: name, fields: Object.keys(changes) }, 'Namespace updated');
+    res.status(200).json(namespace);
+  } catch (error) {
+    respondError(res, error, correlationId, 'update');
+  }
+}
+
+/**
+ * DELETE /v1/namespaces/:name - Unregister a namespace; its vectors are not deleted
+ */
+export async function deleteNamespaceHandler(
+  req: Request,
+  res: Response,
+  store: NamespaceStore
+): Promise<void> {
+  const correlationId = getOrCreateCorrelationId(req.headers);
+  res.setHeader('x-correlation-id', correlationId);
+
+  try {
+    const name = validNamespaceName(req, res, correlationId);
+    if (!name) return;
+
+    if (!(await store.delete(name))) {
+      respondNotFound(res, name, correlationId);
+      return;
+    }
+
+    logger.info({ correlationId, namespace: name }, 'Namespace unregistered');
+
+    const response: DeleteVectorNamespaceResponse = {
+      deleted: true,
+      name,
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    respondError(res, error, correlationId, 'delete');
+  }
+}
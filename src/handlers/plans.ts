@@ -4,7 +4,7 @@
  */
 import { Request, Response } from 'express';
 import { z } from 'zod';
-import { DatabaseClient } from '../clients/DatabaseClient';
+import { DatabaseClient, isKeyConflict } from '../clients/DatabaseClient';
 import { RuvectorPlan, CreatePlanResponse, ListPlansResponse, DeletePlanResponse } from '../types';
 import logger from '../utils/logger';
 import { getOrCreateCorrelationId } from '../utils/correlation';
@@ -72,6 +72,16 @@ export async function createPlanHandler(
       return;
     }
 
+    if (isKeyConflict(error)) {
+      logger.warn({ correlationId, error }, 'Plan id is in use');
+      res.status(409).json({
+        error: 'conflict',
+        message: 'Plan id is already in use',
+        correlationId,
+      });
+      return;
+    }
+
     logger.error({ correlationId, error }, 'Failed to store plan');
     res.status(500).json({
       error: 'internal_error',
@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import { VectorClient } from '../clients/VectorClient';
+import { VectorClient, VectorBackendError } from '../clients/VectorClient';
 import logger from '../utils/logger';
 import { ruvvectorUpstreamErrorsTotal } from '../utils/metrics';
 import { AppError } from '../middleware/errorHandler';
@@ -84,6 +84,12 @@ export async function predictHandler(
       if (error.message.includes('Circuit breaker')) {
         throw new AppError(503, 'service_unavailable', 'Service temporarily unavailable');
       }
+      if (error instanceof VectorBackendError && error.code === 'not_implemented') {
+        throw new AppError(501, 'not_implemented', error.message);
+      }
+      if (error instanceof VectorBackendError && error.code === 'upstream_timeout') {
+        throw new AppError(504, 'upstream_timeout', 'Upstream service timeout');
+      }
       throw new AppError(502, 'upstream_error', 'Upstream service error');
     }
     throw error;
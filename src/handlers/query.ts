@@ -1,13 +1,46 @@
+import { randomBytes } from 'crypto';
 import { Request, Response } from 'express';
 import { QueryRequest, QueryResponse, QueryResult } from '../types';
-import { VectorClient } from '../clients/VectorClient';
+import { VectorClient, VectorBackendError } from '../clients/VectorClient';
+import { config } from '../config';
+import { contentHash } from '../idempotency';
 import logger from '../utils/logger';
 import { ruvvectorUpstreamErrorsTotal } from '../utils/metrics';
+import { QueryCursor, decodeQueryCursor, encodeQueryCursor } from '../utils/queryCursor';
+import { DEFAULT_TENANT } from '../utils/tenant';
 import { AppError } from '../middleware/errorHandler';
+import { NamespaceStore } from '../namespaces';
+import { fitVector, resolveNamespace } from './namespaces';
+
+// QUERY_CURSOR_SECRET is required in production (startup/assertions). Outside it a per-process
+// key stands in, and tokens are only accepted by the process that issued them.
+const CURSOR_SECRET = config.query.cursorSecret ?? randomBytes(32).toString('hex');
+
+/**
+ * The cursor of a continuation token sent with the query identified by `query`
+ * Throws 400 invalid_cursor when the token was altered, continues another query or has expired.
+ */
+function readCursor(token: string, query: string, now: number): QueryCursor {
+  const cursor = decodeQueryCursor(token, CURSOR_SECRET);
+  if (!cursor) {
+    throw new AppError(400, 'invalid_cursor', 'cursor is malformed or was not issued by this service');
+  }
+  if (cursor.query !== query) {
+    throw new AppError(400, 'invalid_cursor', 'cursor continues a different query; resend the original query with it');
+  }
+  if (Date.parse(cursor.asOf) + config.query.cursorTtlSeconds * 1000 < now) {
+    throw new AppError(400, 'invalid_cursor', 'cursor has expired; start again from the first page');
+  }
+  return cursor;
+}
 
 /**
  * Handler for POST /query
  * SPARC: Retrieve historical events and vector state based on query parameters
+ * `text` restricts results to payloads matching it; with a queryVector too, the vector and
+ * text rankings are fused (reciprocal rank fusion or weighted scores, per `fusion`).
+ * pagination.nextCursor continues the query after its last result. Pages read the vectors
+ * stored before the first page was served, so events ingested meanwhile do not shift them.
  *
  * Boundaries (per SPARC):
  * - Does NOT implement complex aggregations
@@ -18,24 +51,49 @@ import { AppError } from '../middleware/errorHandler';
 export async function queryHandler(
   req: Request,
   res: Response,
-  vectorClient: VectorClient
+  vectorClient: VectorClient,
+  namespaces: NamespaceStore
 ): Promise<void> {
   const startTime = Date.now();
   const correlationId = req.correlationId;
   const body = req.body as QueryRequest;
 
-  try {
-    // Set defaults per SPARC
-    const limit = body.limit ?? 100;
-    const offset = body.offset ?? 0;
+  // A registered namespace fixes the query vector's dimension and the metric it is ranked by
+  const { name: namespace, namespace: registration } = await resolveNamespace(namespaces, body.namespace);
+  const queryVector = body.queryVector ? fitVector(registration, body.queryVector, 'queryVector') : undefined;
+
+  // Set defaults per SPARC
+  const limit = body.limit ?? 100;
+  const offset = body.offset ?? 0;
+
+  // A continuation token is bound to its tenant and every parameter that shapes the ranking
+  const queryKey = contentHash({
+    tenant: req.tenantId ?? req.entitlement?.tenant ?? DEFAULT_TENANT,
+    namespace,
+    queryVector,
+    metric: registration?.metric,
+    text: body.text,
+    fusion: body.fusion,
+    filters: body.filters,
+    timeRange: body.timeRange,
+  });
+  const cursor = body.cursor === undefined ? null : readCursor(body.cursor, queryKey, startTime);
+  const asOf = cursor?.asOf ?? new Date(startTime).toISOString();
+  const skip = cursor?.offset ?? offset;
+  const countTotal = body.includeTotal ?? cursor === null;
 
+  try {
     logger.info(
       {
         correlationId,
         tenant: req.entitlement?.tenant,
+        namespace,
         hasQueryVector: !!body.queryVector,
+        hasText: body.text !== undefined,
+        fusion: body.text && body.queryVector ? body.fusion?.method ?? 'rrf' : undefined,
         limit,
         offset,
+        hasCursor: cursor !== null,
         endpoint: '/query'
       },
       'Processing query request'
@@ -44,24 +102,45 @@ export async function queryHandler(
     // SPARC Step 3: Build vector query
     // SPARC Step 4: Execute query against RuvVector
     const result = await vectorClient.query({
-      vector: body.queryVector ?? undefined,
+      namespace,
+      vector: queryVector,
+      metric: registration?.metric,
+      text: body.text,
+      fusion: body.fusion,
       filters: body.filters,
       timeRange: body.timeRange,
       limit,
-      offset,
+      offset: skip,
+      after: cursor?.after,
+      storedBefore: asOf,
+      countTotal,
     });
 
     const queryTime = Date.now() - startTime;
 
     // Transform results to API format per SPARC response spec
+    // With text, score is the text rank or the fused score; similarity stays the vector's
     const results: QueryResult[] = result.items.map(item => ({
       eventId: item.id,
-      similarity: item.score ?? null,
-      timestamp: (item.metadata as any)?.timestamp || new Date().toISOString(),
+      similarity: (body.text !== undefined ? item.vectorScore : item.score) ?? null,
+      textScore: item.textScore,
+      score: body.text !== undefined && queryVector ? item.score : undefined,
+      timestamp: item.timestamp || (item.metadata as any)?.timestamp || new Date().toISOString(),
       payload: item.payload,
       metadata: item.metadata,
     }));
 
+    // Backends that page by keyset say whether more follow; others are continued by offset
+    const hasMore = result.next !== undefined
+      ? result.next !== null
+      : result.total !== undefined ? result.total > skip + limit : results.length === limit;
+    const nextCursor = hasMore
+      ? encodeQueryCursor(
+        result.next ? { query: queryKey, asOf, after: result.next } : { query: queryKey, asOf, offset: skip + limit },
+        CURSOR_SECRET
+      )
+      : null;
+
     // SPARC Step 5: Return results
     const response: QueryResponse = {
       results,
@@ -69,7 +148,8 @@ export async function queryHandler(
         total: result.total,
         limit,
         offset,
-        hasMore: result.total > (offset + limit),
+        hasMore,
+        nextCursor,
       },
       metadata: {
         correlationId,
@@ -95,6 +175,9 @@ export async function queryHandler(
       if (error.message.includes('Circuit breaker')) {
         throw new AppError(503, 'service_unavailable', 'Service temporarily unavailable');
       }
+      if (error instanceof VectorBackendError && error.code === 'upstream_timeout') {
+        throw new AppError(504, 'upstream_timeout', 'Upstream service timeout');
+      }
       throw new AppError(502, 'upstream_error', 'Upstream service error');
     }
     throw error;
@@ -0,0 +1,139 @@
+/**
+ * Recommendation Scoring Handler
+ * Scores recommendation types for an objective and signal set from approval-trained learning_weights
+ */
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { DatabaseClient } from '../clients/DatabaseClient';
+import {
+  RecommendationContribution,
+  RecommendationScore,
+  RecommendationScoreResponse,
+} from '../types';
+import { RECOMMENDATION_TYPES, signalSourceId, objectiveSourceId } from './approvals';
+import { signalsSchema } from './decisions';
+import logger from '../utils/logger';
+import { getOrCreateCorrelationId } from '../utils/correlation';
+
+// Default softmax temperature; learned weights are EMAs in [-1, 1], so 1.0 would flatten the distribution
+const SOFTMAX_TEMPERATURE = 0.25;
+
+// Validation schema for scoring requests
+export const scoreRecommendationsSchema = z.object({
+  objective: z.string().min(1),
+  signals: signalsSchema,
+  temperature: z.number().min(0.01).max(10).optional(),
+});
+
+const round = (value: number): number => Math.round(value * 1e6) / 1e6;
+
+/**
+ * Softmax over scores / temperature, shifted by the max score for numerical stability
+ */
+export function softmax(scores: number[], temperature: number): number[] {
+  const max = Math.max(...scores);
+  const exps = scores.map(score => Math.exp((score - max) / temperature));
+  const total = exps.reduce((sum, value) => sum + value, 0);
+  return exps.map(value => value / total);
+}
+
+/**
+ * POST /v1/recommendations/score - Ranked distribution over recommendation types
+ *
+ * Each type scores the sum of learned weights on the objective -> type and signal -> type
+ * edges that updateLearningWeight maintains for the same objective/signal keys. Types with
+ * no learned edges score 0, so an unseen objective and signals yield a uniform distribution.
+ */
+export async function scoreRecommendationsHandler(
+  req: Request,
+  res: Response,
+  dbClient: DatabaseClient
+): Promise<void> {
+  const correlationId = getOrCreateCorrelationId(req.headers);
+  res.setHeader('x-correlation-id', correlationId);
+
+  try {
+    const { objective, signals, temperature = SOFTMAX_TEMPERATURE } = scoreRecommendationsSchema.parse(req.body);
+
+    const objectiveId = objectiveSourceId(objective);
+    const signalIds = Object.entries(signals).map(([signalType, signalValue]) => signalSourceId(signalType, signalValue));
+
+    const result = await dbClient.query<RecommendationContribution & { target_value: string }>(
+      `SELECT source_type, source_id, target_value, weight, update_count
+       FROM learning_weights
+       WHERE target_type = 'recommendation'
+         AND target_value = ANY($3)
+         AND ((source_type = 'objective' AND source_id = $1) OR (source_type = 'signal' AND source_id = ANY($2)))
+       ORDER BY source_type, source_id, target_value`,
+      [objectiveId, signalIds, RECOMMENDATION_TYPES]
+    );
+
+    const contributions = new Map<string, RecommendationContribution[]>(RECOMMENDATION_TYPES.map(type => [type, []]));
+    for (const row of result.rows) {
+      contributions.get(row.target_value)?.push({
+        source_type: row.source_type,
+        source_id: row.source_id,
+        recommendation: row.target_value,
+        weight: Number(row.weight),
+        update_count: Number(row.update_count),
+      });
+    }
+
+    const scores = RECOMMENDATION_TYPES.map(type =>
+      (contributions.get(type) ?? []).reduce((sum, contribution) => sum + contribution.weight, 0)
+    );
+    const probabilities = softmax(scores, temperature);
+
+    const recommendations: RecommendationScore[] = RECOMMENDATION_TYPES
+      .map((type, index) => ({
+        recommendation: type,
+        score: round(scores[index]),
+        probability: round(probabilities[index]),
+        contributions: (contributions.get(type) ?? [])
+          .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight)),
+      }))
+      .sort((a, b) => b.probability - a.probability || b.score - a.score);
+
+    logger.info(
+      {
+        correlationId,
+        evidence: result.rows.length,
+        top: recommendations[0].recommendation,
+        probability: recommendations[0].probability,
+      },
+      'Recommendations scored'
+    );
+
+    const response: RecommendationScoreResponse = {
+      objective,
+      temperature,
+      evidence: result.rows.length,
+      recommendations,
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      logger.warn({ correlationId, errors: error.errors }, 'Recommendation scoring validation failed');
+      res.status(400).json({
+        error: 'validation_error',
+        message: 'Request validation failed',
+        correlationId,
+        details: error.errors,
+      });
+      return;
+    }
+
+    logger.error({ correlationId, error }, 'Failed to score recommendations');
+    res.status(500).json({
+      error: 'internal_error',
+      message: 'Failed to score recommendations',
+      correlationId,
+    });
+  }
+}
+
+export default {
+  scoreRecommendationsHandler,
+  scoreRecommendationsSchema,
+};
@@ -1,9 +1,11 @@
 import { Request, Response } from 'express';
-import { SimulateRequest, SimulateResponse, SimulateResult, SimulateNeighbor } from '../types';
-import { VectorClient } from '../clients/VectorClient';
+import { SimulateRequest, SimulateResponse, SimulateResult, SimulateNeighbor, SimilarityNeighbor } from '../types';
+import { VectorClient, VectorBackendError } from '../clients/VectorClient';
 import logger from '../utils/logger';
 import { ruvvectorUpstreamErrorsTotal } from '../utils/metrics';
 import { AppError } from '../middleware/errorHandler';
+import { NamespaceStore } from '../namespaces';
+import { fitVector, resolveNamespace } from './namespaces';
 
 /**
  * Handler for POST /simulate
@@ -18,12 +20,17 @@ import { AppError } from '../middleware/errorHandler';
 export async function simulateHandler(
   req: Request,
   res: Response,
-  vectorClient: VectorClient
+  vectorClient: VectorClient,
+  namespaces: NamespaceStore
 ): Promise<void> {
   const startTime = Date.now();
   const correlationId = req.correlationId;
   const body = req.body as SimulateRequest;
 
+  // A registered namespace fixes the context vectors' dimension and the metric they are ranked by
+  const { name: namespace, namespace: registration } = await resolveNamespace(namespaces, body.namespace);
+  const contextVectors = body.contextVectors.map((vector, i) => fitVector(registration, vector, `contextVectors.${i}`));
+
   try {
     // Set defaults per SPARC
     const nearestNeighbors = body.nearestNeighbors ?? 10;
@@ -35,9 +42,12 @@ export async function simulateHandler(
       {
         correlationId,
         tenant: req.entitlement?.tenant,
+        namespace,
         contextVectorCount: body.contextVectors.length,
+        hasFilters: body.filters !== undefined,
         nearestNeighbors,
         similarityThreshold,
+        aggregate: body.aggregate,
         endpoint: '/simulate'
       },
       'Processing simulate request'
@@ -46,33 +56,39 @@ export async function simulateHandler(
     // SPARC Step 3: Build simulation query
     // SPARC Step 4: Execute simulation query
     const vectorResult = await vectorClient.similarity({
-      contextVectors: body.contextVectors,
+      namespace,
+      contextVectors,
+      filters: body.filters,
       k: nearestNeighbors,
       threshold: similarityThreshold,
       includeMetadata,
+      metric: registration?.metric,
+      aggregate: body.aggregate,
     });
 
     // SPARC Step 5: Return simulation results
     // Transform results to API format per SPARC response spec
-    const results: SimulateResult[] = body.contextVectors.map((_, contextIndex) => {
-      const neighbors: SimulateNeighbor[] = vectorResult.neighbors.map(neighbor => ({
-        eventId: neighbor.id,
-        similarity: neighbor.score,
-        vector: includeVectors ? (neighbor.vector ?? null) : undefined,
-        payload: neighbor.payload,
-        metadata: includeMetadata ? (neighbor.metadata ?? null) : undefined,
-      }));
-
-      return {
-        contextIndex,
-        neighbors,
-      };
+    const toNeighbor = (neighbor: SimilarityNeighbor): SimulateNeighbor => ({
+      eventId: neighbor.id,
+      similarity: neighbor.score,
+      vector: includeVectors ? (neighbor.vector ?? null) : undefined,
+      payload: neighbor.payload,
+      metadata: includeMetadata ? (neighbor.metadata ?? null) : undefined,
     });
 
+    const results: SimulateResult[] = vectorResult.groups.map((group, contextIndex) => ({
+      contextIndex,
+      neighbors: group.map(toNeighbor),
+    }));
+
     const executionTime = Date.now() - startTime;
 
     const response: SimulateResponse = {
       results,
+      aggregate: body.aggregate && {
+        mode: body.aggregate,
+        neighbors: vectorResult.neighbors.map(toNeighbor),
+      },
       execution: {
         vectorsProcessed: vectorResult.processed,
         executionTime,
@@ -98,6 +114,9 @@ export async function simulateHandler(
       if (error.message.includes('Circuit breaker')) {
         throw new AppError(503, 'service_unavailable', 'Service temporarily unavailable');
       }
+      if (error instanceof VectorBackendError && error.code === 'upstream_timeout') {
+        throw new AppError(504, 'upstream_timeout', 'Upstream service timeout');
+      }
       throw new AppError(502, 'upstream_error', 'Upstream service error');
     }
     throw error;
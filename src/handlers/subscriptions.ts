@@ -0,0 +1,497 @@
+/**
+ * Webhook Subscriptions API Handlers
+ * CRUD for /v1/subscriptions plus dead-letter inspection and replay; delivery itself
+ * runs in webhooks/worker
+ */
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseClient } from '../clients/DatabaseClient';
+import {
+  WebhookSubscription,
+  CreateWebhookSubscriptionResponse,
+  ListWebhookSubscriptionsResponse,
+  DeleteWebhookSubscriptionResponse,
+  WebhookDeadLetter,
+  ListWebhookDeadLettersResponse,
+  ReplayWebhookResponse,
+  DecisionEventType,
+} from '../types';
+import { VALID_EVENT_TYPES, latestDecisionEventCursor } from './decisionEvents';
+import { checkWebhookUrl, generateWebhookSecret } from '../webhooks';
+import { config } from '../config';
+import logger from '../utils/logger';
+import { getOrCreateCorrelationId } from '../utils/correlation';
+
+const SUBSCRIPTION_COLUMNS = 'id, url, event_types, description, active, cursor, created_at, updated_at';
+
+const webhookUrlSchema = z.string().url().superRefine((url, ctx) => {
+  if (!['http:', 'https:'].includes(new URL(url).protocol)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'url must be http(s)' });
+    return;
+  }
+  // Receivers on private networks would let tenants reach internal services
+  const problem = checkWebhookUrl(url, config.webhooks.allowedPrivateHosts);
+  if (problem) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: problem });
+  }
+});
+
+const eventTypesSchema = z.array(z.enum(VALID_EVENT_TYPES as [DecisionEventType, ...DecisionEventType[]])).min(1)
+  .transform(types => [...new Set(types)]);
+
+// Caller-supplied secrets must be long enough to resist guessing
+const secretSchema = z.string().min(16).max(256);
+
+// Validation schema for creating a subscription
+export const createSubscriptionSchema = z.object({
+  url: webhookUrlSchema,
+  event_types: eventTypesSchema,
+  secret: secretSchema.optional(),                                     // Generated when omitted
+  description: z.string().max(500).nullable().optional(),
+  active: z.boolean().optional().default(true),
+  deliver_from: z.enum(['now', 'beginning']).optional().default('now'), // Start after the latest event, or replay the feed
+});
+
+// Validation schema for updating a subscription (secret rotates the signing key)
+export const updateSubscriptionSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  event_types: eventTypesSchema.optional(),
+  secret: secretSchema.optional(),
+  description: z.string().max(500).nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+// Validation schema for replay: dead letters (all when omitted) and/or a cursor rewind
+export const replaySubscriptionSchema = z.object({
+  dead_letter_ids: z.array(z.string().uuid()).min(1).optional(),
+  from_cursor: z.string().min(1).nullable().optional(),      // null re-delivers the whole feed
+});
+
+type SubscriptionRow = Omit<WebhookSubscription, 'created_at' | 'updated_at'> & {
+  created_at: Date | string;
+  updated_at: Date | string;
+};
+
+type DeadLetterRow = Omit<WebhookDeadLetter, 'failed_at' | 'replayed_at'> & {
+  failed_at: Date | string;
+  replayed_at: Date | string | null;
+};
+
+function toSubscription(row: SubscriptionRow): WebhookSubscription {
+  return {
+    id: row.id,
+    url: row.url,
+    event_types: row.event_types,
+    description: row.description,
+    active: row.active,
+    cursor: row.cursor,
+    created_at: new Date(row.created_at).toISOString(),
+    updated_at: new Date(row.updated_at).toISOString(),
+  };
+}
+
+function toDeadLetter(row: DeadLetterRow): WebhookDeadLetter {
+  return {
+    ...row,
+    failed_at: new Date(row.failed_at).toISOString(),
+    replayed_at: row.replayed_at ? new Date(row.replayed_at).toISOString() : null,
+  };
+}
+
+/**
+ * Respond 400 unless :id is a UUID
+ */
+function validSubscriptionId(req: Request, res: Response, correlationId: string): string | null {
+  const { id } = req.params;
+  if (!z.string().uuid().safeParse(id).success) {
+    res.status(400).json({
+      error: 'validation_error',
+      message: 'Invalid subscription ID format (must be UUID)',
+      correlationId,
+    });
+    return null;
+  }
+  return id;
+}
+
+function respondNotFound(res: Response, id: string, correlationId: string): void {
+  res.status(404).json({
+    error: 'not_found',
+    message: `Subscription with ID ${id} not found`,
+    correlationId,
+  });
+}
+
+function respondError(res: Response, error: unknown, correlationId: string, action: string): void {
+  if (error instanceof z.ZodError) {
+    logger.warn({ correlationId, errors: error.errors }, `Subscription ${action} validation failed`);
+    res.status(400).json({
+      error: 'validation_error',
+      message: 'Request validation failed',
+      correlationId,
+      details: error.errors.map(e => ({
+        path: e.path.join('.'),
+        message: e.message,
+      })),
+    });
+    return;
+  }
+
+  logger.error({ correlationId, error }, `Failed to ${action} subscription`);
+  res.status(500).json({
+    error: 'internal_error',
+    message: `Failed to ${action} subscription`,
+    correlationId,
+  });
+}
+
+/**
+ * POST /v1/subscriptions - Register a webhook receiver
+ */
+export async function createSubscriptionHandler(
+  req: Request,
+  res: Response,
+  dbClient: DatabaseClient
+): Promise<void> {
+  const correlationId = getOrCreateCorrelationId(req.headers);
+  res.setHeader('x-correlation-id', correlationId);
+
+  try {
+    const { url, event_types, secret, description, active, deliver_from } = createSubscriptionSchema.parse(req.body);
+
+    const id = uuidv4();
+    const signingSecret = secret ?? generateWebhookSecret();
+    const cursor = deliver_from === 'now' ? await latestDecisionEventCursor(dbClient) : null;
+
+    const result = await dbClient.query<SubscriptionRow>(
+      `INSERT INTO webhook_subscriptions (id, url, event_types, secret, description, active, cursor)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING ${SUBSCRIPTION_COLUMNS}`,
+      [id, url, event_types, signingSecret, description ?? null, active, cursor]
+    );
+
+    logger.info({ correlationId, subscriptionId: id, eventTypes: event_types, deliverFrom: deliver_from }, 'Subscription created');
+
+    const response: CreateWebhookSubscriptionResponse = {
+      ...toSubscription(result.rows[0]),
+      secret: signingSecret,
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    respondError(res, error, correlationId, 'create');
+  }
+}
+
+/**
+ * GET /v1/subscriptions/:id - Retrieve a subscription (without its secret)
+ */
+export async function getSubscriptionHandler(
+  req: Request,
+  res: Response,
+  dbClient: DatabaseClient
+): Promise<void> {
+  const correlationId = getOrCreateCorrelationId(req.headers);
+  res.setHeader('x-correlation-id', correlationId);
+
+  try {
+    const id = validSubscriptionId(req, res, correlationId);
+    if (!id) return;
+
+    const result = await dbClient.query<SubscriptionRow>(
+      `SELECT ${SUBSCRIPTION_COLUMNS} FROM webhook_subscriptions WHERE id = $1`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      respondNotFound(res, id, correlationId);
+      return;
+    }
+
+    res.status(200).json(toSubscription(result.rows[0]));
+  } catch (error) {
+    respondError(res, error, correlationId, 'retrieve');
+  }
+}
+
+/**
+ * GET /v1/subscriptions - List subscriptions with optional active filter
+ */
+export async function listSubscriptionsHandler(
+  req: Request,
+  res: Response,
+  dbClient: DatabaseClient
+): Promise<void> {
+  const correlationId = getOrCreateCorrelationId(req.headers);
+  res.setHeader('x-correlation-id', correlationId);
+
+  try {
+    const { active, limit = '50', offset = '0' } = req.query;
+
+    // Validate and sanitize pagination
+    const parsedLimit = Math.min(Math.max(parseInt(limit as string, 10) || 50, 1), 1000);
+    const parsedOffset = Math.max(parseInt(offset as string, 10) || 0, 0);
+
+    if (active !== undefined && active !== 'true' && active !== 'false') {
+      res.status(400).json({
+        error: 'validation_error',
+        message: 'Invalid active filter. Must be true or false',
+        correlationId,
+      });
+      return;
+    }
+
+    const params: unknown[] = [];
+    const whereClause = active !== undefined ? 'WHERE active = $1' : '';
+    if (active !== undefined) params.push(active === 'true');
+
+    const countResult = await dbClient.query<{ total: string }>(
+      `SELECT COUNT(*) as total FROM webhook_subscriptions ${whereClause}`,
+      params
+    );
+    const total = parseInt(countResult.rows[0]?.total || '0', 10);
+
+    const result = await dbClient.query<SubscriptionRow>(
+      `SELECT ${SUBSCRIPTION_COLUMNS}
+       FROM webhook_subscriptions
+       ${whereClause}
+       ORDER BY created_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, parsedLimit, parsedOffset]
+    );
+
+    const response: ListWebhookSubscriptionsResponse = {
+      data: result.rows.map(toSubscription),
+      total,
+      limit: parsedLimit,
+      offset: parsedOffset,
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    respondError(res, error, correlationId, 'list');
+  }
+}
+
+/**
+ * PUT /v1/subscriptions/:id - Update url, event types, description, active flag or secret
+ */
+export async function updateSubscriptionHandler(
+  req: Request,
+  res: Response,
+  dbClient: DatabaseClient
+): Promise<void> {
+  const correlationId = getOrCreateCorrelationId(req.headers);
+  res.setHeader('x-correlation-id', correlationId);
+
+  try {
+    const id = validSubscriptionId(req, res, correlationId);
+    if (!id) return;
+
+    const validatedData = updateSubscriptionSchema.parse(req.body);
+
+    // Build update query from the provided fields
+    const updates: string[] = [];
+    const params: unknown[] = [];
+    for (const field of ['url', 'event_types', 'secret', 'description', 'active'] as const) {
+      if (validatedData[field] !== undefined) {
+        params.push(validatedData[field]);
+        updates.push(`${field} = $${params.length}`);
+      }
+    }
+    updates.push('updated_at = NOW()');
+    params.push(id);
+
+    const result = await dbClient.query<SubscriptionRow>(
+      `UPDATE webhook_subscriptions
+       SET ${updates.join(', ')}
+       WHERE id = $${params.length}
+       RETURNING ${SUBSCRIPTION_COLUMNS}`,
+      params
+    );
+
+    if (result.rows.length === 0) {
+      respondNotFound(res, id, correlationId);
+      return;
+    }
+
+    logger.info(
+      { correlationId, subscriptionId: id, fields: Object.keys(validatedData), secretRotated: validatedData.secret !== undefined },
+      'Subscription updated'
+    );
+    res.status(200).json(toSubscription(result.rows[0]));
+  } catch (error) {
+    respondError(res, error, correlationId, 'update');
+  }
+}
+
+/**
+ * DELETE /v1/subscriptions/:id - Delete a subscription and its dead letters
+ */
+export async function deleteSubscriptionHandler(
+  req: Request,
+  res: Response,
+  dbClient: DatabaseClient
+): Promise<void> {
+  const correlationId = getOrCreateCorrelationId(req.headers);
+  res.setHeader('x-correlation-id', correlationId);
+
+  try {
+    const id = validSubscriptionId(req, res, correlationId);
+    if (!id) return;
+
+    const result = await dbClient.query(
+      'DELETE FROM webhook_subscriptions WHERE id = $1 RETURNING id',
+      [id]
+    );
+
+    if (result.rowCount === 0) {
+      respondNotFound(res, id, correlationId);
+      return;
+    }
+
+    logger.info({ correlationId, subscriptionId: id }, 'Subscription deleted');
+
+    const response: DeleteWebhookSubscriptionResponse = {
+      deleted: true,
+      id,
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    respondError(res, error, correlationId, 'delete');
+  }
+}
+
+/**
+ * GET /v1/subscriptions/:id/dead-letters - Events that exhausted their delivery attempts
+ */
+export async function listDeadLettersHandler(
+  req: Request,
+  res: Response,
+  dbClient: DatabaseClient
+): Promise<void> {
+  const correlationId = getOrCreateCorrelationId(req.headers);
+  res.setHeader('x-correlation-id', correlationId);
+
+  try {
+    const id = validSubscriptionId(req, res, correlationId);
+    if (!id) return;
+
+    const { status, limit = '50', offset = '0' } = req.query;
+    const parsedLimit = Math.min(Math.max(parseInt(limit as string, 10) || 50, 1), 1000);
+    const parsedOffset = Math.max(parseInt(offset as string, 10) || 0, 0);
+
+    if (status !== undefined && !['dead', 'replaying', 'replayed'].includes(status as string)) {
+      res.status(400).json({
+        error: 'validation_error',
+        message: 'Invalid status. Must be one of: dead, replaying, replayed',
+        correlationId,
+      });
+      return;
+    }
+
+    const params: unknown[] = [id];
+    let statusClause = '';
+    if (status !== undefined) {
+      params.push(status);
+      statusClause = 'AND status = $2';
+    }
+
+    const countResult = await dbClient.query<{ total: string }>(
+      `SELECT COUNT(*) as total FROM webhook_dead_letters WHERE subscription_id = $1 ${statusClause}`,
+      params
+    );
+    const total = parseInt(countResult.rows[0]?.total || '0', 10);
+
+    const result = await dbClient.query<DeadLetterRow>(
+      `SELECT id, subscription_id, event_id, event_type, event, status, attempts, last_status_code, last_error, failed_at, replayed_at
+       FROM webhook_dead_letters
+       WHERE subscription_id = $1 ${statusClause}
+       ORDER BY failed_at DESC, id ASC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, parsedLimit, parsedOffset]
+    );
+
+    const response: ListWebhookDeadLettersResponse = {
+      data: result.rows.map(toDeadLetter),
+      total,
+      limit: parsedLimit,
+      offset: parsedOffset,
+    };
+
+    res.status(200).json(response);
+  } catch (error) {
+    respondError(res, error, correlationId, 'list dead letters for');
+  }
+}
+
+/**
+ * POST /v1/subscriptions/:id/replay - Queue dead letters for re-delivery and/or rewind the cursor
+ * Body: { dead_letter_ids?: uuid[], from_cursor?: string | null }. Without from_cursor every
+ * dead (or the listed) dead letter is queued; the worker delivers them on its next pass.
+ */
+export async function replaySubscriptionHandler(
+  req: Request,
+  res: Response,
+  dbClient: DatabaseClient
+): Promise<void> {
+  const correlationId = getOrCreateCorrelationId(req.headers);
+  res.setHeader('x-correlation-id', correlationId);
+
+  try {
+    const id = validSubscriptionId(req, res, correlationId);
+    if (!id) return;
+
+    const { dead_letter_ids, from_cursor } = replaySubscriptionSchema.parse(req.body ?? {});
+    const rewind = from_cursor !== undefined;
+
+    const subscription = await dbClient.query<{ cursor: string | null }>(
+      rewind
+        ? `UPDATE webhook_subscriptions SET cursor = $2, updated_at = NOW() WHERE id = $1 RETURNING cursor`
+        : `SELECT cursor FROM webhook_subscriptions WHERE id = $1`,
+      rewind ? [id, from_cursor] : [id]
+    );
+
+    if (subscription.rows.length === 0) {
+      respondNotFound(res, id, correlationId);
+      return;
+    }
+
+    let queued = 0;
+    if (dead_letter_ids !== undefined || !rewind) {
+      const result = await dbClient.query(
+        `UPDATE webhook_dead_letters SET status = 'replaying'
+         WHERE subscription_id = $1 AND status = 'dead' AND ($2::uuid[] IS NULL OR id = ANY($2::uuid[]))`,
+        [id, dead_letter_ids ?? null]
+      );
+      queued = result.rowCount ?? 0;
+    }
+
+    logger.info({ correlationId, subscriptionId: id, queued, fromCursor: from_cursor }, 'Subscription replay requested');
+
+    const response: ReplayWebhookResponse = {
+      subscription_id: id,
+      dead_letters_queued: queued,
+      cursor: subscription.rows[0].cursor,
+    };
+
+    res.status(202).json(response);
+  } catch (error) {
+    respondError(res, error, correlationId, 'replay');
+  }
+}
+
+export default {
+  createSubscriptionHandler,
+  getSubscriptionHandler,
+  listSubscriptionsHandler,
+  updateSubscriptionHandler,
+  deleteSubscriptionHandler,
+  listDeadLettersHandler,
+  replaySubscriptionHandler,
+  createSubscriptionSchema,
+  updateSubscriptionSchema,
+  replaySubscriptionSchema,
+};
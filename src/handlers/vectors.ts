@@ -0,0 +1,150 @@
+/**
+ * Vector Deletion API Handlers
+ * DELETE /vectors/:id and POST /vectors/delete; every deletion is audited (utils/audit)
+ */
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { VectorClient, VectorBackendError, DEFAULT_NAMESPACE } from '../clients/VectorClient';
+import { DECISIONS_NAMESPACE } from '../embeddings';
+import { AppError } from '../middleware/errorHandler';
+import { queryFiltersSchema, timeRangeSchema } from '../middleware/validation';
+import { DeleteResult, VectorDeleteResult } from '../types';
+import { auditVectorDeletion } from '../utils/audit';
+import logger from '../utils/logger';
+import { ruvvectorUpstreamErrorsTotal } from '../utils/metrics';
+import { getOrCreateCorrelationId } from '../utils/correlation';
+import { namespaceNameSchema } from './namespaces';
+
+// Decision embeddings are kept in step with the decisions table and deleted with it
+const deletableNamespaceSchema = namespaceNameSchema.refine(
+  name => name !== DECISIONS_NAMESPACE,
+  `${DECISIONS_NAMESPACE} is reserved for decision embeddings`
+);
+
+// Validation schema for DELETE /vectors/:id query parameters
+export const deleteVectorQuerySchema = z.object({
+  namespace: deletableNamespaceSchema.optional(),
+});
+
+// Validation schema for POST /vectors/delete; filters and timeRange match POST /query's
+export const deleteVectorsSchema = z.object({
+  namespace: deletableNamespaceSchema.optional(),
+  filters: queryFiltersSchema.optional(),
+  timeRange: timeRangeSchema.optional(),
+  storedBefore: z.string().datetime().optional(),
+  dryRun: z.boolean().optional().default(false),
+}).refine(
+  body => hasCriteria(body),
+  'At least one of filters, timeRange or storedBefore is required; empty filters would match every vector'
+);
+
+function hasCriteria(body: {
+  filters?: z.infer<typeof queryFiltersSchema>;
+  timeRange?: z.infer<typeof timeRangeSchema>;
+  storedBefore?: string;
+}): boolean {
+  const { source, type, metadata } = body.filters ?? {};
+  return source !== undefined
+    || type !== undefined
+    || Object.keys(metadata ?? {}).length > 0
+    || body.timeRange !== undefined
+    || body.storedBefore !== undefined;
+}
+
+/**
+ * Map a failed vector store call to the SPARC upstream errors, as POST /query does
+ */
+function upstreamError(error: unknown): unknown {
+  ruvvectorUpstreamErrorsTotal.inc({ type: 'delete_failed' });
+
+  if (!(error instanceof Error)) return error;
+  if (error.message.includes('Circuit breaker')) {
+    return new AppError(503, 'service_unavailable', 'Service temporarily unavailable');
+  }
+  if (error instanceof VectorBackendError && error.code === 'upstream_timeout') {
+    return new AppError(504, 'upstream_timeout', 'Upstream service timeout');
+  }
+  return new AppError(502, 'upstream_error', 'Upstream service error');
+}
+
+/**
+ * DELETE /vectors/:id - Delete one vector (?namespace= defaults to the events namespace)
+ * The namespace need not be registered: vectors outlive their registration.
+ */
+export async function deleteVectorHandler(
+  req: Request,
+  res: Response,
+  vectorClient: VectorClient
+): Promise<void> {
+  const correlationId = getOrCreateCorrelationId(req.headers);
+  req.correlationId = correlationId;
+  res.setHeader('x-correlation-id', correlationId);
+
+  const { id } = req.params;
+  const namespace = deleteVectorQuerySchema.parse(req.query).namespace ?? DEFAULT_NAMESPACE;
+
+  let deleted: boolean;
+  try {
+    ({ deleted } = await vectorClient.delete(namespace, id));
+  } catch (error) {
+    logger.error({ correlationId, error, namespace, id }, 'Vector delete failed');
+    throw upstreamError(error);
+  }
+
+  auditVectorDeletion({
+    reason: 'request',
+    tenant: req.tenantId,
+    namespace,
+    id,
+    matched: deleted ? 1 : 0,
+    deleted: deleted ? 1 : 0,
+    dryRun: false,
+    correlationId,
+  });
+
+  if (!deleted) {
+    throw new AppError(404, 'not_found', `Vector ${id} not found in namespace ${namespace}`);
+  }
+
+  const response: DeleteResult = { id, namespace, deleted };
+  res.status(200).json(response);
+}
+
+/**
+ * POST /vectors/delete - Delete (or with dryRun, count) the vectors of a namespace matching
+ * source/type/metadata filters, an event time range and/or a storage cutoff
+ */
+export async function deleteVectorsHandler(
+  req: Request,
+  res: Response,
+  vectorClient: VectorClient
+): Promise<void> {
+  const correlationId = getOrCreateCorrelationId(req.headers);
+  req.correlationId = correlationId;
+  res.setHeader('x-correlation-id', correlationId);
+
+  const { namespace = DEFAULT_NAMESPACE, dryRun, ...criteria } = deleteVectorsSchema.parse(req.body);
+
+  let result: VectorDeleteResult;
+  try {
+    result = await vectorClient.deleteWhere({ namespace, ...criteria, dryRun });
+  } catch (error) {
+    logger.error({ correlationId, error, namespace }, 'Vector delete by filter failed');
+    throw upstreamError(error);
+  }
+
+  auditVectorDeletion({
+    reason: 'request',
+    tenant: req.tenantId,
+    namespace,
+    criteria,
+    matched: result.matched,
+    deleted: result.deleted,
+    dryRun,
+    correlationId,
+  });
+
+  res.status(200).json(result);
+}
+
+export default { deleteVectorHandler, deleteVectorsHandler };
@@ -0,0 +1,104 @@
+/**
+ * Idempotency record store contract
+ *
+ * Backs the ingest ledger (one record per eventId) and Idempotency-Key replays. A record is
+ * claimed before the work runs, completed with the response once it has succeeded, and
+ * released when it failed so the request can be retried. Records belong to the current
+ * tenant (utils/tenant).
+ */
+import { createHash } from 'crypto';
+import { IdempotencyBackendKind } from '../types';
+
+export type { IdempotencyBackendKind } from '../types';
+
+/**
+ * Scope of the ingest ledger; Idempotency-Key records are scoped by `<METHOD> <route>`
+ */
+export const EVENT_SCOPE = 'event';
+
+/**
+ * SHA-256 per request part (e.g. vector, payload); two requests are the same when all match
+ */
+export type ContentHashes = Record<string, string>;
+
+export interface IdempotencyEntry {
+  key: string;
+  hashes: ContentHashes;
+}
+
+export type IdempotencyClaim =
+  | { status: 'claimed' }                                         // Caller must complete or release it
+  | { status: 'replay'; statusCode: number; response: unknown }   // Same request already completed
+  | { status: 'conflict'; stored: ContentHashes }                 // Key used for a different request
+  | { status: 'in_progress' };                                    // Same key claimed and not yet completed
+
+export interface IdempotencyCompletion {
+  key: string;
+  statusCode: number;
+  response: unknown;
+}
+
+export interface IdempotencyStoreOptions {
+  lockTimeoutSeconds: number;       // Incomplete claims older than this can be claimed again
+}
+
+export interface IdempotencyStore {
+  readonly kind: IdempotencyBackendKind;
+
+  /**
+   * Claim each entry's key within `scope`; one result per entry, in order
+   * Completed records expire after `ttlSeconds` (0 keeps them).
+   */
+  claim(scope: string, entries: IdempotencyEntry[], ttlSeconds: number): Promise<IdempotencyClaim[]>;
+
+  /** Record the responses of claimed keys */
+  complete(scope: string, completions: IdempotencyCompletion[]): Promise<void>;
+
+  /** Drop claims whose work failed; completed records are kept */
+  release(scope: string, keys: string[]): Promise<void>;
+
+  /** Drop records, completed or not, whose work has since been undone */
+  forget(scope: string, keys: string[]): Promise<void>;
+}
+
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value as object)
+        .sort()
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .map(key => [key, canonicalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * SHA-256 of a value's JSON with object keys sorted at every level
+ */
+export function contentHash(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(canonicalize(value ?? null))).digest('hex');
+}
+
+/**
+ * Hash identifying a whole request, from its part hashes
+ */
+export function requestHash(hashes: ContentHashes): string {
+  return contentHash(hashes);
+}
+
+/**
+ * Parts whose hashes differ between a stored request and a new one
+ */
+export function diffContentHashes(
+  stored: ContentHashes,
+  received: ContentHashes
+): Record<string, { stored: string | null; received: string | null }> {
+  const fields = [...new Set([...Object.keys(stored), ...Object.keys(received)])].sort();
+  return Object.fromEntries(
+    fields
+      .filter(field => stored[field] !== received[field])
+      .map(field => [field, { stored: stored[field] ?? null, received: received[field] ?? null }])
+  );
+}
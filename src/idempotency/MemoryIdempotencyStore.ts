@@ -0,0 +1,106 @@
+/**
+ * In-process idempotency store
+ *
+ * Records are per service instance and lost on restart; use the postgres store when
+ * replays must be detected across instances.
+ */
+import { DEFAULT_TENANT, currentTenant } from '../utils/tenant';
+import {
+  ContentHashes,
+  IdempotencyClaim,
+  IdempotencyCompletion,
+  IdempotencyEntry,
+  IdempotencyStore,
+  IdempotencyStoreOptions,
+  requestHash,
+} from './IdempotencyStore';
+
+interface StoredRecord {
+  requestHash: string;
+  hashes: ContentHashes;
+  claimedAt: number;
+  ttlSeconds: number;
+  completedAt?: number;
+  statusCode?: number;
+  response?: unknown;
+}
+
+// Expired and abandoned records are dropped at most this often
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  readonly kind = 'memory' as const;
+
+  private records = new Map<string, StoredRecord>();
+  private prunedAt = 0;
+
+  constructor(private options: IdempotencyStoreOptions) {}
+
+  async claim(scope: string, entries: IdempotencyEntry[], ttlSeconds: number): Promise<IdempotencyClaim[]> {
+    const now = Date.now();
+    this.pruneExpired(now);
+    return entries.map(({ key, hashes }) => {
+      const id = this.recordId(scope, key);
+      const existing = this.records.get(id);
+      if (existing && !this.isReclaimable(existing, now)) {
+        if (existing.requestHash !== requestHash(hashes)) {
+          return { status: 'conflict', stored: existing.hashes };
+        }
+        if (existing.completedAt === undefined) {
+          return { status: 'in_progress' };
+        }
+        return { status: 'replay', statusCode: existing.statusCode!, response: existing.response };
+      }
+
+      this.records.set(id, { requestHash: requestHash(hashes), hashes, claimedAt: now, ttlSeconds });
+      return { status: 'claimed' };
+    });
+  }
+
+  async complete(scope: string, completions: IdempotencyCompletion[]): Promise<void> {
+    const now = Date.now();
+    for (const { key, statusCode, response } of completions) {
+      const record = this.records.get(this.recordId(scope, key));
+      if (record) {
+        Object.assign(record, { completedAt: now, statusCode, response });
+      }
+    }
+  }
+
+  async release(scope: string, keys: string[]): Promise<void> {
+    for (const key of keys) {
+      const id = this.recordId(scope, key);
+      if (this.records.get(id)?.completedAt === undefined) {
+        this.records.delete(id);
+      }
+    }
+  }
+
+  async forget(scope: string, keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.records.delete(this.recordId(scope, key));
+    }
+  }
+
+  private pruneExpired(now: number): void {
+    if (now - this.prunedAt < PRUNE_INTERVAL_MS) return;
+    this.prunedAt = now;
+    for (const [id, record] of this.records) {
+      if (this.isReclaimable(record, now)) {
+        this.records.delete(id);
+      }
+    }
+  }
+
+  private recordId(scope: string, key: string): string {
+    return `${currentTenant() ?? DEFAULT_TENANT}|${scope}|${key}`;
+  }
+
+  // Abandoned claims and expired records can be claimed again
+  private isReclaimable(record: StoredRecord, now: number): boolean {
+    if (record.completedAt === undefined) {
+      return now - record.claimedAt > this.options.lockTimeoutSeconds * 1000;
+    }
+    return record.ttlSeconds > 0 && now - record.completedAt > record.ttlSeconds * 1000;
+  }
+}
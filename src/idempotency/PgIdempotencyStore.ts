@@ -0,0 +1,147 @@
+/**
+ * Postgres-backed idempotency store
+ *
+ * Keeps records in the idempotency_records table created by DatabaseClient.initialize(), so a
+ * replay is recognised whichever instance receives it. Claims are a single multi-row upsert:
+ * the primary key serializes concurrent claims of the same key.
+ */
+import { DatabaseClient } from '../clients/DatabaseClient';
+import logger from '../utils/logger';
+import { DEFAULT_TENANT, TENANT_SETTING } from '../utils/tenant';
+import {
+  ContentHashes,
+  IdempotencyClaim,
+  IdempotencyCompletion,
+  IdempotencyEntry,
+  IdempotencyStore,
+  IdempotencyStoreOptions,
+  requestHash,
+} from './IdempotencyStore';
+
+// Rows of the current tenant; outside a tenant context that is the default tenant
+const CURRENT_TENANT = `COALESCE(NULLIF(current_setting('${TENANT_SETTING}', true), ''), '${DEFAULT_TENANT}')`;
+
+// Expired records are deleted at most this often per instance
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Completed records with a TTL that has run out
+const EXPIRED = (r: string) =>
+  `${r}.ttl_seconds > 0 AND ${r}.completed_at < NOW() - make_interval(secs => ${r}.ttl_seconds)`;
+
+// Abandoned claims ($5 = lock timeout) and expired records are claimed again
+const CLAIM_SQL = `
+  INSERT INTO idempotency_records AS r (scope, key, request_hash, content_hashes, ttl_seconds)
+  SELECT $1, i.key, i.request_hash, i.content_hashes, $6
+  FROM unnest($2::text[], $3::text[], $4::jsonb[]) AS i(key, request_hash, content_hashes)
+  ON CONFLICT (tenant_id, scope, key) DO UPDATE SET
+    request_hash = EXCLUDED.request_hash,
+    content_hashes = EXCLUDED.content_hashes,
+    status_code = NULL,
+    response = NULL,
+    created_at = NOW(),
+    completed_at = NULL,
+    ttl_seconds = EXCLUDED.ttl_seconds
+  WHERE (r.completed_at IS NULL AND r.created_at < NOW() - make_interval(secs => $5))
+     OR (${EXPIRED('r')})
+  RETURNING key`;
+
+interface RecordRow {
+  key: string;
+  request_hash: string;
+  content_hashes: ContentHashes;
+  status_code: number | null;
+  response: unknown;
+  completed_at: Date | null;
+}
+
+export class PgIdempotencyStore implements IdempotencyStore {
+  readonly kind = 'postgres' as const;
+
+  private prunedAt = 0;
+
+  constructor(private dbClient: DatabaseClient, private options: IdempotencyStoreOptions) {}
+
+  async claim(scope: string, entries: IdempotencyEntry[], ttlSeconds: number): Promise<IdempotencyClaim[]> {
+    if (entries.length === 0) return [];
+    await this.pruneExpired();
+
+    const hashes = entries.map(entry => requestHash(entry.hashes));
+    const claimed = await this.dbClient.query<{ key: string }>(CLAIM_SQL, [
+      scope,
+      entries.map(entry => entry.key),
+      hashes,
+      entries.map(entry => JSON.stringify(entry.hashes)),
+      this.options.lockTimeoutSeconds,
+      ttlSeconds,
+    ]);
+    const claimedKeys = new Set(claimed.rows.map(row => row.key));
+
+    const others = entries.filter(entry => !claimedKeys.has(entry.key)).map(entry => entry.key);
+    const existing = new Map<string, RecordRow>();
+    if (others.length > 0) {
+      const result = await this.dbClient.query<RecordRow>(
+        `SELECT key, request_hash, content_hashes, status_code, response, completed_at
+         FROM idempotency_records
+         WHERE tenant_id = ${CURRENT_TENANT} AND scope = $1 AND key = ANY($2)`,
+        [scope, others]
+      );
+      result.rows.forEach(row => existing.set(row.key, row));
+    }
+
+    return entries.map((entry, i): IdempotencyClaim => {
+      if (claimedKeys.has(entry.key)) return { status: 'claimed' };
+      const row = existing.get(entry.key);
+      // Released between the claim and the read: report it busy so the caller retries
+      if (!row) return { status: 'in_progress' };
+      if (row.request_hash !== hashes[i]) return { status: 'conflict', stored: row.content_hashes };
+      if (row.completed_at === null) return { status: 'in_progress' };
+      return { status: 'replay', statusCode: row.status_code ?? 200, response: row.response };
+    });
+  }
+
+  async complete(scope: string, completions: IdempotencyCompletion[]): Promise<void> {
+    if (completions.length === 0) return;
+    await this.dbClient.query(
+      `UPDATE idempotency_records r SET
+         status_code = c.status_code,
+         response = c.response,
+         completed_at = NOW()
+       FROM unnest($2::text[], $3::int[], $4::jsonb[]) AS c(key, status_code, response)
+       WHERE r.tenant_id = ${CURRENT_TENANT} AND r.scope = $1 AND r.key = c.key`,
+      [
+        scope,
+        completions.map(completion => completion.key),
+        completions.map(completion => completion.statusCode),
+        completions.map(completion => JSON.stringify(completion.response ?? null)),
+      ]
+    );
+  }
+
+  async release(scope: string, keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await this.dbClient.query(
+      `DELETE FROM idempotency_records
+       WHERE tenant_id = ${CURRENT_TENANT} AND scope = $1 AND key = ANY($2) AND completed_at IS NULL`,
+      [scope, keys]
+    );
+  }
+
+  async forget(scope: string, keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    await this.dbClient.query(
+      `DELETE FROM idempotency_records
+       WHERE tenant_id = ${CURRENT_TENANT} AND scope = $1 AND key = ANY($2)`,
+      [scope, keys]
+    );
+  }
+
+  private async pruneExpired(): Promise<void> {
+    if (Date.now() - this.prunedAt < PRUNE_INTERVAL_MS) return;
+    this.prunedAt = Date.now();
+    try {
+      await this.dbClient.query(`DELETE FROM idempotency_records r WHERE ${EXPIRED('r')}`);
+    } catch (error) {
+      logger.warn({ error }, 'Failed to prune expired idempotency records');
+    }
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Idempotency store factory
+ * Selects where the ingest ledger and Idempotency-Key records are kept (IDEMPOTENCY_BACKEND)
+ */
+import { DatabaseClient } from '../clients/DatabaseClient';
+import { IdempotencyBackendKind } from '../types';
+import { IdempotencyStore, IdempotencyStoreOptions } from './IdempotencyStore';
+import { MemoryIdempotencyStore } from './MemoryIdempotencyStore';
+import { PgIdempotencyStore } from './PgIdempotencyStore';
+
+export interface IdempotencyOptions extends IdempotencyStoreOptions {
+  backend: IdempotencyBackendKind;
+}
+
+/**
+ * Create the configured idempotency store
+ * The postgres store shares the service's DatabaseClient pool; the memory store is
+ * process-local and meant for development and tests.
+ */
+export function createIdempotencyStore(options: IdempotencyOptions, dbClient: DatabaseClient): IdempotencyStore {
+  switch (options.backend) {
+    case 'postgres':
+      return new PgIdempotencyStore(dbClient, options);
+    case 'memory':
+      return new MemoryIdempotencyStore(options);
+  }
+}
+
+export * from './IdempotencyStore';
+export { MemoryIdempotencyStore } from './MemoryIdempotencyStore';
+export { PgIdempotencyStore } from './PgIdempotencyStore';
@@ -7,25 +7,39 @@ import {
   ruvvectorRequestsTotal,
   ruvvectorRequestDuration,
   ruvvectorCircuitBreakerState,
-  ruvvectorActiveConnections
+  ruvvectorActiveConnections,
+  setDecisionEventGroupLagSource,
+  setDecisionEventHoldbackSource,
 } from './utils/metrics';
 import { VectorClient } from './clients/VectorClient';
 import { DatabaseClient } from './clients/DatabaseClient';
+import { EmbeddingProvider } from './embeddings';
 
 // Startup Hardening
-import { runStartupAssertions, verifyStorageHealth } from './startup';
+import {
+  runStartupAssertions,
+  verifyStorageHealth,
+  createDatabaseClient,
+  createVectorClient,
+  createEmbedder,
+} from './startup';
 import { configureLatencyBudget, learningLatencyMiddleware } from './middleware/latencyBudget';
 import { assertHistoricalDataIntegrity } from './guards/immutability';
 
 // Middleware
-import { validateRequiredHeaders, validateInternalPolling, validateRequest, ingestSchema, querySchema, simulateSchema } from './middleware/validation';
+import { validateRequiredHeaders, validateBatchHeaders, validateInternalPolling, scopeToTenant, requireScope, parseIngestBatch, recordBodyBytes, validateRequest, ingestSchema, querySchema, simulateSchema, graphSchema } from './middleware/validation';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { createRateLimitMiddleware } from './middleware/rateLimit';
+import { createIdempotencyMiddleware } from './middleware/idempotency';
+import { createRateLimitStore, RateLimitStore } from './ratelimit';
+import { createIdempotencyStore, IdempotencyStore } from './idempotency';
+import { createNamespaceStore, NamespaceStore } from './namespaces';
 
 // Handlers
-import { ingestHandler } from './handlers/ingest';
+import { ingestHandler, ingestBatchHandler } from './handlers/ingest';
 import { queryHandler } from './handlers/query';
 import { simulateHandler } from './handlers/simulate';
-import { graphHandler } from './handlers/graph';
+import { graphHandler, graphExportHandler } from './handlers/graph';
 import { predictHandler } from './handlers/predict';
 import { metadataHandler } from './handlers/metadata';
 import { healthHandler, readyHandler } from './handlers/health';
@@ -46,13 +60,43 @@ import {
   createDecisionHandler,
   getDecisionHandler,
   listDecisionsHandler,
+  similarDecisionsHandler,
 } from './handlers/decisions';
 import { createApprovalHandler } from './handlers/approvals';
+import { scoreRecommendationsHandler } from './handlers/recommendations';
 import {
   createApprovalLearningHandler,
   createFeedbackAssimilationHandler,
 } from './handlers/learning';
-import { listDecisionEventsHandler } from './handlers/decisionEvents';
+import { listDecisionEventsHandler, oldestHeldBackEventAge } from './handlers/decisionEvents';
+import {
+  listGroupDecisionEventsHandler,
+  ackDecisionEventsHandler,
+  nackDecisionEventsHandler,
+  getDecisionEventGroupHandler,
+  deleteDecisionEventGroupHandler,
+  decisionEventGroupLags,
+} from './handlers/consumerGroups';
+import {
+  createSubscriptionHandler,
+  getSubscriptionHandler,
+  listSubscriptionsHandler,
+  updateSubscriptionHandler,
+  deleteSubscriptionHandler,
+  listDeadLettersHandler,
+  replaySubscriptionHandler,
+} from './handlers/subscriptions';
+import {
+  createNamespaceHandler,
+  getNamespaceHandler,
+  listNamespacesHandler,
+  updateNamespaceHandler,
+  deleteNamespaceHandler,
+} from './handlers/namespaces';
+import { deleteVectorHandler, deleteVectorsHandler } from './handlers/vectors';
+import { startDeferralSweeper } from './jobs/deferralExpiry';
+import { startVectorRetentionSweeper } from './jobs/vectorRetention';
+import { startWebhookWorker } from './webhooks';
 
 /**
  * Request metrics middleware - SPARC compliant
@@ -78,8 +122,17 @@ function metricsMiddleware(req: Request, res: Response, next: NextFunction): voi
  * Initialize Express application with all middleware and routes
  * SPARC compliant with Cloud Run plans API
  */
-function createApp(vectorClient: VectorClient, dbClient: DatabaseClient): Application {
+function createApp(
+  vectorClient: VectorClient,
+  dbClient: DatabaseClient,
+  embedder: EmbeddingProvider = createEmbedder(),
+  rateLimitStore: RateLimitStore = createRateLimitStore(config.rateLimits.backend, dbClient),
+  idempotencyStore: IdempotencyStore = createIdempotencyStore(config.idempotency, dbClient),
+  namespaceStore: NamespaceStore = createNamespaceStore(config.namespaces, dbClient)
+): Application {
   const app = express();
+  const rateLimit = createRateLimitMiddleware(rateLimitStore);
+  const idempotency = createIdempotencyMiddleware(idempotencyStore);
 
   // ============================================================================
   // CRITICAL: Tolerant polling endpoint MUST be registered BEFORE global middleware
@@ -90,12 +143,29 @@ function createApp(vectorClient: VectorClient, dbClient: DatabaseClient): Applic
   // GET /events/decisions - Fetch decision events for execution engines
   // MUST be registered BEFORE express.json() to avoid 400 errors from body parsing
   // Safe for: stateless polling, first-time consumers, cursor-less requests, missing headers
-  app.get('/events/decisions', validateInternalPolling, (req, res, next) => {
-    listDecisionEventsHandler(req, res, dbClient).catch(next);
+  // ?group= leases events to a consumer group instead (handlers/consumerGroups)
+  app.get('/events/decisions', validateInternalPolling, scopeToTenant, requireScope, rateLimit, (req, res, next) => {
+    const handler = req.query.group !== undefined ? listGroupDecisionEventsHandler : listDecisionEventsHandler;
+    handler(req, res, dbClient).catch(next);
   });
 
+  // POST /ingest/batch - Bulk ingest of normalized events (JSON array or NDJSON)
+  // Registered BEFORE express.json() so batches get their own body parser and size limit
+  // (INGEST_BATCH_MAX_BYTES). The body is parsed before rateLimit, which meters its events.
+  app.post(
+    '/ingest/batch',
+    validateBatchHeaders,
+    scopeToTenant,
+    requireScope,
+    parseIngestBatch,
+    rateLimit,
+    (req, res, next) => {
+      ingestBatchHandler(req, res, vectorClient, idempotencyStore, namespaceStore).catch(next);
+    }
+  );
+
   // Basic middleware (applied to all OTHER routes)
-  app.use(express.json({ limit: '10mb' }));
+  app.use(express.json({ limit: '10mb', verify: recordBodyBytes }));
 
   // Metrics middleware for all requests
   app.use(metricsMiddleware);
@@ -111,6 +181,10 @@ function createApp(vectorClient: VectorClient, dbClient: DatabaseClient): Applic
     readyHandler(req, res, vectorClient).catch(next);
   });
 
+  // Consumer group lag and event holdback are read from the database on each scrape
+  setDecisionEventGroupLagSource(() => decisionEventGroupLags(dbClient));
+  setDecisionEventHoldbackSource(() => oldestHeldBackEventAge(dbClient));
+
   // SPARC: GET /metrics - Prometheus metrics
   app.get('/metrics', async (_req, res) => {
     // Update circuit breaker state metric
@@ -121,27 +195,39 @@ function createApp(vectorClient: VectorClient, dbClient: DatabaseClient): Applic
     res.end(await register.metrics());
   });
 
+  // Tenant-scoped APIs: rows are isolated per entitlement tenant (utils/tenant).
+  // Health and metrics routes stay in system scope.
+  // Every route but health, readiness, metrics and metadata runs requireScope, which checks
+  // the entitlement's scopes against the route's entry in config.authorization.
+  // rateLimit follows it and applies the tenant's per-route limits and daily quotas
+  // (config.rateLimits). Mutating routes then honour Idempotency-Key; /ingest and
+  // /ingest/batch are idempotent by eventId instead.
+  app.use([
+    '/v1/plans', '/v1/deployments', '/v1/subscriptions', '/v1/namespaces', '/vectors', '/v1/decisions', '/decision/approval',
+    '/v1/graph', '/v1/recommendations', '/learning',
+  ], scopeToTenant);
+
   // ============================================================================
   // Plans API - /v1/plans endpoints for Cloud Run
   // ============================================================================
 
   // POST /v1/plans - Store a plan
-  app.post('/v1/plans', (req, res, next) => {
+  app.post('/v1/plans', requireScope, rateLimit, idempotency, (req, res, next) => {
     createPlanHandler(req, res, dbClient).catch(next);
   });
 
   // GET /v1/plans/:id - Retrieve a plan by ID
-  app.get('/v1/plans/:id', (req, res, next) => {
+  app.get('/v1/plans/:id', requireScope, rateLimit, (req, res, next) => {
     getPlanHandler(req, res, dbClient).catch(next);
   });
 
   // GET /v1/plans - List plans (with optional org_id and limit query params)
-  app.get('/v1/plans', (req, res, next) => {
+  app.get('/v1/plans', requireScope, rateLimit, (req, res, next) => {
     listPlansHandler(req, res, dbClient).catch(next);
   });
 
   // DELETE /v1/plans/:id - Delete a plan
-  app.delete('/v1/plans/:id', (req, res, next) => {
+  app.delete('/v1/plans/:id', requireScope, rateLimit, idempotency, (req, res, next) => {
     deletePlanHandler(req, res, dbClient).catch(next);
   });
 
@@ -150,58 +236,188 @@ function createApp(vectorClient: VectorClient, dbClient: DatabaseClient): Applic
   // ============================================================================
 
   // POST /v1/deployments - Store a deployment
-  app.post('/v1/deployments', (req, res, next) => {
+  app.post('/v1/deployments', requireScope, rateLimit, idempotency, (req, res, next) => {
     createDeploymentHandler(req, res, dbClient).catch(next);
   });
 
   // GET /v1/deployments/:id - Retrieve a deployment by ID
-  app.get('/v1/deployments/:id', (req, res, next) => {
+  app.get('/v1/deployments/:id', requireScope, rateLimit, (req, res, next) => {
     getDeploymentHandler(req, res, dbClient).catch(next);
   });
 
   // PUT /v1/deployments/:id - Update a deployment
-  app.put('/v1/deployments/:id', (req, res, next) => {
+  app.put('/v1/deployments/:id', requireScope, rateLimit, idempotency, (req, res, next) => {
     updateDeploymentHandler(req, res, dbClient).catch(next);
   });
 
   // GET /v1/deployments - List deployments (with optional environment, status, limit, offset query params)
-  app.get('/v1/deployments', (req, res, next) => {
+  app.get('/v1/deployments', requireScope, rateLimit, (req, res, next) => {
     listDeploymentsHandler(req, res, dbClient).catch(next);
   });
 
   // DELETE /v1/deployments/:id - Delete a deployment
-  app.delete('/v1/deployments/:id', (req, res, next) => {
+  app.delete('/v1/deployments/:id', requireScope, rateLimit, idempotency, (req, res, next) => {
     deleteDeploymentHandler(req, res, dbClient).catch(next);
   });
 
+  // ============================================================================
+  // Webhook Subscriptions API - push delivery of decision events
+  // ============================================================================
+
+  // POST /v1/subscriptions - Register a webhook receiver
+  app.post('/v1/subscriptions', requireScope, rateLimit, idempotency, (req, res, next) => {
+    createSubscriptionHandler(req, res, dbClient).catch(next);
+  });
+
+  // GET /v1/subscriptions/:id - Retrieve a subscription
+  app.get('/v1/subscriptions/:id', requireScope, rateLimit, (req, res, next) => {
+    getSubscriptionHandler(req, res, dbClient).catch(next);
+  });
+
+  // PUT /v1/subscriptions/:id - Update a subscription (or rotate its secret)
+  app.put('/v1/subscriptions/:id', requireScope, rateLimit, idempotency, (req, res, next) => {
+    updateSubscriptionHandler(req, res, dbClient).catch(next);
+  });
+
+  // GET /v1/subscriptions - List subscriptions (with optional active, limit, offset query params)
+  app.get('/v1/subscriptions', requireScope, rateLimit, (req, res, next) => {
+    listSubscriptionsHandler(req, res, dbClient).catch(next);
+  });
+
+  // DELETE /v1/subscriptions/:id - Delete a subscription
+  app.delete('/v1/subscriptions/:id', requireScope, rateLimit, idempotency, (req, res, next) => {
+    deleteSubscriptionHandler(req, res, dbClient).catch(next);
+  });
+
+  // GET /v1/subscriptions/:id/dead-letters - Undeliverable events
+  app.get('/v1/subscriptions/:id/dead-letters', requireScope, rateLimit, (req, res, next) => {
+    listDeadLettersHandler(req, res, dbClient).catch(next);
+  });
+
+  // POST /v1/subscriptions/:id/replay - Re-deliver dead letters and/or rewind the cursor
+  app.post('/v1/subscriptions/:id/replay', requireScope, rateLimit, idempotency, (req, res, next) => {
+    replaySubscriptionHandler(req, res, dbClient).catch(next);
+  });
+
+  // ============================================================================
+  // Vector Namespaces API - dimension, metric and normalization per namespace
+  // ============================================================================
+
+  // POST /v1/namespaces - Register a namespace
+  app.post('/v1/namespaces', requireScope, rateLimit, idempotency, (req, res, next) => {
+    createNamespaceHandler(req, res, namespaceStore).catch(next);
+  });
+
+  // GET /v1/namespaces/:name - Retrieve a namespace
+  app.get('/v1/namespaces/:name', requireScope, rateLimit, (req, res, next) => {
+    getNamespaceHandler(req, res, namespaceStore).catch(next);
+  });
+
+  // PUT /v1/namespaces/:name - Update normalization, description or vector TTL
+  app.put('/v1/namespaces/:name', requireScope, rateLimit, idempotency, (req, res, next) => {
+    updateNamespaceHandler(req, res, namespaceStore).catch(next);
+  });
+
+  // GET /v1/namespaces - List namespaces
+  app.get('/v1/namespaces', requireScope, rateLimit, (req, res, next) => {
+    listNamespacesHandler(req, res, namespaceStore).catch(next);
+  });
+
+  // DELETE /v1/namespaces/:name - Unregister a namespace
+  app.delete('/v1/namespaces/:name', requireScope, rateLimit, idempotency, (req, res, next) => {
+    deleteNamespaceHandler(req, res, namespaceStore).catch(next);
+  });
+
+  // ============================================================================
+  // Vector Deletion API - audited deletes by id or filter (retention sweeps: jobs/vectorRetention)
+  // ============================================================================
+
+  // POST /vectors/delete - Delete (or dry-run count) vectors matching filters
+  app.post('/vectors/delete', requireScope, rateLimit, idempotency, (req, res, next) => {
+    deleteVectorsHandler(req, res, vectorClient).catch(next);
+  });
+
+  // DELETE /vectors/:id - Delete one vector
+  app.delete('/vectors/:id', requireScope, rateLimit, idempotency, (req, res, next) => {
+    deleteVectorHandler(req, res, vectorClient).catch(next);
+  });
+
+  // ============================================================================
+  // Decision Event Consumer Groups - settle events leased via GET /events/decisions?group=
+  // ============================================================================
+
+  // POST /events/decisions/ack - Acknowledge processed events
+  app.post('/events/decisions/ack', validateInternalPolling, scopeToTenant, requireScope, rateLimit, (req, res, next) => {
+    ackDecisionEventsHandler(req, res, dbClient).catch(next);
+  });
+
+  // POST /events/decisions/nack - Return events for re-delivery (optionally delayed)
+  app.post('/events/decisions/nack', validateInternalPolling, scopeToTenant, requireScope, rateLimit, (req, res, next) => {
+    nackDecisionEventsHandler(req, res, dbClient).catch(next);
+  });
+
+  // GET /events/decisions/groups/:group - Committed offset, in-flight count and lag
+  app.get('/events/decisions/groups/:group', validateInternalPolling, scopeToTenant, requireScope, rateLimit, (req, res, next) => {
+    getDecisionEventGroupHandler(req, res, dbClient).catch(next);
+  });
+
+  // DELETE /events/decisions/groups/:group - Drop a consumer group
+  app.delete('/events/decisions/groups/:group', validateInternalPolling, scopeToTenant, requireScope, rateLimit, (req, res, next) => {
+    deleteDecisionEventGroupHandler(req, res, dbClient).catch(next);
+  });
+
   // ============================================================================
   // Decisions API - /v1/decisions endpoints for Executive Synthesis
   // ============================================================================
 
   // POST /v1/decisions - Store a new decision record
-  app.post('/v1/decisions', (req, res, next) => {
-    createDecisionHandler(req, res, dbClient).catch(next);
+  app.post('/v1/decisions', requireScope, rateLimit, idempotency, (req, res, next) => {
+    createDecisionHandler(req, res, dbClient, vectorClient, embedder).catch(next);
+  });
+
+  // GET /v1/decisions/similar - Decisions most similar to ?embedding_text (before /:id)
+  app.get('/v1/decisions/similar', requireScope, rateLimit, (req, res, next) => {
+    similarDecisionsHandler(req, res, dbClient, vectorClient, embedder).catch(next);
+  });
+
+  // GET /v1/decisions/:id/similar - Decisions most similar to a stored decision
+  app.get('/v1/decisions/:id/similar', requireScope, rateLimit, (req, res, next) => {
+    similarDecisionsHandler(req, res, dbClient, vectorClient, embedder).catch(next);
   });
 
   // GET /v1/decisions/:id - Retrieve a decision by ID
-  app.get('/v1/decisions/:id', (req, res, next) => {
+  app.get('/v1/decisions/:id', requireScope, rateLimit, (req, res, next) => {
     getDecisionHandler(req, res, dbClient).catch(next);
   });
 
   // GET /v1/decisions - List decisions (with optional objective, limit, offset query params)
-  app.get('/v1/decisions', (req, res, next) => {
+  app.get('/v1/decisions', requireScope, rateLimit, (req, res, next) => {
     listDecisionsHandler(req, res, dbClient).catch(next);
   });
 
+  // ============================================================================
+  // Knowledge Graph API - decision relations joined with learned weights
+  // ============================================================================
+
+  // GET /v1/graph/export - Weight-thresholded subgraph as JSON or GraphML
+  app.get('/v1/graph/export', requireScope, rateLimit, (req, res, next) => {
+    graphExportHandler(req, res, dbClient).catch(next);
+  });
+
   // ============================================================================
   // Decision Approval API - Learning endpoint for executive synthesis
   // ============================================================================
 
   // POST /decision/approval - Process approval event and apply learning
-  app.post('/decision/approval', (req, res, next) => {
+  app.post('/decision/approval', requireScope, rateLimit, idempotency, (req, res, next) => {
     createApprovalHandler(req, res, dbClient).catch(next);
   });
 
+  // POST /v1/recommendations/score - Rank recommendation types from learned weights
+  app.post('/v1/recommendations/score', requireScope, rateLimit, (req, res, next) => {
+    scoreRecommendationsHandler(req, res, dbClient).catch(next);
+  });
+
   // ============================================================================
   // Learning Signal Agents API - PROMPT 0 Compliant
   // Memory Layer Hardening: Latency budget enforcement on all learning endpoints
@@ -209,18 +425,18 @@ function createApp(vectorClient: VectorClient, dbClient: DatabaseClient): Applic
 
   // POST /learning/learn - Approval Learning Agent (CLI-invokable)
   // Emits ONLY: learning_update_signal
-  app.post('/learning/learn', learningLatencyMiddleware, (req, res, next) => {
+  app.post('/learning/learn', requireScope, rateLimit, idempotency, learningLatencyMiddleware, (req, res, next) => {
     createApprovalLearningHandler(req, res, dbClient).catch(next);
   });
 
   // POST /learning/assimilate - Feedback Assimilation Agent (CLI-invokable)
   // Emits ONLY: feedback_assimilation_signal
-  app.post('/learning/assimilate', learningLatencyMiddleware, (req, res, next) => {
+  app.post('/learning/assimilate', requireScope, rateLimit, idempotency, learningLatencyMiddleware, (req, res, next) => {
     createFeedbackAssimilationHandler(req, res, dbClient).catch(next);
   });
 
   // GET /learning/inspect - Inspect learning events (read-only)
-  app.get('/learning/inspect', async (req, res, next) => {
+  app.get('/learning/inspect', requireScope, rateLimit, async (req, res, next) => {
     try {
       const { limit = '50', offset = '0', decision_type } = req.query;
       const parsedLimit = Math.min(Math.max(parseInt(limit as string, 10) || 50, 1), 1000);
@@ -260,9 +476,12 @@ function createApp(vectorClient: VectorClient, dbClient: DatabaseClient): Applic
   app.post(
     '/ingest',
     validateRequiredHeaders,
+    scopeToTenant,
+    requireScope,
+    rateLimit,
     validateRequest(ingestSchema),
     (req, res, next) => {
-      ingestHandler(req, res, vectorClient).catch(next);
+      ingestHandler(req, res, vectorClient, idempotencyStore, namespaceStore).catch(next);
     }
   );
 
@@ -270,9 +489,12 @@ function createApp(vectorClient: VectorClient, dbClient: DatabaseClient): Applic
   app.post(
     '/query',
     validateRequiredHeaders,
+    scopeToTenant,
+    requireScope,
+    rateLimit,
     validateRequest(querySchema),
     (req, res, next) => {
-      queryHandler(req, res, vectorClient).catch(next);
+      queryHandler(req, res, vectorClient, namespaceStore).catch(next);
     }
   );
 
@@ -280,18 +502,25 @@ function createApp(vectorClient: VectorClient, dbClient: DatabaseClient): Applic
   app.post(
     '/simulate',
     validateRequiredHeaders,
+    scopeToTenant,
+    requireScope,
+    rateLimit,
     validateRequest(simulateSchema),
     (req, res, next) => {
-      simulateHandler(req, res, vectorClient).catch(next);
+      simulateHandler(req, res, vectorClient, namespaceStore).catch(next);
     }
   );
 
-  // POST /graph - Graph operations (stub - TODO: implement)
+  // POST /graph - Decision graph traversals
   app.post(
     '/graph',
     validateRequiredHeaders,
+    scopeToTenant,
+    requireScope,
+    rateLimit,
+    validateRequest(graphSchema),
     (req, res, next) => {
-      graphHandler(req, res, vectorClient).catch(next);
+      graphHandler(req, res, dbClient).catch(next);
     }
   );
 
@@ -299,14 +528,16 @@ function createApp(vectorClient: VectorClient, dbClient: DatabaseClient): Applic
   app.post(
     '/predict',
     validateRequiredHeaders,
+    requireScope,
+    rateLimit,
     (req, res, next) => {
       predictHandler(req, res, vectorClient).catch(next);
     }
   );
 
-  // GET /metadata - Service metadata and capability discovery
-  app.get('/metadata', (req, res, next) => {
-    metadataHandler(req, res, vectorClient).catch(next);
+  // GET /metadata - Service metadata and capability discovery, with the caller's namespaces
+  app.get('/metadata', scopeToTenant, (req, res, next) => {
+    metadataHandler(req, res, vectorClient, namespaceStore).catch(next);
   });
 
   // Error handlers (must be last)
@@ -325,7 +556,12 @@ function createApp(vectorClient: VectorClient, dbClient: DatabaseClient): Applic
  * 2. Verify storage + index health
  * 3. Crash on failure
  */
-async function startServer(): Promise<{ server: Server; dbClient: DatabaseClient }> {
+async function startServer(): Promise<{
+  server: Server;
+  dbClient: DatabaseClient;
+  vectorClient: VectorClient;
+  stopBackgroundJobs: () => Promise<void>;
+}> {
   // ============================================================================
   // STARTUP HARDENING PHASE 1: Environment Assertions
   // CRASHES on failure in production
@@ -337,17 +573,7 @@ async function startServer(): Promise<{ server: Server; dbClient: DatabaseClient
   // STARTUP HARDENING PHASE 2: Database Initialization
   // ============================================================================
   // Initialize DatabaseClient for PostgreSQL
-  const dbClient = new DatabaseClient({
-    host: config.database.host,
-    port: config.database.port,
-    database: config.database.name,
-    user: config.database.user,
-    password: config.database.password,
-    maxConnections: config.database.maxConnections,
-    idleTimeoutMs: config.database.idleTimeoutMs,
-    connectionTimeoutMs: config.database.connectionTimeoutMs,
-    ssl: config.database.ssl,
-  });
+  const dbClient = createDatabaseClient();
 
   // Initialize database (create tables if needed)
   await dbClient.initialize();
@@ -369,18 +595,9 @@ async function startServer(): Promise<{ server: Server; dbClient: DatabaseClient
     );
   }
 
-  // Initialize VectorClient with SPARC-compliant config
-  const vectorClient = new VectorClient({
-    serviceUrl: config.ruvVector.serviceUrl,
-    apiKey: config.ruvVector.apiKey,
-    timeout: config.ruvVector.timeout,
-    poolSize: config.ruvVector.poolSize,
-    circuitBreaker: {
-      threshold: config.circuitBreaker.threshold,
-      timeout: config.circuitBreaker.timeout,
-      resetTimeout: config.circuitBreaker.resetTimeout,
-    },
-  });
+  // Initialize VectorClient with SPARC-compliant config (backend per RUVVECTOR_BACKEND)
+  const vectorClient = createVectorClient(dbClient);
+  const embedder = createEmbedder();
 
   // Establish connection to RuvVector (optional - may not be available)
   try {
@@ -389,8 +606,27 @@ async function startServer(): Promise<{ server: Server; dbClient: DatabaseClient
     logger.warn({ error }, 'VectorClient connection failed - continuing without vector operations');
   }
 
-  // Create Express app
-  const app = createApp(vectorClient, dbClient);
+  // Create Express app; the retention sweeper shares its namespace registry
+  const namespaceStore = createNamespaceStore(config.namespaces, dbClient);
+  const app = createApp(
+    vectorClient,
+    dbClient,
+    embedder,
+    createRateLimitStore(config.rateLimits.backend, dbClient),
+    createIdempotencyStore(config.idempotency, dbClient),
+    namespaceStore
+  );
+
+  // Background work: re-surface expired deferrals (jobs/deferralExpiry), delete expired
+  // vectors (jobs/vectorRetention) and push decision events to webhook subscriptions (webhooks/worker)
+  const stopDeferralSweeper = startDeferralSweeper(dbClient, config.deferrals.sweepIntervalMs);
+  const stopRetentionSweeper = startVectorRetentionSweeper(vectorClient, namespaceStore, config.retention);
+  const stopWebhookWorker = startWebhookWorker(dbClient, config.webhooks.pollIntervalMs);
+  const stopBackgroundJobs = async (): Promise<void> => {
+    stopDeferralSweeper();
+    stopRetentionSweeper();
+    await stopWebhookWorker();
+  };
 
   // Start HTTP server
   const server = app.listen(config.port, () => {
@@ -400,6 +636,8 @@ async function startServer(): Promise<{ server: Server; dbClient: DatabaseClient
       {
         port: config.port,
         ruvvectorServiceUrl: connectionInfo.serviceUrl,
+        vectorBackend: connectionInfo.backend,
+        embeddingModel: embedder.model,
         database: {
           host: config.database.host,
           name: config.database.name,
@@ -416,18 +654,24 @@ async function startServer(): Promise<{ server: Server; dbClient: DatabaseClient
   server.keepAliveTimeout = 65000;
   server.headersTimeout = 66000;
 
-  return { server, dbClient };
+  return { server, dbClient, vectorClient, stopBackgroundJobs };
 }
 
 /**
  * Graceful shutdown handler
  * SPARC: Drain connections within 30s
  */
-function setupGracefulShutdown(server: Server, dbClient: DatabaseClient): void {
+function setupGracefulShutdown(
+  server: Server,
+  dbClient: DatabaseClient,
+  vectorClient: VectorClient,
+  stopBackgroundJobs: () => Promise<void>
+): void {
   const shutdown = async (signal: string) => {
     logger.info({ signal }, 'Received shutdown signal, starting graceful shutdown');
 
-    // Stop accepting new connections
+    // Stop accepting new connections and background work
+    await stopBackgroundJobs().catch((error) => logger.warn({ error }, 'Failed to stop background jobs'));
     server.close(() => {
       logger.info('HTTP server closed');
     });
@@ -443,8 +687,9 @@ function setupGracefulShutdown(server: Server, dbClient: DatabaseClient): void {
         server.on('close', resolve);
       });
 
-      // Close database connections
+      // Close database connections and pooled RuvVector sockets
       await dbClient.close();
+      vectorClient.close();
 
       clearTimeout(shutdownTimeout);
       logger.info('Graceful shutdown completed');
@@ -483,8 +728,8 @@ async function main(): Promise<void> {
       'Starting ruvvector-service'
     );
 
-    const { server, dbClient } = await startServer();
-    setupGracefulShutdown(server, dbClient);
+    const { server, dbClient, vectorClient, stopBackgroundJobs } = await startServer();
+    setupGracefulShutdown(server, dbClient, vectorClient, stopBackgroundJobs);
   } catch (error) {
     logger.fatal({ error }, 'Failed to start server');
     process.exit(1);
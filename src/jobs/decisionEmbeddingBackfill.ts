@@ -0,0 +1,162 @@
+/**
+ * Decision Embedding Backfill Job
+ *
+ * Embeds decisions stored before embeddings existed (embedding IS NULL) or by a
+ * different embedding model, writes decisions.embedding, and upserts the vectors
+ * into the `decisions` namespace. Decisions whose vector-store write failed at
+ * ingest (indexed_at IS NULL) are re-upserted from the stored embedding. With
+ * --reindex every decision is re-upserted, which rebuilds the namespace after
+ * switching RUVVECTOR_BACKEND.
+ *
+ * Usage: npm run backfill:decision-embeddings -- [--batch-size=100] [--limit=N] [--reindex]
+ */
+import { DatabaseClient } from '../clients/DatabaseClient';
+import { VectorClient } from '../clients/VectorClient';
+import { EmbeddingProvider, indexDecisionEmbedding } from '../embeddings';
+import { createDatabaseClient, createVectorClient, createEmbedder } from '../startup/clients';
+import { DecisionRecord } from '../types';
+import logger from '../utils/logger';
+import { runWithTenant } from '../utils/tenant';
+
+export interface DecisionEmbeddingBackfillOptions {
+  batchSize: number;
+  limit?: number;       // Stop after this many decisions
+  reindex?: boolean;    // Also re-upsert decisions whose embedding is current
+}
+
+export interface DecisionEmbeddingBackfillResult {
+  scanned: number;
+  embedded: number;     // Rows whose decisions.embedding was (re)written
+  indexed: number;      // Vectors upserted into the decisions namespace
+  failed: number;
+}
+
+type BackfillRow = Pick<
+  DecisionRecord,
+  'id' | 'objective' | 'recommendation' | 'confidence' | 'embedding_text' | 'embedding' | 'embedding_model'
+> & { created_at: Date; tenant_id: string };
+
+/**
+ * Run the backfill; rows that fail are logged and skipped so one bad row cannot stall the job
+ */
+export async function backfillDecisionEmbeddings(
+  dbClient: DatabaseClient,
+  vectorClient: VectorClient,
+  embedder: EmbeddingProvider,
+  options: DecisionEmbeddingBackfillOptions
+): Promise<DecisionEmbeddingBackfillResult> {
+  const result: DecisionEmbeddingBackfillResult = { scanned: 0, embedded: 0, indexed: 0, failed: 0 };
+  let cursor: { createdAt: Date; id: string } | null = null;
+
+  for (;;) {
+    const remaining = options.limit === undefined ? options.batchSize : Math.min(options.batchSize, options.limit - result.scanned);
+    if (remaining <= 0) break;
+
+    // Keyset pagination on (created_at, id) so failed rows are not re-selected forever
+    const params: unknown[] = [embedder.model, options.reindex === true];
+    let cursorClause = '';
+    if (cursor) {
+      params.push(cursor.createdAt, cursor.id);
+      cursorClause = 'AND (created_at, id) > ($3, $4)';
+    }
+    params.push(remaining);
+
+    const batch = await dbClient.query<BackfillRow>(
+      `SELECT id, objective, recommendation, confidence, embedding_text, embedding, embedding_model, created_at, tenant_id
+       FROM decisions
+       WHERE ($2 OR embedding IS NULL OR embedding_model IS DISTINCT FROM $1 OR indexed_at IS NULL) ${cursorClause}
+       ORDER BY created_at ASC, id ASC
+       LIMIT $${params.length}`,
+      params
+    );
+
+    if (batch.rows.length === 0) break;
+
+    for (const row of batch.rows) {
+      result.scanned++;
+      try {
+        const current = row.embedding && row.embedding_model === embedder.model ? row.embedding : null;
+        const embedding = current ?? await embedder.embed(row.embedding_text);
+        if (!current) {
+          await dbClient.query(
+            `UPDATE decisions SET embedding = $2, embedding_model = $3 WHERE id = $1`,
+            [row.id, JSON.stringify(embedding), embedder.model]
+          );
+          result.embedded++;
+        }
+
+        // Index into the owning tenant's namespace
+        await runWithTenant(row.tenant_id, () => indexDecisionEmbedding(
+          vectorClient,
+          { ...row, created_at: new Date(row.created_at).toISOString() },
+          embedding,
+          embedder.model
+        ));
+        await dbClient.query(`UPDATE decisions SET indexed_at = NOW() WHERE id = $1`, [row.id]);
+        result.indexed++;
+      } catch (error) {
+        result.failed++;
+        logger.warn({ decisionId: row.id, error }, 'Decision embedding backfill failed for row');
+      }
+    }
+
+    const last = batch.rows[batch.rows.length - 1];
+    cursor = { createdAt: last.created_at, id: last.id };
+  }
+
+  return result;
+}
+
+/**
+ * Parse --batch-size=N, --limit=N and --reindex
+ */
+export function parseBackfillArgs(argv: string[]): DecisionEmbeddingBackfillOptions {
+  const options: DecisionEmbeddingBackfillOptions = { batchSize: 100 };
+
+  for (const arg of argv) {
+    const [flag, value] = arg.split('=');
+    if (flag === '--reindex') {
+      options.reindex = true;
+    } else if (flag === '--batch-size' || flag === '--limit') {
+      const parsed = parseInt(value ?? '', 10);
+      if (isNaN(parsed) || parsed <= 0) {
+        throw new Error(`${flag} must be a positive integer`);
+      }
+      if (flag === '--batch-size') options.batchSize = parsed;
+      else options.limit = parsed;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+async function main(): Promise<void> {
+  const options = parseBackfillArgs(process.argv.slice(2));
+  const dbClient = createDatabaseClient();
+  await dbClient.initialize();
+
+  const vectorClient = createVectorClient(dbClient);
+  const embedder = createEmbedder();
+
+  try {
+    await vectorClient.connect();
+    logger.info({ ...options, embeddingModel: embedder.model }, 'Starting decision embedding backfill');
+
+    const result = await backfillDecisionEmbeddings(dbClient, vectorClient, embedder, options);
+
+    logger.info(result, 'Decision embedding backfill completed');
+    process.exitCode = result.failed > 0 ? 1 : 0;
+  } finally {
+    vectorClient.close();
+    await dbClient.close();
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    logger.fatal({ error }, 'Decision embedding backfill failed');
+    process.exit(1);
+  });
+}
@@ -0,0 +1,132 @@
+/**
+ * Decision Graph Backfill Job
+ *
+ * Materialises graph_relations into graph_nodes/graph_edges for decisions that
+ * have no edges yet (stored before the graph existed, or while materialisation
+ * failed). With --rebuild every decision is re-materialised.
+ *
+ * Usage: npm run backfill:decision-graph -- [--batch-size=100] [--limit=N] [--rebuild]
+ */
+import { DatabaseClient } from '../clients/DatabaseClient';
+import { materializeDecisionGraph, DecisionGraphSource } from '../graph';
+import { createDatabaseClient } from '../startup/clients';
+import logger from '../utils/logger';
+import { runWithTenant } from '../utils/tenant';
+
+export interface DecisionGraphBackfillOptions {
+  batchSize: number;
+  limit?: number;       // Stop after this many decisions
+  rebuild?: boolean;    // Also re-materialise decisions that already have edges
+}
+
+export interface DecisionGraphBackfillResult {
+  scanned: number;
+  materialized: number;
+  edges: number;        // Edges written across all materialised decisions
+  failed: number;
+}
+
+type BackfillRow = DecisionGraphSource & { created_at: Date; tenant_id: string };
+
+/**
+ * Run the backfill; rows that fail are logged and skipped so one bad row cannot stall the job
+ */
+export async function backfillDecisionGraph(
+  dbClient: DatabaseClient,
+  options: DecisionGraphBackfillOptions
+): Promise<DecisionGraphBackfillResult> {
+  const result: DecisionGraphBackfillResult = { scanned: 0, materialized: 0, edges: 0, failed: 0 };
+  let cursor: { createdAt: Date; id: string } | null = null;
+
+  for (;;) {
+    const remaining = options.limit === undefined ? options.batchSize : Math.min(options.batchSize, options.limit - result.scanned);
+    if (remaining <= 0) break;
+
+    // Keyset pagination on (created_at, id) so failed rows are not re-selected forever
+    const params: unknown[] = [options.rebuild === true];
+    let cursorClause = '';
+    if (cursor) {
+      params.push(cursor.createdAt, cursor.id);
+      cursorClause = 'AND (d.created_at, d.id) > ($2, $3)';
+    }
+    params.push(remaining);
+
+    const batch = await dbClient.query<BackfillRow>(
+      `SELECT d.id, d.objective, d.recommendation, d.graph_relations, d.created_at, d.tenant_id
+       FROM decisions d
+       WHERE ($1 OR NOT EXISTS (SELECT 1 FROM graph_edges e WHERE e.decision_id = d.id)) ${cursorClause}
+       ORDER BY d.created_at ASC, d.id ASC
+       LIMIT $${params.length}`,
+      params
+    );
+
+    if (batch.rows.length === 0) break;
+
+    for (const row of batch.rows) {
+      result.scanned++;
+      try {
+        // Materialise into the owning tenant's graph
+        const written = await runWithTenant(row.tenant_id, () => materializeDecisionGraph(dbClient, row));
+        result.materialized++;
+        result.edges += written.edges;
+      } catch (error) {
+        result.failed++;
+        logger.warn({ decisionId: row.id, error }, 'Decision graph backfill failed for row');
+      }
+    }
+
+    const last = batch.rows[batch.rows.length - 1];
+    cursor = { createdAt: last.created_at, id: last.id };
+  }
+
+  return result;
+}
+
+/**
+ * Parse --batch-size=N, --limit=N and --rebuild
+ */
+export function parseGraphBackfillArgs(argv: string[]): DecisionGraphBackfillOptions {
+  const options: DecisionGraphBackfillOptions = { batchSize: 100 };
+
+  for (const arg of argv) {
+    const [flag, value] = arg.split('=');
+    if (flag === '--rebuild') {
+      options.rebuild = true;
+    } else if (flag === '--batch-size' || flag === '--limit') {
+      const parsed = parseInt(value ?? '', 10);
+      if (isNaN(parsed) || parsed <= 0) {
+        throw new Error(`${flag} must be a positive integer`);
+      }
+      if (flag === '--batch-size') options.batchSize = parsed;
+      else options.limit = parsed;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+async function main(): Promise<void> {
+  const options = parseGraphBackfillArgs(process.argv.slice(2));
+  const dbClient = createDatabaseClient();
+  await dbClient.initialize();
+
+  try {
+    logger.info(options, 'Starting decision graph backfill');
+
+    const result = await backfillDecisionGraph(dbClient, options);
+
+    logger.info(result, 'Decision graph backfill completed');
+    process.exitCode = result.failed > 0 ? 1 : 0;
+  } finally {
+    await dbClient.close();
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    logger.fatal({ error }, 'Decision graph backfill failed');
+    process.exit(1);
+  });
+}
@@ -0,0 +1,100 @@
+/**
+ * Deferral Expiry Job
+ *
+ * Re-surfaces plans whose deferral (POST /decision/approval with outcome=defer) has
+ * expired by writing a plan_created event for them to the decision_events outbox.
+ * Deferrals superseded by a final review or a newer deferral are skipped. The server
+ * sweeps every DEFERRAL_SWEEP_INTERVAL_MS; this entry point runs a single sweep.
+ *
+ * Usage: npm run sweep:deferrals
+ */
+import { DatabaseClient, DECISION_EVENTS_CHANNEL } from '../clients/DatabaseClient';
+import { createDatabaseClient } from '../startup/clients';
+import logger from '../utils/logger';
+
+export interface DeferralSweepResult {
+  resurfaced: number;   // plan_created events written
+}
+
+/**
+ * Write a plan_created event (keyed by the deferral's approval id) for every expired,
+ * still-current deferral, then NOTIFY so long-poll and SSE consumers wake
+ */
+export async function resurfaceExpiredDeferrals(
+  dbClient: DatabaseClient,
+  now: Date = new Date()
+): Promise<DeferralSweepResult> {
+  const result = await dbClient.query<{ source_id: string; decision_id: string }>(
+    `INSERT INTO decision_events (event_type, source_id, decision_id, occurred_at, tenant_id)
+     SELECT 'plan_created', a.id::text, a.decision_id, a.defer_until, a.tenant_id
+     FROM approvals a
+     WHERE a.outcome = 'defer'
+       AND a.defer_until <= $1
+       AND NOT EXISTS (
+         SELECT 1 FROM decision_events e WHERE e.event_type = 'plan_created' AND e.source_id = a.id::text
+       )
+       AND NOT EXISTS (
+         SELECT 1 FROM approvals later
+         WHERE later.decision_id = a.decision_id
+           AND later.advisory = false
+           AND (later.outcome <> 'defer' OR later.created_at > a.created_at)
+       )
+     ORDER BY a.defer_until ASC, a.id ASC
+     ON CONFLICT (event_type, source_id) DO NOTHING
+     RETURNING source_id, decision_id`,
+    [now]
+  );
+
+  for (const row of result.rows) {
+    await dbClient.query('SELECT pg_notify($1, $2)', [
+      DECISION_EVENTS_CHANNEL,
+      JSON.stringify({ table: 'approvals', id: row.source_id }),
+    ]);
+    logger.info({ approvalId: row.source_id, decisionId: row.decision_id }, 'Deferred plan re-surfaced');
+  }
+
+  return { resurfaced: result.rows.length };
+}
+
+/**
+ * Sweep on an interval until the returned stop function is called; 0 disables the sweeper
+ * A sweep that is still running when the next tick fires is not overlapped
+ */
+export function startDeferralSweeper(dbClient: DatabaseClient, intervalMs: number): () => void {
+  if (intervalMs <= 0) {
+    return () => undefined;
+  }
+
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    resurfaceExpiredDeferrals(dbClient)
+      .catch((error) => logger.warn({ error }, 'Deferral expiry sweep failed'))
+      .finally(() => {
+        running = false;
+      });
+  }, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+async function main(): Promise<void> {
+  const dbClient = createDatabaseClient();
+  await dbClient.initialize();
+
+  try {
+    const result = await resurfaceExpiredDeferrals(dbClient);
+    logger.info(result, 'Deferral expiry sweep completed');
+  } finally {
+    await dbClient.close();
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    logger.fatal({ error }, 'Deferral expiry sweep failed');
+    process.exit(1);
+  });
+}
@@ -0,0 +1,151 @@
+/**
+ * Vector Retention Job
+ *
+ * Deletes the vectors of every namespace with a TTL (ttl_seconds, see /v1/namespaces) once
+ * they have been stored for longer than it, for each tenant. Every namespace that had
+ * expired vectors is audited (utils/audit); a dry run counts and audits them without
+ * deleting. The server sweeps every RETENTION_SWEEP_INTERVAL_MS; this entry point runs a
+ * single sweep.
+ *
+ * Usage: npm run sweep:vectors [-- --dry-run]
+ */
+import { VectorClient } from '../clients/VectorClient';
+import { NamespaceStore, createNamespaceStore } from '../namespaces';
+import { config } from '../config';
+import { createDatabaseClient, createVectorClient } from '../startup/clients';
+import { auditVectorDeletion } from '../utils/audit';
+import logger from '../utils/logger';
+import { runWithTenant } from '../utils/tenant';
+
+export interface VectorRetentionOptions {
+  sweepIntervalMs: number;  // 0 disables the in-process sweeper
+  dryRun: boolean;          // Count and audit expired vectors without deleting them
+}
+
+export interface VectorRetentionSweepResult {
+  namespaces: number;   // Namespaces with a TTL
+  expired: number;      // Vectors past their namespace's TTL (deleted unless dryRun)
+  failed: number;       // Namespaces whose sweep failed; retried on the next sweep
+  dryRun: boolean;
+}
+
+/**
+ * Delete (or count) the expired vectors of every namespace with a TTL
+ * Runs in system scope so namespaces of every tenant are seen; each namespace is swept as
+ * its tenant. A failing namespace does not stop the others.
+ */
+export async function sweepExpiredVectors(
+  vectorClient: VectorClient,
+  namespaceStore: NamespaceStore,
+  dryRun: boolean,
+  now: Date = new Date()
+): Promise<VectorRetentionSweepResult> {
+  const expiring = await namespaceStore.listExpiring();
+  const result: VectorRetentionSweepResult = { namespaces: expiring.length, expired: 0, failed: 0, dryRun };
+
+  for (const { tenant, namespace } of expiring) {
+    if (namespace.ttl_seconds === null) continue;
+    const storedBefore = new Date(now.getTime() - namespace.ttl_seconds * 1000).toISOString();
+
+    try {
+      const deletion = await runWithTenant(tenant, () =>
+        vectorClient.deleteWhere({ namespace: namespace.name, storedBefore, dryRun })
+      );
+      result.expired += deletion.matched;
+
+      if (deletion.matched > 0) {
+        auditVectorDeletion({
+          reason: 'retention',
+          tenant,
+          namespace: namespace.name,
+          criteria: { storedBefore },
+          matched: deletion.matched,
+          deleted: deletion.deleted,
+          dryRun,
+        });
+      }
+    } catch (error) {
+      result.failed++;
+      logger.warn({ error, tenant, namespace: namespace.name }, 'Vector retention sweep of namespace failed');
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Sweep on an interval until the returned stop function is called
+ * A sweep that is still running when the next tick fires is not overlapped
+ */
+export function startVectorRetentionSweeper(
+  vectorClient: VectorClient,
+  namespaceStore: NamespaceStore,
+  options: VectorRetentionOptions
+): () => void {
+  if (options.sweepIntervalMs <= 0) {
+    return () => undefined;
+  }
+
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    sweepExpiredVectors(vectorClient, namespaceStore, options.dryRun)
+      .then((result) => {
+        if (result.expired > 0 || result.failed > 0) {
+          logger.info(result, 'Vector retention sweep completed');
+        }
+      })
+      .catch((error) => logger.warn({ error }, 'Vector retention sweep failed'))
+      .finally(() => {
+        running = false;
+      });
+  }, options.sweepIntervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Parse CLI arguments: --dry-run overrides RETENTION_DRY_RUN
+ */
+export function parseRetentionArgs(argv: string[]): { dryRun: boolean } {
+  const options = { dryRun: config.retention.dryRun };
+
+  for (const arg of argv) {
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+async function main(): Promise<void> {
+  const { dryRun } = parseRetentionArgs(process.argv.slice(2));
+  const dbClient = createDatabaseClient();
+  await dbClient.initialize();
+
+  const vectorClient = createVectorClient(dbClient);
+  const namespaceStore = createNamespaceStore(config.namespaces, dbClient);
+
+  try {
+    await vectorClient.connect();
+
+    const result = await sweepExpiredVectors(vectorClient, namespaceStore, dryRun);
+    logger.info(result, 'Vector retention sweep completed');
+    process.exitCode = result.failed > 0 ? 1 : 0;
+  } finally {
+    vectorClient.close();
+    await dbClient.close();
+  }
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    logger.fatal({ error }, 'Vector retention sweep failed');
+    process.exit(1);
+  });
+}
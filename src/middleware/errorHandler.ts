@@ -8,7 +8,8 @@ import { getOrCreateCorrelationId } from '../utils/correlation';
 /**
  * Custom error class for application errors
  * SPARC error codes: validation_error, missing_header, invalid_vector_dimension,
- * entitlement_error, upstream_error, upstream_timeout, service_unavailable, internal_error
+ * invalid_cursor, entitlement_error, forbidden, not_found, rate_limited, payload_too_large, batch_too_large,
+ * upstream_error, upstream_timeout, service_unavailable, internal_error
  */
 export class AppError extends Error {
   constructor(
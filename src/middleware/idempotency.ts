@@ -0,0 +1,101 @@
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { IdempotencyClaim, IdempotencyStore, contentHash } from '../idempotency';
+import { getOrCreateCorrelationId } from '../utils/correlation';
+import logger from '../utils/logger';
+import { DEFAULT_TENANT, runWithTenant } from '../utils/tenant';
+
+export type IdempotencySettings = typeof config.idempotency;
+
+// Visible ASCII, as in the IETF Idempotency-Key header draft
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7E]{1,255}$/;
+
+/**
+ * Middleware factory for the Idempotency-Key request header on mutating routes
+ * A request repeating a key with the same method, route, params, query and body gets the
+ * first response replayed (Idempotent-Replayed: true); reusing a key for a different request,
+ * or while the first is still running, is 409. Successful and 4xx responses are kept for
+ * keyTtlSeconds; after a 5xx the key can be retried. Must run after requireScope.
+ */
+export function createIdempotencyMiddleware(store: IdempotencyStore, settings: IdempotencySettings = config.idempotency) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const key = req.headers['idempotency-key'];
+    if (key === undefined || ['GET', 'HEAD', 'OPTIONS'].includes(req.method)) {
+      next();
+      return;
+    }
+
+    const correlationId = req.correlationId || getOrCreateCorrelationId(req.headers);
+    if (typeof key !== 'string' || !IDEMPOTENCY_KEY_PATTERN.test(key)) {
+      res.status(400).json({
+        error: 'validation_error',
+        message: 'Idempotency-Key must be 1-255 visible ASCII characters',
+        correlationId,
+      });
+      return;
+    }
+
+    // Records are the caller's tenant's even on routes that run in system scope
+    const tenant = req.tenantId ?? req.entitlement?.tenant ?? DEFAULT_TENANT;
+    const scope = `${req.method} ${req.route?.path ?? req.path}`;
+    const hashes = { request: contentHash({ params: req.params, query: req.query, body: req.body ?? null }) };
+
+    let claim: IdempotencyClaim;
+    try {
+      [claim] = await runWithTenant(tenant, () => store.claim(scope, [{ key, hashes }], settings.keyTtlSeconds));
+    } catch (error) {
+      logger.error({ error, correlationId, scope }, 'Idempotency store unavailable');
+      res.status(503).json({
+        error: 'service_unavailable',
+        message: 'Idempotency-Key cannot be honoured right now',
+        correlationId,
+      });
+      return;
+    }
+
+    if (claim.status === 'replay') {
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(claim.statusCode).json(claim.response);
+      return;
+    }
+    if (claim.status !== 'claimed') {
+      if (claim.status === 'in_progress') res.setHeader('Retry-After', '1');
+      res.status(409).json({
+        error: 'conflict',
+        message: claim.status === 'conflict'
+          ? 'Idempotency-Key was already used for a different request'
+          : 'A request with this Idempotency-Key is still being processed',
+        correlationId,
+      });
+      return;
+    }
+
+    // Capture the JSON response so it can be replayed
+    let captured: { body: unknown } | null = null;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      captured = { body };
+      return json(body);
+    };
+
+    let settled = false;
+    const settle = () => {
+      if (settled) return;
+      settled = true;
+      const response: { body: unknown } | null = captured;
+      const completed = response !== null && res.writableFinished && res.statusCode < 500;
+      runWithTenant(tenant, () => completed
+        ? store.complete(scope, [{ key, statusCode: res.statusCode, response: response.body }])
+        : store.release(scope, [key])
+      ).catch(error => {
+        logger.warn({ error, correlationId, scope }, 'Failed to record Idempotency-Key outcome');
+      });
+    };
+    res.on('finish', settle);
+    res.on('close', settle);
+
+    next();
+  };
+}
+
+export default { createIdempotencyMiddleware };
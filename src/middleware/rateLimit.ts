@@ -0,0 +1,107 @@
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { RateLimitStore } from '../ratelimit';
+import { QuotaUsage, RateLimits } from '../types';
+import { getOrCreateCorrelationId } from '../utils/correlation';
+import logger from '../utils/logger';
+import { rateLimitedRequestsTotal } from '../utils/metrics';
+import { DEFAULT_TENANT } from '../utils/tenant';
+
+export type RateLimitSettings = typeof config.rateLimits;
+
+/**
+ * Vectors stored by one request to a route; only these routes meter vectors and bytes
+ */
+const VECTOR_ROUTES: Partial<Record<string, (req: Request) => number>> = {
+  'POST /ingest': () => 1,
+  'POST /ingest/batch': req => (Array.isArray(req.body) ? req.body.length : 0),
+};
+
+/**
+ * Effective limits for a tenant on a route: defaults, then the route's, then the tenant's overrides
+ */
+export function resolveRateLimits(settings: RateLimitSettings, tenant: string, route: string): RateLimits {
+  return { ...settings.defaults, ...settings.routes[route], ...settings.tenants[tenant] };
+}
+
+function secondsUntilUtcMidnight(now: number): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.max(1, Math.ceil((midnight.getTime() - now) / 1000));
+}
+
+/**
+ * Middleware factory for per-tenant, per-route token-bucket rate limits and daily quotas
+ * Must run after requireScope so the tenant is known, and after the body is parsed so its
+ * bytes are known (recordBodyBytes). Refused requests get 429 with Retry-After; if the
+ * store is unavailable requests are let through.
+ */
+export function createRateLimitMiddleware(store: RateLimitStore, settings: RateLimitSettings = config.rateLimits) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!settings.enabled) {
+      next();
+      return;
+    }
+
+    // Same route key as the authorization policy
+    const method = req.method === 'HEAD' ? 'GET' : req.method;
+    const route = `${method} ${req.route?.path ?? req.path}`;
+    const tenant = req.tenantId ?? req.entitlement?.tenant ?? DEFAULT_TENANT;
+    const key = `${tenant}|${route}`;
+    const limits = resolveRateLimits(settings, tenant, route);
+    const now = Date.now();
+
+    let refusal: { limit: 'rate' | keyof QuotaUsage; retryAfterSeconds: number; message: string } | null = null;
+    try {
+      if (limits.burst > 0 && limits.perSecond > 0) {
+        const bucket = await store.take(key, limits.burst, limits.perSecond, 1, now);
+        res.setHeader('RateLimit-Remaining', String(bucket.remaining));
+        if (!bucket.allowed) {
+          refusal = {
+            limit: 'rate',
+            retryAfterSeconds: Math.ceil(bucket.retryAfterMs / 1000),
+            message: `Rate limit of ${limits.perSecond}/s (burst ${limits.burst}) exceeded for ${route}`,
+          };
+        }
+      }
+
+      const vectors = VECTOR_ROUTES[route];
+      const quotaLimits = { requests: limits.requestsPerDay, vectors: limits.vectorsPerDay, bytes: limits.bytesPerDay };
+      if (!refusal && (quotaLimits.requests > 0 || quotaLimits.vectors > 0 || quotaLimits.bytes > 0)) {
+        const usage = {
+          requests: 1,
+          vectors: vectors ? vectors(req) : 0,
+          bytes: vectors ? req.bodyBytes ?? 0 : 0,
+        };
+        const quota = await store.consume(key, new Date(now).toISOString().slice(0, 10), usage, quotaLimits);
+        if (!quota.allowed && quota.exceeded) {
+          refusal = {
+            limit: quota.exceeded,
+            retryAfterSeconds: secondsUntilUtcMidnight(now),
+            message: `Daily ${quota.exceeded} quota of ${quotaLimits[quota.exceeded]} exceeded for ${route}`,
+          };
+        }
+      }
+    } catch (error) {
+      logger.warn({ error, tenant, route }, 'Rate limit store unavailable, allowing request');
+    }
+
+    if (!refusal) {
+      next();
+      return;
+    }
+
+    rateLimitedRequestsTotal.inc({ tenant, route, limit: refusal.limit });
+    logger.warn({ tenant, route, limit: refusal.limit }, 'Request rate limited');
+    res.setHeader('Retry-After', String(refusal.retryAfterSeconds));
+    res.status(429).json({
+      error: 'rate_limited',
+      reason: refusal.limit,
+      message: refusal.message,
+      retry_after_seconds: refusal.retryAfterSeconds,
+      correlationId: req.correlationId || getOrCreateCorrelationId(req.headers),
+    });
+  };
+}
+
+export default { createRateLimitMiddleware, resolveRateLimits };
@@ -1,7 +1,19 @@
-import { Request, Response, NextFunction } from 'express';
+import { IncomingMessage, ServerResponse } from 'http';
+import express, { Request, Response, NextFunction } from 'express';
 import { z, ZodSchema } from 'zod';
+import { AppError } from './errorHandler';
 import { getOrCreateCorrelationId } from '../utils/correlation';
-import { checkEntitlement, EntitlementResult } from '../utils/entitlement';
+import { authorizeRoute, checkEntitlement, EntitlementResult } from '../utils/entitlement';
+import logger from '../utils/logger';
+import { DEFAULT_TENANT, isValidTenantId, runWithTenant } from '../utils/tenant';
+import { config } from '../config';
+import { NAMESPACE_NAME_PATTERN } from '../namespaces';
+import { DECISIONS_NAMESPACE } from '../embeddings';
+import { isFieldOperators } from '../clients/backends/VectorBackend';
+import { MetadataFilter } from '../types';
+
+// Content types of newline-delimited JSON bodies (POST /ingest/batch)
+const NDJSON_TYPES = ['application/x-ndjson', 'application/jsonl'];
 
 // Extend Express Request type to include our custom properties
 declare global {
@@ -9,10 +21,20 @@ declare global {
     interface Request {
       correlationId: string;
       entitlement: EntitlementResult;
+      tenantId: string;
+      bodyBytes?: number;
     }
   }
 }
 
+/**
+ * Body parser verify hook recording how many bytes of body were read, whatever Content-Length
+ * said (chunked requests send none); the daily bytes quota is charged from it
+ */
+export function recordBodyBytes(req: IncomingMessage, _res: ServerResponse, body: Buffer): void {
+  (req as Request).bodyBytes = body.length;
+}
+
 /**
  * Middleware factory for validating request bodies against Zod schemas
  */
@@ -89,6 +111,17 @@ export function validateEntitlement(req: Request, res: Response, next: NextFunct
  * SPARC requires: x-correlation-id, x-entitlement-context, content-type: application/json
  */
 export function validateRequiredHeaders(req: Request, res: Response, next: NextFunction): void {
+  checkRequiredHeaders(req, res, next, ['application/json']);
+}
+
+/**
+ * validateRequiredHeaders for POST /ingest/batch, which also takes NDJSON bodies
+ */
+export function validateBatchHeaders(req: Request, res: Response, next: NextFunction): void {
+  checkRequiredHeaders(req, res, next, ['application/json', ...NDJSON_TYPES]);
+}
+
+function checkRequiredHeaders(req: Request, res: Response, next: NextFunction, contentTypes: string[]): void {
   const correlationId = req.headers['x-correlation-id'];
   const entitlementContext = req.headers['x-entitlement-context'];
   const contentType = req.headers['content-type'];
@@ -97,11 +130,11 @@ export function validateRequiredHeaders(req: Request, res: Response, next: NextF
 
   if (!correlationId) missing.push('x-correlation-id');
   if (!entitlementContext) missing.push('x-entitlement-context');
-  if (!contentType?.includes('application/json')) {
+  if (!contentTypes.some(type => contentType?.includes(type))) {
     const id = typeof correlationId === 'string' ? correlationId : getOrCreateCorrelationId(req.headers);
     res.status(400).json({
       error: 'validation_error',
-      message: 'Content-Type must be application/json',
+      message: `Content-Type must be ${contentTypes.join(' or ')}`,
       correlationId: id,
     });
     return;
@@ -139,7 +172,17 @@ export function validateRequiredHeaders(req: Request, res: Response, next: NextF
 
 // Zod schemas for SPARC endpoints
 
+// Target namespace of /ingest, /query and /simulate; the default namespace when omitted
+const namespaceField = z.string().regex(NAMESPACE_NAME_PATTERN, 'Invalid namespace name').optional();
+
+// Decision embeddings are written only by /v1/decisions; ingest may not target their namespace
+const ingestNamespaceField = namespaceField.refine(
+  name => name !== DECISIONS_NAMESPACE,
+  `${DECISIONS_NAMESPACE} is reserved for decision embeddings`
+);
+
 export const ingestSchema = z.object({
+  namespace: ingestNamespaceField,
   eventId: z.string().uuid(),
   correlationId: z.string().uuid(),
   timestamp: z.string().datetime(),
@@ -152,28 +195,251 @@ export const ingestSchema = z.object({
   }),
 });
 
+/**
+ * One item of a POST /ingest/batch body: the parsed value, or why its NDJSON line did not parse
+ */
+export type IngestBatchEntry = { value: unknown } | { parseError: string };
+
+// Reads the raw body so batches are not held to the global express.json() limit
+const ingestBatchText = express.text({
+  type: ['application/json', ...NDJSON_TYPES],
+  limit: config.ingest.batchMaxBytes,
+  verify: recordBodyBytes,
+});
+
+/**
+ * Middleware parsing a POST /ingest/batch body - a JSON array or NDJSON, one event per line -
+ * into IngestBatchEntry[]. Events are validated per item by the handler; a malformed NDJSON line
+ * fails only that item, a malformed JSON array fails the request.
+ */
+export function parseIngestBatch(req: Request, res: Response, next: NextFunction): void {
+  ingestBatchText(req, res, (error?: unknown) => {
+    if (error) {
+      next((error as { type?: string }).type === 'entity.too.large'
+        ? new AppError(413, 'payload_too_large', `Batch body exceeds ${config.ingest.batchMaxBytes} bytes`)
+        : new AppError(400, 'validation_error', 'Unreadable request body'));
+      return;
+    }
+    // validateBatchHeaders has checked the content type
+    if (typeof req.body !== 'string') {
+      next(new AppError(400, 'validation_error', 'Request body is missing'));
+      return;
+    }
+
+    let entries: IngestBatchEntry[];
+    if (req.is(NDJSON_TYPES)) {
+      entries = req.body.split(/\r?\n/).filter(line => line.trim() !== '').map(line => {
+        try {
+          return { value: JSON.parse(line) as unknown };
+        } catch {
+          return { parseError: 'Line is not valid JSON' };
+        }
+      });
+    } else {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(req.body);
+      } catch {
+        next(new AppError(400, 'validation_error', 'Request body is not valid JSON'));
+        return;
+      }
+      if (!Array.isArray(parsed)) {
+        next(new AppError(400, 'validation_error', 'Request body must be a JSON array of events'));
+        return;
+      }
+      entries = parsed.map(value => ({ value }));
+    }
+
+    if (entries.length === 0) {
+      next(new AppError(400, 'validation_error', 'Batch contains no events'));
+      return;
+    }
+    if (entries.length > config.ingest.batchMaxEvents) {
+      next(new AppError(413, 'batch_too_large', `Batch has ${entries.length} events, the limit is ${config.ingest.batchMaxEvents}`));
+      return;
+    }
+
+    req.body = entries;
+    next();
+  });
+}
+
+// Metadata filter limits: nesting of $and/$or/$not, branches per $and/$or, values per $in
+const METADATA_FILTER_MAX_DEPTH = 8;
+const METADATA_FILTER_MAX_BRANCHES = 50;
+const METADATA_FILTER_MAX_VALUES = 100;
+
+// Dot-separated, non-empty keys
+const METADATA_FIELD_PATTERN = /^[^.]+(\.[^.]+)*$/;
+
+const metadataScalarSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+const metadataBoundSchema = z.union([z.string(), z.number()]);
+
+const metadataFieldOperatorsSchema = z.object({
+  $eq: metadataScalarSchema.optional(),
+  $in: z.array(metadataScalarSchema).min(1).max(METADATA_FILTER_MAX_VALUES).optional(),
+  $gt: metadataBoundSchema.optional(),
+  $gte: metadataBoundSchema.optional(),
+  $lt: metadataBoundSchema.optional(),
+  $lte: metadataBoundSchema.optional(),
+  $exists: z.boolean().optional(),
+}).strict();
+
+function containsOperator(value: unknown): boolean {
+  if (Array.isArray(value)) return value.some(containsOperator);
+  if (value === null || typeof value !== 'object') return false;
+  return Object.entries(value).some(([key, item]) => key.startsWith('$') || containsOperator(item));
+}
+
+/**
+ * Check a metadata filter, reporting each problem at its path within the filter
+ */
+function checkMetadataFilter(filter: unknown, ctx: z.RefinementCtx, path: (string | number)[], depth: number): void {
+  const issue = (at: (string | number)[], message: string) =>
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: at, message });
+
+  if (filter === null || typeof filter !== 'object' || Array.isArray(filter)) {
+    issue(path, 'Expected an object of field conditions');
+    return;
+  }
+  if (depth > METADATA_FILTER_MAX_DEPTH) {
+    issue(path, `Filters nest at most ${METADATA_FILTER_MAX_DEPTH} levels deep`);
+    return;
+  }
+
+  for (const [key, condition] of Object.entries(filter)) {
+    const at = [...path, key];
+
+    if (key === '$and' || key === '$or') {
+      if (!Array.isArray(condition) || condition.length === 0 || condition.length > METADATA_FILTER_MAX_BRANCHES) {
+        issue(at, `${key} takes an array of 1-${METADATA_FILTER_MAX_BRANCHES} filters`);
+        continue;
+      }
+      condition.forEach((branch, i) => checkMetadataFilter(branch, ctx, [...at, i], depth + 1));
+    } else if (key === '$not') {
+      checkMetadataFilter(condition, ctx, at, depth + 1);
+    } else if (key.startsWith('$')) {
+      issue(at, `Unknown operator ${key}; fields take $eq, $in, $gt, $gte, $lt, $lte or $exists`);
+    } else if (!METADATA_FIELD_PATTERN.test(key)) {
+      issue(at, 'Field paths are dot-separated, non-empty keys');
+    } else if (isFieldOperators(condition)) {
+      const result = metadataFieldOperatorsSchema.safeParse(condition);
+      if (!result.success) {
+        result.error.issues.forEach(problem => issue([...at, ...problem.path], problem.message));
+      }
+    } else if (containsOperator(condition)) {
+      issue(at, 'Operators apply to a field path ("a.b": { "$gt": 1 }), not inside a value');
+    }
+  }
+}
+
+/**
+ * Metadata filter of /query, /simulate and POST /vectors/delete (see MetadataFilter)
+ */
+export const metadataFilterSchema = z.record(z.unknown())
+  .superRefine((filter, ctx) => checkMetadataFilter(filter, ctx, [], 1))
+  .transform(filter => filter as MetadataFilter);
+
+// Structured filters and event time range of /query (also used by /simulate and POST /vectors/delete)
+export const queryFiltersSchema = z.object({
+  source: z.union([z.string(), z.array(z.string())]).optional(),
+  type: z.union([z.string(), z.array(z.string())]).optional(),
+  metadata: metadataFilterSchema.optional(),
+});
+
+export const timeRangeSchema = z.object({
+  start: z.string().datetime(),
+  end: z.string().datetime(),
+});
+
+// Hybrid search ranking; weights are relative, so at least one must be positive
+const queryFusionSchema = z.object({
+  method: z.enum(['rrf', 'weighted']),
+  vectorWeight: z.number().min(0).max(100).optional(),
+  textWeight: z.number().min(0).max(100).optional(),
+  k: z.number().int().min(1).max(1000).optional(),
+}).strict().refine(
+  fusion => (fusion.vectorWeight ?? 1) + (fusion.textWeight ?? 1) > 0,
+  'vectorWeight and textWeight cannot both be 0'
+);
+
 export const querySchema = z.object({
+  namespace: namespaceField,
   queryVector: z.array(z.number()).min(1).optional().nullable(),
-  filters: z.object({
-    source: z.union([z.string(), z.array(z.string())]).optional(),
-    type: z.union([z.string(), z.array(z.string())]).optional(),
-    metadata: z.record(z.unknown()).optional(),
-  }).optional(),
-  timeRange: z.object({
-    start: z.string().datetime(),
-    end: z.string().datetime(),
-  }).optional(),
+  text: z.string().trim().min(1).max(1000).optional(),
+  fusion: queryFusionSchema.optional(),
+  filters: queryFiltersSchema.optional(),
+  timeRange: timeRangeSchema.optional(),
   limit: z.number().int().min(1).max(1000).optional(),
   offset: z.number().int().min(0).optional(),
-});
+  cursor: z.string().min(1).max(4096).optional(),
+  includeTotal: z.boolean().optional(),
+}).refine(
+  query => query.fusion === undefined || (query.text !== undefined && !!query.queryVector),
+  { message: 'fusion requires both text and queryVector', path: ['fusion'] }
+).refine(
+  query => query.cursor === undefined || !query.offset,
+  { message: 'cursor continues where the previous page ended; it cannot be combined with offset', path: ['offset'] }
+);
 
 export const simulateSchema = z.object({
+  namespace: namespaceField,
   contextVectors: z.array(z.array(z.number()).min(1)).min(1),
+  filters: queryFiltersSchema.optional(),
   nearestNeighbors: z.number().int().min(1).max(100).optional(),
   similarityThreshold: z.number().min(0).max(1).optional(),
   includeMetadata: z.boolean().optional(),
   includeVectors: z.boolean().optional(),
-});
+  aggregate: z.enum(['union', 'intersection', 'centroid', 'max-sim']).optional(),
+}).refine(
+  body => body.aggregate !== 'centroid' || body.contextVectors.every(vector => vector.length === body.contextVectors[0].length),
+  { message: 'centroid requires context vectors of one dimension', path: ['aggregate'] }
+);
+
+// Graph node references are "<type>:<key>"; a bare value is read as the given default type
+const graphNodeRef = (defaultType?: string) => z.string().trim().min(1).transform(value =>
+  defaultType && !/^(decision|objective|repo|signal|recommendation):/.test(value) ? `${defaultType}:${value}` : value
+).pipe(z.string().regex(/^(decision|objective|repo|signal|recommendation):.+$/, 'Expected "<type>:<key>" node reference'));
+
+const graphDepth = z.number().int().min(1).max(config.graph.maxDepth);
+const graphLimit = z.number().int().min(1).max(config.graph.maxNodes);
+const graphDirection = z.enum(['out', 'in', 'both']);
+
+export const graphSchema = z.discriminatedUnion('operation', [
+  z.object({
+    operation: z.literal('neighbourhood'),
+    node: graphNodeRef(),
+    depth: graphDepth.optional(),
+    direction: graphDirection.optional(),
+    relations: z.array(z.enum(['addresses', 'involves', 'emits', 'supports', 'recommends'])).min(1).optional(),
+    limit: graphLimit.optional(),
+    learned: z.boolean().optional(),
+  }),
+  z.object({
+    operation: z.literal('shortest_path'),
+    from: graphNodeRef(),
+    to: graphNodeRef(),
+    maxDepth: graphDepth.optional(),
+    direction: graphDirection.optional(),
+  }),
+  z.object({
+    operation: z.literal('repos_for_signal'),
+    signal: graphNodeRef('signal').refine(value => value.startsWith('signal:'), 'Expected a signal node'),
+    depth: graphDepth.optional(),
+    limit: graphLimit.optional(),
+  }),
+  z.object({
+    operation: z.literal('strongest_recommendation'),
+    objective: graphNodeRef('objective').optional(),
+    signals: z.array(graphNodeRef('signal')).min(1).max(50).optional(),
+    decision: graphNodeRef('decision').optional(),
+    limit: z.number().int().min(1).max(50).optional(),
+  }),
+]).refine(
+  body => body.operation !== 'strongest_recommendation'
+    || body.objective !== undefined || body.signals !== undefined || body.decision !== undefined,
+  'At least one of objective, signals or decision is required'
+);
 
 /**
  * Tolerant middleware for internal polling endpoints (e.g., execution engine listeners)
@@ -197,16 +463,15 @@ export function validateInternalPolling(req: Request, res: Response, next: NextF
   res.setHeader('x-correlation-id', correlationId);
 
   // Default entitlement context for internal services if missing
-  let entitlementContext = req.headers['x-entitlement-context'];
+  const entitlementContext = req.headers['x-entitlement-context'];
   if (!entitlementContext || typeof entitlementContext !== 'string') {
     // Default to system execution listener context
-    entitlementContext = Buffer.from(JSON.stringify({
-      tenant: 'system',
-      scope: 'execution-listener'
-    })).toString('base64');
+    req.entitlement = { allowed: true, tenant: 'system', scope: 'execution-listener' };
+    next();
+    return;
   }
 
-  // Validate entitlement if provided (or use default)
+  // Validate entitlement if provided
   const result = checkEntitlement(entitlementContext);
 
   if (!result.allowed) {
@@ -222,13 +487,114 @@ export function validateInternalPolling(req: Request, res: Response, next: NextF
   next();
 }
 
+/**
+ * Middleware to scope the rest of the request to the entitlement's tenant
+ * Uses req.entitlement when an earlier middleware validated it, otherwise the
+ * x-entitlement-context header; callers without one act as the default tenant.
+ * Database rows and vector namespaces are isolated per tenant (utils/tenant).
+ */
+export function scopeToTenant(req: Request, res: Response, next: NextFunction): void {
+  const correlationId = req.correlationId || getOrCreateCorrelationId(req.headers);
+  const entitlementHeader = req.headers['x-entitlement-context'];
+
+  let tenantId = req.entitlement?.tenant;
+  if (!tenantId && typeof entitlementHeader === 'string' && entitlementHeader !== '') {
+    const result = checkEntitlement(entitlementHeader);
+    if (!result.allowed) {
+      res.status(403).json({
+        error: 'entitlement_error',
+        message: result.reason || 'Entitlement check failed',
+        correlationId,
+      });
+      return;
+    }
+    req.entitlement = result;
+    tenantId = result.tenant;
+  }
+  tenantId = tenantId ?? DEFAULT_TENANT;
+
+  if (!isValidTenantId(tenantId)) {
+    res.status(403).json({
+      error: 'entitlement_error',
+      message: 'Invalid tenant (1-128 letters, digits, ".", "_" or "-")',
+      correlationId,
+    });
+    return;
+  }
+
+  req.tenantId = tenantId;
+  runWithTenant(tenantId, next);
+}
+
+/**
+ * Middleware to authorize the matched route against config.authorization
+ * Registered on each route after any entitlement middleware; otherwise decodes the
+ * x-entitlement-context header itself. Denials are 403 forbidden with a machine-readable
+ * reason (see AuthorizationDenialReason) and the scope the route requires.
+ */
+export function requireScope(req: Request, res: Response, next: NextFunction): void {
+  const correlationId = req.correlationId || getOrCreateCorrelationId(req.headers);
+  const entitlementHeader = req.headers['x-entitlement-context'];
+
+  let entitlement: EntitlementResult | null = req.entitlement ?? null;
+  if (!entitlement && typeof entitlementHeader === 'string' && entitlementHeader !== '') {
+    const result = checkEntitlement(entitlementHeader);
+    if (!result.allowed) {
+      res.status(403).json({
+        error: 'entitlement_error',
+        message: result.reason || 'Entitlement check failed',
+        correlationId,
+      });
+      return;
+    }
+    req.entitlement = result;
+    entitlement = result;
+  }
+
+  // HEAD is served by GET routes
+  const method = req.method === 'HEAD' ? 'GET' : req.method;
+  const route = `${method} ${req.route?.path ?? req.path}`;
+  const decision = authorizeRoute(entitlement, route, config.authorization);
+  if (decision.allowed) {
+    next();
+    return;
+  }
+
+  logger.warn(
+    { route, tenant: entitlement?.tenant, scope: entitlement?.scope, reason: decision.reason, enforced: config.authorization.enforce },
+    'Request denied by authorization policy'
+  );
+  if (!config.authorization.enforce) {
+    next();
+    return;
+  }
+
+  res.status(403).json({
+    error: 'forbidden',
+    reason: decision.reason,
+    required_scope: decision.requiredScope,
+    message: decision.requiredScope
+      ? `Scope ${decision.requiredScope} is required`
+      : `No authorization policy for ${route}`,
+    correlationId,
+  });
+}
+
 export default {
   validateRequest,
   extractCorrelationId,
   validateEntitlement,
   validateRequiredHeaders,
+  validateBatchHeaders,
   validateInternalPolling,
+  scopeToTenant,
+  requireScope,
+  parseIngestBatch,
   ingestSchema,
+  metadataFilterSchema,
+  queryFiltersSchema,
+  timeRangeSchema,
   querySchema,
   simulateSchema,
+  graphSchema,
 };
@@ -0,0 +1,72 @@
+/**
+ * In-process namespace registry
+ *
+ * Registrations are per service instance and lost on restart; use the postgres store
+ * in deployments.
+ */
+import { VectorNamespace } from '../types';
+import { DEFAULT_TENANT, currentTenant } from '../utils/tenant';
+import {
+  ExpiringNamespace,
+  MUTABLE_NAMESPACE_FIELDS,
+  NamespaceChanges,
+  NamespaceDefinition,
+  NamespaceStore,
+} from './NamespaceStore';
+
+export class MemoryNamespaceStore implements NamespaceStore {
+  readonly kind = 'memory' as const;
+
+  private namespaces = new Map<string, VectorNamespace>();
+
+  async create(definition: NamespaceDefinition): Promise<VectorNamespace | null> {
+    const id = this.namespaceId(definition.name);
+    if (this.namespaces.has(id)) return null;
+
+    const now = new Date().toISOString();
+    const namespace: VectorNamespace = { ...definition, created_at: now, updated_at: now };
+    this.namespaces.set(id, namespace);
+    return { ...namespace };
+  }
+
+  async get(name: string): Promise<VectorNamespace | null> {
+    const namespace = this.namespaces.get(this.namespaceId(name));
+    return namespace ? { ...namespace } : null;
+  }
+
+  async list(limit: number, offset: number): Promise<{ namespaces: VectorNamespace[]; total: number }> {
+    const prefix = this.namespaceId('');
+    const namespaces = Array.from(this.namespaces.entries())
+      .filter(([id]) => id.startsWith(prefix))
+      .map(([, namespace]) => ({ ...namespace }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return { namespaces: namespaces.slice(offset, offset + limit), total: namespaces.length };
+  }
+
+  async update(name: string, changes: NamespaceChanges): Promise<VectorNamespace | null> {
+    const namespace = this.namespaces.get(this.namespaceId(name));
+    if (!namespace) return null;
+
+    for (const field of MUTABLE_NAMESPACE_FIELDS) {
+      if (changes[field] !== undefined) {
+        Object.assign(namespace, { [field]: changes[field] });
+      }
+    }
+    namespace.updated_at = new Date().toISOString();
+    return { ...namespace };
+  }
+
+  async delete(name: string): Promise<boolean> {
+    return this.namespaces.delete(this.namespaceId(name));
+  }
+
+  async listExpiring(): Promise<ExpiringNamespace[]> {
+    return Array.from(this.namespaces.entries())
+      .filter(([, namespace]) => namespace.ttl_seconds !== null)
+      .map(([id, namespace]) => ({ tenant: id.slice(0, id.indexOf('|')), namespace: { ...namespace } }));
+  }
+
+  private namespaceId(name: string): string {
+    return `${currentTenant() ?? DEFAULT_TENANT}|${name}`;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Vector namespace registry contract
+ *
+ * A registered namespace pins the dimension, distance metric and normalization of the
+ * vectors it holds; /ingest, /query and /simulate check vectors against it. Namespaces
+ * belong to the current tenant (utils/tenant).
+ */
+import { NamespaceBackendKind, VectorDistanceMetric, VectorNamespace } from '../types';
+
+export type { NamespaceBackendKind } from '../types';
+
+/**
+ * Namespace names become part of the physical vector namespace (`<tenant>/<name>`)
+ */
+export const NAMESPACE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/;
+
+export interface NamespaceDefinition {
+  name: string;
+  dimension: number;
+  metric: VectorDistanceMetric;
+  normalize: boolean;
+  description: string | null;
+  ttl_seconds: number | null;
+}
+
+/**
+ * Settings that can change once vectors are stored; dimension and metric cannot
+ */
+export interface NamespaceChanges {
+  normalize?: boolean;
+  description?: string | null;
+  ttl_seconds?: number | null;
+}
+
+/**
+ * Fields of NamespaceChanges, in the order updates apply them
+ */
+export const MUTABLE_NAMESPACE_FIELDS = ['normalize', 'description', 'ttl_seconds'] as const;
+
+/**
+ * A namespace whose vectors expire, and the tenant it belongs to
+ */
+export interface ExpiringNamespace {
+  tenant: string;
+  namespace: VectorNamespace;
+}
+
+export interface NamespaceStoreOptions {
+  cacheTtlSeconds: number;          // How long lookups by name may be served from memory
+}
+
+export interface NamespaceStore {
+  readonly kind: NamespaceBackendKind;
+
+  /** Register a namespace; resolves null when the name is taken */
+  create(definition: NamespaceDefinition): Promise<VectorNamespace | null>;
+
+  /** Look up a namespace by name; may be up to cacheTtlSeconds stale */
+  get(name: string): Promise<VectorNamespace | null>;
+
+  /** Namespaces ordered by name */
+  list(limit: number, offset: number): Promise<{ namespaces: VectorNamespace[]; total: number }>;
+
+  /** Resolves null when the namespace does not exist */
+  update(name: string, changes: NamespaceChanges): Promise<VectorNamespace | null>;
+
+  /** Unregister a namespace (its vectors are kept); resolves false when it did not exist */
+  delete(name: string): Promise<boolean>;
+
+  /** Namespaces with a TTL across every tenant, for the retention sweeper (system scope only) */
+  listExpiring(): Promise<ExpiringNamespace[]>;
+}
+
+export interface VectorProblem {
+  code: 'invalid_vector_dimension' | 'validation_error';
+  message: string;
+}
+
+/**
+ * Why a vector cannot be stored in or searched against a namespace, or null when it fits
+ */
+export function checkVector(namespace: VectorNamespace, vector: number[]): VectorProblem | null {
+  if (vector.length !== namespace.dimension) {
+    return {
+      code: 'invalid_vector_dimension',
+      message: `Vector has ${vector.length} dimensions, namespace ${namespace.name} holds ${namespace.dimension}`,
+    };
+  }
+  if (namespace.normalize && vector.every(value => value === 0)) {
+    return { code: 'validation_error', message: `Zero vector cannot be normalized for namespace ${namespace.name}` };
+  }
+  return null;
+}
+
+/**
+ * The vector as stored or searched in a namespace: scaled to unit length when it normalizes
+ */
+export function conformVector(namespace: VectorNamespace, vector: number[]): number[] {
+  if (!namespace.normalize) return vector;
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return vector.map(value => value / norm);
+}
@@ -0,0 +1,158 @@
+/**
+ * Postgres-backed namespace registry
+ *
+ * Keeps registrations in the vector_namespaces table created by DatabaseClient.initialize().
+ * Every ingest, query and simulate looks its namespace up, so lookups (including misses) are
+ * cached per instance for cacheTtlSeconds; changes made through this instance apply at once.
+ */
+import { DatabaseClient } from '../clients/DatabaseClient';
+import { VectorNamespace } from '../types';
+import { DEFAULT_TENANT, TENANT_SETTING, currentTenant } from '../utils/tenant';
+import {
+  ExpiringNamespace,
+  MUTABLE_NAMESPACE_FIELDS,
+  NamespaceChanges,
+  NamespaceDefinition,
+  NamespaceStore,
+  NamespaceStoreOptions,
+} from './NamespaceStore';
+
+// Rows of the current tenant; outside a tenant context that is the default tenant
+const CURRENT_TENANT = `COALESCE(NULLIF(current_setting('${TENANT_SETTING}', true), ''), '${DEFAULT_TENANT}')`;
+
+// Lookups of arbitrary names cannot grow the cache past this; it is emptied instead
+const CACHE_MAX_ENTRIES = 10000;
+
+const NAMESPACE_COLUMNS = 'name, dimension, metric, normalize, description, ttl_seconds, created_at, updated_at';
+
+type NamespaceRow = Omit<VectorNamespace, 'created_at' | 'updated_at'> & {
+  created_at: Date | string;
+  updated_at: Date | string;
+};
+
+function toNamespace(row: NamespaceRow): VectorNamespace {
+  return {
+    name: row.name,
+    dimension: row.dimension,
+    metric: row.metric,
+    normalize: row.normalize,
+    description: row.description,
+    ttl_seconds: row.ttl_seconds,
+    created_at: new Date(row.created_at).toISOString(),
+    updated_at: new Date(row.updated_at).toISOString(),
+  };
+}
+
+export class PgNamespaceStore implements NamespaceStore {
+  readonly kind = 'postgres' as const;
+
+  private cache = new Map<string, { namespace: VectorNamespace | null; expiresAt: number }>();
+
+  constructor(private dbClient: DatabaseClient, private options: NamespaceStoreOptions) {}
+
+  async create(definition: NamespaceDefinition): Promise<VectorNamespace | null> {
+    const result = await this.dbClient.query<NamespaceRow>(
+      `INSERT INTO vector_namespaces (name, dimension, metric, normalize, description, ttl_seconds)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       ON CONFLICT (tenant_id, name) DO NOTHING
+       RETURNING ${NAMESPACE_COLUMNS}`,
+      [
+        definition.name,
+        definition.dimension,
+        definition.metric,
+        definition.normalize,
+        definition.description,
+        definition.ttl_seconds,
+      ]
+    );
+    if (result.rows.length === 0) {
+      // Taken: whatever is cached for the name may be stale
+      this.cache.delete(this.cacheKey(definition.name));
+      return null;
+    }
+    return this.remember(definition.name, toNamespace(result.rows[0]));
+  }
+
+  async get(name: string): Promise<VectorNamespace | null> {
+    const cached = this.cache.get(this.cacheKey(name));
+    if (cached && cached.expiresAt > Date.now()) return cached.namespace;
+
+    const result = await this.dbClient.query<NamespaceRow>(
+      `SELECT ${NAMESPACE_COLUMNS} FROM vector_namespaces WHERE tenant_id = ${CURRENT_TENANT} AND name = $1`,
+      [name]
+    );
+    return this.remember(name, result.rows[0] ? toNamespace(result.rows[0]) : null);
+  }
+
+  async list(limit: number, offset: number): Promise<{ namespaces: VectorNamespace[]; total: number }> {
+    const countResult = await this.dbClient.query<{ total: string }>(
+      `SELECT COUNT(*) AS total FROM vector_namespaces WHERE tenant_id = ${CURRENT_TENANT}`
+    );
+    const result = await this.dbClient.query<NamespaceRow>(
+      `SELECT ${NAMESPACE_COLUMNS}
+       FROM vector_namespaces
+       WHERE tenant_id = ${CURRENT_TENANT}
+       ORDER BY name
+       LIMIT $1 OFFSET $2`,
+      [limit, offset]
+    );
+    return {
+      namespaces: result.rows.map(toNamespace),
+      total: parseInt(countResult.rows[0]?.total || '0', 10),
+    };
+  }
+
+  async update(name: string, changes: NamespaceChanges): Promise<VectorNamespace | null> {
+    const updates: string[] = [];
+    const params: unknown[] = [];
+    for (const field of MUTABLE_NAMESPACE_FIELDS) {
+      if (changes[field] !== undefined) {
+        params.push(changes[field]);
+        updates.push(`${field} = $${params.length}`);
+      }
+    }
+    updates.push('updated_at = NOW()');
+    params.push(name);
+
+    const result = await this.dbClient.query<NamespaceRow>(
+      `UPDATE vector_namespaces
+       SET ${updates.join(', ')}
+       WHERE tenant_id = ${CURRENT_TENANT} AND name = $${params.length}
+       RETURNING ${NAMESPACE_COLUMNS}`,
+      params
+    );
+    return this.remember(name, result.rows[0] ? toNamespace(result.rows[0]) : null);
+  }
+
+  async delete(name: string): Promise<boolean> {
+    const result = await this.dbClient.query(
+      `DELETE FROM vector_namespaces WHERE tenant_id = ${CURRENT_TENANT} AND name = $1`,
+      [name]
+    );
+    this.remember(name, null);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Not cached: the sweeper runs rarely and must see TTL changes made on other instances
+   */
+  async listExpiring(): Promise<ExpiringNamespace[]> {
+    const result = await this.dbClient.query<NamespaceRow & { tenant_id: string }>(
+      `SELECT tenant_id, ${NAMESPACE_COLUMNS}
+       FROM vector_namespaces
+       WHERE ttl_seconds IS NOT NULL
+       ORDER BY tenant_id, name`
+    );
+    return result.rows.map(row => ({ tenant: row.tenant_id, namespace: toNamespace(row) }));
+  }
+
+  private remember(name: string, namespace: VectorNamespace | null): VectorNamespace | null {
+    if (this.cache.size >= CACHE_MAX_ENTRIES) this.cache.clear();
+    this.cache.set(this.cacheKey(name), { namespace, expiresAt: Date.now() + this.options.cacheTtlSeconds * 1000 });
+    return namespace;
+  }
+
+  private cacheKey(name: string): string {
+    return `${currentTenant() ?? DEFAULT_TENANT}|${name}`;
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Namespace registry factory
+ * Selects where vector namespace registrations are kept (NAMESPACE_BACKEND)
+ */
+import { DatabaseClient } from '../clients/DatabaseClient';
+import { NamespaceBackendKind } from '../types';
+import { NamespaceStore, NamespaceStoreOptions } from './NamespaceStore';
+import { MemoryNamespaceStore } from './MemoryNamespaceStore';
+import { PgNamespaceStore } from './PgNamespaceStore';
+
+export interface NamespaceOptions extends NamespaceStoreOptions {
+  backend: NamespaceBackendKind;
+}
+
+/**
+ * Create the configured namespace registry
+ * The postgres store shares the service's DatabaseClient pool; the memory store is
+ * process-local and meant for development and tests.
+ */
+export function createNamespaceStore(options: NamespaceOptions, dbClient: DatabaseClient): NamespaceStore {
+  switch (options.backend) {
+    case 'postgres':
+      return new PgNamespaceStore(dbClient, options);
+    case 'memory':
+      return new MemoryNamespaceStore();
+  }
+}
+
+export * from './NamespaceStore';
+export { MemoryNamespaceStore } from './MemoryNamespaceStore';
+export { PgNamespaceStore } from './PgNamespaceStore';
@@ -0,0 +1,60 @@
+/**
+ * In-process rate limit store
+ *
+ * Limits are per service instance; use the postgres store when several instances
+ * must share one budget.
+ */
+import { BucketResult, QuotaResult, QuotaUsage, RateLimitStore, exceededQuota } from './RateLimitStore';
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly kind = 'memory' as const;
+
+  private buckets = new Map<string, Bucket>();
+  private usage = new Map<string, QuotaUsage>();
+  private day: string | null = null;
+
+  async take(key: string, capacity: number, perSecond: number, cost: number, now: number): Promise<BucketResult> {
+    const bucket = this.buckets.get(key);
+    const elapsed = bucket ? Math.max(0, now - bucket.updatedAt) / 1000 : 0;
+    const tokens = bucket ? Math.min(capacity, bucket.tokens + elapsed * perSecond) : capacity;
+
+    if (tokens < cost) {
+      this.buckets.set(key, { tokens, updatedAt: now });
+      return {
+        allowed: false,
+        remaining: Math.floor(tokens),
+        retryAfterMs: Math.max(1, Math.ceil(((cost - tokens) / perSecond) * 1000)),
+      };
+    }
+
+    this.buckets.set(key, { tokens: tokens - cost, updatedAt: now });
+    return { allowed: true, remaining: Math.floor(tokens - cost), retryAfterMs: 0 };
+  }
+
+  async consume(key: string, day: string, usage: QuotaUsage, limits: QuotaUsage): Promise<QuotaResult> {
+    // Only today's counters are kept
+    if (day !== this.day) {
+      this.usage.clear();
+      this.day = day;
+    }
+
+    const used = this.usage.get(key) ?? { requests: 0, vectors: 0, bytes: 0 };
+    const exceeded = exceededQuota(used, usage, limits);
+    if (exceeded) {
+      return { allowed: false, exceeded, used: { ...used } };
+    }
+
+    const next = {
+      requests: used.requests + usage.requests,
+      vectors: used.vectors + usage.vectors,
+      bytes: used.bytes + usage.bytes,
+    };
+    this.usage.set(key, next);
+    return { allowed: true, used: { ...next } };
+  }
+}
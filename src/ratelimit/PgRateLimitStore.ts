@@ -0,0 +1,116 @@
+/**
+ * Postgres-backed rate limit store
+ *
+ * Keeps buckets and daily usage in the rate_limit_buckets and rate_limit_usage tables created
+ * by DatabaseClient.initialize(), so every service instance draws from the same budget.
+ * Each check is a single conditional upsert, which serializes concurrent requests on the row.
+ */
+import { DatabaseClient } from '../clients/DatabaseClient';
+import logger from '../utils/logger';
+import { BucketResult, QuotaResult, QuotaUsage, RateLimitStore, exceededQuota } from './RateLimitStore';
+
+// Tokens in the bucket at $n (ms since epoch), refilled since updated_at
+const refilled = (bucket: string, capacity: string, perSecond: string, now: string) =>
+  `LEAST(${capacity}, ${bucket}.tokens + GREATEST(0, EXTRACT(EPOCH FROM to_timestamp(${now}::double precision / 1000) - ${bucket}.updated_at)) * ${perSecond})`;
+
+const TAKE_SQL = `
+  INSERT INTO rate_limit_buckets AS b (key, tokens, updated_at)
+  VALUES ($1, $2::double precision - $4, to_timestamp($5::double precision / 1000))
+  ON CONFLICT (key) DO UPDATE
+    SET tokens = ${refilled('b', '$2', '$3', '$5')} - $4,
+        updated_at = GREATEST(b.updated_at, EXCLUDED.updated_at)
+    WHERE ${refilled('b', '$2', '$3', '$5')} >= $4
+  RETURNING tokens`;
+
+const PEEK_SQL = `SELECT ${refilled('b', '$2', '$3', '$4')} AS tokens FROM rate_limit_buckets b WHERE key = $1`;
+
+const CONSUME_SQL = `
+  INSERT INTO rate_limit_usage AS u (key, day, requests, vectors, bytes)
+  VALUES ($1, $2::date, $3, $4, $5)
+  ON CONFLICT (key, day) DO UPDATE
+    SET requests = u.requests + EXCLUDED.requests,
+        vectors = u.vectors + EXCLUDED.vectors,
+        bytes = u.bytes + EXCLUDED.bytes
+    WHERE ($6 = 0 OR u.requests + EXCLUDED.requests <= $6)
+      AND ($7 = 0 OR u.vectors + EXCLUDED.vectors <= $7)
+      AND ($8 = 0 OR u.bytes + EXCLUDED.bytes <= $8)
+  RETURNING requests, vectors, bytes`;
+
+interface UsageRow {
+  requests: string | number;
+  vectors: string | number;
+  bytes: string | number;
+}
+
+const ZERO_USAGE: QuotaUsage = { requests: 0, vectors: 0, bytes: 0 };
+
+function toUsage(row: UsageRow | undefined): QuotaUsage {
+  return row
+    ? { requests: Number(row.requests), vectors: Number(row.vectors), bytes: Number(row.bytes) }
+    : { ...ZERO_USAGE };
+}
+
+export class PgRateLimitStore implements RateLimitStore {
+  readonly kind = 'postgres' as const;
+
+  // Day this instance last pruned earlier days' usage
+  private prunedDay: string | null = null;
+
+  constructor(private dbClient: DatabaseClient) {}
+
+  async take(key: string, capacity: number, perSecond: number, cost: number, now: number): Promise<BucketResult> {
+    const taken = await this.dbClient.query<{ tokens: number }>(TAKE_SQL, [key, capacity, perSecond, cost, now]);
+    if (taken.rows.length > 0) {
+      return { allowed: true, remaining: Math.floor(Number(taken.rows[0].tokens)), retryAfterMs: 0 };
+    }
+
+    const peek = await this.dbClient.query<{ tokens: number }>(PEEK_SQL, [key, capacity, perSecond, now]);
+    const tokens = Number(peek.rows[0]?.tokens ?? 0);
+    return {
+      allowed: false,
+      remaining: Math.floor(tokens),
+      retryAfterMs: Math.max(1, Math.ceil(((cost - tokens) / perSecond) * 1000)),
+    };
+  }
+
+  async consume(key: string, day: string, usage: QuotaUsage, limits: QuotaUsage): Promise<QuotaResult> {
+    await this.pruneBefore(day);
+
+    // A request larger than the whole quota would otherwise be inserted as a new row
+    const oversized = exceededQuota(ZERO_USAGE, usage, limits);
+    if (oversized) {
+      return { allowed: false, exceeded: oversized, used: await this.usageFor(key, day) };
+    }
+
+    const consumed = await this.dbClient.query<UsageRow>(CONSUME_SQL, [
+      key, day, usage.requests, usage.vectors, usage.bytes, limits.requests, limits.vectors, limits.bytes,
+    ]);
+    if (consumed.rows.length > 0) {
+      return { allowed: true, used: toUsage(consumed.rows[0]) };
+    }
+
+    const used = await this.usageFor(key, day);
+    return { allowed: false, exceeded: exceededQuota(used, usage, limits) ?? 'requests', used };
+  }
+
+  private async usageFor(key: string, day: string): Promise<QuotaUsage> {
+    const result = await this.dbClient.query<UsageRow>(
+      'SELECT requests, vectors, bytes FROM rate_limit_usage WHERE key = $1 AND day = $2::date',
+      [key, day]
+    );
+    return toUsage(result.rows[0]);
+  }
+
+  /**
+   * Drop usage rows from before `day`, once per day per instance
+   */
+  private async pruneBefore(day: string): Promise<void> {
+    if (this.prunedDay === day) return;
+    this.prunedDay = day;
+    try {
+      await this.dbClient.query('DELETE FROM rate_limit_usage WHERE day < $1::date', [day]);
+    } catch (error) {
+      logger.warn({ error }, 'Failed to prune rate limit usage');
+    }
+  }
+}
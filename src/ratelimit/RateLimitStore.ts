@@ -0,0 +1,47 @@
+/**
+ * Rate limit state store contract
+ *
+ * The middleware (middleware/rateLimit) decides which limits apply; a store only keeps the
+ * token buckets and daily usage counters and applies each check atomically, so several
+ * service instances can share one store.
+ */
+import { QuotaUsage, RateLimitBackendKind } from '../types';
+
+export type { QuotaUsage, RateLimitBackendKind } from '../types';
+
+export interface BucketResult {
+  allowed: boolean;
+  remaining: number;                // Whole tokens left after this request
+  retryAfterMs: number;             // 0 when allowed
+}
+
+export interface QuotaResult {
+  allowed: boolean;
+  exceeded?: keyof QuotaUsage;      // First quota the request would have exceeded
+  used: QuotaUsage;                 // Usage for the day, including this request when allowed
+}
+
+export interface RateLimitStore {
+  readonly kind: RateLimitBackendKind;
+
+  /**
+   * Take `cost` tokens from the bucket for `key`, refilled at `perSecond` up to `capacity`
+   * A new bucket starts full. Nothing is taken when there are not enough tokens.
+   */
+  take(key: string, capacity: number, perSecond: number, cost: number, now: number): Promise<BucketResult>;
+
+  /**
+   * Add `usage` to the counters for `key` on `day` (UTC YYYY-MM-DD) unless that would
+   * exceed one of `limits`; all-or-nothing. A limit of 0 is unlimited.
+   */
+  consume(key: string, day: string, usage: QuotaUsage, limits: QuotaUsage): Promise<QuotaResult>;
+}
+
+export const QUOTA_METRICS: Array<keyof QuotaUsage> = ['requests', 'vectors', 'bytes'];
+
+/**
+ * First metric for which used + usage exceeds a non-zero limit
+ */
+export function exceededQuota(used: QuotaUsage, usage: QuotaUsage, limits: QuotaUsage): keyof QuotaUsage | undefined {
+  return QUOTA_METRICS.find(metric => limits[metric] > 0 && used[metric] + usage[metric] > limits[metric]);
+}
@@ -0,0 +1,27 @@
+/**
+ * Rate limit store factory
+ * Selects where token buckets and daily quota usage are kept (RATE_LIMIT_BACKEND)
+ */
+import { DatabaseClient } from '../clients/DatabaseClient';
+import { RateLimitBackendKind } from '../types';
+import { RateLimitStore } from './RateLimitStore';
+import { MemoryRateLimitStore } from './MemoryRateLimitStore';
+import { PgRateLimitStore } from './PgRateLimitStore';
+
+/**
+ * Create the configured rate limit store
+ * The memory store limits each instance separately; the postgres store shares the
+ * service's DatabaseClient pool and one budget across instances.
+ */
+export function createRateLimitStore(backend: RateLimitBackendKind, dbClient: DatabaseClient): RateLimitStore {
+  switch (backend) {
+    case 'postgres':
+      return new PgRateLimitStore(dbClient);
+    case 'memory':
+      return new MemoryRateLimitStore();
+  }
+}
+
+export * from './RateLimitStore';
+export { MemoryRateLimitStore } from './MemoryRateLimitStore';
+export { PgRateLimitStore } from './PgRateLimitStore';
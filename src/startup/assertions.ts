@@ -4,6 +4,8 @@
  * CRITICAL: Assert all required environment variables at startup.
  * CRASH ON FAILURE - do not proceed with missing config.
  */
+import { config } from '../config';
+import { reloadEntitlementKeys } from '../utils/entitlement';
 import logger from '../utils/logger';
 
 /**
@@ -15,6 +17,7 @@ const REQUIRED_ENV_VARS_PRODUCTION = [
   'RUVVECTOR_DB_NAME',
   'RUVVECTOR_DB_USER',
   'RUVVECTOR_DB_PASSWORD',
+  'QUERY_CURSOR_SECRET',
 ] as const;
 
 /**
@@ -25,6 +28,51 @@ const OPTIONAL_ENV_VARS = [
   'PORT',
   'LOG_LEVEL',
   'RUVVECTOR_SERVICE_URL',
+  'RUVVECTOR_BACKEND',
+  'RUVVECTOR_DISTANCE_METRIC',
+  'RUVVECTOR_HNSW_M',
+  'RUVVECTOR_HNSW_EF_CONSTRUCTION',
+  'RUVVECTOR_HNSW_EF_SEARCH',
+  'INGEST_BATCH_MAX_EVENTS',
+  'INGEST_BATCH_MAX_BYTES',
+  'IDEMPOTENCY_BACKEND',
+  'IDEMPOTENCY_KEY_TTL_SECONDS',
+  'IDEMPOTENCY_EVENT_TTL_SECONDS',
+  'IDEMPOTENCY_LOCK_TIMEOUT_SECONDS',
+  'NAMESPACE_BACKEND',
+  'NAMESPACE_CACHE_TTL_SECONDS',
+  'QUERY_CURSOR_TTL_SECONDS',
+  'EMBEDDING_PROVIDER',
+  'EMBEDDING_DIMENSION',
+  'EMBEDDING_SERVICE_URL',
+  'EMBEDDING_MODEL',
+  'EMBEDDING_TIMEOUT',
+  'GRAPH_MAX_DEPTH',
+  'GRAPH_MAX_NODES',
+  'EVENTS_MAX_WAIT_SECONDS',
+  'EVENTS_SSE_HEARTBEAT_MS',
+  'EVENTS_VISIBILITY_TIMEOUT_SECONDS',
+  'EVENTS_MAX_VISIBILITY_TIMEOUT_SECONDS',
+  'DEFERRAL_SWEEP_INTERVAL_MS',
+  'RETENTION_SWEEP_INTERVAL_MS',
+  'RETENTION_DRY_RUN',
+  'WEBHOOK_POLL_INTERVAL_MS',
+  'WEBHOOK_TIMEOUT_MS',
+  'WEBHOOK_MAX_ATTEMPTS',
+  'WEBHOOK_RETRY_BASE_MS',
+  'WEBHOOK_RETRY_MAX_MS',
+  'WEBHOOK_BATCH_SIZE',
+  'WEBHOOK_ALLOWED_PRIVATE_HOSTS',
+  'ENTITLEMENT_CLOCK_SKEW_SECONDS',
+  'AUTHZ_ENFORCE',
+  'AUTHZ_ANONYMOUS_SCOPES',
+  'RATE_LIMIT_ENABLED',
+  'RATE_LIMIT_BACKEND',
+  'RATE_LIMIT_BURST',
+  'RATE_LIMIT_PER_SECOND',
+  'RATE_LIMIT_DAILY_REQUESTS',
+  'RATE_LIMIT_DAILY_VECTORS',
+  'RATE_LIMIT_DAILY_BYTES',
   'RUVVECTOR_DB_PORT',
   'RUVVECTOR_DB_SSL',
   'RUVVECTOR_DB_MAX_CONNECTIONS',
@@ -158,6 +206,39 @@ export function assertMemoryLayerRole(): void {
   );
 }
 
+/**
+ * Assert signed entitlement contexts can be verified.
+ * Loads the key set up front so a malformed one fails at startup; production refuses
+ * the unsigned (development) mode and an empty key set.
+ */
+export function assertEntitlementVerification(): void {
+  const isProduction = process.env.NODE_ENV === 'production';
+  const { allowUnsigned } = config.entitlement;
+
+  if (allowUnsigned) {
+    if (isProduction) {
+      throw new Error('FATAL: ENTITLEMENT_ALLOW_UNSIGNED is a development flag and cannot be set in production');
+    }
+    logger.warn('ENTITLEMENT_ALLOW_UNSIGNED is set - unsigned entitlement contexts are accepted');
+  }
+
+  let kids: string[];
+  try {
+    kids = [...reloadEntitlementKeys().keys()];
+  } catch (error) {
+    throw new Error(`FATAL: Entitlement key set could not be loaded: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (kids.length === 0 && !allowUnsigned) {
+    if (isProduction) {
+      throw new Error('FATAL: No entitlement keys configured - set ENTITLEMENT_JWKS or ENTITLEMENT_JWKS_FILE');
+    }
+    logger.warn('No entitlement keys configured - every entitlement context will be rejected');
+  }
+
+  logger.info({ kids, allowUnsigned }, 'Entitlement verification configured');
+}
+
 /**
  * Run all startup assertions.
  * CRASHES on critical failures.
@@ -170,6 +251,7 @@ export function runStartupAssertions(): {
 
   const envResult = assertRequiredEnvVars();
   const maxLatencyMs = assertPerformanceBudget();
+  assertEntitlementVerification();
   assertMemoryLayerRole();
 
   logger.info('All startup assertions passed');
@@ -180,6 +262,7 @@ export function runStartupAssertions(): {
 export default {
   assertRequiredEnvVars,
   assertPerformanceBudget,
+  assertEntitlementVerification,
   assertMemoryLayerRole,
   runStartupAssertions,
 };
@@ -0,0 +1,57 @@
+/**
+ * Client Construction
+ *
+ * Builds the DatabaseClient, VectorClient and embedding provider from config so
+ * the HTTP server and standalone jobs share identical wiring.
+ */
+import { config } from '../config';
+import { DatabaseClient } from '../clients/DatabaseClient';
+import { VectorClient } from '../clients/VectorClient';
+import { createVectorBackend } from '../clients/backends';
+import { createEmbeddingProvider, EmbeddingProvider } from '../embeddings';
+
+/**
+ * DatabaseClient for PostgreSQL (RUVVECTOR_DB_*)
+ */
+export function createDatabaseClient(): DatabaseClient {
+  return new DatabaseClient({
+    host: config.database.host,
+    port: config.database.port,
+    database: config.database.name,
+    user: config.database.user,
+    password: config.database.password,
+    maxConnections: config.database.maxConnections,
+    idleTimeoutMs: config.database.idleTimeoutMs,
+    connectionTimeoutMs: config.database.connectionTimeoutMs,
+    ssl: config.database.ssl,
+  });
+}
+
+/**
+ * VectorClient with the backend selected by RUVVECTOR_BACKEND
+ * (http = RuvVector service, postgres = pgvector, memory = local HNSW)
+ */
+export function createVectorClient(dbClient: DatabaseClient): VectorClient {
+  const vectorClientConfig = {
+    serviceUrl: config.ruvVector.serviceUrl,
+    apiKey: config.ruvVector.apiKey,
+    timeout: config.ruvVector.timeout,
+    poolSize: config.ruvVector.poolSize,
+    circuitBreaker: {
+      threshold: config.circuitBreaker.threshold,
+      timeout: config.circuitBreaker.timeout,
+      resetTimeout: config.circuitBreaker.resetTimeout,
+    },
+  };
+  return new VectorClient(
+    vectorClientConfig,
+    createVectorBackend({ ...vectorClientConfig, ...config.ruvVector }, dbClient)
+  );
+}
+
+/**
+ * Embedding provider selected by EMBEDDING_PROVIDER
+ */
+export function createEmbedder(): EmbeddingProvider {
+  return createEmbeddingProvider(config.embedding);
+}
@@ -31,6 +31,13 @@ const REQUIRED_TABLES = [
   'approvals',
   'learning_weights',
   'learning_events',
+  'graph_nodes',
+  'graph_edges',
+  'decision_events',
+  'webhook_subscriptions',
+  'webhook_dead_letters',
+  'decision_event_groups',
+  'decision_event_deliveries',
 ] as const;
 
 /**
@@ -48,11 +55,26 @@ const REQUIRED_INDEXES = [
   'idx_learning_weights_source',
   'idx_learning_weights_target',
   'idx_learning_weights_weight',
+  // Decision graph indexes
+  'idx_graph_edges_target',
+  'idx_graph_edges_decision_id',
+  // Decision event outbox indexes
+  'idx_decision_events_tx_seq',
+  'idx_decision_events_decision_id',
+  // Webhook indexes
+  'idx_webhook_dead_letters_subscription',
+  // Consumer group indexes
+  'idx_decision_event_deliveries_position',
+  'idx_decision_event_deliveries_event_id',
+  // Tenant isolation indexes
+  'idx_decisions_tenant_id',
+  'idx_approvals_tenant_id',
+  'idx_decision_events_tenant_id',
   // Learning events indexes
   'idx_learning_events_agent_id',
   'idx_learning_events_decision_type',
   'idx_learning_events_created_at',
-  'idx_learning_events_inputs_hash_unique',
+  'idx_learning_events_tenant_inputs_hash_unique',
 ] as const;
 
 /**
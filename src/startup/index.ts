@@ -6,6 +6,7 @@
 export {
   assertRequiredEnvVars,
   assertPerformanceBudget,
+  assertEntitlementVerification,
   assertMemoryLayerRole,
   runStartupAssertions,
   type AssertionResult,
@@ -16,3 +17,9 @@ export {
   quickHealthCheck,
   type StorageHealthResult,
 } from './healthCheck';
+
+export {
+  createDatabaseClient,
+  createVectorClient,
+  createEmbedder,
+} from './clients';
@@ -24,7 +24,9 @@ export interface NormalizedEvent {
 // Ingest Endpoint Interfaces
 // ============================================================================
 
-export interface IngestRequest extends NormalizedEvent {}
+export interface IngestRequest extends NormalizedEvent {
+  namespace?: string;               // Registered vector namespace, default 'events'
+}
 
 export interface IngestResponse {
   eventId: string;
@@ -37,28 +39,103 @@ export interface IngestResponse {
   };
 }
 
+/**
+ * Outcome of one event in a POST /ingest/batch request
+ */
+export interface IngestBatchItemResult {
+  index: number;                    // Position in the request (line - 1 for NDJSON)
+  eventId: string | null;           // null when the item has no readable eventId
+  status: 'stored' | 'failed';
+  vectorId?: string;
+  replayed?: boolean;               // Stored by an earlier request with identical content
+  error?: {
+    code: string;                   // validation_error, invalid_json, duplicate_event_id, not_found, invalid_vector_dimension,
+                                    // conflict, in_progress, upstream_*
+    message: string;
+    retryable: boolean;             // Whether resending the same event may succeed
+  };
+}
+
+export interface IngestBatchResponse {
+  stored: number;
+  failed: number;
+  items: IngestBatchItemResult[];
+  metadata: {
+    correlationId: string;
+    processingTime: number;  // Milliseconds
+  };
+}
+
 // ============================================================================
 // Query Endpoint Interfaces
 // ============================================================================
 
 export interface QueryRequest {
+  namespace?: string;               // Registered vector namespace, default 'events'
   queryVector?: number[] | null;  // Optional, for similarity search
-  filters?: {
-    source?: string | string[];
-    type?: string | string[];
-    metadata?: object;              // Key-value filters
-  };
+  filters?: QueryFilters;
   timeRange?: {
     start: string;                  // ISO 8601
     end: string;                    // ISO 8601
   };
+  text?: string;                    // Full-text search over payload strings; matching events only
+  fusion?: QueryFusion;             // How text and queryVector rankings combine (both required)
   limit?: number;                   // Optional, default 100, max 1000
-  offset?: number;                  // Optional, default 0
+  offset?: number;                  // Optional, default 0; not with cursor
+  cursor?: string;                  // pagination.nextCursor of the previous page of this query
+  includeTotal?: boolean;           // Count matching events; default true, false with cursor
+}
+
+export interface QueryFilters {
+  source?: string | string[];
+  type?: string | string[];
+  metadata?: MetadataFilter;
+}
+
+export type MetadataScalar = string | number | boolean | null;
+
+/**
+ * Conditions on the metadata value at one field path; several are combined with AND.
+ * Range bounds compare numbers with numbers and strings with strings (by code point).
+ */
+export interface MetadataFieldOperators {
+  $eq?: MetadataScalar;
+  $in?: MetadataScalar[];
+  $gt?: string | number;
+  $gte?: string | number;
+  $lt?: string | number;
+  $lte?: string | number;
+  $exists?: boolean;
+}
+
+/**
+ * Metadata filter: every entry must hold. Keys are dot-separated field paths mapped to
+ * MetadataFieldOperators or to a value the metadata must contain (jsonb @> semantics), or
+ * the logical operators below.
+ */
+export interface MetadataFilter {
+  $and?: MetadataFilter[];
+  $or?: MetadataFilter[];
+  $not?: MetadataFilter;
+  [path: string]: unknown;
+}
+
+/**
+ * Hybrid search ranking: reciprocal rank fusion sums weight / (k + rank) over the vector and
+ * text rankings; weighted averages the vector similarity and text rank (0-1) by weight
+ */
+export interface QueryFusion {
+  method: 'rrf' | 'weighted';
+  vectorWeight?: number;            // Default 1
+  textWeight?: number;              // Default 1
+  k?: number;                       // RRF rank constant, default 60
 }
 
 export interface QueryResult {
   eventId: string;
   similarity: number | null;        // Present if queryVector provided
+  textScore?: number;               // Text rank (0-1), present if text provided
+  score?: number;                   // Fused ranking score, present if text and queryVector provided
   timestamp: string;
   payload: object;
   metadata: object;
@@ -67,10 +144,11 @@ export interface QueryResult {
 export interface QueryResponse {
   results: QueryResult[];
   pagination: {
-    total: number;
+    total?: number;                 // Matching events, present if counted (includeTotal)
     limit: number;
     offset: number;
     hasMore: boolean;
+    nextCursor: string | null;      // Continues after the last result, null on the last page
   };
   metadata: {
     correlationId: string;
@@ -83,11 +161,14 @@ export interface QueryResponse {
 // ============================================================================
 
 export interface SimulateRequest {
+  namespace?: string;               // Registered vector namespace, default 'events'
   contextVectors: number[][];       // Required, 1 or more context vectors
+  filters?: QueryFilters;           // Optional, as for queries
   nearestNeighbors?: number;        // Optional, default 10, max 100
   similarityThreshold?: number;     // Optional, default 0.0, range [0, 1]
   includeMetadata?: boolean;        // Optional, default true
   includeVectors?: boolean;         // Optional, default false
+  aggregate?: SimilarityAggregate;  // Optional, also return neighbours of the whole context set
 }
 
 export interface SimulateNeighbor {
@@ -104,7 +185,11 @@ export interface SimulateResult {
 }
 
 export interface SimulateResponse {
-  results: SimulateResult[];
+  results: SimulateResult[];        // One per context vector, in request order
+  aggregate?: {                     // Present if aggregate requested
+    mode: SimilarityAggregate;
+    neighbors: SimulateNeighbor[];
+  };
   execution: {
     vectorsProcessed: number;
     executionTime: number;          // Milliseconds
@@ -151,15 +236,38 @@ export interface EntitlementContext {
   limits?: object;                  // Optional, not enforced
 }
 
+/**
+ * Scope-based authorization policy (config.authorization)
+ * Scopes are `<resource>:<action>`; admin covers write and write covers read.
+ */
+export interface AuthorizationPolicy {
+  routes: Record<string, string>;           // '<METHOD> <route path>' -> required scope
+  scopeAliases: Record<string, string[]>;   // Legacy entitlement scopes -> scopes they grant
+  anonymousScopes: string[];                // Granted to requests without x-entitlement-context
+}
+
+export type AuthorizationDenialReason =
+  | 'entitlement_required'          // No entitlement context, and the anonymous scopes fall short
+  | 'missing_scope'                 // The entitlement's scopes do not grant the route's scope
+  | 'route_not_mapped';             // The route has no policy entry (denied by default)
+
+export interface AuthorizationResult {
+  allowed: boolean;
+  requiredScope?: string;
+  reason?: AuthorizationDenialReason;
+}
+
 // ============================================================================
 // VectorClient Operation Interfaces
 // ============================================================================
 
 export interface VectorInsertParams {
+  namespace?: string;               // Defaults to the events namespace
   id: string;
   vector: number[];
   payload: object;
   metadata: object;
+  timestamp?: string;               // Event time (ISO 8601), used by timeRange filters
 }
 
 export interface VectorInsertResult {
@@ -167,51 +275,188 @@ export interface VectorInsertResult {
 }
 
 export interface VectorQueryParams {
+  namespace?: string;               // Defaults to the events namespace
   vector?: number[];                // Optional similarity search
-  filters?: object;                 // Metadata filters
+  filters?: QueryFilters;
   timeRange?: {
     start: string;
     end: string;
   };
+  text?: string;                    // Full-text search over payload strings
+  fusion?: QueryFusion;             // With text and vector; defaults to RRF with equal weights
   limit: number;
   offset: number;
+  metric?: VectorDistanceMetric;    // Defaults to the backend's RUVVECTOR_DISTANCE_METRIC
+  after?: VectorQueryBoundary;      // Only items ranked after this one (keyset paging)
+  storedBefore?: string;            // Only vectors first stored before this time (ISO 8601)
+  countTotal?: boolean;             // Count the matching items, default true
+}
+
+/**
+ * Position of an item in a query's ranking, for keyset paging: the value the backend orders
+ * the query by (distance, score or event time) and the id breaking ties
+ */
+export interface VectorQueryBoundary {
+  key: number | string | null;
+  id: string;
 }
 
 export interface VectorQueryResult {
   items: Array<{
     id: string;
-    score?: number;
+    score?: number;                 // Ranking score: similarity, text rank, or both fused
+    vectorScore?: number;           // Similarity, on text queries with a vector
+    textScore?: number;             // Text rank (0-1), on text queries
     vector?: number[];
     payload: object;
     metadata: object;
+    timestamp?: string;             // Event time (ISO 8601) when known
   }>;
-  total: number;
+  total?: number;                   // All matching items, unless countTotal is false
+  // From backends that page by keyset: the last item's boundary when more items follow, null
+  // on the last page
+  next?: VectorQueryBoundary | null;
   executionTime: number;            // Milliseconds
 }
 
 export interface VectorSimilarityParams {
+  namespace?: string;               // Defaults to the events namespace
   contextVectors: number[][];
+  filters?: QueryFilters;           // Only neighbours matching them
   k: number;                        // Number of nearest neighbors
   threshold: number;                // Similarity threshold [0, 1]
   includeMetadata: boolean;
+  metric?: VectorDistanceMetric;    // Defaults to the backend's RUVVECTOR_DISTANCE_METRIC
+  aggregate?: SimilarityAggregate;  // How neighbors combines the context vectors, default 'max-sim'
+}
+
+/**
+ * Neighbours of a set of context vectors:
+ * - union: every neighbour of any context vector, by its best similarity
+ * - intersection: neighbours of every context vector, by their lowest similarity
+ * - centroid: neighbours of the mean of the context vectors
+ * - max-sim: the k neighbours most similar to any context vector
+ */
+export type SimilarityAggregate = 'union' | 'intersection' | 'centroid' | 'max-sim';
+
+export interface SimilarityNeighbor {
+  id: string;
+  score: number;
+  vector?: number[];
+  payload: object;
+  metadata?: object;
 }
 
 export interface VectorSimilarityResult {
-  neighbors: Array<{
-    id: string;
-    score: number;
-    vector?: number[];
-    payload: object;
-    metadata?: object;
-  }>;
+  neighbors: SimilarityNeighbor[];  // Of the whole context set, per params.aggregate
+  groups: SimilarityNeighbor[][];   // Of each context vector, in order
   processed: number;                // Number of vectors processed
   executionTime: number;            // Milliseconds
 }
 
+export interface UpsertResult {
+  id: string;
+  namespace: string;
+  status: 'upserted' | 'created' | 'updated';
+}
+
+export interface DeleteResult {
+  id: string;
+  namespace: string;
+  deleted: boolean;                 // false when the id did not exist
+}
+
+export interface VectorDeleteParams {
+  namespace?: string;               // Defaults to the events namespace
+  filters?: QueryFilters;           // As for queries
+  timeRange?: {                     // Event time, as for queries
+    start: string;
+    end: string;
+  };
+  storedBefore?: string;            // Only vectors first stored before this time (ISO 8601)
+  dryRun?: boolean;                 // Count the matching vectors without deleting them
+}
+
+export interface VectorDeleteResult {
+  namespace: string;
+  matched: number;                  // Vectors matching the criteria
+  deleted: number;                  // 0 on dry runs
+  dryRun: boolean;
+}
+
+export type VectorDistanceMetric = 'cosine' | 'l2' | 'dot';
+
+export type VectorBackendKind = 'http' | 'postgres' | 'memory';    // RUVVECTOR_BACKEND
+
+export type EmbeddingProviderKind = 'hashing' | 'http';             // EMBEDDING_PROVIDER
+
+export type RateLimitBackendKind = 'memory' | 'postgres';          // RATE_LIMIT_BACKEND
+export type IdempotencyBackendKind = 'memory' | 'postgres';       // IDEMPOTENCY_BACKEND
+export type NamespaceBackendKind = 'memory' | 'postgres';         // NAMESPACE_BACKEND
+
+// ============================================================================
+// Vector Namespace Registry (/v1/namespaces)
+// ============================================================================
+
+/**
+ * A registered vector namespace; vectors written to or searched in it must have its dimension
+ */
+export interface VectorNamespace {
+  name: string;
+  dimension: number;
+  metric: VectorDistanceMetric;     // Used for /query and /simulate in this namespace
+  normalize: boolean;               // Vectors are scaled to unit length on ingest and search
+  description: string | null;
+  ttl_seconds: number | null;       // Vectors are deleted this long after they were stored; null keeps them
+  created_at: string;               // ISO timestamp
+  updated_at: string;               // ISO timestamp
+}
+
+export interface ListVectorNamespacesResponse {
+  data: VectorNamespace[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface DeleteVectorNamespaceResponse {
+  deleted: boolean;
+  name: string;
+}
+
+// ============================================================================
+// Rate Limits and Quotas
+// ============================================================================
+
+/**
+ * Daily usage counters metered per tenant and route
+ */
+export interface QuotaUsage {
+  requests: number;
+  vectors: number;                  // Vectors stored
+  bytes: number;                    // Request bytes ingested
+}
+
+/**
+ * Limits for one tenant on one route; 0 disables a limit
+ */
+export interface RateLimits {
+  burst: number;                    // Token bucket capacity (requests)
+  perSecond: number;                // Token refill rate
+  requestsPerDay: number;
+  vectorsPerDay: number;
+  bytesPerDay: number;
+}
+
 // ============================================================================
 // Prediction Operation Interfaces (Layer 3 Contract)
 // ============================================================================
 
+/**
+ * Prediction input type - can be vector or structured data
+ */
+export type PredictionInput = number[] | Record<string, unknown>;
+
 export interface PredictionParams {
   model: string;                    // Model identifier
   input: number[] | object;         // Vector or structured input
@@ -368,7 +613,8 @@ export interface DecisionRecord {
   confidence: string;                   // Freeform confidence (e.g., "LOW - Insufficient data")
   signals: DecisionSignals;
   embedding_text: string;               // Text for vector embedding
-  embedding?: number[] | null;          // Vector embedding (optional)
+  embedding?: number[] | null;          // Vector embedding (null until embedded)
+  embedding_model?: string | null;      // Embedding model that produced `embedding`
   graph_relations: DecisionGraphRelations;
   created_at: string;                   // ISO timestamp
 }
@@ -399,20 +645,119 @@ export interface ListDecisionsResponse {
   offset: number;
 }
 
+export interface DecisionOutcome {
+  status: 'approved' | 'rejected' | 'deferred' | 'pending';  // From the final non-advisory review, else the latest deferral
+  approvals: Array<Pick<ApprovalRecord, 'id' | 'approved' | 'outcome' | 'defer_until' | 'reward' | 'confidence_adjustment' | 'timestamp'> & {
+    advisory: boolean;
+  }>;
+}
+
+export interface SimilarDecision {
+  decision: DecisionRecord;
+  similarity: number;                   // Vector store score (higher is closer)
+  outcome: DecisionOutcome;
+  learning_weights: Array<Pick<LearningWeight, 'source_type' | 'source_id' | 'target_value' | 'weight' | 'update_count' | 'updated_at'>>;
+}
+
+export interface SimilarDecisionsResponse {
+  query: {
+    decision_id?: string;               // Set for GET /v1/decisions/:id/similar
+    embedding_text?: string;            // Set for GET /v1/decisions/similar
+    embedding_model: string;
+  };
+  k: number;
+  results: SimilarDecision[];
+}
+
+// ============================================================================
+// Decision Graph Interfaces (materialised from DecisionRecord.graph_relations)
+// ============================================================================
+
+export type GraphNodeType = 'decision' | 'objective' | 'repo' | 'signal' | 'recommendation';
+
+// decision -addresses-> objective -involves-> repo -emits-> signal -supports-> recommendation
+// decision -recommends-> recommendation
+export type GraphRelation = 'addresses' | 'involves' | 'emits' | 'supports' | 'recommends';
+
+// decision|objective|signal -learned-> recommendation, read from learning_weights (not stored in graph_edges)
+export type KnowledgeGraphRelation = GraphRelation | 'learned';
+
+export type GraphDirection = 'out' | 'in' | 'both';
+
+export interface GraphNode {
+  id: string;                           // "<type>:<key>", e.g. "repo:agentics-cli"
+  type: GraphNodeType;
+  label: string;
+  depth?: number;                       // Hops from the traversal root
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  relation: GraphRelation;
+  weight: number;                       // Number of decisions asserting this edge
+}
+
+export interface LearnedGraphEdge {
+  source: string;
+  target: string;
+  relation: 'learned';
+  weight: number;                       // learning_weights EMA of approval rewards, [-1, 1]
+  update_count: number;                 // Approvals folded into the weight
+  qualifier?: string;                   // Signal summary the weight was learned for (signal sources only)
+}
+
+export type KnowledgeGraphEdge = GraphEdge | LearnedGraphEdge;
+
+export interface RecommendationStrength {
+  recommendation: string;               // Recommendation node id, e.g. "recommendation:PROCEED"
+  label: string;
+  weight: number;                       // Sum of per-source learned weights
+  support: number;                      // Decisions whose signals -supports-> this recommendation
+  edges: LearnedGraphEdge[];            // Learned edges that contributed to weight
+}
+
+export type GraphRequest =
+  | { operation: 'neighbourhood'; node: string; depth?: number; direction?: GraphDirection; relations?: GraphRelation[]; limit?: number; learned?: boolean }
+  | { operation: 'shortest_path'; from: string; to: string; maxDepth?: number; direction?: GraphDirection }
+  | { operation: 'repos_for_signal'; signal: string; depth?: number; limit?: number }
+  | { operation: 'strongest_recommendation'; objective?: string; signals?: string[]; decision?: string; limit?: number };
+
+export interface GraphResponse {
+  operation: GraphRequest['operation'];
+  nodes: GraphNode[];
+  edges: KnowledgeGraphEdge[];
+  found?: boolean;                      // shortest_path only
+  length?: number | null;               // shortest_path only: hops, null when not found
+  repos?: (GraphNode & { weight: number })[]; // repos_for_signal only
+  recommendations?: RecommendationStrength[]; // strongest_recommendation only
+  truncated: boolean;                   // Node limit reached before the depth limit
+  metadata: {
+    correlationId: string;
+    executionTime: number;              // Milliseconds
+  };
+}
+
 // ============================================================================
 // Decision Approval & Learning Interfaces
 // ============================================================================
 
+export type ReviewOutcome = 'approve' | 'reject' | 'defer';
+
 export interface ApprovalEvent {
   decision_id: string;                  // UUID of the decision
-  approved: boolean;                    // true = positive reward, false = negative
+  approved: boolean;                    // true = positive reward, false = negative (also false for defer)
+  outcome?: ReviewOutcome;              // Tri-state outcome; derived from approved when omitted
+  defer_until?: string;                 // ISO timestamp the plan re-surfaces (defer only)
+  defer_reason?: string;                // Why the plan was deferred (defer only)
   confidence_adjustment?: number;       // Optional adjustment to confidence weight
   timestamp: string;                    // ISO timestamp
 }
 
 export interface ApprovalRecord extends ApprovalEvent {
   id: string;                           // Approval record UUID
-  reward: number;                       // Computed reward: +1.0 or -1.0
+  outcome: ReviewOutcome;
+  reward: number;                       // Computed reward: +1.0, -1.0 or -0.25 (defer)
   created_at: string;                   // ISO timestamp
 }
 
@@ -438,11 +783,35 @@ export interface CreateApprovalRequest {
 export interface CreateApprovalResponse {
   id: string;
   decision_id: string;
+  outcome: ReviewOutcome;
+  defer_until?: string;                 // Present for deferrals
   reward: number;
   weights_updated: number;
   learning_applied: boolean;
 }
 
+export interface RecommendationContribution {
+  source_type: 'objective' | 'signal';
+  source_id: string;                    // learning_weights source_id (see signalSourceId/objectiveSourceId)
+  recommendation: string;               // Recommendation type the edge points at
+  weight: number;                       // Learned EMA weight added to the recommendation's score
+  update_count: number;
+}
+
+export interface RecommendationScore {
+  recommendation: string;               // PROCEED | DEFER | REJECT | REVIEW | HALT
+  score: number;                        // Sum of contributing learned weights
+  probability: number;                  // Softmax of score / temperature over all recommendation types
+  contributions: RecommendationContribution[];
+}
+
+export interface RecommendationScoreResponse {
+  objective: string;
+  temperature: number;
+  evidence: number;                     // Learned edges found for the objective and signals
+  recommendations: RecommendationScore[]; // Highest probability first
+}
+
 // ============================================================================
 // Learning Decision Event Interfaces (PROMPT 0 - Learning Signal Agents)
 // ============================================================================
@@ -588,3 +957,103 @@ export interface DecisionEventsResponse {
   events: DecisionEvent[];
   next_cursor: string | null;
 }
+
+// ============================================================================
+// Decision Event Consumer Group Interfaces (GET /events/decisions?group=)
+// ============================================================================
+
+export interface GroupDecisionEvent extends DecisionEvent {
+  delivery_count: number;               // 1 on first delivery, higher on re-delivery
+}
+
+export interface GroupDecisionEventsResponse extends DecisionEventsResponse {
+  group: string;
+  events: GroupDecisionEvent[];
+  visibility_timeout: number;           // Seconds before un-acked events are re-delivered
+}
+
+export interface DecisionEventGroup {
+  group: string;
+  event_types: DecisionEventType[];
+  committed_cursor: string | null;      // Last event id up to which every event is acked
+  in_flight: number;                    // Delivered, not yet acked
+  lag: number;                          // Events after the committed offset
+  created_at: string;                   // ISO timestamp
+  updated_at: string;                   // ISO timestamp
+}
+
+export interface AckDecisionEventsResponse {
+  group: string;
+  acked: number;                        // Ids acked by this request (unknown or already acked ids are ignored)
+  committed_cursor: string | null;
+}
+
+export interface NackDecisionEventsResponse {
+  group: string;
+  nacked: number;                       // In-flight ids made visible again (after delay_seconds)
+}
+
+export interface DeleteDecisionEventGroupResponse {
+  deleted: boolean;
+  group: string;
+}
+
+// ============================================================================
+// Webhook Subscription Interfaces (push delivery of Decision Events)
+// ============================================================================
+
+export interface WebhookSubscription {
+  id: string;                           // UUID
+  url: string;                          // Receiver endpoint (POSTed one DecisionEvent per request)
+  event_types: DecisionEventType[];
+  description: string | null;
+  active: boolean;                      // Inactive subscriptions keep their cursor and resume on reactivation
+  cursor: string | null;                // Last delivered (or dead-lettered) event id
+  created_at: string;                   // ISO timestamp
+  updated_at: string;                   // ISO timestamp
+}
+
+export interface CreateWebhookSubscriptionResponse extends WebhookSubscription {
+  secret: string;                       // HMAC signing secret - only returned on create
+}
+
+export interface ListWebhookSubscriptionsResponse {
+  data: WebhookSubscription[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface DeleteWebhookSubscriptionResponse {
+  deleted: boolean;
+  id: string;
+}
+
+export type WebhookDeadLetterStatus = 'dead' | 'replaying' | 'replayed';
+
+export interface WebhookDeadLetter {
+  id: string;                           // UUID
+  subscription_id: string;
+  event_id: string;
+  event_type: DecisionEventType;
+  event: DecisionEvent;                 // Body that failed to deliver
+  status: WebhookDeadLetterStatus;
+  attempts: number;                     // Delivery attempts across the original run and replays
+  last_status_code: number | null;      // Receiver HTTP status, null for network errors/timeouts
+  last_error: string;
+  failed_at: string;                    // ISO timestamp
+  replayed_at: string | null;           // ISO timestamp
+}
+
+export interface ListWebhookDeadLettersResponse {
+  data: WebhookDeadLetter[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface ReplayWebhookResponse {
+  subscription_id: string;
+  dead_letters_queued: number;          // Dead letters re-queued for delivery
+  cursor: string | null;                // Subscription cursor after a from_cursor rewind
+}
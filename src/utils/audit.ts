@@ -0,0 +1,30 @@
+import logger from './logger';
+import { vectorsDeletedTotal } from './metrics';
+
+/**
+ * Audit trail for vector deletions
+ *
+ * Entries are info-level log lines tagged `audit: "vector_deletion"` so the log pipeline can
+ * route them to a retained sink. Dry runs are audited too; only real deletes are counted in
+ * ruvvector_vectors_deleted_total.
+ */
+export interface VectorDeletionAudit {
+  reason: 'request' | 'retention';
+  tenant: string;
+  namespace: string;
+  id?: string;                      // Single-vector deletes
+  criteria?: object;                // Filters, timeRange and/or storedBefore of bulk deletes
+  matched: number;
+  deleted: number;
+  dryRun: boolean;
+  correlationId?: string;           // Request deletes
+}
+
+export function auditVectorDeletion(entry: VectorDeletionAudit): void {
+  if (entry.deleted > 0) {
+    vectorsDeletedTotal.inc({ tenant: entry.tenant, reason: entry.reason }, entry.deleted);
+  }
+  logger.info({ audit: 'vector_deletion', ...entry }, entry.dryRun ? 'Vector deletion dry run' : 'Vectors deleted');
+}
+
+export default { auditVectorDeletion };
@@ -1,4 +1,8 @@
-import { EntitlementContext } from '../types';
+import { readFileSync } from 'fs';
+import { KeyObject } from 'crypto';
+import { config } from '../config';
+import { AuthorizationPolicy, AuthorizationResult, EntitlementContext } from '../types';
+import { isCompactJwt, JwtAlgorithm, JwtError, JwtKey, parseJwks, signJwt, verifyJwt } from './jwt';
 import logger from './logger';
 
 /**
@@ -24,15 +28,84 @@ export function decodeEntitlementContext(encodedContext: string): EntitlementCon
   }
 }
 
+/**
+ * Signing options for encodeEntitlementContext (test fixtures and local tooling)
+ */
+export interface EntitlementSigningOptions {
+  kid: string;
+  alg: JwtAlgorithm;
+  key: KeyObject | string;      // HS256 secret, or RS256/EdDSA private key
+  expiresInSeconds?: number;    // exp = iat + this, default 300
+  notBefore?: number;           // nbf (unix seconds)
+  now?: number;                 // iat (unix seconds), default now
+}
+
+// Minimum interval between re-reads of ENTITLEMENT_JWKS_FILE triggered by unknown kids
+const KEY_RELOAD_INTERVAL_MS = 30000;
+
+let keyCache: { keys: Map<string, JwtKey>; loadedAt: number } | null = null;
+
+/**
+ * (Re)load the verification keys from ENTITLEMENT_JWKS and ENTITLEMENT_JWKS_FILE
+ *
+ * @throws Error when a key set cannot be read or parsed
+ */
+export function reloadEntitlementKeys(): Map<string, JwtKey> {
+  const { jwks, jwksFile } = config.entitlement;
+  const keys = new Map<string, JwtKey>();
+  const sources = [
+    ...(jwks ? [jwks] : []),
+    ...(jwksFile ? [readFileSync(jwksFile, 'utf-8')] : []),
+  ];
+  for (const source of sources) {
+    for (const [kid, key] of parseJwks(JSON.parse(source))) {
+      keys.set(kid, key);
+    }
+  }
+
+  keyCache = { keys, loadedAt: Date.now() };
+  return keys;
+}
+
+/**
+ * Verify a signed entitlement context and return its claims
+ * An unknown kid re-reads the key file (rate limited) so rotated-in keys work without a restart.
+ */
+function verifyEntitlementToken(token: string): Record<string, unknown> {
+  const keys = keyCache?.keys ?? reloadEntitlementKeys();
+  try {
+    return verifyJwt(token, keys, config.entitlement.clockSkewSeconds);
+  } catch (error) {
+    const stale = keyCache !== null && Date.now() - keyCache.loadedAt >= KEY_RELOAD_INTERVAL_MS;
+    if (!(error instanceof JwtError) || error.code !== 'unknown_key' || !config.entitlement.jwksFile || !stale) {
+      throw error;
+    }
+    let reloaded: Map<string, JwtKey>;
+    try {
+      reloaded = reloadEntitlementKeys();
+    } catch (reloadError) {
+      logger.error({ error: reloadError }, 'Failed to reload entitlement keys - keeping the previous key set');
+      keyCache = { keys, loadedAt: Date.now() };
+      throw error;
+    }
+    return verifyJwt(token, reloaded, config.entitlement.clockSkewSeconds);
+  }
+}
+
 /**
  * Check entitlement - SPARC compliant stub
  *
+ * Signed contexts (JWT) are verified against the local key set, with exp/nbf checks.
+ * Plain Base64 JSON contexts are accepted only with ENTITLEMENT_ALLOW_UNSIGNED (development),
+ * since anyone can mint them.
+ *
  * Per SPARC specification:
  * - Validates entitlement format only
- * - Actual entitlement enforcement is deferred to gateway/mesh layer
+ * - Actual entitlement enforcement is deferred to gateway/mesh layer; scopes are
+ *   authorized per route by authorizeRoute
  * - No billing logic implemented
- * - No quota enforcement
- * - No rate limiting
+ * - Rate limits and daily quotas are enforced per tenant and route by
+ *   middleware/rateLimit, not here
  * - No tier/plan validation
  *
  * Always returns allowed: true if format is valid
@@ -46,46 +119,134 @@ export function checkEntitlement(entitlementContext: string | undefined): Entitl
     };
   }
 
+  let parsed: EntitlementContext;
   try {
-    // SPARC: parsed = decodeEntitlementContext(entitlementContext)
-    const parsed = decodeEntitlementContext(entitlementContext);
-
-    // SPARC: Validate structure only - no business rules
-    // IF NOT hasRequiredFields(parsed, ['tenant', 'scope'])
-    if (!parsed.tenant || !parsed.scope) {
+    if (isCompactJwt(entitlementContext)) {
+      const claims = verifyEntitlementToken(entitlementContext);
+      parsed = {
+        tenant: typeof claims.tenant === 'string' ? claims.tenant : '',
+        scope: typeof claims.scope === 'string' ? claims.scope : '',
+      };
+    } else if (config.entitlement.allowUnsigned) {
+      // SPARC: parsed = decodeEntitlementContext(entitlementContext)
+      parsed = decodeEntitlementContext(entitlementContext);
+    } else {
       return {
         allowed: false,
-        reason: 'Invalid entitlement structure'
+        reason: 'Unsigned entitlement context'
       };
     }
-
-    // Log for observability (SPARC: logEntitlementCheck)
-    logger.debug(
-      { tenant: parsed.tenant, scope: parsed.scope },
-      'Entitlement check passed'
-    );
-
-    // SPARC: Always allow - real enforcement happens upstream
-    return {
-      allowed: true,
-      tenant: parsed.tenant,
-      scope: parsed.scope
-    };
-
   } catch (error) {
+    if (error instanceof JwtError) {
+      return {
+        allowed: false,
+        reason: `Invalid entitlement token: ${error.message}`
+      };
+    }
     // SPARC: CATCH error → RETURN { allowed: false, reason: 'Entitlement decode error' }
     return {
       allowed: false,
       reason: 'Entitlement decode error'
     };
   }
+
+  // SPARC: Validate structure only - no business rules
+  // IF NOT hasRequiredFields(parsed, ['tenant', 'scope'])
+  if (!parsed.tenant || !parsed.scope) {
+    return {
+      allowed: false,
+      reason: 'Invalid entitlement structure'
+    };
+  }
+
+  // Log for observability (SPARC: logEntitlementCheck)
+  logger.debug(
+    { tenant: parsed.tenant, scope: parsed.scope },
+    'Entitlement check passed'
+  );
+
+  // SPARC: Always allow - real enforcement happens upstream
+  return {
+    allowed: true,
+    tenant: parsed.tenant,
+    scope: parsed.scope
+  };
+}
+
+// Actions that imply others: admin covers write, write covers read
+const ACTION_RANK: Record<string, number> = { read: 0, write: 1, admin: 2 };
+
+/**
+ * Scopes granted by an entitlement scope string (space- or comma-separated), with aliases expanded
+ */
+export function parseScopes(scope: string | undefined, aliases: Record<string, string[]> = {}): string[] {
+  return (scope ?? '')
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .flatMap(token => aliases[token] ?? [token]);
+}
+
+/**
+ * Whether one granted scope covers a required `<resource>:<action>` scope
+ * `*` covers everything and `<resource>:*` every action on the resource.
+ */
+export function scopeGrants(granted: string, required: string): boolean {
+  if (granted === '*' || granted === required) return true;
+
+  const [grantedResource, grantedAction] = granted.split(':');
+  const [requiredResource, requiredAction] = required.split(':');
+  if (grantedResource !== requiredResource || grantedAction === undefined) return false;
+  if (grantedAction === '*') return true;
+
+  const grantedRank = ACTION_RANK[grantedAction];
+  const requiredRank = ACTION_RANK[requiredAction];
+  return grantedRank !== undefined && requiredRank !== undefined && grantedRank >= requiredRank;
+}
+
+/**
+ * Authorize a route ('<METHOD> <route path>') for an entitlement
+ * A null entitlement (no x-entitlement-context) is granted the policy's anonymous scopes;
+ * routes missing from the policy are denied.
+ */
+export function authorizeRoute(
+  entitlement: EntitlementResult | null,
+  route: string,
+  policy: AuthorizationPolicy
+): AuthorizationResult {
+  const requiredScope = policy.routes[route];
+  if (!requiredScope) {
+    return { allowed: false, reason: 'route_not_mapped' };
+  }
+
+  const granted = entitlement
+    ? parseScopes(entitlement.scope, policy.scopeAliases)
+    : parseScopes(policy.anonymousScopes.join(' '), policy.scopeAliases);
+  if (granted.some(scope => scopeGrants(scope, requiredScope))) {
+    return { allowed: true, requiredScope };
+  }
+
+  return { allowed: false, requiredScope, reason: entitlement ? 'missing_scope' : 'entitlement_required' };
 }
 
 /**
  * Encode entitlement context to Base64 (utility for testing)
+ * With signing options the context is issued as a signed token (JWT) instead.
  */
-export function encodeEntitlementContext(context: EntitlementContext): string {
-  return Buffer.from(JSON.stringify(context)).toString('base64');
+export function encodeEntitlementContext(context: EntitlementContext, signing?: EntitlementSigningOptions): string {
+  if (!signing) {
+    return Buffer.from(JSON.stringify(context)).toString('base64');
+  }
+
+  const issuedAt = signing.now ?? Math.floor(Date.now() / 1000);
+  return signJwt(
+    {
+      ...context,
+      iat: issuedAt,
+      exp: issuedAt + (signing.expiresInSeconds ?? 300),
+      ...(signing.notBefore !== undefined ? { nbf: signing.notBefore } : {}),
+    },
+    { kid: signing.kid, alg: signing.alg, key: signing.key }
+  );
 }
 
-export default { checkEntitlement, decodeEntitlementContext, encodeEntitlementContext };
+export default { checkEntitlement, decodeEntitlementContext, encodeEntitlementContext, reloadEntitlementKeys, parseScopes, scopeGrants, authorizeRoute };
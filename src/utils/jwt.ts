@@ -0,0 +1,190 @@
+/**
+ * Compact JWS (JWT) signing and verification
+ *
+ * Supports HS256, RS256 and EdDSA (Ed25519). Verification keys come from a local JWK set
+ * and are selected by the token's `kid` header, so keys rotate by publishing the new key
+ * next to the old one until tokens signed with the old one have expired.
+ */
+import { createHmac, createPublicKey, createSecretKey, JsonWebKey, KeyObject, sign, timingSafeEqual, verify } from 'crypto';
+
+export const JWT_ALGORITHMS = ['HS256', 'RS256', 'EdDSA'] as const;
+
+export type JwtAlgorithm = typeof JWT_ALGORITHMS[number];
+
+/**
+ * Verification key from a JWK set
+ */
+export interface JwtKey {
+  kid: string;
+  alg: JwtAlgorithm;
+  key: KeyObject;         // Secret key (HS256) or public key (RS256, EdDSA)
+}
+
+/**
+ * Signing key: the shared secret (HS256) or private key (RS256, EdDSA) for `kid`
+ */
+export interface JwtSigningKey {
+  kid: string;
+  alg: JwtAlgorithm;
+  key: KeyObject | string; // KeyObject, PEM private key, or HS256 secret
+}
+
+export type JwtErrorCode =
+  | 'malformed'
+  | 'unsupported_algorithm'
+  | 'unknown_key'
+  | 'invalid_signature'
+  | 'missing_expiry'
+  | 'expired'
+  | 'not_yet_valid';
+
+/**
+ * Thrown by verifyJwt; code says which check failed
+ */
+export class JwtError extends Error {
+  constructor(public code: JwtErrorCode, message: string) {
+    super(message);
+    this.name = 'JwtError';
+  }
+}
+
+// Key type each algorithm must be used with - guards against algorithm confusion
+const KEY_TYPES: Record<JwtAlgorithm, string> = { HS256: 'oct', RS256: 'RSA', EdDSA: 'OKP' };
+
+function isJwtAlgorithm(alg: unknown): alg is JwtAlgorithm {
+  return typeof alg === 'string' && (JWT_ALGORITHMS as readonly string[]).includes(alg);
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(segment, 'base64url').toString('utf-8'));
+  } catch {
+    throw new JwtError('malformed', 'Malformed token');
+  }
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new JwtError('malformed', 'Malformed token');
+  }
+  return parsed as Record<string, unknown>;
+}
+
+function signingInput(alg: JwtAlgorithm, key: KeyObject | string, data: string): Buffer {
+  switch (alg) {
+    case 'HS256':
+      return createHmac('sha256', key).update(data).digest();
+    case 'RS256':
+      return sign('sha256', Buffer.from(data), key);
+    case 'EdDSA':
+      return sign(null, Buffer.from(data), key);
+  }
+}
+
+/**
+ * Whether a header value is shaped like a compact JWS (three base64url segments)
+ */
+export function isCompactJwt(value: string): boolean {
+  return /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*$/.test(value);
+}
+
+/**
+ * Parse a JWK set ({ keys: [...] }); every key needs `kid` and an `alg` of HS256, RS256 or EdDSA
+ * Private JWKs are accepted and reduced to their public half.
+ */
+export function parseJwks(jwks: unknown): Map<string, JwtKey> {
+  const entries = (jwks as { keys?: unknown } | null)?.keys;
+  if (!Array.isArray(entries)) {
+    throw new Error('JWK set must be an object with a keys array');
+  }
+
+  const keys = new Map<string, JwtKey>();
+  for (const jwk of entries as Array<JsonWebKey & { kid?: unknown; alg?: unknown }>) {
+    if (typeof jwk.kid !== 'string' || jwk.kid === '') {
+      throw new Error('Every JWK needs a kid');
+    }
+    if (!isJwtAlgorithm(jwk.alg)) {
+      throw new Error(`JWK ${jwk.kid} has unsupported alg ${String(jwk.alg)} (expected ${JWT_ALGORITHMS.join(', ')})`);
+    }
+    if (jwk.kty !== KEY_TYPES[jwk.alg]) {
+      throw new Error(`JWK ${jwk.kid} is kty ${String(jwk.kty)}, ${jwk.alg} needs ${KEY_TYPES[jwk.alg]}`);
+    }
+    if (keys.has(jwk.kid)) {
+      throw new Error(`Duplicate JWK kid ${jwk.kid}`);
+    }
+
+    const key = jwk.kty === 'oct'
+      ? createSecretKey(Buffer.from(String(jwk.k ?? ''), 'base64url'))
+      : createPublicKey({ key: jwk, format: 'jwk' });
+    keys.set(jwk.kid, { kid: jwk.kid, alg: jwk.alg, key });
+  }
+  return keys;
+}
+
+/**
+ * Sign `payload` as a compact JWS with a `kid` header
+ */
+export function signJwt(payload: object, signingKey: JwtSigningKey): string {
+  const data = `${encodeSegment({ alg: signingKey.alg, typ: 'JWT', kid: signingKey.kid })}.${encodeSegment(payload)}`;
+  return `${data}.${signingInput(signingKey.alg, signingKey.key, data).toString('base64url')}`;
+}
+
+/**
+ * Verify a compact JWS against `keys` and return its claims
+ * `exp` is required; `exp` and `nbf` are checked with `clockSkewSeconds` of tolerance.
+ *
+ * @throws JwtError when any check fails
+ */
+export function verifyJwt(
+  token: string,
+  keys: Map<string, JwtKey>,
+  clockSkewSeconds = 60,
+  now: number = Math.floor(Date.now() / 1000)
+): Record<string, unknown> {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    throw new JwtError('malformed', 'Malformed token');
+  }
+  const [headerSegment, payloadSegment, signatureSegment] = segments;
+
+  const header = decodeSegment(headerSegment);
+  if (!isJwtAlgorithm(header.alg)) {
+    throw new JwtError('unsupported_algorithm', `Unsupported token algorithm ${String(header.alg)}`);
+  }
+  const key = typeof header.kid === 'string' ? keys.get(header.kid) : undefined;
+  if (!key) {
+    throw new JwtError('unknown_key', `Unknown token key ${String(header.kid)}`);
+  }
+  if (key.alg !== header.alg) {
+    throw new JwtError('unsupported_algorithm', `Key ${key.kid} does not sign ${header.alg}`);
+  }
+
+  const data = Buffer.from(`${headerSegment}.${payloadSegment}`);
+  const signature = Buffer.from(signatureSegment, 'base64url');
+  let valid: boolean;
+  if (key.alg === 'HS256') {
+    const expected = createHmac('sha256', key.key).update(data).digest();
+    valid = signature.length === expected.length && timingSafeEqual(signature, expected);
+  } else {
+    valid = verify(key.alg === 'RS256' ? 'sha256' : null, data, key.key, signature);
+  }
+  if (!valid) {
+    throw new JwtError('invalid_signature', 'Invalid token signature');
+  }
+
+  const claims = decodeSegment(payloadSegment);
+  if (typeof claims.exp !== 'number') {
+    throw new JwtError('missing_expiry', 'Token has no exp claim');
+  }
+  if (now > claims.exp + clockSkewSeconds) {
+    throw new JwtError('expired', 'Token expired');
+  }
+  if (typeof claims.nbf === 'number' && now + clockSkewSeconds < claims.nbf) {
+    throw new JwtError('not_yet_valid', 'Token not yet valid');
+  }
+  return claims;
+}
+
+export default { isCompactJwt, parseJwks, signJwt, verifyJwt, JWT_ALGORITHMS };
@@ -1,4 +1,5 @@
 import { Registry, Counter, Histogram, Gauge } from 'prom-client';
+import logger from './logger';
 
 /**
  * Prometheus metrics registry - SPARC compliant
@@ -84,6 +85,91 @@ export const errorTotal = new Counter({
   registers: [register],
 });
 
+/**
+ * Requests refused with 429 by tenant, route and the limit that was hit
+ * limit is `rate` (token bucket) or the daily quota: `requests`, `vectors`, `bytes`
+ */
+export const rateLimitedRequestsTotal = new Counter({
+  name: 'ruvvector_rate_limited_requests_total',
+  help: 'Requests refused by per-tenant rate limits and quotas',
+  labelNames: ['tenant', 'route', 'limit'],
+  registers: [register],
+});
+
+/**
+ * Vectors deleted by tenant and reason: `request` (DELETE /vectors/:id, POST /vectors/delete)
+ * or `retention` (namespace TTL sweeps); dry runs are not counted
+ */
+export const vectorsDeletedTotal = new Counter({
+  name: 'ruvvector_vectors_deleted_total',
+  help: 'Vectors deleted by tenant and reason',
+  labelNames: ['tenant', 'reason'],
+  registers: [register],
+});
+
+/**
+ * Per-group lag source, read at scrape time so a stalled consumer still reports growing lag
+ */
+type DecisionEventGroupLagSource = () => Promise<Array<{ tenant: string; group: string; lag: number }>>;
+
+let decisionEventGroupLagSource: DecisionEventGroupLagSource | null = null;
+
+export function setDecisionEventGroupLagSource(source: DecisionEventGroupLagSource | null): void {
+  decisionEventGroupLagSource = source;
+}
+
+/**
+ * Decision events after each consumer group's committed offset
+ */
+export const decisionEventGroupLag = new Gauge({
+  name: 'ruvvector_decision_event_group_lag',
+  help: 'Decision events after each consumer group committed offset',
+  labelNames: ['tenant', 'group'],
+  registers: [register],
+  async collect() {
+    if (!decisionEventGroupLagSource) return;
+    try {
+      const lags = await decisionEventGroupLagSource();
+      // Reset so deleted groups drop out
+      this.reset();
+      for (const { tenant, group, lag } of lags) {
+        this.set({ tenant, group }, lag);
+      }
+    } catch (error) {
+      logger.warn({ error }, 'Failed to collect decision event group lag');
+    }
+  },
+});
+
+/**
+ * Holdback age source, read at scrape time like the group lag
+ */
+type DecisionEventHoldbackSource = () => Promise<number>;
+
+let decisionEventHoldbackSource: DecisionEventHoldbackSource | null = null;
+
+export function setDecisionEventHoldbackSource(source: DecisionEventHoldbackSource | null): void {
+  decisionEventHoldbackSource = source;
+}
+
+/**
+ * Age of the oldest committed decision event not yet served because a transaction that
+ * started before it (anywhere in the database) is still open; 0 when nothing is held back
+ */
+export const decisionEventHoldbackAge = new Gauge({
+  name: 'ruvvector_decision_events_holdback_age_seconds',
+  help: 'Age of the oldest committed decision event held back behind an older open transaction',
+  registers: [register],
+  async collect() {
+    if (!decisionEventHoldbackSource) return;
+    try {
+      this.set(await decisionEventHoldbackSource());
+    } catch (error) {
+      logger.warn({ error }, 'Failed to collect decision event holdback age');
+    }
+  },
+});
+
 export default {
   register,
   ruvvectorRequestsTotal,
@@ -92,4 +178,10 @@ export default {
   ruvvectorCircuitBreakerState,
   ruvvectorActiveConnections,
   errorTotal,
+  rateLimitedRequestsTotal,
+  vectorsDeletedTotal,
+  decisionEventGroupLag,
+  setDecisionEventGroupLagSource,
+  decisionEventHoldbackAge,
+  setDecisionEventHoldbackSource,
 };
@@ -0,0 +1,65 @@
+/**
+ * POST /query continuation tokens
+ *
+ * A token is `<payload>.<signature>`: the base64url JSON cursor and the base64url
+ * HMAC-SHA256 of it. It is opaque to clients; the signature stops them editing the
+ * boundary, snapshot time or query it is bound to.
+ */
+import { createHmac, timingSafeEqual } from 'crypto';
+import { VectorQueryBoundary } from '../types';
+
+/**
+ * Where the next page of a query starts
+ */
+export interface QueryCursor {
+  query: string;                  // contentHash of the query the token continues
+  asOf: string;                   // Snapshot time: only vectors stored before it are paged
+  after?: VectorQueryBoundary;    // Last item of the previous page (keyset paging)
+  offset?: number;                // Items to skip, when the backend has no keyset paging
+}
+
+function sign(payload: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(payload).digest();
+}
+
+/**
+ * Sign a cursor into a continuation token
+ */
+export function encodeQueryCursor(cursor: QueryCursor, secret: string): string {
+  const payload = Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  return `${payload}.${sign(payload, secret).toString('base64url')}`;
+}
+
+/**
+ * The cursor of a continuation token, or null if it is malformed or was not signed with `secret`
+ */
+export function decodeQueryCursor(token: string, secret: string): QueryCursor | null {
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = sign(payload, secret);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const cursor = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    return isQueryCursor(cursor) ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+function isQueryCursor(value: unknown): value is QueryCursor {
+  if (typeof value !== 'object' || value === null) return false;
+  const { query, asOf, after, offset } = value as Record<string, unknown>;
+  return typeof query === 'string'
+    && typeof asOf === 'string' && !Number.isNaN(Date.parse(asOf))
+    && (after === undefined || isBoundary(after))
+    && (offset === undefined || (Number.isInteger(offset) && (offset as number) >= 0));
+}
+
+function isBoundary(value: unknown): value is VectorQueryBoundary {
+  if (typeof value !== 'object' || value === null) return false;
+  const { key, id } = value as Record<string, unknown>;
+  return typeof id === 'string' && (key === null || typeof key === 'number' || typeof key === 'string');
+}
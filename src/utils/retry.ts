@@ -162,6 +162,13 @@ export async function withRetry<T>(
           },
           isLastAttempt ? 'Operation failed after max retries' : 'Operation failed with non-retryable error'
         );
+
+        return {
+          success: false,
+          error: lastError,
+          attempts: attempt,
+          totalTimeMs: Date.now() - startTime,
+        };
       }
     }
   }
@@ -0,0 +1,54 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Tenant context
+ *
+ * Requests to tenant-scoped routes run inside runWithTenant (middleware/validation
+ * scopeToTenant). DatabaseClient scopes every query made in that context to the tenant via
+ * Postgres row-level security, and VectorClient maps namespaces to the tenant's own.
+ * Code running outside any tenant context (startup, background jobs) is system scope and
+ * sees every tenant's rows.
+ */
+
+/**
+ * Tenant for callers that send no entitlement context, and owner of pre-tenancy rows
+ */
+export const DEFAULT_TENANT = 'system';
+
+/**
+ * Postgres setting the row-level security policies compare tenant_id against
+ */
+export const TENANT_SETTING = 'app.tenant_id';
+
+// Tenant ids become vector namespace prefixes, so keep them to a safe character set
+const TENANT_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,127}$/;
+
+const tenantStorage = new AsyncLocalStorage<string>();
+
+export function isValidTenantId(tenantId: string): boolean {
+  return TENANT_ID_PATTERN.test(tenantId);
+}
+
+/**
+ * Run fn (and everything it awaits) as `tenantId`
+ */
+export function runWithTenant<T>(tenantId: string, fn: () => T): T {
+  return tenantStorage.run(tenantId, fn);
+}
+
+/**
+ * Tenant of the current request, or null in system scope
+ */
+export function currentTenant(): string | null {
+  return tenantStorage.getStore() ?? null;
+}
+
+/**
+ * Physical vector namespace for a logical one: `<tenant>/<namespace>` for tenants other
+ * than the default, so existing system namespaces keep their names
+ */
+export function tenantNamespace(namespace: string, tenantId: string | null = currentTenant()): string {
+  return tenantId === null || tenantId === DEFAULT_TENANT ? namespace : `${tenantId}/${namespace}`;
+}
+
+export default { DEFAULT_TENANT, TENANT_SETTING, isValidTenantId, runWithTenant, currentTenant, tenantNamespace };
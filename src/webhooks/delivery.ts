@@ -0,0 +1,181 @@
+/**
+ * Webhook delivery
+ *
+ * POSTs one DecisionEvent per request, signed with the subscription secret, retrying
+ * transient failures (network errors, timeouts, 408/429/5xx) with exponential backoff
+ * via utils/retry. Other 4xx responses fail immediately, as do receivers on private
+ * addresses (destination.ts).
+ */
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import { LookupFunction } from 'net';
+import { DecisionEvent } from '../types';
+import { withRetry } from '../utils/retry';
+import { checkWebhookUrl, isAllowedPrivateHost, isPrivateAddress } from './destination';
+import { SIGNATURE_HEADER, signWebhookPayload } from './signature';
+
+export interface WebhookTarget {
+  id: string;             // Subscription id
+  url: string;
+  secret: string;
+}
+
+export interface WebhookDeliveryOptions {
+  timeoutMs: number;
+  maxAttempts: number;
+  retryBaseMs: number;
+  retryMaxMs: number;
+  allowedPrivateHosts?: string[];   // Private receivers allowed by host name, address or CIDR range
+}
+
+export interface WebhookDeliveryResult {
+  delivered: boolean;
+  attempts: number;
+  statusCode: number | null;  // Last receiver status, null for network errors/timeouts
+  error?: string;
+}
+
+// withRetry matches retryableErrors against the error name
+const RETRYABLE_DELIVERY_ERROR = 'RetryableWebhookDeliveryError';
+
+/**
+ * A failed delivery attempt
+ */
+export class WebhookDeliveryError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number | null,
+    public readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = retryable ? RETRYABLE_DELIVERY_ERROR : 'WebhookDeliveryError';
+  }
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * DNS lookup for delivery connections that fails on private addresses, so the address
+ * checked is the one connected to
+ */
+function publicLookup(allowed: string[]): LookupFunction {
+  return (hostname, options, callback) => {
+    dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, '');
+        return;
+      }
+      const blocked = addresses.find(({ address }) =>
+        isPrivateAddress(address) && !isAllowedPrivateHost(allowed, hostname, address)
+      );
+      if (blocked) {
+        callback(new WebhookDeliveryError(`Webhook host ${hostname} resolves to private address ${blocked.address}`, null, false), '');
+        return;
+      }
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+}
+
+/**
+ * Single signed POST; resolves with the 2xx status or throws WebhookDeliveryError
+ */
+function postWebhook(target: WebhookTarget, event: DecisionEvent, options: WebhookDeliveryOptions): Promise<number> {
+  const body = JSON.stringify(event);
+  const url = new URL(target.url);
+  const allowed = options.allowedPrivateHosts ?? [];
+
+  // IP literals and localhost names are connected to without a (checked) lookup
+  const problem = checkWebhookUrl(target.url, allowed);
+  if (problem) {
+    return Promise.reject(new WebhookDeliveryError(`Webhook ${problem}`, null, false));
+  }
+
+  const transport = url.protocol === 'https:' ? https : http;
+  return new Promise<number>((resolve, reject) => {
+    const req = transport.request(
+      url,
+      {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'content-length': Buffer.byteLength(body),
+          'user-agent': 'ruvvector-service-webhooks',
+          'x-webhook-id': event.id,
+          'x-webhook-event': event.type,
+          'x-webhook-subscription': target.id,
+          [SIGNATURE_HEADER]: signWebhookPayload(target.secret, body, Math.floor(Date.now() / 1000)),
+        },
+        timeout: options.timeoutMs,
+        lookup: publicLookup(allowed),
+      },
+      (res) => {
+        // Drain the body so the socket can be reused
+        res.resume();
+        res.on('error', reject);
+        res.on('end', () => {
+          const status = res.statusCode ?? 0;
+          if (status < 200 || status >= 300) {
+            reject(new WebhookDeliveryError(
+              `Webhook receiver responded with status ${status}`,
+              status,
+              isRetryableStatus(status)
+            ));
+            return;
+          }
+          resolve(status);
+        });
+      }
+    );
+
+    req.on('timeout', () => {
+      req.destroy(new WebhookDeliveryError(`Webhook request timeout after ${options.timeoutMs}ms`, null, true));
+    });
+    req.on('error', (error) => {
+      reject(error instanceof WebhookDeliveryError
+        ? error
+        : new WebhookDeliveryError(`Webhook request error: ${error.message}`, null, true));
+    });
+    req.end(body);
+  });
+}
+
+/**
+ * Deliver an event, retrying transient failures; never throws
+ */
+export async function deliverWebhook(
+  target: WebhookTarget,
+  event: DecisionEvent,
+  options: WebhookDeliveryOptions
+): Promise<WebhookDeliveryResult> {
+  const result = await withRetry(
+    () => postWebhook(target, event, options),
+    {
+      maxAttempts: options.maxAttempts,
+      baseDelayMs: options.retryBaseMs,
+      maxDelayMs: options.retryMaxMs,
+      backoffMultiplier: 2,
+      retryableErrors: [RETRYABLE_DELIVERY_ERROR],
+    },
+    { operation: 'webhook_delivery', subscriptionId: target.id, eventId: event.id }
+  );
+
+  if (result.success) {
+    return { delivered: true, attempts: result.attempts, statusCode: result.result ?? null };
+  }
+
+  const error = result.error;
+  return {
+    delivered: false,
+    attempts: result.attempts,
+    statusCode: error instanceof WebhookDeliveryError ? error.statusCode : null,
+    error: error?.message ?? 'Webhook delivery failed',
+  };
+}
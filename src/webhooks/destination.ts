@@ -0,0 +1,89 @@
+/**
+ * Webhook destination checks
+ *
+ * Receivers must be on the public internet: otherwise any tenant could make the worker POST
+ * signed events to loopback, link-local (cloud metadata) or private-network services. Hosts
+ * are checked when a subscription is created or updated, and every address a host resolves
+ * to is checked again as delivery connects (see delivery.ts), so a name cannot be pointed
+ * at a private address later. WEBHOOK_ALLOWED_PRIVATE_HOSTS lets internal receivers through.
+ */
+import { BlockList, isIP } from 'net';
+
+// Loopback, private, link-local, shared (CGNAT), benchmarking, multicast and reserved ranges.
+// Kept in two lists: a BlockList checks IPv4 addresses against IPv6 rules as IPv4-mapped
+// addresses, and IPv6 addresses that map an IPv4 address against the IPv4 rules.
+const PRIVATE_IPV4 = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_IPV4.addSubnet(network, prefix, 'ipv4');
+}
+const PRIVATE_IPV6 = new BlockList();
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  // ::/127 is the unspecified and loopback addresses; NAT64 addresses reach IPv4 hosts
+  PRIVATE_IPV6.addSubnet(network, prefix, 'ipv6');
+}
+
+function family(address: string): 'ipv4' | 'ipv6' | null {
+  const version = isIP(address);
+  return version === 4 ? 'ipv4' : version === 6 ? 'ipv6' : null;
+}
+
+/**
+ * URL host name without IPv6 brackets, lower-cased
+ */
+function bareHost(hostname: string): string {
+  return hostname.replace(/^\[|\]$/g, '').toLowerCase();
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not publicly routable
+ */
+export function isPrivateAddress(address: string): boolean {
+  const addressFamily = family(address);
+  if (addressFamily === 'ipv4') return PRIVATE_IPV4.check(address, 'ipv4');
+  return addressFamily === 'ipv6' && (PRIVATE_IPV4.check(address, 'ipv6') || PRIVATE_IPV6.check(address, 'ipv6'));
+}
+
+/**
+ * Whether a URL host is private on its face: a private IP address or a localhost name
+ * Other names are only known to be public once resolved, at delivery.
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = bareHost(hostname);
+  return host === 'localhost' || host.endsWith('.localhost') || isPrivateAddress(host);
+}
+
+/**
+ * Whether an allow-list entry (host name, IP address or CIDR range) admits a host, or the
+ * address it resolved to
+ */
+export function isAllowedPrivateHost(allowed: string[], hostname: string, address: string = bareHost(hostname)): boolean {
+  const host = bareHost(hostname);
+  return allowed.some((entry) => {
+    const [network, prefix] = entry.trim().toLowerCase().split('/');
+    if (prefix === undefined) {
+      return network === host || network === address;
+    }
+
+    const networkFamily = family(network);
+    if (!networkFamily || networkFamily !== family(address)) return false;
+    const range = new BlockList();
+    range.addSubnet(network, Number(prefix), networkFamily);
+    return range.check(address, networkFamily);
+  });
+}
+
+/**
+ * Why a receiver URL may not be subscribed, or null
+ */
+export function checkWebhookUrl(url: string, allowed: string[]): string | null {
+  const { hostname } = new URL(url);
+  if (isPrivateHost(hostname) && !isAllowedPrivateHost(allowed, hostname)) {
+    return `url host ${bareHost(hostname)} is a loopback, link-local or private address`;
+  }
+  return null;
+}
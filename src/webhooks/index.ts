@@ -0,0 +1,32 @@
+/**
+ * Webhooks - signed push delivery of decision events to /v1/subscriptions receivers
+ */
+export {
+  SIGNATURE_HEADER,
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from './signature';
+
+export {
+  checkWebhookUrl,
+  isAllowedPrivateHost,
+  isPrivateAddress,
+  isPrivateHost,
+} from './destination';
+
+export {
+  deliverWebhook,
+  WebhookDeliveryError,
+  type WebhookTarget,
+  type WebhookDeliveryOptions,
+  type WebhookDeliveryResult,
+} from './delivery';
+
+export {
+  runWebhookDeliveryPass,
+  startWebhookWorker,
+  webhookWorkerOptions,
+  type WebhookWorkerOptions,
+  type WebhookPassResult,
+} from './worker';
@@ -0,0 +1,50 @@
+/**
+ * Webhook request signing
+ *
+ * Each delivery carries `x-webhook-signature: t=<unix seconds>,v1=<hex>` where v1 is
+ * HMAC-SHA256(secret, `${t}.${body}`). Receivers recompute it over the raw body and
+ * reject stale timestamps to prevent replays.
+ */
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'x-webhook-signature';
+
+/**
+ * Generate a signing secret for a new subscription
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Build the signature header value for a body sent at `timestamp` (unix seconds)
+ */
+export function signWebhookPayload(secret: string, body: string, timestamp: number): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Check a signature header against the raw body, allowing `toleranceSeconds` of clock skew
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  toleranceSeconds = 300,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean {
+  const parts = new Map(header.split(',').map(part => {
+    const index = part.indexOf('=');
+    return [part.slice(0, index).trim(), part.slice(index + 1).trim()] as [string, string];
+  }));
+  const timestamp = Number(parts.get('t'));
+  const signature = parts.get('v1');
+  if (!Number.isInteger(timestamp) || !signature || Math.abs(now - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp).split('v1=')[1], 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
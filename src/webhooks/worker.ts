@@ -0,0 +1,245 @@
+/**
+ * Webhook delivery worker
+ *
+ * Each pass leases the active subscriptions no other instance is working on, delivers
+ * dead letters queued for replay, then walks the decision_events outbox from each
+ * subscription's cursor (fetchDecisionEvents, filtered by its event types). The cursor
+ * advances after every event - delivered or dead-lettered - so a crash re-delivers at
+ * most the event in flight; receivers dedupe on x-webhook-id.
+ */
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseClient, DECISION_EVENTS_CHANNEL } from '../clients/DatabaseClient';
+import { config } from '../config';
+import { fetchDecisionEvents } from '../handlers/decisionEvents';
+import { DecisionEvent, DecisionEventType } from '../types';
+import logger from '../utils/logger';
+import { runWithTenant } from '../utils/tenant';
+import { deliverWebhook, WebhookDeliveryOptions, WebhookDeliveryResult, WebhookTarget } from './delivery';
+
+export interface WebhookWorkerOptions extends WebhookDeliveryOptions {
+  batchSize: number;      // Events (and replays) fetched per page
+}
+
+export interface WebhookPassResult {
+  subscriptions: number;  // Subscriptions leased this pass
+  delivered: number;
+  deadLettered: number;
+  replayed: number;       // Dead letters delivered on replay
+}
+
+interface LeasedSubscription extends WebhookTarget {
+  event_types: DecisionEventType[];
+  cursor: string | null;
+  tenant_id: string;
+}
+
+/**
+ * Worker options from config.webhooks
+ */
+export function webhookWorkerOptions(): WebhookWorkerOptions {
+  const { timeoutMs, maxAttempts, retryBaseMs, retryMaxMs, batchSize, allowedPrivateHosts } = config.webhooks;
+  return { timeoutMs, maxAttempts, retryBaseMs, retryMaxMs, batchSize, allowedPrivateHosts };
+}
+
+/**
+ * Long enough to cover one event's full retry schedule; renewed as the cursor advances
+ */
+function leaseMs(options: WebhookWorkerOptions): number {
+  return options.maxAttempts * (options.timeoutMs + options.retryMaxMs) + 60000;
+}
+
+async function leaseSubscriptions(dbClient: DatabaseClient, options: WebhookWorkerOptions): Promise<LeasedSubscription[]> {
+  const result = await dbClient.query<LeasedSubscription>(
+    `UPDATE webhook_subscriptions
+     SET leased_until = NOW() + $1::double precision * INTERVAL '1 millisecond'
+     WHERE active AND (leased_until IS NULL OR leased_until < NOW())
+     RETURNING id, url, secret, event_types, cursor, tenant_id`,
+    [leaseMs(options)]
+  );
+  return result.rows;
+}
+
+async function releaseSubscription(dbClient: DatabaseClient, subscriptionId: string): Promise<void> {
+  await dbClient.query('UPDATE webhook_subscriptions SET leased_until = NULL WHERE id = $1', [subscriptionId]);
+}
+
+/**
+ * Move the cursor past `event`, dead-lettering it in the same statement when delivery failed
+ * Returns false if the cursor was changed elsewhere (e.g. a replay rewind) - stop and re-read it
+ */
+async function advanceCursor(
+  dbClient: DatabaseClient,
+  subscription: LeasedSubscription,
+  event: DecisionEvent,
+  delivery: WebhookDeliveryResult,
+  options: WebhookWorkerOptions
+): Promise<boolean> {
+  const params: unknown[] = [subscription.id, event.id, subscription.cursor, leaseMs(options)];
+  const advance = `UPDATE webhook_subscriptions
+     SET cursor = $2, leased_until = NOW() + $4::double precision * INTERVAL '1 millisecond'
+     WHERE id = $1 AND cursor IS NOT DISTINCT FROM $3
+     RETURNING id`;
+
+  let sql = advance;
+  if (!delivery.delivered) {
+    params.push(uuidv4(), event.type, JSON.stringify(event), delivery.attempts, delivery.statusCode, delivery.error);
+    sql = `WITH advanced AS (${advance})
+     INSERT INTO webhook_dead_letters (id, subscription_id, event_id, event_type, event, attempts, last_status_code, last_error)
+     SELECT $5, id, $2, $6, $7, $8, $9, $10 FROM advanced
+     RETURNING id`;
+  }
+
+  const result = await dbClient.query(sql, params);
+  if (result.rows.length === 0) {
+    return false;
+  }
+  subscription.cursor = event.id;
+  return true;
+}
+
+/**
+ * Re-deliver dead letters queued by POST /v1/subscriptions/:id/replay
+ */
+async function replayDeadLetters(
+  dbClient: DatabaseClient,
+  subscription: LeasedSubscription,
+  options: WebhookWorkerOptions
+): Promise<number> {
+  const queued = await dbClient.query<{ id: string; event: DecisionEvent }>(
+    `SELECT id, event FROM webhook_dead_letters
+     WHERE subscription_id = $1 AND status = 'replaying'
+     ORDER BY failed_at ASC, id ASC
+     LIMIT $2`,
+    [subscription.id, options.batchSize]
+  );
+
+  let replayed = 0;
+  for (const deadLetter of queued.rows) {
+    const delivery = await deliverWebhook(subscription, deadLetter.event, options);
+    if (delivery.delivered) {
+      replayed++;
+      await dbClient.query(
+        `UPDATE webhook_dead_letters SET status = 'replayed', replayed_at = NOW(), attempts = attempts + $2 WHERE id = $1`,
+        [deadLetter.id, delivery.attempts]
+      );
+    } else {
+      await dbClient.query(
+        `UPDATE webhook_dead_letters
+         SET status = 'dead', attempts = attempts + $2, last_status_code = $3, last_error = $4, failed_at = NOW()
+         WHERE id = $1`,
+        [deadLetter.id, delivery.attempts, delivery.statusCode, delivery.error]
+      );
+    }
+  }
+  return replayed;
+}
+
+async function deliverSubscription(
+  dbClient: DatabaseClient,
+  subscription: LeasedSubscription,
+  options: WebhookWorkerOptions,
+  result: WebhookPassResult
+): Promise<void> {
+  result.replayed += await replayDeadLetters(dbClient, subscription, options);
+
+  for (;;) {
+    const page = await fetchDecisionEvents(dbClient, {
+      eventTypes: subscription.event_types,
+      cursor: subscription.cursor,
+      limit: options.batchSize,
+    });
+    if (page.events.length === 0) return;
+
+    for (const event of page.events) {
+      const delivery = await deliverWebhook(subscription, event, options);
+      if (!await advanceCursor(dbClient, subscription, event, delivery, options)) {
+        logger.info({ subscriptionId: subscription.id }, 'Webhook subscription cursor moved during delivery - re-reading next pass');
+        return;
+      }
+
+      if (delivery.delivered) {
+        result.delivered++;
+      } else {
+        result.deadLettered++;
+        logger.warn(
+          { subscriptionId: subscription.id, eventId: event.id, attempts: delivery.attempts, error: delivery.error },
+          'Webhook delivery dead-lettered'
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Run one delivery pass over every subscription this instance can lease
+ * Subscriptions are delivered concurrently, each in cursor order and scoped to its
+ * tenant so it only sees that tenant's events
+ */
+export async function runWebhookDeliveryPass(
+  dbClient: DatabaseClient,
+  options: WebhookWorkerOptions = webhookWorkerOptions()
+): Promise<WebhookPassResult> {
+  const subscriptions = await leaseSubscriptions(dbClient, options);
+  const result: WebhookPassResult = { subscriptions: subscriptions.length, delivered: 0, deadLettered: 0, replayed: 0 };
+
+  await Promise.all(subscriptions.map(async (subscription) => {
+    try {
+      await runWithTenant(subscription.tenant_id, () => deliverSubscription(dbClient, subscription, options, result));
+    } catch (error) {
+      logger.error({ subscriptionId: subscription.id, error }, 'Webhook delivery pass failed for subscription');
+    } finally {
+      await releaseSubscription(dbClient, subscription.id).catch((error) => {
+        logger.warn({ subscriptionId: subscription.id, error }, 'Failed to release webhook subscription lease');
+      });
+    }
+  }));
+
+  return result;
+}
+
+/**
+ * Run delivery passes every `pollIntervalMs` and whenever a decision event is NOTIFYed
+ * Returns a stop function; 0 disables the worker
+ */
+export function startWebhookWorker(
+  dbClient: DatabaseClient,
+  pollIntervalMs: number,
+  options: WebhookWorkerOptions = webhookWorkerOptions()
+): () => Promise<void> {
+  if (pollIntervalMs <= 0) {
+    return async () => undefined;
+  }
+
+  let running = false;
+  let rerun = false;
+  const trigger = (): void => {
+    if (running) {
+      rerun = true;
+      return;
+    }
+    running = true;
+    runWebhookDeliveryPass(dbClient, options)
+      .catch((error) => logger.warn({ error }, 'Webhook delivery pass failed'))
+      .finally(() => {
+        running = false;
+        if (rerun) {
+          rerun = false;
+          trigger();
+        }
+      });
+  };
+
+  const timer = setInterval(trigger, pollIntervalMs);
+  timer.unref();
+
+  // Interval polling still covers delivery if LISTEN is unavailable
+  const unsubscribe = dbClient.subscribe(DECISION_EVENTS_CHANNEL, trigger).catch((error) => {
+    logger.warn({ error }, 'Webhook worker could not LISTEN for decision events - polling only');
+    return async () => undefined;
+  });
+
+  return async () => {
+    clearInterval(timer);
+    await (await unsubscribe)();
+  };
+}
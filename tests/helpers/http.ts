@@ -0,0 +1,49 @@
+import { Request, Response } from 'express';
+
+/**
+ * Express stand-ins for calling handlers and middleware directly
+ */
+
+/**
+ * Response that records what a handler sent
+ * body is whatever was passed to json(); narrow it with the route's response type.
+ */
+export interface MockResponse {
+  statusCode: number;
+  body: unknown;
+  headers: Record<string, string>;
+  setHeader: jest.Mock<void, [string, string]>;
+  status(code: number): MockResponse;
+  json(body: unknown): MockResponse;
+}
+
+export function createMockResponse(): MockResponse {
+  const res: MockResponse = {
+    statusCode: 200,
+    body: undefined,
+    headers: {},
+    setHeader: jest.fn((name: string, value: string) => {
+      res.headers[name] = value;
+    }),
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+  };
+  return res;
+}
+
+/**
+ * Request with the given fields (headers default to none)
+ */
+export function mockRequest(fields: Record<string, unknown> = {}): Request {
+  return { headers: {}, ...fields } as unknown as Request;
+}
+
+export function asResponse(res: MockResponse): Response {
+  return res as unknown as Response;
+}
@@ -0,0 +1,39 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+export type WebhookReceiver = Awaited<ReturnType<typeof startReceiver>>;
+
+/**
+ * Local webhook receiver answering with queued statuses (200 once the queue is empty)
+ * It listens on loopback, which webhook delivery only admits when 127.0.0.1 is allow-listed.
+ */
+export async function startReceiver() {
+  const received: ReceivedRequest[] = [];
+  const statuses: number[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.setEncoding('utf-8');
+    req.on('data', (chunk: string) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statuses.shift() ?? 200;
+      res.end();
+    });
+  });
+  server.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`,
+    received,
+    respondWith: (...codes: number[]) => statuses.push(...codes),
+    close: () => new Promise(resolve => server.close(resolve)),
+  };
+}
@@ -1,8 +1,11 @@
 import request from 'supertest';
 import { createApp } from '../../src/index';
 import { VectorClient } from '../../src/clients/VectorClient';
+import { DatabaseClient } from '../../src/clients/DatabaseClient';
+import { MemoryVectorBackend } from '../../src/clients/backends';
 import { config } from '../../src/config';
 import { encodeEntitlementContext } from '../../src/utils/entitlement';
+import { currentTenant } from '../../src/utils/tenant';
 
 /**
  * API Integration Tests - SPARC Compliant
@@ -14,6 +17,7 @@ import { encodeEntitlementContext } from '../../src/utils/entitlement';
  * - F4: Service accepts valid simulate requests and returns results
  * - F5: Service returns 403 for invalid entitlement format
  * - F7: Health endpoint returns 200 when service is running
+ * - Ingested events are returned as neighbours by /query and /simulate
  */
 describe('API Integration Tests - SPARC Compliant', () => {
   let app: any;
@@ -21,20 +25,25 @@ describe('API Integration Tests - SPARC Compliant', () => {
   let validEntitlementContext: string;
 
   beforeAll(() => {
-    // Initialize VectorClient with SPARC-compliant config
-    vectorClient = new VectorClient({
-      host: config.ruvVector.host,
-      port: config.ruvVector.port,
-      timeout: config.ruvVector.timeout,
-      poolSize: config.ruvVector.poolSize,
-      circuitBreaker: {
-        threshold: config.circuitBreaker.threshold,
-        timeout: config.circuitBreaker.timeout,
-        resetTimeout: config.circuitBreaker.resetTimeout,
+    // In-memory HNSW backend so ingest/query/simulate return real neighbours
+    vectorClient = new VectorClient(
+      {
+        serviceUrl: config.ruvVector.serviceUrl,
+        timeout: config.ruvVector.timeout,
+        poolSize: config.ruvVector.poolSize,
+        circuitBreaker: {
+          threshold: config.circuitBreaker.threshold,
+          timeout: config.circuitBreaker.timeout,
+          resetTimeout: config.circuitBreaker.resetTimeout,
+        },
       },
-    });
+      new MemoryVectorBackend({ metric: 'cosine', ...config.ruvVector.hnsw })
+    );
+
+    // Only /health touches the database in these tests
+    const dbClient = { ping: async () => true } as unknown as DatabaseClient;
 
-    app = createApp(vectorClient);
+    app = createApp(vectorClient, dbClient);
 
     // Create valid entitlement context (Base64-encoded JSON)
     validEntitlementContext = encodeEntitlementContext({
@@ -278,6 +287,549 @@ describe('API Integration Tests - SPARC Compliant', () => {
     });
   });
 
+  describe('POST /ingest/batch', () => {
+    const correlationId = '550e8400-e29b-41d4-a716-446655440020';
+    const event = (eventId: string, overrides: Record<string, unknown> = {}) => ({
+      eventId,
+      correlationId,
+      timestamp: '2024-01-01T00:00:00Z',
+      vector: [0.3, 0.2, 0.1],
+      payload: { eventId },
+      metadata: { source: 'batch-source', type: 'batch-type', version: '1.0.0' },
+      ...overrides,
+    });
+    const batch = () =>
+      request(app)
+        .post('/ingest/batch')
+        .set('x-correlation-id', correlationId)
+        .set('x-entitlement-context', validEntitlementContext);
+
+    it('should store a JSON array and report per-item failures with 207', async () => {
+      const response = await batch()
+        .set('Content-Type', 'application/json')
+        .send(JSON.stringify([
+          event('750e8400-e29b-41d4-a716-446655440001'),
+          event('750e8400-e29b-41d4-a716-446655440002', { vector: [] }),
+          event('750e8400-e29b-41d4-a716-446655440001'),
+          event('750e8400-e29b-41d4-a716-446655440003'),
+        ]));
+
+      expect(response.status).toBe(207);
+      expect(response.body).toMatchObject({ stored: 2, failed: 2 });
+      expect(response.body.items.map((item: any) => [item.index, item.status, item.error?.code])).toEqual([
+        [0, 'stored', undefined],
+        [1, 'failed', 'validation_error'],
+        [2, 'failed', 'duplicate_event_id'],
+        [3, 'stored', undefined],
+      ]);
+      expect(response.body.items[1]).toMatchObject({
+        eventId: '750e8400-e29b-41d4-a716-446655440002',
+        error: { retryable: false },
+      });
+      expect(response.body.items[1].error.message).toContain('vector');
+      expect(response.body.metadata.correlationId).toBe(correlationId);
+    });
+
+    it('should accept NDJSON and fail only unparseable lines', async () => {
+      const body = [
+        JSON.stringify(event('750e8400-e29b-41d4-a716-446655440004')),
+        '',
+        '{"eventId": ',
+        JSON.stringify(event('750e8400-e29b-41d4-a716-446655440005')),
+      ].join('\n');
+
+      const response = await batch().set('Content-Type', 'application/x-ndjson').send(body);
+
+      expect(response.status).toBe(207);
+      expect(response.body.items.map((item: any) => item.error?.code ?? item.status)).toEqual(['stored', 'invalid_json', 'stored']);
+
+      const ok = await batch().set('Content-Type', 'application/x-ndjson').send(JSON.stringify(event('750e8400-e29b-41d4-a716-446655440006')));
+      expect(ok.status).toBe(201);
+      expect(ok.body.items[0]).toMatchObject({ status: 'stored', vectorId: '750e8400-e29b-41d4-a716-446655440006' });
+    });
+
+    it('should reject bodies that are not a batch of events', async () => {
+      const notArray = await batch().set('Content-Type', 'application/json').send(JSON.stringify(event('750e8400-e29b-41d4-a716-446655440007')));
+      expect(notArray.status).toBe(400);
+      expect(notArray.body.error).toBe('validation_error');
+
+      const empty = await batch().set('Content-Type', 'application/json').send('[]');
+      expect(empty.status).toBe(400);
+
+      const wrongType = await batch().set('Content-Type', 'text/csv').send('a,b');
+      expect(wrongType.status).toBe(400);
+      expect(wrongType.body.message).toContain('application/x-ndjson');
+
+      const missingHeaders = await request(app).post('/ingest/batch').set('Content-Type', 'application/json').send('[]');
+      expect(missingHeaders.status).toBe(400);
+      expect(missingHeaders.body.error).toBe('missing_header');
+    });
+  });
+
+  describe('idempotent ingest', () => {
+    const correlationId = '550e8400-e29b-41d4-a716-446655440030';
+    const eventId = '850e8400-e29b-41d4-a716-446655440001';
+    const event = (vector: number[], retryCorrelationId = correlationId) => ({
+      eventId,
+      correlationId: retryCorrelationId,
+      timestamp: '2024-01-01T00:00:00Z',
+      vector,
+      payload: { eventId },
+      metadata: { source: 'ledger-source', type: 'ledger-type', version: '1.0.0' },
+    });
+    const ingest = (body: object) =>
+      request(app)
+        .post('/ingest')
+        .set('Content-Type', 'application/json')
+        .set('x-correlation-id', correlationId)
+        .set('x-entitlement-context', validEntitlementContext)
+        .send(body);
+
+    it('should replay the original response for an identical re-ingest', async () => {
+      const first = await ingest(event([0.5, 0.5, 0.1]));
+      expect(first.status).toBe(201);
+      expect(first.headers['idempotent-replayed']).toBeUndefined();
+
+      // A retry carries a new correlationId but the same event content
+      const retry = await ingest(event([0.5, 0.5, 0.1], '550e8400-e29b-41d4-a716-446655440031'));
+      expect(retry.status).toBe(201);
+      expect(retry.headers['idempotent-replayed']).toBe('true');
+      expect(retry.body).toEqual(first.body);
+    });
+
+    it('should reject a changed event with 409 and the hashes that differ', async () => {
+      const conflict = await ingest(event([0.9, 0.1, 0.1]));
+
+      expect(conflict.status).toBe(409);
+      expect(conflict.body).toMatchObject({ error: 'conflict', eventId });
+      expect(Object.keys(conflict.body.diff)).toEqual(['vector']);
+      expect(conflict.body.diff.vector.stored).not.toBe(conflict.body.diff.vector.received);
+    });
+
+    it('should apply the same ledger to batch items', async () => {
+      const response = await request(app)
+        .post('/ingest/batch')
+        .set('Content-Type', 'application/json')
+        .set('x-correlation-id', correlationId)
+        .set('x-entitlement-context', validEntitlementContext)
+        .send(JSON.stringify([event([0.5, 0.5, 0.1]), { ...event([0.2, 0.2, 0.2]), eventId: '850e8400-e29b-41d4-a716-446655440002' }]));
+
+      expect(response.status).toBe(201);
+      expect(response.body.items.map((item: any) => [item.status, item.replayed])).toEqual([
+        ['stored', true],
+        ['stored', undefined],
+      ]);
+
+      const conflict = await ingest({ ...event([0.2, 0.2, 0.2]), eventId: '850e8400-e29b-41d4-a716-446655440002', payload: { changed: true } });
+      expect(conflict.status).toBe(409);
+      expect(Object.keys(conflict.body.diff)).toEqual(['payload']);
+    });
+  });
+
+  describe('vector namespaces', () => {
+    const correlationId = '550e8400-e29b-41d4-a716-446655440040';
+    const post = (path: string, body: object) =>
+      request(app)
+        .post(path)
+        .set('Content-Type', 'application/json')
+        .set('x-correlation-id', correlationId)
+        .set('x-entitlement-context', validEntitlementContext)
+        .send(body);
+    const event = (eventId: string, namespace: string, vector: number[]) => ({
+      namespace,
+      eventId,
+      correlationId,
+      timestamp: '2024-01-01T00:00:00Z',
+      vector,
+      payload: { eventId },
+      metadata: { source: 'namespace-source', type: 'namespace-type', version: '1.0.0' },
+    });
+
+    beforeAll(async () => {
+      const created = await post('/v1/namespaces', { name: 'planar', dimension: 2, metric: 'l2', normalize: true });
+      expect(created.status).toBe(201);
+      expect(created.body).toMatchObject({ name: 'planar', dimension: 2, metric: 'l2', normalize: true, description: null });
+    });
+
+    it('should pin dimension and metric once registered', async () => {
+      expect((await post('/v1/namespaces', { name: 'planar', dimension: 3 })).status).toBe(409);
+      expect((await post('/v1/namespaces', { name: 'decisions', dimension: 3 })).status).toBe(400);
+
+      const update = await request(app)
+        .put('/v1/namespaces/planar')
+        .set('x-entitlement-context', validEntitlementContext)
+        .send({ dimension: 3 });
+      expect(update.status).toBe(400);
+
+      const metadata = await request(app).get('/metadata').set('x-entitlement-context', validEntitlementContext);
+      expect(metadata.body.namespaces.map((namespace: { name: string }) => namespace.name)).toEqual(['planar']);
+    });
+
+    it('should reject vectors that do not fit the namespace and unregistered namespaces', async () => {
+      const wrongDimension = await post('/ingest', event('950e8400-e29b-41d4-a716-446655440001', 'planar', [1, 0, 0]));
+      expect(wrongDimension.status).toBe(400);
+      expect(wrongDimension.body.error).toBe('invalid_vector_dimension');
+
+      const unknown = await post('/ingest', event('950e8400-e29b-41d4-a716-446655440002', 'nowhere', [1, 0]));
+      expect(unknown.status).toBe(404);
+
+      const reserved = await post('/ingest', event('950e8400-e29b-41d4-a716-446655440006', 'decisions', [1, 0]));
+      expect(reserved.status).toBe(400);
+      expect(reserved.body.error).toBe('validation_error');
+
+      const simulate = await post('/simulate', { namespace: 'planar', contextVectors: [[1, 0], [1, 0, 0]] });
+      expect(simulate.status).toBe(400);
+      expect(simulate.body.message).toContain('contextVectors.1');
+
+      const batch = await post('/ingest/batch', [
+        event('950e8400-e29b-41d4-a716-446655440003', 'nowhere', [1, 0]),
+        event('950e8400-e29b-41d4-a716-446655440004', 'planar', [1]),
+        event('950e8400-e29b-41d4-a716-446655440007', 'decisions', [1, 0]),
+      ]);
+      expect(batch.status).toBe(207);
+      expect(batch.body.items.map((item: any) => item.error.code)).toEqual(['not_found', 'invalid_vector_dimension', 'validation_error']);
+    });
+
+    it('should store and search normalized vectors with the namespace metric', async () => {
+      expect((await post('/ingest', event('950e8400-e29b-41d4-a716-446655440005', 'planar', [3, 4]))).status).toBe(201);
+
+      const response = await post('/query', { namespace: 'planar', queryVector: [6, 8] });
+
+      expect(response.status).toBe(200);
+      expect(response.body.results.map((r: { eventId: string }) => r.eventId)).toEqual(['950e8400-e29b-41d4-a716-446655440005']);
+      // Both vectors are normalized to (0.6, 0.8): l2 distance 0
+      expect(response.body.results[0].similarity).toBeCloseTo(1);
+
+      // The default namespace does not hold it
+      const events = await post('/query', { queryVector: [0.6, 0.8], filters: { source: 'namespace-source' } });
+      expect(events.body.results).toEqual([]);
+    });
+  });
+
+  describe('vector deletion', () => {
+    const correlationId = '550e8400-e29b-41d4-a716-446655440050';
+    const post = (path: string, body: object) =>
+      request(app)
+        .post(path)
+        .set('Content-Type', 'application/json')
+        .set('x-correlation-id', correlationId)
+        .set('x-entitlement-context', validEntitlementContext)
+        .send(body);
+    const ingest = (eventId: string, type: string) =>
+      post('/ingest', {
+        eventId,
+        correlationId,
+        timestamp: '2024-01-01T00:00:00Z',
+        vector: [0.2, 0.9],
+        payload: { eventId },
+        metadata: { source: 'deletion-source', type, version: '1.0.0' },
+      });
+    const remaining = async () =>
+      (await post('/query', { filters: { source: 'deletion-source' } })).body.results.map((r: { eventId: string }) => r.eventId).sort();
+
+    const pushEvent = 'a50e8400-e29b-41d4-a716-446655440001';
+    const issueEvent = 'a50e8400-e29b-41d4-a716-446655440002';
+
+    beforeAll(async () => {
+      expect((await ingest(pushEvent, 'push')).status).toBe(201);
+      expect((await ingest(issueEvent, 'issue')).status).toBe(201);
+    });
+
+    it('should count on a dry run, then delete the vectors matching a filter', async () => {
+      expect((await post('/vectors/delete', { filters: { metadata: {} } })).status).toBe(400);
+      expect((await post('/vectors/delete', { namespace: 'decisions', filters: { type: 'push' } })).status).toBe(400);
+
+      const filters = { source: 'deletion-source', type: 'push' };
+      const dryRun = await post('/vectors/delete', { filters, dryRun: true });
+      expect(dryRun.status).toBe(200);
+      expect(dryRun.body).toEqual({ namespace: 'events', matched: 1, deleted: 0, dryRun: true });
+      expect(await remaining()).toEqual([issueEvent, pushEvent].sort());
+
+      const deleted = await post('/vectors/delete', { filters });
+      expect(deleted.body).toEqual({ namespace: 'events', matched: 1, deleted: 1, dryRun: false });
+      expect(await remaining()).toEqual([issueEvent]);
+    });
+
+    it('should delete a vector by id and 404 once it is gone', async () => {
+      const remove = () => request(app)
+        .delete(`/vectors/${issueEvent}`)
+        .set('x-entitlement-context', validEntitlementContext);
+
+      const deleted = await remove();
+      expect(deleted.status).toBe(200);
+      expect(deleted.body).toEqual({ id: issueEvent, namespace: 'events', deleted: true });
+      expect(await remaining()).toEqual([]);
+
+      const missing = await remove();
+      expect(missing.status).toBe(404);
+      expect(missing.body.error).toBe('not_found');
+    });
+
+    it('should store deleted events again when they are re-ingested', async () => {
+      const again = await ingest(pushEvent, 'push');
+      expect(again.status).toBe(201);
+      expect(again.headers['idempotent-replayed']).toBeUndefined();
+
+      // Content that differs from the deleted vector's is not a conflict either
+      expect((await ingest(issueEvent, 'issue-reopened')).status).toBe(201);
+      expect(await remaining()).toEqual([issueEvent, pushEvent].sort());
+
+      const replayed = await ingest(pushEvent, 'push');
+      expect(replayed.status).toBe(201);
+      expect(replayed.headers['idempotent-replayed']).toBe('true');
+    });
+  });
+
+  describe('hybrid search', () => {
+    const correlationId = '550e8400-e29b-41d4-a716-446655440060';
+    const post = (path: string, body: object) =>
+      request(app)
+        .post(path)
+        .set('Content-Type', 'application/json')
+        .set('x-correlation-id', correlationId)
+        .set('x-entitlement-context', validEntitlementContext)
+        .send(body);
+    const ingest = (eventId: string, vector: number[], summary: string) =>
+      post('/ingest', {
+        eventId,
+        correlationId,
+        timestamp: '2024-01-01T00:00:00Z',
+        vector,
+        payload: { summary },
+        metadata: { source: 'hybrid-source', type: 'hybrid-type', version: '1.0.0' },
+      });
+
+    const nearEvent = 'b50e8400-e29b-41d4-a716-446655440001';
+    const farEvent = 'b50e8400-e29b-41d4-a716-446655440002';
+
+    beforeAll(async () => {
+      expect((await ingest(nearEvent, [0.3, -0.95], 'Rollback after failed deploy')).status).toBe(201);
+      expect((await ingest(farEvent, [-0.95, 0.3], 'Rollback rollback: schema migration reverted')).status).toBe(201);
+      expect((await ingest('b50e8400-e29b-41d4-a716-446655440003', [0.3, -0.95], 'Deploy succeeded')).status).toBe(201);
+    });
+
+    it('should rank events mentioning the text by the chosen fusion', async () => {
+      const filters = { source: 'hybrid-source' };
+      const textOnly = await post('/query', { text: 'rollback', filters });
+      expect(textOnly.status).toBe(200);
+      expect(textOnly.body.results.map((r: { eventId: string }) => r.eventId)).toEqual([farEvent, nearEvent]);
+      expect(textOnly.body.results[0]).toMatchObject({ similarity: null, textScore: expect.any(Number) });
+
+      const vectorFirst = await post('/query', {
+        text: 'rollback', queryVector: [0.3, -0.95], filters, fusion: { method: 'weighted', vectorWeight: 3 },
+      });
+      expect(vectorFirst.body.pagination.total).toBe(2);
+      expect(vectorFirst.body.results.map((r: { eventId: string }) => r.eventId)).toEqual([nearEvent, farEvent]);
+      expect(vectorFirst.body.results[0].similarity).toBeCloseTo(1);
+      expect(vectorFirst.body.results[0].score).toEqual(expect.any(Number));
+
+      const withoutText = await post('/query', { queryVector: [0.3, -0.95], fusion: { method: 'rrf' } });
+      expect(withoutText.status).toBe(400);
+    });
+  });
+
+  describe('metadata filters', () => {
+    const correlationId = '550e8400-e29b-41d4-a716-446655440070';
+    const post = (path: string, body: object) =>
+      request(app)
+        .post(path)
+        .set('Content-Type', 'application/json')
+        .set('x-correlation-id', correlationId)
+        .set('x-entitlement-context', validEntitlementContext)
+        .send(body);
+
+    const oldEvent = 'c50e8400-e29b-41d4-a716-446655440001';
+    const newEvent = 'c50e8400-e29b-41d4-a716-446655440002';
+
+    beforeAll(async () => {
+      for (const [eventId, version] of [[oldEvent, '1.4.0'], [newEvent, '2.1.0']]) {
+        const response = await post('/ingest', {
+          eventId,
+          correlationId,
+          timestamp: '2024-01-01T00:00:00Z',
+          vector: [0.8, 0.6],
+          payload: {},
+          metadata: { source: 'filter-source', type: 'filter-type', version },
+        });
+        expect(response.status).toBe(201);
+      }
+    });
+
+    it('should filter queries and simulations with operators', async () => {
+      const filters = { source: 'filter-source', metadata: { $or: [{ version: { $gte: '2' } }, { type: 'other' }] } };
+
+      const query = await post('/query', { filters });
+      expect(query.status).toBe(200);
+      expect(query.body.results.map((r: { eventId: string }) => r.eventId)).toEqual([newEvent]);
+
+      const simulate = await post('/simulate', {
+        contextVectors: [[0.8, 0.6]],
+        filters: { source: 'filter-source', metadata: { $not: { version: { $in: ['2.1.0'] } } } },
+      });
+      expect(simulate.status).toBe(200);
+      expect(simulate.body.results[0].neighbors.map((n: { eventId: string }) => n.eventId)).toEqual([oldEvent]);
+    });
+
+    it('should reject malformed filters with the path of the problem', async () => {
+      const response = await post('/query', { filters: { metadata: { $and: [{ version: { $gt: ['2'] } }] } } });
+
+      expect(response.status).toBe(400);
+      expect(response.body.error).toBe('validation_error');
+      expect(response.body.details.map((d: { path: string }) => d.path)).toEqual(['filters.metadata.$and.0.version.$gt']);
+    });
+  });
+
+  describe('query pagination', () => {
+    const correlationId = '550e8400-e29b-41d4-a716-446655440080';
+    const post = (path: string, body: object) =>
+      request(app)
+        .post(path)
+        .set('Content-Type', 'application/json')
+        .set('x-correlation-id', correlationId)
+        .set('x-entitlement-context', validEntitlementContext)
+        .send(body);
+    const ingest = (eventId: string, timestamp: string) =>
+      post('/ingest', { eventId, correlationId, timestamp, vector: [0.6, 0.8], payload: {}, metadata: { source: 'page-source', type: 'page-type', version: '1.0.0' } });
+
+    const events = ['d50e8400-e29b-41d4-a716-446655440001', 'd50e8400-e29b-41d4-a716-446655440002', 'd50e8400-e29b-41d4-a716-446655440003'];
+    const filters = { source: 'page-source' };
+
+    beforeAll(async () => {
+      for (const [i, eventId] of events.entries()) {
+        const response = await ingest(eventId, `2024-03-0${3 - i}T00:00:00Z`);
+        expect(response.status).toBe(201);
+      }
+    });
+
+    it('should continue from the cursor without picking up events ingested since the first page', async () => {
+      const first = await post('/query', { filters, limit: 2 });
+      expect(first.status).toBe(200);
+      expect(first.body.results.map((r: { eventId: string }) => r.eventId)).toEqual(events.slice(0, 2));
+      expect(first.body.pagination).toMatchObject({ total: 3, hasMore: true });
+
+      // Newer than every listed event: would shift an offset-based second page
+      expect((await ingest('d50e8400-e29b-41d4-a716-446655440004', '2024-03-04T00:00:00Z')).status).toBe(201);
+
+      const second = await post('/query', { filters, limit: 2, cursor: first.body.pagination.nextCursor });
+      expect(second.status).toBe(200);
+      expect(second.body.results.map((r: { eventId: string }) => r.eventId)).toEqual(events.slice(2));
+      expect(second.body.pagination).toEqual({ limit: 2, offset: 0, hasMore: false, nextCursor: null });
+    });
+
+    it('should reject cursors that were altered or belong to another query', async () => {
+      const { body } = await post('/query', { filters, limit: 1 });
+      const cursor: string = body.pagination.nextCursor;
+
+      const altered = await post('/query', { filters, limit: 1, cursor: `x${cursor}` });
+      expect(altered.status).toBe(400);
+      expect(altered.body.error).toBe('invalid_cursor');
+
+      const otherQuery = await post('/query', { filters: { source: 'other-source' }, limit: 1, cursor });
+      expect(otherQuery.status).toBe(400);
+      expect(otherQuery.body.error).toBe('invalid_cursor');
+
+      const withOffset = await post('/query', { filters, offset: 1, cursor });
+      expect(withOffset.status).toBe(400);
+      expect(withOffset.body.error).toBe('validation_error');
+    });
+  });
+
+  describe('ingest -> query -> simulate flow', () => {
+    const ingest = (eventId: string, vector: number[], source: string) =>
+      request(app)
+        .post('/ingest')
+        .set('Content-Type', 'application/json')
+        .set('x-correlation-id', '550e8400-e29b-41d4-a716-446655440010')
+        .set('x-entitlement-context', validEntitlementContext)
+        .send({
+          eventId,
+          correlationId: '550e8400-e29b-41d4-a716-446655440010',
+          timestamp: '2024-01-01T00:00:00Z',
+          vector,
+          payload: { eventId },
+          metadata: { source, type: 'flow-type', version: '1.0.0' },
+        });
+
+    const pushEvent = '650e8400-e29b-41d4-a716-446655440001';
+    const issueEvent = '650e8400-e29b-41d4-a716-446655440002';
+
+    beforeAll(async () => {
+      expect((await ingest(pushEvent, [9, 0, 0, 1], 'flow-push')).status).toBe(201);
+      expect((await ingest(issueEvent, [0, 9, 0, 1], 'flow-issue')).status).toBe(201);
+    });
+
+    it('should rank the closest ingested event first on /query', async () => {
+      const response = await request(app)
+        .post('/query')
+        .set('Content-Type', 'application/json')
+        .set('x-correlation-id', '550e8400-e29b-41d4-a716-446655440011')
+        .set('x-entitlement-context', validEntitlementContext)
+        .send({ queryVector: [1, 0.1, 0, 0.1], limit: 2 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.results[0].eventId).toBe(pushEvent);
+      expect(response.body.results[0].similarity).toBeGreaterThan(0.9);
+      expect(response.body.results[0].timestamp).toBe('2024-01-01T00:00:00.000Z');
+    });
+
+    it('should apply metadata filters on /query', async () => {
+      const response = await request(app)
+        .post('/query')
+        .set('Content-Type', 'application/json')
+        .set('x-correlation-id', '550e8400-e29b-41d4-a716-446655440012')
+        .set('x-entitlement-context', validEntitlementContext)
+        .send({ filters: { source: 'flow-issue' }, limit: 10 });
+
+      expect(response.status).toBe(200);
+      expect(response.body.results.map((r: { eventId: string }) => r.eventId)).toEqual([issueEvent]);
+      expect(response.body.pagination.total).toBe(1);
+    });
+
+    it('should return ingested events as neighbours on /simulate', async () => {
+      const response = await request(app)
+        .post('/simulate')
+        .set('Content-Type', 'application/json')
+        .set('x-correlation-id', '550e8400-e29b-41d4-a716-446655440013')
+        .set('x-entitlement-context', validEntitlementContext)
+        .send({
+          contextVectors: [[0, 1, 0, 0.1]],
+          nearestNeighbors: 1,
+          similarityThreshold: 0.9,
+        });
+
+      expect(response.status).toBe(200);
+      expect(response.body.results[0].neighbors.map((n: { eventId: string }) => n.eventId)).toEqual([issueEvent]);
+    });
+
+    it('should return the neighbours of each context vector and of the set on /simulate', async () => {
+      const simulate = (aggregate: string) => request(app)
+        .post('/simulate')
+        .set('Content-Type', 'application/json')
+        .set('x-correlation-id', '550e8400-e29b-41d4-a716-446655440014')
+        .set('x-entitlement-context', validEntitlementContext)
+        .send({
+          contextVectors: [[9, 0, 0, 1], [0, 9, 0, 1]],
+          filters: { type: 'flow-type' },
+          nearestNeighbors: 1,
+          aggregate,
+        });
+
+      const union = await simulate('union');
+      expect(union.status).toBe(200);
+      const eventIds = (neighbors: Array<{ eventId: string }>) => neighbors.map(n => n.eventId);
+      expect(union.body.results.map((r: { neighbors: Array<{ eventId: string }> }) => eventIds(r.neighbors))).toEqual([
+        [pushEvent], [issueEvent],
+      ]);
+      expect(union.body.aggregate.mode).toBe('union');
+      expect(eventIds(union.body.aggregate.neighbors).sort()).toEqual([pushEvent, issueEvent].sort());
+
+      const intersection = await simulate('intersection');
+      expect(intersection.body.aggregate).toEqual({ mode: 'intersection', neighbors: [] });
+
+      expect((await simulate('closest')).status).toBe(400);
+    });
+  });
+
   describe('GET /metrics', () => {
     it('should return Prometheus metrics', async () => {
       const response = await request(app).get('/metrics');
@@ -288,6 +840,44 @@ describe('API Integration Tests - SPARC Compliant', () => {
     });
   });
 
+  describe('GET /v1/graph/export', () => {
+    it('should reject invalid parameters in the shared validation error format', async () => {
+      const response = await request(app)
+        .get('/v1/graph/export?format=csv')
+        .set('x-entitlement-context', validEntitlementContext);
+
+      expect(response.status).toBe(400);
+      expect(response.body).toMatchObject({ error: 'validation_error', details: [{ path: 'format' }] });
+      expect(response.body.correlationId).toBe(response.headers['x-correlation-id']);
+    });
+  });
+
+  describe('tenant scoping', () => {
+    it('should run graph and learning queries as the caller\'s tenant', async () => {
+      const tenants: Array<string | null> = [];
+      const dbClient = {
+        ping: async () => true,
+        query: async () => {
+          tenants.push(currentTenant());
+          return { rows: [], rowCount: 0 };
+        },
+      } as unknown as DatabaseClient;
+      const scopedApp = createApp(vectorClient, dbClient);
+
+      const exported = await request(scopedApp)
+        .get('/v1/graph/export')
+        .set('x-entitlement-context', validEntitlementContext);
+      const inspected = await request(scopedApp)
+        .get('/learning/inspect')
+        .set('x-entitlement-context', validEntitlementContext);
+
+      expect(exported.status).toBe(200);
+      expect(inspected.status).toBe(200);
+      expect(tenants.length).toBeGreaterThan(1);
+      expect(new Set(tenants)).toEqual(new Set(['test-tenant']));
+    });
+  });
+
   describe('404 handling', () => {
     it('should return 404 for unknown routes', async () => {
       const response = await request(app).get('/unknown-route');
@@ -0,0 +1,121 @@
+import { randomUUID } from 'crypto';
+import { Request, Response } from 'express';
+import { DatabaseClient } from '../../src/clients/DatabaseClient';
+import {
+  ackDecisionEventsHandler,
+  getDecisionEventGroupHandler,
+  listGroupDecisionEventsHandler,
+} from '../../src/handlers/consumerGroups';
+import { AckDecisionEventsResponse, DecisionEventGroup, GroupDecisionEventsResponse } from '../../src/types';
+import { runWithTenant } from '../../src/utils/tenant';
+import { connectTestDatabase, deleteTenantRows, describeWithDatabase } from '../helpers/database';
+import { asResponse, createMockResponse, mockRequest } from '../helpers/http';
+
+/**
+ * Decision event consumer groups against Postgres
+ *
+ * The unit tests fake the delivery tables; these run the lease, re-delivery and offset
+ * statements, including consumers racing for the same events.
+ */
+describeWithDatabase('decision event consumer groups (Postgres)', () => {
+  let db: DatabaseClient;
+  const run = randomUUID().slice(0, 8);
+  const tenant = `groups-${run}`;
+  const decisionIds = Array.from({ length: 6 }, (_, i) => `d-${i}-${run}`);
+  let eventIds: string[] = [];
+
+  const asTenant = async (
+    handler: (req: Request, res: Response, db: DatabaseClient) => Promise<void>,
+    req: Record<string, unknown>
+  ) => {
+    const res = createMockResponse();
+    await runWithTenant(tenant, () => handler(mockRequest({ query: {}, params: {}, ...req }), asResponse(res), db));
+    return res;
+  };
+
+  const lease = async (group: string, query: Record<string, string> = {}) => {
+    const res = await asTenant(listGroupDecisionEventsHandler, { query: { group, types: 'plan_created', ...query } });
+    expect(res.statusCode).toBe(200);
+    return (res.body as GroupDecisionEventsResponse).events;
+  };
+
+  const ack = async (group: string, ids: string[]) => {
+    const res = await asTenant(ackDecisionEventsHandler, { body: { group, event_ids: ids } });
+    expect(res.statusCode).toBe(200);
+    return res.body as AckDecisionEventsResponse;
+  };
+
+  const status = async (group: string) =>
+    (await asTenant(getDecisionEventGroupHandler, { params: { group } })).body as DecisionEventGroup;
+
+  beforeAll(async () => {
+    db = await connectTestDatabase(8);
+
+    // One transaction per decision, so each event has its own outbox position
+    for (const id of decisionIds) {
+      await runWithTenant(tenant, () => db.query(
+        `INSERT INTO decisions (id, objective, command, raw_output_hash, recommendation, confidence, signals, embedding_text, graph_relations)
+         VALUES ($1, 'Reduce latency', 'plan', $2, 'PROCEED: ship it', 'high', '[]', 'Reduce latency', '{}')`,
+        [id, 'a'.repeat(64)]
+      ));
+    }
+    eventIds = (await lease(`feed-${run}`)).map(event => event.id);
+    expect(eventIds).toHaveLength(decisionIds.length);
+  });
+
+  afterAll(async () => {
+    if (!db) return;
+    await deleteTenantRows(db, ['decision_event_deliveries', 'decision_event_groups', 'decision_events', 'decisions'], [tenant]);
+    await db.close();
+  });
+
+  it('should lease each event to exactly one of several racing consumers', async () => {
+    const group = `race-${run}`;
+    const received: string[][] = [[], [], [], []];
+
+    // Every consumer keeps leasing two at a time until a round in which nobody gets anything
+    for (let round = 0; round < 10; round++) {
+      const batches = await Promise.all(received.map(() => lease(group, { limit: '2', visibility_timeout: '60' })));
+      batches.forEach((events, consumer) => received[consumer].push(...events.map(event => event.id)));
+      if (batches.every(events => events.length === 0)) break;
+    }
+
+    const all = received.flat();
+    expect(all.length).toBe(new Set(all).size);
+    expect([...all].sort()).toEqual([...eventIds].sort());
+    expect((await status(group)).in_flight).toBe(eventIds.length);
+  });
+
+  it('should re-deliver un-acked events once the visibility timeout lapses', async () => {
+    const group = `redeliver-${run}`;
+
+    const first = await lease(group, { visibility_timeout: '0.5' });
+    expect(first.map(event => [event.id, event.delivery_count])).toEqual(eventIds.map(id => [id, 1]));
+    await ack(group, [eventIds[0]]);
+
+    // Still leased: nothing to hand out
+    expect(await lease(group, { visibility_timeout: '0.5' })).toEqual([]);
+
+    await new Promise(resolve => setTimeout(resolve, 700));
+    const again = await lease(group, { visibility_timeout: '60' });
+    expect(again.map(event => [event.id, event.delivery_count])).toEqual(eventIds.slice(1).map(id => [id, 2]));
+  });
+
+  it('should commit the offset only through contiguously acked events', async () => {
+    const group = `offset-${run}`;
+    await lease(group, { visibility_timeout: '60' });
+
+    expect((await ack(group, [eventIds[1], eventIds[2]])).committed_cursor).toBeNull();
+    expect((await ack(group, [eventIds[0]])).committed_cursor).toBe(eventIds[2]);
+    expect((await ack(group, [eventIds[4]])).committed_cursor).toBe(eventIds[2]);
+
+    const offset = await status(group);
+    expect(offset).toMatchObject({ committed_cursor: eventIds[2], in_flight: 2, lag: 3 });
+
+    expect((await ack(group, [eventIds[3], eventIds[5]])).committed_cursor).toBe(eventIds[5]);
+    expect(await status(group)).toMatchObject({ committed_cursor: eventIds[5], in_flight: 0, lag: 0 });
+
+    // Acked events below the offset are not leased again
+    expect(await lease(group)).toEqual([]);
+  });
+});
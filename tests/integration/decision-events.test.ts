@@ -0,0 +1,119 @@
+import { randomUUID } from 'crypto';
+import { PoolClient } from 'pg';
+import { DatabaseClient } from '../../src/clients/DatabaseClient';
+import {
+  DecisionEventQuery,
+  fetchDecisionEvents,
+  hasHeldBackEvents,
+  oldestHeldBackEventAge,
+} from '../../src/handlers/decisionEvents';
+import { register, setDecisionEventHoldbackSource } from '../../src/utils/metrics';
+import { runWithTenant } from '../../src/utils/tenant';
+import { connectTestDatabase, deleteTenantRows, describeWithDatabase } from '../helpers/database';
+
+/**
+ * Decision event outbox against Postgres
+ *
+ * The unit tests fake the outbox query; these run the (tx_id, seq) keyset and the snapshot
+ * xmin gate against transactions that really commit out of order.
+ */
+describeWithDatabase('decision event outbox (Postgres)', () => {
+  let db: DatabaseClient;
+  const tenant = `events-${randomUUID().slice(0, 8)}`;
+
+  const insertDecision = (client: PoolClient, id: string) => client.query(
+    `INSERT INTO decisions (id, objective, command, raw_output_hash, recommendation, confidence, signals, embedding_text, graph_relations)
+     VALUES ($1, 'Reduce latency', 'plan', $2, 'PROCEED: ship it', 'high', '[]', 'Reduce latency', '{}')`,
+    [id, 'a'.repeat(64)]
+  );
+
+  /**
+   * Insert a decision in a transaction that commits only when commit() is called
+   */
+  const openTransaction = async (id: string) => {
+    let commit!: () => void;
+    const committing = new Promise<void>(resolve => { commit = resolve; });
+    let inserted!: () => void;
+    const insertDone = new Promise<void>(resolve => { inserted = resolve; });
+
+    const done = runWithTenant(tenant, () => db.transaction(async (client) => {
+      await insertDecision(client, id);
+      inserted();
+      await committing;
+    }));
+    await insertDone;
+    return { commit: () => { commit(); return done; } };
+  };
+
+  const page = (query: Partial<DecisionEventQuery> = {}) => runWithTenant(tenant, () => fetchDecisionEvents(db, {
+    eventTypes: ['plan_created'],
+    cursor: null,
+    limit: 100,
+    ...query,
+  }));
+
+  const decisionIds = (events: Awaited<ReturnType<typeof page>>['events']) => events.map(event => event.payload.decision_id);
+
+  beforeAll(async () => {
+    db = await connectTestDatabase(16);
+  });
+
+  afterAll(async () => {
+    if (!db) return;
+    await deleteTenantRows(db, ['decision_events', 'decisions'], [tenant]);
+    await db.close();
+  });
+
+  it('should hold back a committed event until an older transaction commits, then serve both in order', async () => {
+    const older = await openTransaction(`older-${tenant}`);
+    try {
+      const newer = await openTransaction(`newer-${tenant}`);
+      await newer.commit();
+
+      expect((await page()).events).toEqual([]);
+      expect(await runWithTenant(tenant, () => hasHeldBackEvents(db, { eventTypes: ['plan_created'], cursor: null, limit: 100 }))).toBe(true);
+
+      // The gauge reads the database-wide holdback on scrape
+      setDecisionEventHoldbackSource(() => oldestHeldBackEventAge(db));
+      const metric = await register.getSingleMetric('ruvvector_decision_events_holdback_age_seconds')?.get();
+      expect(metric?.values[0].value).toBeGreaterThan(0);
+    } finally {
+      setDecisionEventHoldbackSource(null);
+      // An open transaction would also keep db.close() waiting
+      await older.commit();
+    }
+
+    const { events, next_cursor: nextCursor } = await page();
+    expect(decisionIds(events)).toEqual([`older-${tenant}`, `newer-${tenant}`]);
+    expect((await page({ cursor: nextCursor })).events).toEqual([]);
+  });
+
+  it('should page without gaps or duplicates while transactions commit out of order', async () => {
+    const ids = Array.from({ length: 24 }, (_, i) => `load-${i}-${tenant}`);
+
+    // Writers hold their transactions open for random times, so commit order differs from start order
+    const writers = Promise.all(ids.map(async (id, i) => {
+      await new Promise(resolve => setTimeout(resolve, i * 5));
+      const transaction = await openTransaction(id);
+      await new Promise(resolve => setTimeout(resolve, Math.random() * 100));
+      await transaction.commit();
+    }));
+
+    const seen: string[] = [];
+    let cursor: string | null = (await page()).next_cursor;
+    const deadline = Date.now() + 15000;
+    while (seen.length < ids.length && Date.now() < deadline) {
+      const { events, next_cursor: nextCursor } = await page({ cursor, limit: 3 });
+      seen.push(...decisionIds(events) as string[]);
+      cursor = nextCursor ?? cursor;
+      if (events.length === 0) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+    }
+    await writers;
+
+    expect(new Set(seen).size).toBe(seen.length);
+    expect([...seen].sort()).toEqual([...ids].sort());
+    expect((await page({ cursor })).events).toEqual([]);
+  });
+});
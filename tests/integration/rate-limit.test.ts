@@ -0,0 +1,80 @@
+import { randomUUID } from 'crypto';
+import { NextFunction } from 'express';
+import { DatabaseClient } from '../../src/clients/DatabaseClient';
+import { createRateLimitMiddleware, RateLimitSettings } from '../../src/middleware/rateLimit';
+import { PgRateLimitStore } from '../../src/ratelimit';
+import { RateLimits } from '../../src/types';
+import { connectTestDatabase, describeWithDatabase } from '../helpers/database';
+import { asResponse, createMockResponse, mockRequest } from '../helpers/http';
+
+/**
+ * Postgres rate limit store under concurrency
+ *
+ * The unit tests fake the upserts; these race real requests from two service instances (two
+ * pools) against one bucket and one daily quota, where a lost update would let extra requests by.
+ */
+describeWithDatabase('rate limits (Postgres)', () => {
+  let instances: DatabaseClient[] = [];
+  const tenant = `limits-${randomUUID().slice(0, 8)}`;
+
+  const settings = (defaults: Partial<RateLimits>): RateLimitSettings => ({
+    enabled: true,
+    backend: 'postgres',
+    defaults: { burst: 0, perSecond: 0, requestsPerDay: 0, vectorsPerDay: 0, bytesPerDay: 0, ...defaults },
+    routes: {},
+    tenants: {},
+  });
+
+  /**
+   * Send `count` concurrent requests, alternating between the instances; resolves to the statuses
+   */
+  const race = async (limits: Partial<RateLimits>, path: string, count: number) => {
+    const middlewares = instances.map(db => createRateLimitMiddleware(new PgRateLimitStore(db), settings(limits)));
+    return Promise.all(Array.from({ length: count }, async (_, i) => {
+      const res = createMockResponse();
+      const next = jest.fn() as NextFunction;
+      const req = mockRequest({ method: 'POST', path, route: { path }, tenantId: tenant });
+      await middlewares[i % middlewares.length](req, asResponse(res), next);
+      return (next as jest.Mock).mock.calls.length === 1 ? 200 : res.statusCode;
+    }));
+  };
+
+  beforeAll(async () => {
+    instances = [await connectTestDatabase(8), await connectTestDatabase(8)];
+  });
+
+  afterAll(async () => {
+    if (instances.length === 0) return;
+    await instances[0].query('DELETE FROM rate_limit_buckets WHERE key LIKE $1', [`${tenant}|%`]);
+    await instances[0].query('DELETE FROM rate_limit_usage WHERE key LIKE $1', [`${tenant}|%`]);
+    await Promise.all(instances.map(db => db.close()));
+  });
+
+  it('should admit exactly the burst from concurrent requests to one bucket', async () => {
+    // Refill is negligible over the test, so the burst is all there is
+    const statuses = await race({ burst: 10, perSecond: 0.001 }, '/ingest', 40);
+
+    expect(statuses.filter(status => status === 200)).toHaveLength(10);
+    expect(statuses.filter(status => status === 429)).toHaveLength(30);
+
+    const bucket = await instances[0].query<{ tokens: number }>(
+      'SELECT tokens FROM rate_limit_buckets WHERE key = $1',
+      [`${tenant}|POST /ingest`]
+    );
+    expect(bucket.rows[0].tokens).toBeGreaterThanOrEqual(0);
+    expect(bucket.rows[0].tokens).toBeLessThan(1);
+  });
+
+  it('should admit exactly the daily quota from concurrent requests', async () => {
+    const statuses = await race({ requestsPerDay: 15 }, '/query', 40);
+
+    expect(statuses.filter(status => status === 200)).toHaveLength(15);
+    expect(statuses.filter(status => status === 429)).toHaveLength(25);
+
+    const usage = await instances[0].query<{ requests: string }>(
+      'SELECT requests FROM rate_limit_usage WHERE key = $1',
+      [`${tenant}|POST /query`]
+    );
+    expect(usage.rows).toEqual([{ requests: '15' }]);
+  });
+});
@@ -0,0 +1,143 @@
+import { randomUUID } from 'crypto';
+import { Request, Response } from 'express';
+import { DatabaseClient } from '../../src/clients/DatabaseClient';
+import { DecisionGraphSource, materializeDecisionGraph } from '../../src/graph';
+import { getDecisionEventGroupHandler, listGroupDecisionEventsHandler } from '../../src/handlers/consumerGroups';
+import { createPlanHandler, getPlanHandler } from '../../src/handlers/plans';
+import { DecisionEventGroup, ErrorResponse } from '../../src/types';
+import { runWithTenant } from '../../src/utils/tenant';
+import { connectTestDatabase, deleteTenantRows, describeWithDatabase } from '../helpers/database';
+import { asResponse, createMockResponse, mockRequest } from '../helpers/http';
+
+/**
+ * Tenant row-level security against Postgres
+ *
+ * The unit tests fake the policy; these run the real one (see tests/helpers/database for
+ * TEST_DATABASE_URL).
+ */
+describeWithDatabase('tenant row-level security (Postgres)', () => {
+  let db: DatabaseClient;
+  // Fresh tenants per run, so rows left by an earlier run cannot interfere
+  const run = randomUUID().slice(0, 8);
+  const tenantA = `rls-a-${run}`;
+  const tenantB = `rls-b-${run}`;
+
+  const asTenant = async (
+    tenant: string,
+    handler: (req: Request, res: Response, db: DatabaseClient) => Promise<void>,
+    req: Record<string, unknown>
+  ) => {
+    const res = createMockResponse();
+    await runWithTenant(tenant, () => handler(mockRequest(req), asResponse(res), db));
+    return res;
+  };
+
+  const storeDecision = (tenant: string, decision: DecisionGraphSource) => runWithTenant(tenant, async () => {
+    await db.query(
+      `INSERT INTO decisions (id, objective, command, raw_output_hash, recommendation, confidence, signals, embedding_text, graph_relations)
+       VALUES ($1, $2, 'plan', $3, $4, 'high', '[]', $2, $5)`,
+      [decision.id, decision.objective, 'a'.repeat(64), decision.recommendation, JSON.stringify(decision.graph_relations)]
+    );
+    await materializeDecisionGraph(db, decision);
+  });
+
+  beforeAll(async () => {
+    db = await connectTestDatabase();
+  });
+
+  afterAll(async () => {
+    if (!db) return;
+    await deleteTenantRows(
+      db,
+      ['decision_event_groups', 'plans', 'graph_edges', 'graph_nodes', 'learning_weights', 'decision_events', 'decisions'],
+      [tenantA, tenantB]
+    );
+    await db.close();
+  });
+
+  it('should hide one tenant\'s plans from another and answer a reused id with 409', async () => {
+    const id = randomUUID();
+    const body = { id, intent: 'Scale the ingest tier', plan: { steps: ['resize'] }, org_id: 'org-a', user_id: 'user-a', checksum: 'a'.repeat(64) };
+
+    expect((await asTenant(tenantA, createPlanHandler, { body })).statusCode).toBe(201);
+    expect((await asTenant(tenantA, getPlanHandler, { params: { id } })).statusCode).toBe(200);
+    expect((await asTenant(tenantB, getPlanHandler, { params: { id } })).statusCode).toBe(404);
+
+    const overwrite = await asTenant(tenantB, createPlanHandler, { body: { ...body, intent: 'Hijacked' } });
+    expect(overwrite.statusCode).toBe(409);
+    expect((overwrite.body as ErrorResponse).error).toBe('conflict');
+
+    const stored = await db.query<{ tenant_id: string; intent: string }>('SELECT tenant_id, intent FROM plans WHERE id = $1', [id]);
+    expect(stored.rows).toEqual([{ tenant_id: tenantA, intent: 'Scale the ingest tier' }]);
+  });
+
+  it('should let each tenant name its own consumer groups', async () => {
+    const group = `billing-${run}`;
+    expect((await asTenant(tenantA, listGroupDecisionEventsHandler, { query: { group, types: 'plan_approved' } })).statusCode).toBe(200);
+    expect((await asTenant(tenantB, listGroupDecisionEventsHandler, { query: { group, types: 'plan_created' } })).statusCode).toBe(200);
+
+    const status = await asTenant(tenantB, getDecisionEventGroupHandler, { params: { group } });
+    expect((status.body as DecisionEventGroup).event_types).toEqual(['plan_created']);
+  });
+
+  it('should rescope a pooled connection as it moves between tenants', async () => {
+    // One connection, so every query below reuses it
+    const single = await connectTestDatabase(1);
+    try {
+      const id = randomUUID();
+      await runWithTenant(tenantA, () => single.query(
+        `INSERT INTO plans (id, intent, plan, org_id, user_id, checksum) VALUES ($1, 'Pooled', '{}', 'org-a', 'user-a', $2)`,
+        [id, 'a'.repeat(64)]
+      ));
+      const count = async () => Number((await single.query<{ n: string }>('SELECT COUNT(*) AS n FROM plans WHERE id = $1', [id])).rows[0].n);
+
+      expect(await runWithTenant(tenantB, count)).toBe(0);
+      expect(await count()).toBe(1);
+      expect(await runWithTenant(tenantA, count)).toBe(1);
+      expect(await runWithTenant(tenantB, () => single.transaction(async client => (await client.query('SELECT id FROM plans WHERE id = $1', [id])).rowCount))).toBe(0);
+    } finally {
+      await single.close();
+    }
+  });
+
+  it('should reject rows written for another tenant', async () => {
+    await expect(runWithTenant(tenantA, () => db.query(
+      `INSERT INTO learning_weights (id, source_type, source_id, target_value, tenant_id)
+       VALUES ($1, 'objective', 'Reduce latency', 'PROCEED', $2)`,
+      [randomUUID(), tenantB]
+    ))).rejects.toMatchObject({ code: '42501' });
+  });
+
+  it('should give each tenant its own decision graph and learned weights', async () => {
+    const relations = { objective_to_repos: ['billing'], repos_to_signals: { billing: ['high_latency'] }, signals_to_recommendation: [] };
+    await storeDecision(tenantA, { id: `d-a-${run}`, objective: 'Reduce latency', recommendation: 'PROCEED: ship it', graph_relations: relations });
+    await storeDecision(tenantB, { id: `d-b-${run}`, objective: 'Reduce latency', recommendation: 'DEFER: split it', graph_relations: relations });
+
+    // The same learning key in both tenants
+    for (const [tenant, weight] of [[tenantA, 0.5], [tenantB, -0.5]] as const) {
+      await runWithTenant(tenant, () => db.query(
+        `INSERT INTO learning_weights (id, source_type, source_id, target_value, weight)
+         VALUES ($1, 'objective', 'Reduce latency', 'PROCEED', $2)
+         ON CONFLICT (tenant_id, source_type, source_id, target_type, target_value) DO UPDATE SET weight = EXCLUDED.weight`,
+        [randomUUID(), weight]
+      ));
+    }
+
+    const view = (tenant: string) => runWithTenant(tenant, async () => ({
+      nodes: (await db.query<{ id: string }>('SELECT id FROM graph_nodes ORDER BY id')).rows.map(row => row.id),
+      recommends: (await db.query<{ target_id: string }>(`SELECT target_id FROM graph_edges WHERE relation = 'recommends'`)).rows,
+      weights: (await db.query<{ weight: number }>(`SELECT weight FROM learning_weights WHERE source_id = 'Reduce latency'`)).rows,
+    }));
+
+    const a = await view(tenantA);
+    const b = await view(tenantB);
+    expect(a.nodes).toContain('objective:Reduce latency');
+    expect(a.nodes).not.toContain(`decision:d-b-${run}`);
+    expect(b.nodes).toContain('objective:Reduce latency');
+    expect(b.nodes).not.toContain(`decision:d-a-${run}`);
+    expect(a.recommends).toEqual([{ target_id: 'recommendation:PROCEED' }]);
+    expect(b.recommends).toEqual([{ target_id: 'recommendation:DEFER' }]);
+    expect(a.weights).toEqual([{ weight: 0.5 }]);
+    expect(b.weights).toEqual([{ weight: -0.5 }]);
+  });
+});
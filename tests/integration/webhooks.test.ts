@@ -0,0 +1,143 @@
+import { randomUUID } from 'crypto';
+import { Request, Response } from 'express';
+import { DatabaseClient } from '../../src/clients/DatabaseClient';
+import { config } from '../../src/config';
+import {
+  createSubscriptionHandler,
+  getSubscriptionHandler,
+  listDeadLettersHandler,
+  replaySubscriptionHandler,
+} from '../../src/handlers/subscriptions';
+import {
+  CreateWebhookSubscriptionResponse,
+  ListWebhookDeadLettersResponse,
+  ReplayWebhookResponse,
+  WebhookSubscription,
+} from '../../src/types';
+import { runWithTenant } from '../../src/utils/tenant';
+import { runWebhookDeliveryPass, WebhookWorkerOptions } from '../../src/webhooks';
+import { connectTestDatabase, deleteTenantRows, describeWithDatabase } from '../helpers/database';
+import { asResponse, createMockResponse, mockRequest } from '../helpers/http';
+import { startReceiver, WebhookReceiver } from '../helpers/webhooks';
+
+/**
+ * Webhook subscriptions against Postgres
+ *
+ * The unit tests cover delivery over HTTP; these persist subscriptions, cursors and dead
+ * letters through the real tables and replay them with the delivery worker.
+ */
+describeWithDatabase('webhook subscriptions (Postgres)', () => {
+  let db: DatabaseClient;
+  let receiver: WebhookReceiver;
+  const run = randomUUID().slice(0, 8);
+  const tenant = `hooks-${run}`;
+  const options: WebhookWorkerOptions = {
+    timeoutMs: 2000, maxAttempts: 2, retryBaseMs: 1, retryMaxMs: 5, batchSize: 10, allowedPrivateHosts: ['127.0.0.1'],
+  };
+
+  const asTenant = async (
+    handler: (req: Request, res: Response, db: DatabaseClient) => Promise<void>,
+    req: Record<string, unknown>
+  ) => {
+    const res = createMockResponse();
+    await runWithTenant(tenant, () => handler(mockRequest({ query: {}, params: {}, ...req }), asResponse(res), db));
+    return res;
+  };
+
+  // The pass runs in the tenant's scope, so subscriptions left by other runs are not leased
+  const deliveryPass = () => runWithTenant(tenant, () => runWebhookDeliveryPass(db, options));
+
+  const approveDecision = (id: string) => runWithTenant(tenant, async () => {
+    await db.query(
+      `INSERT INTO decisions (id, objective, command, raw_output_hash, recommendation, confidence, signals, embedding_text, graph_relations)
+       VALUES ($1, 'Reduce latency', 'plan', $2, 'PROCEED: ship it', 'high', '[]', 'Reduce latency', '{}')`,
+      [id, 'a'.repeat(64)]
+    );
+    await db.query(
+      `INSERT INTO approvals (id, decision_id, approved, reward, timestamp, outcome) VALUES ($1, $2, TRUE, 1, NOW(), 'approve')`,
+      [randomUUID(), id]
+    );
+  });
+
+  const deliveredDecisions = (from = 0) =>
+    receiver.received.slice(from).map(req => JSON.parse(req.body).payload.decision_id as string);
+
+  beforeAll(async () => {
+    db = await connectTestDatabase();
+    receiver = await startReceiver();
+    config.webhooks.allowedPrivateHosts = ['127.0.0.1'];
+  });
+
+  afterAll(async () => {
+    config.webhooks.allowedPrivateHosts = [];
+    await receiver?.close();
+    if (!db) return;
+    await deleteTenantRows(db, ['webhook_dead_letters', 'webhook_subscriptions', 'decision_events', 'approvals', 'decisions'], [tenant]);
+    await db.close();
+  });
+
+  it('should persist the cursor and dead letters, and replay them on the next pass', async () => {
+    const created = await asTenant(createSubscriptionHandler, {
+      body: { url: receiver.url, event_types: ['plan_approved'], deliver_from: 'beginning' },
+    });
+    expect(created.statusCode).toBe(201);
+    const { id } = created.body as CreateWebhookSubscriptionResponse;
+
+    const decisions = ['a', 'b', 'c'].map(name => `${name}-${run}`);
+    for (const decision of decisions) {
+      await approveDecision(decision);
+    }
+
+    // The second event is rejected outright (4xx is not retried) and dead-lettered
+    receiver.respondWith(200, 410);
+    expect(await deliveryPass()).toEqual({ subscriptions: 1, delivered: 2, deadLettered: 1, replayed: 0 });
+    expect(deliveredDecisions()).toEqual(decisions);
+    const eventIds = receiver.received.map(req => JSON.parse(req.body).id as string);
+
+    const subscription = (await asTenant(getSubscriptionHandler, { params: { id } })).body as WebhookSubscription;
+    expect(subscription.cursor).toBe(eventIds[2]);
+
+    const dead = (await asTenant(listDeadLettersHandler, { params: { id } })).body as ListWebhookDeadLettersResponse;
+    expect(dead.data).toEqual([expect.objectContaining({
+      subscription_id: id,
+      event_id: eventIds[1],
+      status: 'dead',
+      attempts: 1,
+      last_status_code: 410,
+      replayed_at: null,
+    })]);
+
+    // Nothing new: the persisted cursor keeps the next pass from re-sending
+    expect(await deliveryPass()).toEqual({ subscriptions: 1, delivered: 0, deadLettered: 0, replayed: 0 });
+
+    const replay = await asTenant(replaySubscriptionHandler, { params: { id }, body: {} });
+    expect(replay.statusCode).toBe(202);
+    expect(replay.body as ReplayWebhookResponse).toEqual({ subscription_id: id, dead_letters_queued: 1, cursor: eventIds[2] });
+
+    const sent = receiver.received.length;
+    expect(await deliveryPass()).toEqual({ subscriptions: 1, delivered: 0, deadLettered: 0, replayed: 1 });
+    expect(deliveredDecisions(sent)).toEqual([decisions[1]]);
+
+    const replayed = (await asTenant(listDeadLettersHandler, { params: { id } })).body as ListWebhookDeadLettersResponse;
+    expect(replayed.data).toEqual([expect.objectContaining({ status: 'replayed', attempts: 2, replayed_at: expect.any(String) })]);
+  });
+
+  it('should re-send events after a rewound cursor', async () => {
+    const created = await asTenant(createSubscriptionHandler, {
+      body: { url: receiver.url, event_types: ['plan_approved'], deliver_from: 'beginning' },
+    });
+    const { id } = created.body as CreateWebhookSubscriptionResponse;
+
+    const sent = receiver.received.length;
+    await deliveryPass();
+    const eventIds = receiver.received.slice(sent).map(req => JSON.parse(req.body).id as string);
+    expect(eventIds).toHaveLength(3);
+
+    const rewind = await asTenant(replaySubscriptionHandler, { params: { id }, body: { from_cursor: eventIds[0] } });
+    expect(rewind.body as ReplayWebhookResponse).toEqual({ subscription_id: id, dead_letters_queued: 0, cursor: eventIds[0] });
+
+    const resent = receiver.received.length;
+    expect(await deliveryPass()).toMatchObject({ delivered: 2 });
+    expect(receiver.received.slice(resent).map(req => JSON.parse(req.body).id)).toEqual(eventIds.slice(1));
+  });
+});
@@ -19,5 +19,12 @@ process.env.RUVVECTOR_BASE_URL = 'http://localhost:8080';
 process.env.ENTITLEMENT_SERVICE_URL = 'http://localhost:9000';
 process.env.ENABLE_METRICS = 'false';
 
+// Fixtures send plain base64 entitlement contexts (signed ones are covered in entitlement.test.ts)
+process.env.ENTITLEMENT_ALLOW_UNSIGNED = 'true';
+
+// No database in tests: keep the ingest ledger, Idempotency-Key records and namespaces in memory
+process.env.IDEMPOTENCY_BACKEND = 'memory';
+process.env.NAMESPACE_BACKEND = 'memory';
+
 // Increase timeout for integration tests
 jest.setTimeout(30000);
@@ -0,0 +1,222 @@
+/**
+ * In-process fake RuvVector server
+ *
+ * Speaks the same HTTP/JSON wire protocol as the RuvVector service so that
+ * VectorClient can be exercised end to end without Docker or network access.
+ *
+ * Supports:
+ * - Bearer API key enforcement (401 when the key does not match)
+ * - Brute-force cosine similarity over stored vectors
+ * - Fault injection (status codes, artificial latency or empty 2xx bodies)
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface FakeVector {
+  namespace: string;
+  id: string;
+  vector: number[];
+  payload: Record<string, unknown>;
+  metadata: Record<string, unknown>;
+}
+
+export interface FakeRuvVectorOptions {
+  apiKey?: string;
+}
+
+export interface FakeRuvVectorServer {
+  url: string;
+  vectors: Map<string, FakeVector>;
+  requests: Array<{ method: string; path: string; headers: http.IncomingHttpHeaders; body: unknown }>;
+  failNext(statusCode: number, count?: number): void;
+  delayNext(ms: number, count?: number): void;
+  emptyNext(count?: number): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+function cosine(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+function sendJson(res: http.ServerResponse, statusCode: number, body: unknown): void {
+  const text = JSON.stringify(body);
+  res.writeHead(statusCode, {
+    'content-type': 'application/json',
+    'content-length': Buffer.byteLength(text),
+  });
+  res.end(text);
+}
+
+export async function startFakeRuvVectorServer(
+  options: FakeRuvVectorOptions = {}
+): Promise<FakeRuvVectorServer> {
+  const vectors = new Map<string, FakeVector>();
+  const requests: FakeRuvVectorServer['requests'] = [];
+  let failures: Array<number> = [];
+  let delays: Array<number> = [];
+  let empties = 0;
+
+  const key = (namespace: string, id: string) => `${namespace}/${id}`;
+
+  const inNamespace = (namespace: string) =>
+    Array.from(vectors.values()).filter(v => v.namespace === namespace);
+
+  const handle = (method: string, path: string, body: any, res: http.ServerResponse) => {
+    if (method === 'GET' && path === '/health') {
+      sendJson(res, 200, { status: 'ok' });
+      return;
+    }
+
+    if (method === 'POST' && path === '/vectors/upsert') {
+      const existed = vectors.has(key(body.namespace, body.id));
+      vectors.set(key(body.namespace, body.id), {
+        namespace: body.namespace,
+        id: body.id,
+        vector: body.vector,
+        payload: body.payload ?? {},
+        metadata: body.metadata ?? {},
+      });
+      sendJson(res, 200, { id: body.id, namespace: body.namespace, status: existed ? 'updated' : 'created' });
+      return;
+    }
+
+    if (method === 'POST' && path === '/vectors/delete') {
+      sendJson(res, 200, { deleted: vectors.delete(key(body.namespace, body.id)) });
+      return;
+    }
+
+    if (method === 'POST' && path === '/vectors/exists') {
+      sendJson(res, 200, { ids: (body.ids as string[]).filter(id => vectors.has(key(body.namespace, id))) });
+      return;
+    }
+
+    if (method === 'POST' && path === '/vectors/query') {
+      let candidates = inNamespace(body.namespace).map(v => ({
+        ...v,
+        score: body.vector ? cosine(body.vector, v.vector) : undefined,
+      }));
+      if (body.vector) {
+        candidates = candidates.sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+      }
+      const page = candidates.slice(body.offset ?? 0, (body.offset ?? 0) + (body.limit ?? 100));
+      sendJson(res, 200, {
+        items: page.map(v => ({ id: v.id, score: v.score, payload: v.payload, metadata: v.metadata })),
+        total: candidates.length,
+      });
+      return;
+    }
+
+    if (method === 'POST' && path === '/vectors/similarity') {
+      const stored = inNamespace(body.namespace);
+      const best = new Map<string, { v: FakeVector; score: number }>();
+      for (const context of body.contextVectors as number[][]) {
+        for (const v of stored) {
+          const score = cosine(context, v.vector);
+          if (score < body.threshold) continue;
+          const current = best.get(v.id);
+          if (!current || current.score < score) best.set(v.id, { v, score });
+        }
+      }
+      const neighbors = Array.from(best.values())
+        .sort((a, b) => b.score - a.score)
+        .slice(0, body.k)
+        .map(({ v, score }) => ({
+          id: v.id,
+          score,
+          vector: v.vector,
+          payload: v.payload,
+          metadata: body.includeMetadata ? v.metadata : undefined,
+        }));
+      sendJson(res, 200, { neighbors, processed: body.contextVectors.length });
+      return;
+    }
+
+    if (method === 'POST' && path === '/predict') {
+      sendJson(res, 200, { model: body.model, output: { echo: body.input }, confidence: 0.5 });
+      return;
+    }
+
+    sendJson(res, 404, { error: 'not_found', message: `No route for ${method} ${path}` });
+  };
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf-8');
+      const body = text.length > 0 ? JSON.parse(text) : undefined;
+      const method = req.method ?? 'GET';
+      const path = (req.url ?? '/').split('?')[0];
+      requests.push({ method, path, headers: req.headers, body });
+
+      const respond = () => {
+        if (options.apiKey && req.headers.authorization !== `Bearer ${options.apiKey}`) {
+          sendJson(res, 401, { error: 'unauthorized', message: 'Invalid API key' });
+          return;
+        }
+
+        const failure = failures.shift();
+        if (failure !== undefined) {
+          sendJson(res, failure, { error: 'injected_failure', message: `Injected ${failure}` });
+          return;
+        }
+
+        if (empties > 0) {
+          empties--;
+          res.writeHead(200, { 'content-length': 0 });
+          res.end();
+          return;
+        }
+
+        handle(method, path, body, res);
+      };
+
+      const delay = delays.shift();
+      if (delay !== undefined) {
+        setTimeout(respond, delay);
+      } else {
+        respond();
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    vectors,
+    requests,
+    failNext(statusCode: number, count = 1) {
+      failures = failures.concat(Array(count).fill(statusCode));
+    },
+    delayNext(ms: number, count = 1) {
+      delays = delays.concat(Array(count).fill(ms));
+    },
+    emptyNext(count = 1) {
+      empties += count;
+    },
+    reset() {
+      vectors.clear();
+      requests.length = 0;
+      failures = [];
+      delays = [];
+      empties = 0;
+    },
+    close() {
+      server.closeAllConnections();
+      return new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve())));
+    },
+  };
+}
@@ -1,8 +1,9 @@
 /**
- * Compile-time test for VectorClient contract
+ * Contract test for VectorClient
  *
  * This test verifies that the VectorClient exposes the minimal stable contract
- * required by Layer 3 without executing network calls or Docker.
+ * required by Layer 3, exercised end to end against an in-process fake RuvVector
+ * server (no Docker or external network required).
  *
  * Contract methods:
  * - connect(): Promise<void>
@@ -16,30 +17,48 @@ import {
   VectorClientConfig,
   UpsertResult,
   CircuitState,
+  RuvVectorError,
+  DEFAULT_NAMESPACE,
 } from '../../src/clients/VectorClient';
 import {
   VectorQueryResult,
   PredictionResult,
 } from '../../src/types';
+import { startFakeRuvVectorServer, FakeRuvVectorServer } from '../support/fakeRuvVectorServer';
 
 describe('VectorClient Contract', () => {
+  let server: FakeRuvVectorServer;
   let client: VectorClient;
-  const testConfig: VectorClientConfig = {
-    serviceUrl: 'http://test-ruvvector:6379',
-    apiKey: 'test-api-key',
-    timeout: 5000,
-    poolSize: 5,
-    circuitBreaker: {
-      threshold: 3,
-      timeout: 10000,
-      resetTimeout: 30000,
-    },
-  };
+  let testConfig: VectorClientConfig;
+
+  beforeAll(async () => {
+    server = await startFakeRuvVectorServer({ apiKey: 'test-api-key' });
+    testConfig = {
+      serviceUrl: server.url,
+      apiKey: 'test-api-key',
+      timeout: 5000,
+      poolSize: 5,
+      circuitBreaker: {
+        threshold: 3,
+        timeout: 10000,
+        resetTimeout: 30000,
+      },
+    };
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
 
   beforeEach(() => {
+    server.reset();
     client = new VectorClient(testConfig);
   });
 
+  afterEach(() => {
+    client.close();
+  });
+
   describe('Contract Method Existence', () => {
     it('should expose connect() method', () => {
       expect(typeof client.connect).toBe('function');
@@ -187,6 +206,145 @@ describe('VectorClient Contract', () => {
     });
   });
 
+  describe('End-to-end against fake RuvVector', () => {
+    it('should send the API key as a Bearer token', async () => {
+      await client.connect();
+
+      expect(server.requests[0].path).toBe('/health');
+      expect(server.requests[0].headers.authorization).toBe('Bearer test-api-key');
+      expect(client.isConnected()).toBe(true);
+    });
+
+    it('should persist upserted vectors on the server', async () => {
+      const result = await client.upsert('test-namespace', 'vec-1', [1, 0, 0], { key: 'value' });
+
+      expect(result).toEqual({ id: 'vec-1', namespace: 'test-namespace', status: 'created' });
+      expect(server.vectors.get('test-namespace/vec-1')?.metadata).toEqual({ key: 'value' });
+    });
+
+    it('should delete vectors and report whether they existed', async () => {
+      await client.upsert('test-namespace', 'vec-1', [1, 0, 0], {});
+
+      await expect(client.delete('test-namespace', 'vec-1')).resolves.toEqual({ id: 'vec-1', namespace: 'test-namespace', deleted: true });
+      await expect(client.delete('test-namespace', 'vec-1')).resolves.toMatchObject({ deleted: false });
+      expect(server.vectors.size).toBe(0);
+    });
+
+    it('should return inserted events from a similarity query', async () => {
+      await client.insert({ id: 'a', vector: [1, 0, 0], payload: { n: 1 }, metadata: { source: 's' } });
+      await client.insert({ id: 'b', vector: [0, 1, 0], payload: { n: 2 }, metadata: { source: 's' } });
+
+      const result = await client.query({ vector: [0.9, 0.1, 0], limit: 10, offset: 0 });
+
+      expect(result.total).toBe(2);
+      expect(result.items[0].id).toBe('a');
+      expect(result.items[0].payload).toEqual({ n: 1 });
+      expect(server.vectors.has(`${DEFAULT_NAMESPACE}/a`)).toBe(true);
+    });
+
+    it('should return neighbors from similarity()', async () => {
+      await client.insert({ id: 'a', vector: [1, 0], payload: {}, metadata: {} });
+
+      const result = await client.similarity({
+        contextVectors: [[1, 0]],
+        k: 5,
+        threshold: 0.5,
+        includeMetadata: true,
+      });
+
+      expect(result.processed).toBe(1);
+      expect(result.neighbors.map(n => n.id)).toEqual(['a']);
+    });
+
+    it('should search the neighbours of each context vector with a request of its own', async () => {
+      await client.insert({ id: 'a', vector: [1, 0], payload: {}, metadata: {} });
+      await client.insert({ id: 'b', vector: [0, 1], payload: {}, metadata: {} });
+      server.requests.length = 0;
+
+      const result = await client.similarity({
+        contextVectors: [[1, 0], [0, 1]],
+        k: 5,
+        threshold: 0.5,
+        includeMetadata: false,
+      });
+
+      expect(server.requests.map(request => (request.body as { contextVectors: number[][] }).contextVectors)).toEqual([[[1, 0]], [[0, 1]]]);
+      expect(result.groups.map(group => group.map(n => n.id))).toEqual([['a'], ['b']]);
+      expect(result.neighbors.map(n => n.id)).toEqual(['a', 'b']);
+    });
+
+    it('should reject with RuvVectorError carrying the upstream status', async () => {
+      server.failNext(400);
+
+      await expect(client.query({ limit: 10, offset: 0 })).rejects.toMatchObject({
+        name: 'RuvVectorError',
+        statusCode: 400,
+      });
+    });
+
+    it('should treat an empty 2xx body as an empty result', async () => {
+      server.emptyNext(2);
+
+      await expect(client.query({ limit: 10, offset: 0 })).resolves.toMatchObject({ items: [], total: 0 });
+      await expect(client.run_prediction('model-a', { x: 1 })).resolves.toMatchObject({
+        model: 'model-a',
+        output: {},
+        confidence: 0,
+      });
+    });
+
+    it('should treat an empty 2xx upsert reply as stored, per item in a batch', async () => {
+      const record = { id: 'empty-1', vector: [1, 0], payload: {}, metadata: {} };
+      server.emptyNext(1);
+      await expect(client.insert(record)).resolves.toEqual({ id: 'empty-1' });
+
+      server.emptyNext(1);
+      await expect(client.insertMany([record, { ...record, id: 'empty-2' }])).resolves.toEqual([{ id: 'empty-1' }, { id: 'empty-2' }]);
+      expect(client.getCircuitState()).toBe(CircuitState.CLOSED);
+    });
+
+    it('should not trip the circuit breaker on 4xx responses', async () => {
+      const unauthorized = new VectorClient({ ...testConfig, apiKey: 'wrong-key' });
+
+      for (let i = 0; i < testConfig.circuitBreaker.threshold + 1; i++) {
+        await expect(unauthorized.query({ limit: 1, offset: 0 })).rejects.toBeInstanceOf(RuvVectorError);
+      }
+
+      expect(unauthorized.getCircuitState()).toBe(CircuitState.CLOSED);
+      unauthorized.close();
+    });
+
+    it('should open the circuit breaker after repeated 5xx responses', async () => {
+      server.failNext(503, testConfig.circuitBreaker.threshold);
+
+      for (let i = 0; i < testConfig.circuitBreaker.threshold; i++) {
+        await expect(client.query({ limit: 1, offset: 0 })).rejects.toBeInstanceOf(RuvVectorError);
+      }
+
+      expect(client.getCircuitState()).toBe(CircuitState.OPEN);
+      await expect(client.query({ limit: 1, offset: 0 })).rejects.toThrow('Circuit breaker is open');
+      await expect(client.ping()).resolves.toBe(false);
+    });
+
+    it('should fail with upstream_timeout when the server exceeds the timeout', async () => {
+      const impatient = new VectorClient({ ...testConfig, timeout: 50 });
+      server.delayNext(200);
+
+      await expect(impatient.query({ limit: 1, offset: 0 })).rejects.toMatchObject({
+        code: 'upstream_timeout',
+      });
+      impatient.close();
+    });
+
+    it('should reject connect() when the service is unreachable', async () => {
+      const unreachable = new VectorClient({ ...testConfig, serviceUrl: 'http://127.0.0.1:1' });
+
+      await expect(unreachable.connect()).rejects.toBeInstanceOf(RuvVectorError);
+      expect(unreachable.isConnected()).toBe(false);
+      unreachable.close();
+    });
+  });
+
   describe('Type Exports', () => {
     it('should export VectorClientConfig type', () => {
       const config: VectorClientConfig = testConfig;
@@ -68,6 +68,23 @@ describe('Configuration - SPARC Compliant', () => {
   });
 
   describe('Default value behavior', () => {
+    it('should only log authorization denials unless AUTHZ_ENFORCE is set', () => {
+      const original = process.env.AUTHZ_ENFORCE;
+      delete process.env.AUTHZ_ENFORCE;
+
+      try {
+        expect(getConfig().authorization.enforce).toBe(false);
+        process.env.AUTHZ_ENFORCE = 'true';
+        expect(getConfig().authorization.enforce).toBe(true);
+      } finally {
+        if (original === undefined) {
+          delete process.env.AUTHZ_ENFORCE;
+        } else {
+          process.env.AUTHZ_ENFORCE = original;
+        }
+      }
+    });
+
     it('should use default RUVVECTOR_SERVICE_URL when not provided', () => {
       const originalUrl = process.env.RUVVECTOR_SERVICE_URL;
       delete process.env.RUVVECTOR_SERVICE_URL;
@@ -82,4 +99,30 @@ describe('Configuration - SPARC Compliant', () => {
       process.env.RUVVECTOR_SERVICE_URL = originalUrl;
     });
   });
+
+  describe('Startup assertions', () => {
+    it('should refuse to start in production without QUERY_CURSOR_SECRET', () => {
+      const env = process.env;
+      process.env = {
+        ...env,
+        NODE_ENV: 'production',
+        RUVVECTOR_DB_HOST: 'db',
+        RUVVECTOR_DB_NAME: 'ruvvector',
+        RUVVECTOR_DB_USER: 'ruvvector',
+        RUVVECTOR_DB_PASSWORD: 'secret',
+      };
+      delete process.env.QUERY_CURSOR_SECRET;
+
+      try {
+        jest.resetModules();
+        const { assertRequiredEnvVars } = require('../../src/startup/assertions');
+        expect(() => assertRequiredEnvVars()).toThrow('QUERY_CURSOR_SECRET');
+
+        process.env.QUERY_CURSOR_SECRET = 'cursor-secret';
+        expect(assertRequiredEnvVars().valid).toBe(true);
+      } finally {
+        process.env = env;
+      }
+    });
+  });
 });
@@ -0,0 +1,243 @@
+import { DatabaseClient } from '../../src/clients/DatabaseClient';
+import {
+  ackDecisionEventsHandler,
+  decisionEventGroupLags,
+  getDecisionEventGroupHandler,
+  listGroupDecisionEventsHandler,
+  nackDecisionEventsHandler,
+} from '../../src/handlers/consumerGroups';
+import { register, setDecisionEventGroupLagSource } from '../../src/utils/metrics';
+import { DecisionEvent, ErrorResponse, GroupDecisionEventsResponse } from '../../src/types';
+import { asResponse, createMockResponse, mockRequest } from '../helpers/http';
+
+interface Delivery {
+  seq: number;
+  event_id: string;
+  event: DecisionEvent;
+  state: 'in_flight' | 'acked';
+  delivery_count: number;
+  visible_at: number;
+}
+
+interface Group {
+  name: string;
+  event_types: string[];
+  committed_cursor: string | null;
+  committed_seq: number;
+  deliveries: Map<number, Delivery>;
+}
+
+const eventId = (sourceId: string) => `plan_approved:${sourceId}:1704067200000`;
+
+/**
+ * Outbox of plan_approved events (tx_id = seq) plus consumer group tables, with a movable clock
+ */
+function createGroupsDb(sourceIds: string[]) {
+  const groups = new Map<string, Group>();
+  const clock = { now: 1_000_000 };
+  const position = (cursor: string | null) => {
+    const index = cursor ? sourceIds.findIndex(id => eventId(id) === cursor) : -1;
+    return index + 1;
+  };
+  const toRow = ({ seq, event, delivery_count }: Delivery) => ({ seq: String(seq), tx_id: String(seq), event, delivery_count });
+
+  const query = jest.fn(async (sql: string, params: unknown[] = []) => {
+    const group = groups.get(params[0] as string);
+
+    // Status and lag queries count the outbox too - match them before the outbox page
+    if (sql.includes('AS in_flight')) {
+      return {
+        rows: group ? [{
+          name: group.name,
+          event_types: group.event_types,
+          committed_cursor: group.committed_cursor,
+          in_flight: [...group.deliveries.values()].filter(row => row.state === 'in_flight').length,
+          lag: sourceIds.length - group.committed_seq,
+          created_at: new Date(0),
+          updated_at: new Date(0),
+        }] : [],
+      };
+    }
+    if (sql.startsWith('SELECT g.tenant_id, g.name,')) {
+      return { rows: [...groups.values()].map(row => ({ tenant_id: 'system', name: row.name, lag: sourceIds.length - row.committed_seq })) };
+    }
+    if (sql.startsWith('SELECT name, event_types, committed_cursor FROM decision_event_groups')) {
+      return { rows: group ? [{ name: group.name, event_types: group.event_types, committed_cursor: group.committed_cursor }] : [] };
+    }
+    if (sql.includes('INSERT INTO decision_event_groups')) {
+      const [eventTypes, , , , name, after] = params as [string[], unknown, unknown, unknown, string, string | null];
+      groups.set(name, { name, event_types: eventTypes, committed_cursor: after, committed_seq: position(after), deliveries: new Map() });
+      return { rows: [] };
+    }
+    if (sql.includes('SET delivery_count = d.delivery_count + 1')) {
+      const due = [...group!.deliveries.values()]
+        .filter(row => row.state === 'in_flight' && row.visible_at <= clock.now)
+        .sort((a, b) => a.seq - b.seq)
+        .slice(0, params[1] as number);
+      for (const row of due) {
+        row.delivery_count++;
+        row.visible_at = clock.now + (params[2] as number) * 1000;
+      }
+      // RETURNING order is unspecified
+      return { rows: due.reverse().map(toRow) };
+    }
+    if (sql.startsWith('SELECT COALESCE(')) {
+      const latest = [...group!.deliveries.values()].sort((a, b) => b.seq - a.seq)[0];
+      return { rows: [{ cursor: latest?.event_id ?? group!.committed_cursor }] };
+    }
+    if (sql.includes('FROM decision_events e')) {
+      const after = sourceIds.indexOf(params[2] as string);
+      return {
+        rows: sourceIds.slice(after + 1, after + 1 + (params[4] as number)).map(id => ({
+          seq: String(sourceIds.indexOf(id) + 1),
+          tx_id: String(sourceIds.indexOf(id) + 1),
+          event_type: 'plan_approved',
+          source_id: id,
+          decision_id: `d-${id}`,
+          occurred_at: new Date(1704067200000),
+          approved: true,
+          outcome: 'approve',
+          advisory: false,
+        })),
+      };
+    }
+    if (sql.includes('INSERT INTO decision_event_deliveries')) {
+      const claimed: Array<{ seq: string }> = [];
+      for (const row of JSON.parse(params[1] as string)) {
+        const seq = Number(row.seq);
+        if (seq <= group!.committed_seq || group!.deliveries.has(seq)) continue;
+        group!.deliveries.set(seq, {
+          seq,
+          event_id: row.event_id,
+          event: row.event,
+          state: 'in_flight',
+          delivery_count: 1,
+          visible_at: clock.now + (params[2] as number) * 1000,
+        });
+        claimed.push({ seq: String(seq) });
+      }
+      return { rows: claimed };
+    }
+    if (sql.includes("SET state = 'acked'") || sql.includes('SET visible_at = NOW()')) {
+      const settled = [...group!.deliveries.values()].filter(row => row.state === 'in_flight' && (params[1] as string[]).includes(row.event_id));
+      for (const row of settled) {
+        if (sql.includes("'acked'")) row.state = 'acked';
+        else row.visible_at = clock.now + (params[2] as number) * 1000;
+      }
+      return { rows: settled.map(row => ({ seq: String(row.seq) })) };
+    }
+    if (sql.startsWith('WITH pending AS')) {
+      const rows = [...group!.deliveries.values()].sort((a, b) => a.seq - b.seq);
+      const pending = rows.find(row => row.state === 'in_flight');
+      const candidate = rows.filter(row => row.state === 'acked' && (!pending || pending.seq > row.seq)).pop();
+      if (candidate && candidate.seq > group!.committed_seq) {
+        group!.committed_seq = candidate.seq;
+        group!.committed_cursor = candidate.event_id;
+        rows.filter(row => row.state === 'acked' && row.seq <= candidate.seq).forEach(row => group!.deliveries.delete(row.seq));
+      }
+      return { rows: [{ committed_cursor: group!.committed_cursor }] };
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  });
+
+  return { db: { query } as unknown as DatabaseClient, groups, clock };
+}
+
+async function lease(db: DatabaseClient, query: Record<string, string>, headers: Record<string, string> = {}) {
+  const res = createMockResponse();
+  await listGroupDecisionEventsHandler(mockRequest({ headers, query }), asResponse(res), db);
+  return res;
+}
+
+async function settle(handler: typeof ackDecisionEventsHandler, db: DatabaseClient, body: unknown) {
+  const res = createMockResponse();
+  await handler(mockRequest({ body }), asResponse(res), db);
+  return res;
+}
+
+describe('decision event consumer groups', () => {
+  it('should lease each event once and re-deliver it after the visibility timeout', async () => {
+    const { db, clock } = createGroupsDb(['a-1', 'a-2', 'a-3']);
+
+    const first = await lease(db, { group: 'billing', limit: '2', visibility_timeout: '30' });
+
+    expect(first.statusCode).toBe(200);
+    expect(first.body).toMatchObject({ group: 'billing', visibility_timeout: 30, next_cursor: eventId('a-2') });
+    expect((first.body as GroupDecisionEventsResponse).events.map(event => [event.id, event.delivery_count])).toEqual([
+      [eventId('a-1'), 1],
+      [eventId('a-2'), 1],
+    ]);
+
+    // Another consumer of the group only gets what is not in flight
+    const second = await lease(db, { group: 'billing' });
+    expect((second.body as GroupDecisionEventsResponse).events.map(event => event.id)).toEqual([eventId('a-3')]);
+
+    clock.now += 31_000;
+    const third = await lease(db, { group: 'billing', limit: '10' });
+    expect((third.body as GroupDecisionEventsResponse).events.map(event => [event.id, event.delivery_count])).toEqual([
+      [eventId('a-1'), 2],
+      [eventId('a-2'), 2],
+      [eventId('a-3'), 2],
+    ]);
+  });
+
+  it('should commit the offset only past contiguously acked events', async () => {
+    const { db, groups } = createGroupsDb(['a-1', 'a-2', 'a-3']);
+    await lease(db, { group: 'billing' });
+
+    const outOfOrder = await settle(ackDecisionEventsHandler, db, { group: 'billing', event_ids: [eventId('a-2'), 'unknown'] });
+    expect(outOfOrder.body).toEqual({ group: 'billing', acked: 1, committed_cursor: null });
+
+    const contiguous = await settle(ackDecisionEventsHandler, db, { group: 'billing', event_ids: [eventId('a-1')] });
+    expect(contiguous.body).toEqual({ group: 'billing', acked: 1, committed_cursor: eventId('a-2') });
+    expect([...groups.get('billing')!.deliveries.keys()]).toEqual([3]);
+
+    const res = createMockResponse();
+    await getDecisionEventGroupHandler(mockRequest({ params: { group: 'billing' } }), asResponse(res), db);
+    expect(res.body).toMatchObject({ group: 'billing', committed_cursor: eventId('a-2'), in_flight: 1, lag: 1 });
+  });
+
+  it('should re-deliver nacked events immediately and start new groups from ?after=', async () => {
+    const { db } = createGroupsDb(['a-1', 'a-2', 'a-3']);
+    await lease(db, { group: 'billing', after: eventId('a-1') });
+
+    const nacked = await settle(nackDecisionEventsHandler, db, { group: 'billing', event_ids: [eventId('a-3')] });
+    expect(nacked.body).toEqual({ group: 'billing', nacked: 1 });
+
+    const redelivered = await lease(db, { group: 'billing' });
+    expect((redelivered.body as GroupDecisionEventsResponse).events.map(event => [event.id, event.delivery_count])).toEqual([[eventId('a-3'), 2]]);
+  });
+
+  it('should reject invalid names, streams, mismatched types and unknown groups', async () => {
+    const { db } = createGroupsDb(['a-1']);
+    await lease(db, { group: 'billing' });
+
+    expect((await lease(db, { group: 'bad name!' })).statusCode).toBe(400);
+    expect((await lease(db, { group: 'billing' }, { accept: 'text/event-stream' })).statusCode).toBe(400);
+
+    const conflict = await lease(db, { group: 'billing', types: 'plan_rejected' });
+    expect(conflict.statusCode).toBe(409);
+    expect((conflict.body as ErrorResponse).error).toBe('conflict');
+
+    const missing = await settle(ackDecisionEventsHandler, db, { group: 'other', event_ids: [eventId('a-1')] });
+    expect(missing.statusCode).toBe(404);
+
+    const invalid = await settle(nackDecisionEventsHandler, db, { group: 'billing', event_ids: [] });
+    expect(invalid.statusCode).toBe(400);
+    expect((invalid.body as ErrorResponse).details?.[0].path).toBe('event_ids');
+  });
+
+  it('should export per-group lag on scrape', async () => {
+    const { db } = createGroupsDb(['a-1', 'a-2']);
+    await lease(db, { group: 'billing' });
+    await settle(ackDecisionEventsHandler, db, { group: 'billing', event_ids: [eventId('a-1')] });
+
+    setDecisionEventGroupLagSource(() => decisionEventGroupLags(db));
+    try {
+      const metric = await register.getSingleMetricAsString('ruvvector_decision_event_group_lag');
+      expect(metric).toContain('ruvvector_decision_event_group_lag{tenant="system",group="billing",service="ruvvector-service"} 1');
+    } finally {
+      setDecisionEventGroupLagSource(null);
+    }
+  });
+});
@@ -0,0 +1,382 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { VectorClient } from '../../src/clients/VectorClient';
+import { MemoryVectorBackend } from '../../src/clients/backends';
+import { DatabaseClient } from '../../src/clients/DatabaseClient';
+import {
+  HashingEmbedder,
+  HttpEmbeddingProvider,
+  EmbeddingError,
+  EmbeddingProvider,
+  createEmbeddingProvider,
+  DECISIONS_NAMESPACE,
+} from '../../src/embeddings';
+import { createDecisionHandler, similarDecisionsHandler } from '../../src/handlers/decisions';
+import { CreateDecisionResponse, SimilarDecisionsResponse } from '../../src/types';
+import { backfillDecisionEmbeddings, parseBackfillArgs } from '../../src/jobs/decisionEmbeddingBackfill';
+import { asResponse, createMockResponse, mockRequest } from '../helpers/http';
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, value, i) => sum + value * b[i], 0);
+}
+
+function createVectorClient(): VectorClient {
+  return new VectorClient(
+    {
+      serviceUrl: 'http://unused',
+      timeout: 1000,
+      poolSize: 1,
+      circuitBreaker: { threshold: 5, timeout: 1000, resetTimeout: 1000 },
+    },
+    new MemoryVectorBackend({ metric: 'cosine', m: 8, efConstruction: 32, efSearch: 16 })
+  );
+}
+
+const decisionBody = {
+  id: 'decision-1',
+  objective: 'Reduce cloud spend',
+  command: 'agentics simulate',
+  raw_output_hash: 'abc123',
+  recommendation: 'PROCEED: consolidate clusters',
+  confidence: 'HIGH',
+  signals: { financial: 'positive', risk: 'low', complexity: 'medium' },
+  embedding_text: 'reduce cloud spend by consolidating kubernetes clusters',
+  graph_relations: {
+    objective_to_repos: ['infra'],
+    repos_to_signals: { infra: ['financial'] },
+    signals_to_recommendation: ['PROCEED'],
+  },
+  created_at: '2024-01-01T00:00:00.000Z',
+};
+
+describe('HashingEmbedder', () => {
+  const embedder = new HashingEmbedder({ dimension: 128 });
+
+  it('should be deterministic and unit length', async () => {
+    const first = await embedder.embed('Migrate the billing service to Postgres');
+    const second = await embedder.embed('Migrate the billing service to Postgres');
+
+    expect(first).toEqual(second);
+    expect(first).toHaveLength(128);
+    expect(cosine(first, first)).toBeCloseTo(1);
+    expect(embedder.model).toBe('hashing-v1-128');
+  });
+
+  it('should score overlapping texts above unrelated ones', async () => {
+    const base = await embedder.embed('reduce cloud spend by consolidating clusters');
+    const related = await embedder.embed('consolidating clusters to reduce spend');
+    const unrelated = await embedder.embed('hire two frontend engineers next quarter');
+
+    expect(cosine(base, related)).toBeGreaterThan(cosine(base, unrelated));
+    expect(cosine(base, related)).toBeGreaterThan(0.5);
+  });
+
+  it('should return a zero vector for text without tokens', async () => {
+    expect((await embedder.embed('  ! ')).every(value => value === 0)).toBe(true);
+  });
+});
+
+describe('HttpEmbeddingProvider', () => {
+  let server: http.Server;
+  let url: string;
+  let lastBody: any;
+  let responseEmbedding: number[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        lastBody = JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ data: [{ embedding: responseEmbedding }] }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should post to the OpenAI-compatible embeddings endpoint', async () => {
+    responseEmbedding = [0.1, 0.2, 0.3];
+    const provider = new HttpEmbeddingProvider({ serviceUrl: url, model: 'm', dimension: 3, timeout: 1000 });
+
+    await expect(provider.embed('hello')).resolves.toEqual([0.1, 0.2, 0.3]);
+    expect(lastBody).toEqual({ model: 'm', input: 'hello' });
+  });
+
+  it('should reject embeddings whose dimension does not match config', async () => {
+    responseEmbedding = [0.1, 0.2];
+    const provider = new HttpEmbeddingProvider({ serviceUrl: url, model: 'm', dimension: 3, timeout: 1000 });
+
+    await expect(provider.embed('hello')).rejects.toMatchObject({ code: 'dimension_mismatch' });
+  });
+
+  it('should require a service URL and model from the factory', () => {
+    expect(() => createEmbeddingProvider({ provider: 'http', dimension: 3, timeout: 1000 })).toThrow('EMBEDDING_SERVICE_URL');
+  });
+});
+
+describe('createDecisionHandler embeddings', () => {
+  it('should persist the embedding and index it in the decisions namespace', async () => {
+    const db = { query: jest.fn(async () => ({ rows: [] })) };
+    const vectorClient = createVectorClient();
+    const embedder = new HashingEmbedder({ dimension: 64 });
+    const res = createMockResponse();
+
+    await createDecisionHandler(
+      mockRequest({ body: decisionBody }),
+      asResponse(res),
+      db as unknown as DatabaseClient,
+      vectorClient,
+      embedder
+    );
+
+    expect(res.statusCode).toBe(201);
+    const { decision } = res.body as CreateDecisionResponse;
+    expect(decision.embedding).toHaveLength(64);
+    expect(decision.embedding_model).toBe('hashing-v1-64');
+
+    const params = (db.query.mock.calls[0] as unknown[])[1] as unknown[];
+    expect(JSON.parse(params[8] as string)).toEqual(decision.embedding);
+    expect(params[9]).toBe('hashing-v1-64');
+
+    const indexed = await vectorClient.query({
+      namespace: DECISIONS_NAMESPACE,
+      vector: await embedder.embed(decisionBody.embedding_text),
+      limit: 1,
+      offset: 0,
+    });
+    expect(indexed.items[0].id).toBe('decision-1');
+    expect(indexed.items[0].score).toBeCloseTo(1);
+  });
+
+  it('should still store the decision when embedding fails', async () => {
+    const db = { query: jest.fn(async () => ({ rows: [] })) };
+    const failing: EmbeddingProvider = {
+      kind: 'http',
+      model: 'remote',
+      dimension: 3,
+      embed: async () => {
+        throw new EmbeddingError('down', 'upstream_error');
+      },
+    };
+    const res = createMockResponse();
+
+    await createDecisionHandler(
+      mockRequest({ body: decisionBody }),
+      asResponse(res),
+      db as unknown as DatabaseClient,
+      createVectorClient(),
+      failing
+    );
+
+    expect(res.statusCode).toBe(201);
+    expect((res.body as CreateDecisionResponse).decision.embedding).toBeNull();
+    const params = (db.query.mock.calls[0] as unknown[])[1] as unknown[];
+    expect(params[8]).toBeNull();
+    expect(params[9]).toBeNull();
+  });
+});
+
+describe('backfillDecisionEmbeddings', () => {
+  it('should embed pending rows, skip failures and page with a keyset cursor', async () => {
+    const rows = [
+      { ...decisionBody, id: 'a', embedding: null, embedding_model: null, created_at: new Date('2024-01-01') },
+      { ...decisionBody, id: 'b', embedding_text: '', embedding: null, embedding_model: null, created_at: new Date('2024-01-02') },
+      { ...decisionBody, id: 'c', embedding: [1, 0], embedding_model: 'old-model', created_at: new Date('2024-01-03') },
+    ];
+    const selects: unknown[][] = [];
+    const updates: unknown[][] = [];
+    const db = {
+      query: jest.fn(async (text: string, params: unknown[]) => {
+        if (text.startsWith('UPDATE')) {
+          if (params[0] === 'b') throw new Error('update failed');
+          updates.push(params);
+          return { rows: [] };
+        }
+        selects.push(params);
+        return { rows: selects.length === 1 ? rows.slice(0, 2) : selects.length === 2 ? rows.slice(2) : [] };
+      }),
+    };
+    const vectorClient = createVectorClient();
+
+    const result = await backfillDecisionEmbeddings(
+      db as unknown as DatabaseClient,
+      vectorClient,
+      new HashingEmbedder({ dimension: 16 }),
+      { batchSize: 2 }
+    );
+
+    expect(result).toEqual({ scanned: 3, embedded: 2, indexed: 2, failed: 1 });
+    const embeddingUpdates = updates.filter(params => params.length === 3);
+    const indexedMarks = updates.filter(params => params.length === 1);
+    expect(embeddingUpdates.map(params => params[0])).toEqual(['a', 'c']);
+    expect(indexedMarks.map(params => params[0])).toEqual(['a', 'c']);
+    expect(selects[1].slice(2, 4)).toEqual([rows[1].created_at, 'b']);
+
+    const indexed = await vectorClient.query({ namespace: DECISIONS_NAMESPACE, limit: 10, offset: 0 });
+    expect(indexed.items.map(item => item.id).sort()).toEqual(['a', 'c']);
+  });
+
+  it('should index a decision whose vector-store write failed at ingest', async () => {
+    const stored = new Map<string, { embedding: number[]; embedding_model: string; indexed_at: Date | null }>();
+    const db = {
+      query: jest.fn(async (text: string, params: unknown[]) => {
+        if (text.startsWith('INSERT')) {
+          stored.set(params[0] as string, {
+            embedding: JSON.parse(params[8] as string),
+            embedding_model: params[9] as string,
+            indexed_at: null,
+          });
+        } else if (text.startsWith('UPDATE decisions SET indexed_at')) {
+          stored.get(params[0] as string)!.indexed_at = new Date();
+        } else if (text.includes('indexed_at IS NULL') && !params.includes('decision-1')) {
+          const row = stored.get('decision-1')!;
+          if (row.indexed_at === null) {
+            return { rows: [{ ...decisionBody, ...row, created_at: new Date(decisionBody.created_at), tenant_id: 'system' }] };
+          }
+        }
+        return { rows: [] };
+      }),
+    };
+    const embedder = new HashingEmbedder({ dimension: 16 });
+    const vectorClient = createVectorClient();
+    const insert = jest.spyOn(vectorClient, 'insert').mockRejectedValueOnce(new Error('vector store down'));
+    const res = createMockResponse();
+
+    await createDecisionHandler(
+      mockRequest({ body: decisionBody }),
+      asResponse(res),
+      db as unknown as DatabaseClient,
+      vectorClient,
+      embedder
+    );
+
+    expect(res.statusCode).toBe(201);
+    expect(stored.get('decision-1')!.indexed_at).toBeNull();
+
+    const result = await backfillDecisionEmbeddings(
+      db as unknown as DatabaseClient,
+      vectorClient,
+      embedder,
+      { batchSize: 10 }
+    );
+
+    expect(result).toEqual({ scanned: 1, embedded: 0, indexed: 1, failed: 0 });
+    expect(insert).toHaveBeenCalledTimes(2);
+    expect(stored.get('decision-1')!.indexed_at).toBeInstanceOf(Date);
+    const indexed = await vectorClient.query({ namespace: DECISIONS_NAMESPACE, limit: 10, offset: 0 });
+    expect(indexed.items.map(item => item.id)).toEqual(['decision-1']);
+  });
+
+  it('should parse command line flags', () => {
+    expect(parseBackfillArgs(['--batch-size=10', '--limit=5', '--reindex'])).toEqual({ batchSize: 10, limit: 5, reindex: true });
+    expect(() => parseBackfillArgs(['--batch-size=0'])).toThrow('positive integer');
+    expect(() => parseBackfillArgs(['--force'])).toThrow('Unknown argument');
+  });
+});
+
+describe('similarDecisionsHandler', () => {
+  const embedder = new HashingEmbedder({ dimension: 64 });
+  const stored = [
+    { ...decisionBody, id: 'source', embedding_text: 'reduce cloud spend by consolidating clusters' },
+    { ...decisionBody, id: 'precedent', embedding_text: 'consolidating clusters to reduce cloud spend' },
+    { ...decisionBody, id: 'unrelated', embedding_text: 'hire frontend engineers for the mobile team' },
+  ];
+
+  async function setup() {
+    const vectorClient = createVectorClient();
+    const rows = await Promise.all(stored.map(async decision => ({
+      ...decision,
+      embedding: await embedder.embed(decision.embedding_text),
+      embedding_model: embedder.model,
+    })));
+    for (const row of rows) {
+      await vectorClient.insert({
+        namespace: DECISIONS_NAMESPACE,
+        id: row.id,
+        vector: row.embedding,
+        payload: {},
+        metadata: {},
+      });
+    }
+
+    const db = {
+      query: jest.fn(async (text: string, params: unknown[]) => {
+        if (text.includes('FROM decisions WHERE id = $1')) {
+          return { rows: rows.filter(row => row.id === params[0]) };
+        }
+        if (text.includes('FROM decisions WHERE id = ANY')) {
+          return { rows: rows.filter(row => (params[0] as string[]).includes(row.id)) };
+        }
+        if (text.includes('FROM approvals')) {
+          return {
+            rows: [
+              { id: 'ap-2', decision_id: 'precedent', approved: true, confidence_adjustment: null, reward: 1, advisory: true, timestamp: new Date('2024-02-02') },
+              { id: 'ap-1', decision_id: 'precedent', approved: false, confidence_adjustment: null, reward: -1, advisory: false, timestamp: new Date('2024-02-01') },
+            ],
+          };
+        }
+        if (text.includes('FROM learning_weights')) {
+          return {
+            rows: [
+              { source_type: 'decision', source_id: 'precedent', target_value: 'PROCEED', weight: -0.1, update_count: 1, updated_at: new Date('2024-02-01') },
+              { source_type: 'decision', source_id: 'someone-else', target_value: 'PROCEED', weight: 0.5, update_count: 1, updated_at: new Date('2024-02-01') },
+              { source_type: 'objective', source_id: 'Reduce cloud spend', target_value: 'PROCEED', weight: -0.1, update_count: 1, updated_at: new Date('2024-02-01') },
+            ],
+          };
+        }
+        return { rows: [] };
+      }),
+    };
+
+    return { db: db as unknown as DatabaseClient, vectorClient };
+  }
+
+  const call = async (params: Record<string, string>, query: Record<string, string>) => {
+    const { db, vectorClient } = await setup();
+    const res = createMockResponse();
+    await similarDecisionsHandler(
+      mockRequest({ params, query }),
+      asResponse(res),
+      db,
+      vectorClient,
+      embedder
+    );
+    return { statusCode: res.statusCode, body: res.body as SimilarDecisionsResponse };
+  };
+
+  it('should return precedents for a stored decision, excluding itself', async () => {
+    const res = await call({ id: 'source' }, { k: '1', min_score: '0.3' });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.query).toEqual({ decision_id: 'source', embedding_model: embedder.model });
+    expect(res.body.results).toHaveLength(1);
+
+    const [precedent] = res.body.results;
+    expect(precedent.decision.id).toBe('precedent');
+    expect(precedent.similarity).toBeGreaterThan(0.3);
+    expect(precedent.outcome.status).toBe('rejected');
+    expect(precedent.outcome.approvals.map(a => a.id)).toEqual(['ap-2', 'ap-1']);
+    expect(precedent.learning_weights.map(w => w.source_type)).toEqual(['decision', 'objective']);
+  });
+
+  it('should search by free embedding_text', async () => {
+    const res = await call({}, { embedding_text: 'hire engineers for mobile', k: '1' });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.results[0].decision.id).toBe('unrelated');
+    expect(res.body.results[0].outcome).toEqual({ status: 'pending', approvals: [] });
+  });
+
+  it('should validate input and report unknown decisions', async () => {
+    expect((await call({}, {})).statusCode).toBe(400);
+    expect((await call({}, { embedding_text: 'x', k: '0' })).statusCode).toBe(400);
+    expect((await call({ id: 'missing' }, {})).statusCode).toBe(404);
+  });
+});
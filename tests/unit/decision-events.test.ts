@@ -0,0 +1,405 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { DatabaseClient, DECISION_EVENTS_CHANNEL } from '../../src/clients/DatabaseClient';
+import { listDecisionEventsHandler, fetchDecisionEvents } from '../../src/handlers/decisionEvents';
+import { config } from '../../src/config';
+
+interface DecisionRow {
+  id: string;
+  timestamp: Date;
+  objective: string;
+  recommendation: string;
+  confidence: string;
+  command: string;
+  raw_output_hash: string;
+}
+
+interface ApprovalRow {
+  id: number;
+  decision_id: string;
+  approved: boolean;
+  outcome: 'approve' | 'reject' | 'defer';
+  defer_until: Date | null;
+  defer_reason: string | null;
+  advisory: boolean;
+}
+
+interface OutboxRow {
+  seq: number;
+  tx_id: number;
+  event_type: string;
+  source_id: string;
+  decision_id: string;
+  occurred_at: Date;
+}
+
+/**
+ * Decisions, approvals and the decision_events outbox the insert triggers write, plus a
+ * NOTIFY channel. `openTx` emulates an older transaction still open: outbox rows written
+ * at or after it are committed but held back behind pg_snapshot_xmin.
+ */
+function createEventsDb(options: { listen?: boolean } = {}) {
+  const decisions = new Map<string, DecisionRow>();
+  const approvals = new Map<string, ApprovalRow>();
+  const outbox: OutboxRow[] = [];
+  const handlers = new Set<(payload: string) => void>();
+  const state = { tx: 0, openTx: Infinity };
+
+  const position = (row: OutboxRow) => [row.tx_id, row.seq];
+  const isAfter = (row: OutboxRow, after: number[]) =>
+    row.tx_id > after[0] || (row.tx_id === after[0] && row.seq > after[1]);
+
+  const resolveCursor = (params: any[]): number[] => {
+    const [, type, id, timestamp] = params;
+    const exact = outbox.find(row => row.event_type === type && row.source_id === id);
+    if (exact) return position(exact);
+    const before = outbox.filter(row => timestamp !== null && row.occurred_at.getTime() <= (timestamp as Date).getTime());
+    return before.length > 0 ? position(before[before.length - 1]) : [0, 0];
+  };
+
+  const db = {
+    query: jest.fn(async (sql: string, params: any[]) => {
+      if (!sql.includes('FROM decision_events e')) return { rows: [] };
+      const after = resolveCursor(params);
+      const pending = outbox.filter(row => (params[0] as string[]).includes(row.event_type) && isAfter(row, after));
+
+      if (sql.includes('AS held_back')) {
+        return { rows: [{ held_back: pending.some(row => row.tx_id >= state.openTx) }] };
+      }
+
+      const rows = pending
+        .filter(row => row.tx_id < state.openTx)
+        .slice(0, params[4])
+        .map(row => {
+          const decision = decisions.get(row.decision_id)!;
+          const approval = row.source_id === row.decision_id ? undefined : approvals.get(row.source_id);
+          return {
+            ...row,
+            seq: String(row.seq),
+            objective: decision.objective,
+            recommendation: decision.recommendation,
+            confidence: decision.confidence,
+            command: decision.command,
+            raw_output_hash: decision.raw_output_hash,
+            approved: approval?.approved ?? null,
+            outcome: approval?.outcome ?? null,
+            defer_until: approval?.defer_until ?? null,
+            defer_reason: approval?.defer_reason ?? null,
+            reward: approval ? (approval.approved ? 1 : -1) : null,
+            confidence_adjustment: approval ? 0 : null,
+            advisory: approval?.advisory ?? null,
+          };
+        });
+      return { rows };
+    }),
+    subscribe: jest.fn(async (channel: string, handler: (payload: string) => void) => {
+      if (options.listen === false) throw new Error('LISTEN unavailable');
+      expect(channel).toBe(DECISION_EVENTS_CHANNEL);
+      handlers.add(handler);
+      return async () => {
+        handlers.delete(handler);
+      };
+    }),
+  };
+
+  const record = (event_type: string, source_id: string, decision_id: string, occurred_at: Date) => {
+    state.tx += 1;
+    outbox.push({ seq: outbox.length + 1, tx_id: state.tx, event_type, source_id, decision_id, occurred_at });
+    for (const handler of handlers) handler(JSON.stringify({ event_type, source_id, decision_id }));
+  };
+
+  const insert = (id: string, timestamp: string) => {
+    decisions.set(id, {
+      id,
+      timestamp: new Date(timestamp),
+      objective: `objective ${id}`,
+      recommendation: 'PROCEED',
+      confidence: 'HIGH',
+      command: 'agentics simulate',
+      raw_output_hash: 'hash',
+    });
+    record('plan_created', id, id, new Date(timestamp));
+  };
+
+  const approve = (approvalId: number, decisionId: string, timestamp: string, approved = true) => {
+    approvals.set(String(approvalId), {
+      id: approvalId,
+      decision_id: decisionId,
+      approved,
+      outcome: approved ? 'approve' : 'reject',
+      defer_until: null,
+      defer_reason: null,
+      advisory: false,
+    });
+    record(approved ? 'plan_approved' : 'plan_rejected', String(approvalId), decisionId, new Date(timestamp));
+  };
+
+  const defer = (approvalId: number, decisionId: string, timestamp: string, deferUntil: string, reason: string) => {
+    approvals.set(String(approvalId), {
+      id: approvalId,
+      decision_id: decisionId,
+      approved: false,
+      outcome: 'defer',
+      defer_until: new Date(deferUntil),
+      defer_reason: reason,
+      advisory: false,
+    });
+    record('plan_deferred', String(approvalId), decisionId, new Date(timestamp));
+  };
+
+  // What jobs/deferralExpiry writes once defer_until passes
+  const resurface = (approvalId: number) => {
+    const approval = approvals.get(String(approvalId))!;
+    record('plan_created', String(approvalId), approval.decision_id, approval.defer_until!);
+  };
+
+  return { db: db as unknown as DatabaseClient, insert, approve, defer, resurface, handlers, state };
+}
+
+async function startApp(db: DatabaseClient) {
+  const app = express();
+  app.get('/events/decisions', (req, res, next) => {
+    listDecisionEventsHandler(req, res, db).catch(next);
+  });
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+}
+
+async function stop(server: http.Server) {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+}
+
+/**
+ * Open an SSE request and collect raw chunks until `until` matches
+ */
+function readStream(url: string, headers: Record<string, string>, until: (text: string) => boolean): Promise<{ text: string; contentType?: string }> {
+  return new Promise((resolve, reject) => {
+    const req = http.get(url, { headers: { accept: 'text/event-stream', ...headers } }, (res) => {
+      let text = '';
+      res.setEncoding('utf-8');
+      res.on('data', (chunk: string) => {
+        text += chunk;
+        if (until(text)) {
+          req.destroy();
+          resolve({ text, contentType: res.headers['content-type'] });
+        }
+      });
+    });
+    req.on('error', reject);
+  });
+}
+
+describe('fetchDecisionEvents', () => {
+  it('should page plan_created events after a composite cursor', async () => {
+    const { db, insert } = createEventsDb();
+    insert('d-1', '2024-01-01T00:00:00.000Z');
+    insert('d-2', '2024-01-02T00:00:00.000Z');
+
+    const first = await fetchDecisionEvents(db, { eventTypes: ['plan_created'], cursor: null, limit: 1 });
+    expect(first.events.map(e => e.payload.decision_id)).toEqual(['d-1']);
+    expect(first.next_cursor).toBe(`plan_created:d-1:${Date.parse('2024-01-01T00:00:00.000Z')}`);
+
+    const second = await fetchDecisionEvents(db, { eventTypes: ['plan_created'], cursor: first.next_cursor, limit: 10 });
+    expect(second.events.map(e => e.payload.decision_id)).toEqual(['d-2']);
+  });
+
+  it('should page interleaved event types in commit order without gaps', async () => {
+    const { db, insert, approve } = createEventsDb();
+    insert('d-1', '2024-01-01T00:00:00.000Z');
+    insert('d-2', '2024-01-03T00:00:00.000Z');
+    // Committed after d-2 but timestamped earlier - a timestamp cursor past d-2 would skip it
+    approve(7, 'd-1', '2024-01-02T00:00:00.000Z');
+    insert('d-3', '2024-01-02T12:00:00.000Z');
+    approve(8, 'd-3', '2024-01-04T00:00:00.000Z', false);
+
+    const types = ['plan_created', 'plan_approved', 'plan_rejected'] as const;
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    for (let page = 0; page < 10; page++) {
+      const result = await fetchDecisionEvents(db, { eventTypes: [...types], cursor, limit: 1 });
+      if (result.events.length === 0) break;
+      seen.push(...result.events.map(e => `${e.type}:${e.payload.decision_id}`));
+      cursor = result.next_cursor;
+    }
+
+    expect(seen).toEqual([
+      'plan_created:d-1',
+      'plan_created:d-2',
+      'plan_approved:d-1',
+      'plan_created:d-3',
+      'plan_rejected:d-3',
+    ]);
+  });
+
+  it('should emit plan_deferred and re-surface the plan when the deferral expires', async () => {
+    const { db, insert, defer, resurface } = createEventsDb();
+    insert('d-1', '2024-01-01T00:00:00.000Z');
+    defer(9, 'd-1', '2024-01-02T00:00:00.000Z', '2024-02-01T00:00:00.000Z', 'Wait for Q1 budget');
+    resurface(9);
+
+    const result = await fetchDecisionEvents(db, { eventTypes: ['plan_created', 'plan_deferred'], cursor: null, limit: 10 });
+
+    expect(result.events.map(e => e.type)).toEqual(['plan_created', 'plan_deferred', 'plan_created']);
+    expect(result.events[1].payload).toMatchObject({
+      decision_id: 'd-1',
+      reviewer_outcome: 'deferred',
+      defer_until: '2024-02-01T00:00:00.000Z',
+      defer_reason: 'Wait for Q1 budget',
+    });
+    expect(result.events[2]).toMatchObject({
+      id: `plan_created:9:${Date.parse('2024-02-01T00:00:00.000Z')}`,
+      payload: { decision_id: 'd-1', resurfaced_from: '9', defer_reason: 'Wait for Q1 budget' },
+    });
+  });
+
+  it('should hold back events committed behind an older open transaction', async () => {
+    const { db, insert, state } = createEventsDb();
+    insert('d-1', '2024-01-01T00:00:00.000Z');
+    state.openTx = 2;
+    insert('d-2', '2024-01-02T00:00:00.000Z');
+
+    const first = await fetchDecisionEvents(db, { eventTypes: ['plan_created'], cursor: null, limit: 10 });
+    expect(first.events.map(e => e.payload.decision_id)).toEqual(['d-1']);
+
+    state.openTx = Infinity;
+    const second = await fetchDecisionEvents(db, { eventTypes: ['plan_created'], cursor: first.next_cursor, limit: 10 });
+    expect(second.events.map(e => e.payload.decision_id)).toEqual(['d-2']);
+  });
+
+  it('should resume a legacy timestamp cursor from the last event at or before it', async () => {
+    const { db, insert } = createEventsDb();
+    insert('d-1', '2024-01-01T00:00:00.000Z');
+    insert('d-2', '2024-01-02T00:00:00.000Z');
+
+    const result = await fetchDecisionEvents(db, {
+      eventTypes: ['plan_created'],
+      cursor: `plan_created:gone:${Date.parse('2024-01-01T06:00:00.000Z')}`,
+      limit: 10,
+    });
+    expect(result.events.map(e => e.payload.decision_id)).toEqual(['d-2']);
+  });
+});
+
+describe('GET /events/decisions long-poll', () => {
+  it('should hold an empty poll until a notification brings new events', async () => {
+    const { db, insert, handlers } = createEventsDb();
+    const { server, url } = await startApp(db);
+
+    try {
+      const pending = fetch(`${url}/events/decisions?types=plan_created&wait=5`).then(res => res.json() as Promise<any>);
+      while (handlers.size === 0) await new Promise(resolve => setTimeout(resolve, 5));
+      const started = Date.now();
+      insert('d-1', '2024-01-01T00:00:00.000Z');
+
+      const body = await pending;
+      expect(body.events.map((e: any) => e.payload.decision_id)).toEqual(['d-1']);
+      expect(Date.now() - started).toBeLessThan(2000);
+      expect(handlers.size).toBe(0);
+    } finally {
+      await stop(server);
+    }
+  });
+
+  it('should re-poll while a notified event is held back', async () => {
+    const { db, insert, handlers, state } = createEventsDb();
+    const { server, url } = await startApp(db);
+
+    try {
+      const pending = fetch(`${url}/events/decisions?types=plan_created&wait=5`).then(res => res.json() as Promise<any>);
+      while (handlers.size === 0) await new Promise(resolve => setTimeout(resolve, 5));
+      state.openTx = 1;
+      insert('d-1', '2024-01-01T00:00:00.000Z');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      // The older transaction ends without a notification of its own
+      state.openTx = Infinity;
+
+      const body = await pending;
+      expect(body.events.map((e: any) => e.payload.decision_id)).toEqual(['d-1']);
+    } finally {
+      await stop(server);
+    }
+  });
+
+  it('should return an empty page once the wait elapses', async () => {
+    const { db } = createEventsDb({ listen: false });
+    const { server, url } = await startApp(db);
+
+    try {
+      const started = Date.now();
+      const body = await (await fetch(`${url}/events/decisions?types=plan_created&wait=0.2`)).json();
+
+      expect(body).toEqual({ events: [], next_cursor: null });
+      expect(Date.now() - started).toBeGreaterThanOrEqual(150);
+    } finally {
+      await stop(server);
+    }
+  });
+
+  it('should hold the longest wait past the server socket timeout', async () => {
+    const { db } = createEventsDb({ listen: false });
+    const { server, url } = await startApp(db);
+    const { maxWaitSeconds } = config.events;
+    config.events.maxWaitSeconds = 0.3;
+    server.timeout = 100;
+
+    try {
+      const started = Date.now();
+      const response = await fetch(`${url}/events/decisions?types=plan_created&wait=${maxWaitSeconds}`);
+
+      expect(await response.json()).toEqual({ events: [], next_cursor: null });
+      expect(Date.now() - started).toBeGreaterThanOrEqual(250);
+    } finally {
+      config.events.maxWaitSeconds = maxWaitSeconds;
+      await stop(server);
+    }
+  });
+});
+
+describe('GET /events/decisions SSE', () => {
+  it('should stream backlog and new events with cursor ids', async () => {
+    const { db, insert, handlers } = createEventsDb();
+    insert('d-1', '2024-01-01T00:00:00.000Z');
+    const { server, url } = await startApp(db);
+
+    try {
+      const streamed = readStream(
+        `${url}/events/decisions?types=plan_created`,
+        {},
+        text => text.includes('d-2')
+      );
+      while (handlers.size === 0) await new Promise(resolve => setTimeout(resolve, 5));
+      insert('d-2', '2024-01-02T00:00:00.000Z');
+
+      const { text, contentType } = await streamed;
+      expect(contentType).toBe('text/event-stream');
+      expect(text).toContain('retry: 3000');
+      expect(text).toContain(`id: plan_created:d-1:${Date.parse('2024-01-01T00:00:00.000Z')}\nevent: plan_created\ndata: `);
+      expect(text.indexOf('d-1')).toBeLessThan(text.indexOf('d-2'));
+    } finally {
+      await stop(server);
+    }
+  });
+
+  it('should resume after Last-Event-ID', async () => {
+    const { db, insert } = createEventsDb();
+    insert('d-1', '2024-01-01T00:00:00.000Z');
+    insert('d-2', '2024-01-02T00:00:00.000Z');
+    const { server, url } = await startApp(db);
+
+    try {
+      const { text } = await readStream(
+        `${url}/events/decisions?types=plan_created`,
+        { 'last-event-id': `plan_created:d-1:${Date.parse('2024-01-01T00:00:00.000Z')}` },
+        text => text.includes('event: plan_created')
+      );
+
+      expect(text).toContain('id: plan_created:d-2:');
+      expect(text).not.toContain('"decision_id":"d-1"');
+    } finally {
+      await stop(server);
+    }
+  });
+});
@@ -0,0 +1,451 @@
+import { ZodError } from 'zod';
+import { DatabaseClient } from '../../src/clients/DatabaseClient';
+import {
+  buildDecisionGraph,
+  graphNodeId,
+  materializeDecisionGraph,
+  neighbourhood,
+  shortestPath,
+  reposForSignal,
+  DecisionGraphSource,
+} from '../../src/graph';
+import { graphHandler } from '../../src/handlers/graph';
+import { graphSchema } from '../../src/middleware/validation';
+import { backfillDecisionGraph, parseGraphBackfillArgs } from '../../src/jobs/decisionGraphBackfill';
+import { AppError } from '../../src/middleware/errorHandler';
+import { GraphNode, GraphResponse } from '../../src/types';
+import {
+  attachLearnedEdges,
+  loadLearnedEdges,
+  strongestRecommendations,
+  weightedSubgraph,
+  toGraphML,
+} from '../../src/graph';
+import { graphExportHandler } from '../../src/handlers/graph';
+import { asResponse, createMockResponse, mockRequest } from '../helpers/http';
+
+interface StoredEdge {
+  source_id: string;
+  target_id: string;
+  relation: string;
+  decision_id: string;
+}
+
+interface StoredWeight {
+  source_type: 'decision' | 'signal' | 'objective';
+  source_id: string;
+  target_value: string;
+  weight: number;
+  update_count: number;
+}
+
+/**
+ * In-memory stand-in for graph_nodes/graph_edges/learning_weights, routed on SQL text
+ */
+function createGraphDb(options: { pending?: unknown[]; weights?: StoredWeight[] } = {}) {
+  const pending = options.pending ?? [];
+  const weights = options.weights ?? [];
+  const nodes = new Map<string, GraphNode>();
+  let edges: StoredEdge[] = [];
+
+  const query = jest.fn(async (sql: string, params: any[] = []) => {
+    if (sql.startsWith('INSERT INTO graph_nodes')) {
+      params[0].forEach((id: string, i: number) => {
+        if (!nodes.has(id)) nodes.set(id, { id, type: params[1][i], label: params[2][i] });
+      });
+      return { rows: [] };
+    }
+    if (sql.startsWith('DELETE FROM graph_edges')) {
+      edges = edges.filter(edge => edge.decision_id !== params[0]);
+      return { rows: [] };
+    }
+    if (sql.startsWith('INSERT INTO graph_edges')) {
+      params[0].forEach((source: string, i: number) => {
+        edges.push({ source_id: source, target_id: params[1][i], relation: params[2][i], decision_id: params[3] });
+      });
+      return { rows: [] };
+    }
+    if (sql.startsWith('SELECT id, type, label FROM graph_nodes')) {
+      return { rows: params[0].filter((id: string) => nodes.has(id)).map((id: string) => nodes.get(id)) };
+    }
+    if (sql.includes('HAVING COUNT(*) >= $1')) {
+      const grouped = new Map<string, { source_id: string; target_id: string; relation: string; weight: number }>();
+      for (const edge of edges) {
+        const key = `${edge.source_id}|${edge.target_id}|${edge.relation}`;
+        grouped.set(key, { ...edge, weight: (grouped.get(key)?.weight ?? 0) + 1 });
+      }
+      const rows = Array.from(grouped.values()).filter(row => row.weight >= params[0]).sort((a, b) => b.weight - a.weight);
+      return { rows: rows.slice(0, params[1]) };
+    }
+    if (sql.startsWith('SELECT target_id, COUNT(DISTINCT decision_id)')) {
+      const support = new Map<string, Set<string>>();
+      for (const edge of edges) {
+        if (edge.relation !== 'supports' || !params[0].includes(edge.source_id)) continue;
+        support.set(edge.target_id, (support.get(edge.target_id) ?? new Set()).add(edge.decision_id));
+      }
+      return { rows: Array.from(support.entries()).map(([target_id, decisions]) => ({ target_id, support: String(decisions.size) })) };
+    }
+    if (sql.startsWith('SELECT source_type, source_id, target_value, weight, update_count')) {
+      const filtered = sql.includes('ANY($1)');
+      const minWeightParam = sql.match(/weight >= \$(\d+)/);
+      const limitParam = sql.match(/LIMIT \$(\d+)/);
+      const rows = weights
+        .filter(row => !row.source_id.startsWith('trajectory:'))
+        .filter(row => !filtered
+          || (row.source_type === 'decision' && params[0].includes(row.source_id))
+          || (row.source_type === 'objective' && params[1].includes(row.source_id))
+          || (row.source_type === 'signal' && params[2].includes(row.source_id.split(':')[0])))
+        .filter(row => !minWeightParam || row.weight >= params[Number(minWeightParam[1]) - 1])
+        .sort((a, b) => b.weight - a.weight);
+      return { rows: limitParam ? rows.slice(0, params[Number(limitParam[1]) - 1]) : rows };
+    }
+    if (sql.startsWith('SELECT source_id, target_id, relation, COUNT(*)')) {
+      const frontier = new Set<string>(params[0]);
+      const matchesSource = sql.includes('source_id = ANY($1)');
+      const matchesTarget = sql.includes('target_id = ANY($1)');
+      const grouped = new Map<string, { source_id: string; target_id: string; relation: string; weight: string }>();
+      for (const edge of edges) {
+        if (!((matchesSource && frontier.has(edge.source_id)) || (matchesTarget && frontier.has(edge.target_id)))) continue;
+        if (params[1] && !params[1].includes(edge.relation)) continue;
+        const key = `${edge.source_id}|${edge.target_id}|${edge.relation}`;
+        const existing = grouped.get(key);
+        grouped.set(key, { ...edge, weight: String(Number(existing?.weight ?? 0) + 1) });
+      }
+      return { rows: Array.from(grouped.values()) };
+    }
+    if (sql.startsWith('SELECT d.id')) {
+      return { rows: pending.splice(0, params[params.length - 1]) };
+    }
+    throw new Error(`Unexpected SQL: ${sql}`);
+  });
+
+  const db = {
+    query,
+    transaction: jest.fn(async (fn: (client: { query: typeof query }) => Promise<unknown>) => fn({ query })),
+  };
+
+  return { db: db as unknown as DatabaseClient, nodes, edges: () => edges };
+}
+
+const billing: DecisionGraphSource = {
+  id: 'd-1',
+  objective: 'Reduce latency',
+  recommendation: 'REFACTOR: split the billing service',
+  graph_relations: {
+    objective_to_repos: ['billing', 'gateway'],
+    repos_to_signals: { billing: ['high_latency'], gateway: ['high_latency', 'error_rate'] },
+    signals_to_recommendation: ['refactor'],
+  },
+};
+
+const search: DecisionGraphSource = {
+  id: 'd-2',
+  objective: 'Improve search relevance',
+  recommendation: 'PROCEED: tune ranking',
+  graph_relations: {
+    objective_to_repos: ['search'],
+    repos_to_signals: { search: ['high_latency'] },
+    signals_to_recommendation: [],
+  },
+};
+
+// Shaped like the rows updateLearningWeight writes for approvals of d-1 (REFACTOR) and d-2 (PROCEED)
+const learnedWeights: StoredWeight[] = [
+  { source_type: 'decision', source_id: 'd-2', target_value: 'PROCEED', weight: 0.1, update_count: 1 },
+  { source_type: 'objective', source_id: 'Reduce latency', target_value: 'REFACTOR', weight: -0.1, update_count: 1 },
+  { source_type: 'objective', source_id: 'Reduce latency', target_value: 'PROCEED', weight: 0.19, update_count: 2 },
+  { source_type: 'signal', source_id: 'high_latency:p99 above SLO', target_value: 'PROCEED', weight: 0.3, update_count: 3 },
+  { source_type: 'signal', source_id: 'high_latency:p50 regressed', target_value: 'PROCEED', weight: -0.1, update_count: 1 },
+  { source_type: 'signal', source_id: 'error_rate:spiking', target_value: 'REFACTOR', weight: 0.05, update_count: 1 },
+  { source_type: 'decision', source_id: 'trajectory:d-2', target_value: 'pattern:PROCEED', weight: 0.1, update_count: 1 },
+];
+
+async function seededGraph() {
+  const graph = createGraphDb({ weights: learnedWeights });
+  await materializeDecisionGraph(graph.db, billing);
+  await materializeDecisionGraph(graph.db, search);
+  return graph;
+}
+
+describe('buildDecisionGraph', () => {
+  it('should project graph_relations into typed nodes and edges', () => {
+    const { nodes, edges } = buildDecisionGraph(billing);
+
+    expect(nodes.map(n => n.id).sort()).toEqual([
+      'decision:d-1',
+      'objective:Reduce latency',
+      'recommendation:REFACTOR',
+      'repo:billing',
+      'repo:gateway',
+      'signal:error_rate',
+      'signal:high_latency',
+    ]);
+    expect(edges).toContainEqual({ source: 'decision:d-1', target: 'objective:Reduce latency', relation: 'addresses' });
+    expect(edges).toContainEqual({ source: 'repo:gateway', target: 'signal:error_rate', relation: 'emits' });
+    expect(edges).toContainEqual({ source: 'signal:high_latency', target: 'recommendation:REFACTOR', relation: 'supports' });
+    expect(edges).toContainEqual({ source: 'decision:d-1', target: 'recommendation:REFACTOR', relation: 'recommends' });
+    // "refactor" and the REFACTOR prefix collapse into one recommendation node
+    expect(edges.filter(e => e.relation === 'recommends')).toHaveLength(1);
+  });
+
+  it('should normalise recommendation keys only', () => {
+    expect(graphNodeId('recommendation', ' proceed ')).toBe('recommendation:PROCEED');
+    expect(graphNodeId('repo', 'Billing')).toBe('repo:Billing');
+  });
+});
+
+describe('materializeDecisionGraph', () => {
+  it('should replace only the decision own edges when re-stored', async () => {
+    const graph = await seededGraph();
+    const before = graph.edges().filter(e => e.decision_id === 'd-2').length;
+
+    await materializeDecisionGraph(graph.db, search);
+
+    expect(graph.edges().filter(e => e.decision_id === 'd-2')).toHaveLength(before);
+    expect(graph.edges().some(e => e.decision_id === 'd-1')).toBe(true);
+  });
+});
+
+describe('graph traversals', () => {
+  it('should expand a neighbourhood to the requested depth with edge weights', async () => {
+    const { db } = await seededGraph();
+
+    const result = await neighbourhood(db, 'signal:high_latency', { depth: 1, direction: 'both', maxNodes: 100 });
+
+    expect(result?.nodes.find(n => n.id === 'signal:high_latency')?.depth).toBe(0);
+    expect(result?.nodes.filter(n => n.depth === 1).map(n => n.id).sort()).toEqual([
+      'recommendation:PROCEED',
+      'recommendation:REFACTOR',
+      'repo:billing',
+      'repo:gateway',
+      'repo:search',
+    ]);
+    expect(result?.edges.find(e => e.source === 'repo:billing')?.weight).toBe(1);
+    expect(result?.truncated).toBe(false);
+  });
+
+  it('should honour direction, relation filters and the node limit', async () => {
+    const { db } = await seededGraph();
+
+    const outgoing = await neighbourhood(db, 'objective:Reduce latency', {
+      depth: 2,
+      direction: 'out',
+      relations: ['involves'],
+      maxNodes: 100,
+    });
+    expect(outgoing?.nodes.map(n => n.id).sort()).toEqual(['objective:Reduce latency', 'repo:billing', 'repo:gateway']);
+
+    const limited = await neighbourhood(db, 'signal:high_latency', { depth: 3, direction: 'both', maxNodes: 2 });
+    expect(limited?.nodes).toHaveLength(2);
+    expect(limited?.truncated).toBe(true);
+    expect(limited?.edges.every(e => limited.nodes.some(n => n.id === e.source) && limited.nodes.some(n => n.id === e.target))).toBe(true);
+
+    await expect(neighbourhood(db, 'repo:missing', { depth: 1, direction: 'both', maxNodes: 10 })).resolves.toBeNull();
+  });
+
+  it('should find the fewest-hop path within the depth limit', async () => {
+    const { db } = await seededGraph();
+
+    const path = await shortestPath(db, 'repo:search', 'decision:d-1', { maxDepth: 4, direction: 'both' });
+    expect(path?.found).toBe(true);
+    expect(path?.length).toBe(3);
+    expect(path?.nodes[0].id).toBe('repo:search');
+    expect(path?.nodes[3].id).toBe('decision:d-1');
+    expect(path?.edges).toHaveLength(3);
+
+    const tooShallow = await shortestPath(db, 'repo:search', 'decision:d-1', { maxDepth: 2, direction: 'both' });
+    expect(tooShallow).toEqual({ found: false, length: null, nodes: [], edges: [] });
+
+    const against = await shortestPath(db, 'repo:search', 'decision:d-2', { maxDepth: 4, direction: 'out' });
+    expect(against?.found).toBe(false);
+  });
+
+  it('should list repos connected to a signal, direct emitters first', async () => {
+    const { db } = await seededGraph();
+
+    const result = await reposForSignal(db, 'signal:error_rate', { depth: 3, maxNodes: 100 });
+
+    expect(result?.repos.map(r => [r.id, r.depth, r.weight])).toEqual([
+      ['repo:gateway', 1, 1],
+      ['repo:billing', 3, 0],
+      ['repo:search', 3, 0],
+    ]);
+  });
+});
+
+describe('learned knowledge graph', () => {
+  it('should map learning_weights sources onto graph nodes and skip trajectories', async () => {
+    const { db } = await seededGraph();
+
+    const edges = await loadLearnedEdges(db);
+
+    expect(edges).toHaveLength(6);
+    expect(edges[0]).toEqual({
+      source: 'signal:high_latency',
+      target: 'recommendation:PROCEED',
+      relation: 'learned',
+      weight: 0.3,
+      update_count: 3,
+      qualifier: 'p99 above SLO',
+    });
+    expect(edges.map(e => e.source)).toContain('objective:Reduce latency');
+    expect(edges.map(e => e.source)).toContain('decision:d-2');
+  });
+
+  it('should rank recommendations for an objective and signal set', async () => {
+    const { db } = await seededGraph();
+
+    const ranked = await strongestRecommendations(
+      db,
+      { objective: 'objective:Reduce latency', signals: ['signal:high_latency'] },
+      5
+    );
+
+    // PROCEED: objective 0.19 + update-weighted signal mean (0.3*3 - 0.1*1) / 4 = 0.2
+    expect(ranked.map(r => [r.recommendation, r.weight])).toEqual([
+      ['recommendation:PROCEED', 0.39],
+      ['recommendation:REFACTOR', -0.1],
+    ]);
+    expect(ranked[0].edges).toHaveLength(3);
+    expect(ranked[1].support).toBe(1);
+  });
+
+  it('should attach learned edges to a neighbourhood', async () => {
+    const { db } = await seededGraph();
+    const found = await neighbourhood(db, 'repo:gateway', { depth: 1, direction: 'out', maxNodes: 50 });
+
+    const joined = await attachLearnedEdges(db, found!);
+
+    const learned = joined.edges.filter(e => e.relation === 'learned');
+    expect(learned.map(e => e.source).sort()).toEqual(['signal:error_rate', 'signal:high_latency', 'signal:high_latency']);
+    expect(joined.nodes.find(n => n.id === 'recommendation:PROCEED')?.depth).toBe(2);
+  });
+
+  it('should export a weight-thresholded subgraph', async () => {
+    const { db } = await seededGraph();
+
+    await materializeDecisionGraph(db, { ...search, id: 'd-3' });
+
+    const graph = await weightedSubgraph(db, { minWeight: 0.1, minSupport: 2, limit: 100, learned: true });
+
+    expect(graph.edges.filter(e => e.relation !== 'learned')).toContainEqual(
+      { source: 'repo:search', target: 'signal:high_latency', relation: 'emits', weight: 2 }
+    );
+    expect(graph.edges.filter(e => e.relation !== 'learned').every(e => e.weight >= 2)).toBe(true);
+    expect(graph.edges.filter(e => e.relation === 'learned').map(e => e.weight)).toEqual([0.3, 0.19, 0.1]);
+    expect(graph.nodes.map(n => n.id)).toContain('decision:d-2');
+    expect(graph.truncated).toBe(false);
+
+    const capped = await weightedSubgraph(db, { minWeight: -1, minSupport: 1, limit: 2, learned: false });
+    expect(capped.edges).toHaveLength(2);
+    expect(capped.truncated).toBe(true);
+  });
+
+  it('should serialise GraphML with escaped attributes', () => {
+    const xml = toGraphML(
+      [{ id: 'objective:R&D <fast>', type: 'objective', label: 'R&D <fast>' }, { id: 'recommendation:PROCEED', type: 'recommendation', label: 'PROCEED' }],
+      [{ source: 'objective:R&D <fast>', target: 'recommendation:PROCEED', relation: 'learned', weight: 0.5, update_count: 2 }]
+    );
+
+    expect(xml).toContain('<node id="objective:R&amp;D &lt;fast&gt;"><data key="type">objective</data>');
+    expect(xml).toContain('<data key="weight">0.5</data><data key="update_count">2</data></edge>');
+    expect(xml).not.toContain('key="qualifier">');
+  });
+
+  it('should serve the export as GraphML', async () => {
+    const { db } = await seededGraph();
+    const res = Object.assign(createMockResponse(), {
+      contentType: '',
+      text: '',
+      type(value: string) {
+        this.contentType = value;
+        return this;
+      },
+      send(text: string) {
+        this.text = text;
+        return this;
+      },
+    });
+
+    await graphExportHandler(
+      mockRequest({ query: { format: 'graphml', min_support: '2' } }),
+      asResponse(res),
+      db
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.contentType).toBe('application/graphml+xml');
+    expect(res.text).toContain('<graph id="decisions" edgedefault="directed">');
+  });
+
+  it('should leave invalid export parameters to the error middleware', async () => {
+    const { db } = await seededGraph();
+    const res = createMockResponse();
+
+    await expect(graphExportHandler(
+      mockRequest({ query: { format: 'csv' } }),
+      asResponse(res),
+      db
+    )).rejects.toBeInstanceOf(ZodError);
+    expect(res.body).toBeUndefined();
+  });
+});
+
+describe('graphHandler', () => {
+  it('should return traversal results with metadata', async () => {
+    const { db } = await seededGraph();
+    const res = createMockResponse();
+    const body = graphSchema.parse({ operation: 'repos_for_signal', signal: 'high_latency', depth: 1 });
+
+    await graphHandler(mockRequest({ body, correlationId: 'c-1' }), asResponse(res), db);
+
+    expect(res.statusCode).toBe(200);
+    const response = res.body as GraphResponse;
+    expect(response.operation).toBe('repos_for_signal');
+    expect(response.repos?.map(r => r.id)).toEqual(['repo:billing', 'repo:gateway', 'repo:search']);
+    expect(response.metadata.correlationId).toBe('c-1');
+  });
+
+  it('should 404 on unknown nodes', async () => {
+    const { db } = await seededGraph();
+    const body = graphSchema.parse({ operation: 'neighbourhood', node: 'repo:missing' });
+
+    await expect(
+      graphHandler(mockRequest({ body, correlationId: 'c-1' }), asResponse(createMockResponse()), db)
+    ).rejects.toMatchObject({ statusCode: 404, code: 'not_found' } as Partial<AppError>);
+  });
+
+  it('should validate operations and depth limits', () => {
+    expect(graphSchema.safeParse({ operation: 'neighbourhood', node: 'nope' }).success).toBe(false);
+    expect(graphSchema.safeParse({ operation: 'neighbourhood', node: 'repo:a', depth: 99 }).success).toBe(false);
+    expect(graphSchema.safeParse({ operation: 'repos_for_signal', signal: 'repo:a' }).success).toBe(false);
+    expect(graphSchema.safeParse({ operation: 'teleport' }).success).toBe(false);
+    expect(graphSchema.safeParse({ operation: 'strongest_recommendation' }).success).toBe(false);
+    expect(graphSchema.parse({ operation: 'strongest_recommendation', objective: 'Reduce latency', signals: ['risk'] })).toMatchObject({
+      objective: 'objective:Reduce latency',
+      signals: ['signal:risk'],
+    });
+  });
+});
+
+describe('backfillDecisionGraph', () => {
+  it('should materialise pending decisions and skip failures', async () => {
+    const graph = createGraphDb({
+      pending: [
+        { ...billing, created_at: new Date('2024-01-01') },
+        { ...search, id: 'd-bad', graph_relations: null, created_at: new Date('2024-01-02') },
+      ],
+    });
+
+    const result = await backfillDecisionGraph(graph.db, { batchSize: 10 });
+
+    expect(result).toMatchObject({ scanned: 2, materialized: 1, failed: 1 });
+    expect(result.edges).toBeGreaterThan(0);
+    expect(graph.nodes.has('decision:d-1')).toBe(true);
+  });
+
+  it('should parse command line flags', () => {
+    expect(parseGraphBackfillArgs(['--batch-size=5', '--rebuild'])).toEqual({ batchSize: 5, rebuild: true });
+    expect(() => parseGraphBackfillArgs(['--limit=0'])).toThrow();
+  });
+});
@@ -0,0 +1,149 @@
+import { DatabaseClient, DECISION_EVENTS_CHANNEL } from '../../src/clients/DatabaseClient';
+import { createApprovalHandler, createApprovalSchema, resolveReviewOutcome, DEFER_REWARD } from '../../src/handlers/approvals';
+import { resurfaceExpiredDeferrals } from '../../src/jobs/deferralExpiry';
+import { CreateApprovalResponse } from '../../src/types';
+import { asResponse, createMockResponse, mockRequest } from '../helpers/http';
+
+interface ApprovalRow {
+  id: string;
+  decision_id: string;
+  approved: boolean;
+  outcome: string;
+  defer_until: string | null;
+  defer_reason: string | null;
+  reward: number;
+  advisory: boolean;
+}
+
+/**
+ * One decision plus an approvals table honouring the final-outcome partial unique index
+ */
+function createApprovalsDb() {
+  const approvals: ApprovalRow[] = [];
+  const rewards: number[] = [];
+  const isFinal = (row: ApprovalRow) => !row.advisory && row.outcome !== 'defer';
+
+  const db = {
+    query: jest.fn(async (sql: string, params: any[]) => {
+      if (sql.includes('FROM decisions WHERE id = $1')) {
+        return {
+          rows: params[0] === 'd-1'
+            ? [{
+              id: 'd-1',
+              objective: 'Ship billing v2',
+              recommendation: 'PROCEED: ship it',
+              confidence: 'HIGH',
+              signals: { financial: 'positive', risk: 'low', complexity: 'medium' },
+              graph_relations: {},
+            }]
+            : [],
+        };
+      }
+      if (sql.includes('INSERT INTO approvals')) {
+        const [id, decision_id, approved, outcome, defer_until, defer_reason, , reward, advisory] = params;
+        const row: ApprovalRow = { id, decision_id, approved, outcome, defer_until, defer_reason, reward, advisory };
+        if (isFinal(row) && approvals.some(existing => existing.decision_id === decision_id && isFinal(existing))) {
+          return { rows: [], rowCount: 0 };
+        }
+        approvals.push(row);
+        return { rows: [{ id }], rowCount: 1 };
+      }
+      if (sql.includes('SELECT id, reward, outcome FROM approvals')) {
+        return { rows: approvals.filter(row => row.decision_id === params[0] && isFinal(row)) };
+      }
+      if (sql.includes('INSERT INTO learning_weights')) {
+        // updateLearningWeight binds the reward as $5, the trajectory edge as $4
+        rewards.push(sql.includes("'recommendation', $4, $5") ? params[4] : params[3]);
+        return { rows: [], rowCount: 1 };
+      }
+      return { rows: [], rowCount: 0 };
+    }),
+  };
+
+  return { db: db as unknown as DatabaseClient, approvals, rewards };
+}
+
+async function review(db: DatabaseClient, body: Record<string, unknown>) {
+  const res = createMockResponse();
+  await createApprovalHandler(mockRequest({ body }), asResponse(res), db);
+  return res;
+}
+
+const inOneDay = () => new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+describe('createApprovalSchema', () => {
+  it('should accept the legacy boolean and map it to an outcome', () => {
+    const parsed = createApprovalSchema.parse({ decision_id: 'd-1', approved: false });
+    expect(resolveReviewOutcome(parsed)).toBe('reject');
+  });
+
+  it('should require defer_until in the future and a reason to defer', () => {
+    const result = createApprovalSchema.safeParse({
+      decision_id: 'd-1',
+      outcome: 'defer',
+      defer_until: '2020-01-01T00:00:00Z',
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.success ? [] : result.error.errors.map(e => e.path.join('.'))).toEqual(['defer_until', 'defer_reason']);
+  });
+
+  it.each([
+    ['no outcome', { decision_id: 'd-1' }, 'outcome'],
+    ['a conflicting approved flag', { decision_id: 'd-1', outcome: 'reject', approved: true }, 'approved'],
+    ['deferral fields on a final outcome', { decision_id: 'd-1', outcome: 'approve', defer_reason: 'later' }, 'defer_reason'],
+    ['an advisory deferral', { decision_id: 'd-1', outcome: 'defer', defer_until: inOneDay(), defer_reason: 'later', advisory: true }, 'advisory'],
+  ])('should reject %s', (_label, body, path) => {
+    const result = createApprovalSchema.safeParse(body);
+    expect(result.success ? [] : result.error.errors.map(e => e.path.join('.'))).toEqual([path]);
+  });
+});
+
+describe('POST /decision/approval deferrals', () => {
+  it('should persist a deferral and learn from the defer reward', async () => {
+    const { db, approvals, rewards } = createApprovalsDb();
+    const deferUntil = inOneDay();
+
+    const res = await review(db, { decision_id: 'd-1', outcome: 'defer', defer_until: deferUntil, defer_reason: 'Wait for Q3 budget' });
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body).toMatchObject({ outcome: 'defer', defer_until: deferUntil, reward: DEFER_REWARD, learning_applied: true });
+    expect(approvals).toEqual([
+      expect.objectContaining({ approved: false, outcome: 'defer', defer_until: deferUntil, defer_reason: 'Wait for Q3 budget' }),
+    ]);
+    expect(rewards.length).toBeGreaterThan(0);
+    expect(new Set(rewards)).toEqual(new Set([DEFER_REWARD]));
+  });
+
+  it('should allow a final review after deferring but not a deferral after deciding', async () => {
+    const { db, approvals } = createApprovalsDb();
+    const defer = { decision_id: 'd-1', outcome: 'defer', defer_until: inOneDay(), defer_reason: 'Not yet' };
+
+    expect((await review(db, defer)).statusCode).toBe(201);
+    const approved = await review(db, { decision_id: 'd-1', outcome: 'approve' });
+    expect(approved.statusCode).toBe(201);
+
+    const late = await review(db, defer);
+    expect(late.statusCode).toBe(200);
+    expect(late.body).toMatchObject({ id: (approved.body as CreateApprovalResponse).id, outcome: 'approve', learning_applied: false });
+    expect(approvals.map(row => row.outcome)).toEqual(['defer', 'approve']);
+  });
+});
+
+describe('resurfaceExpiredDeferrals', () => {
+  it('should notify consumers for each re-surfaced plan', async () => {
+    const query = jest.fn(async (sql: string, _params?: unknown[]) => sql.includes('INSERT INTO decision_events')
+      ? { rows: [{ source_id: 'a-1', decision_id: 'd-1' }] }
+      : { rows: [] });
+    const now = new Date('2024-06-01T00:00:00.000Z');
+
+    const result = await resurfaceExpiredDeferrals({ query } as unknown as DatabaseClient, now);
+
+    expect(result).toEqual({ resurfaced: 1 });
+    expect(query.mock.calls[0][1]).toEqual([now]);
+    expect(query).toHaveBeenCalledWith('SELECT pg_notify($1, $2)', [
+      DECISION_EVENTS_CHANNEL,
+      JSON.stringify({ table: 'approvals', id: 'a-1' }),
+    ]);
+  });
+});
@@ -1,9 +1,24 @@
+import { createSecretKey, generateKeyPairSync, randomBytes } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import {
+  authorizeRoute,
   checkEntitlement,
   decodeEntitlementContext,
-  encodeEntitlementContext
+  encodeEntitlementContext,
+  parseScopes,
+  reloadEntitlementKeys,
+  scopeGrants
 } from '../../src/utils/entitlement';
-import { EntitlementContext } from '../../src/types';
+import { parseJwks } from '../../src/utils/jwt';
+import { requireScope } from '../../src/middleware/validation';
+import { createApp } from '../../src/index';
+import { config } from '../../src/config';
+import { VectorClient } from '../../src/clients/VectorClient';
+import { DatabaseClient } from '../../src/clients/DatabaseClient';
+import { AuthorizationPolicy, EntitlementContext } from '../../src/types';
+import { asResponse, createMockResponse, mockRequest } from '../helpers/http';
 
 describe('Entitlement - SPARC Compliant', () => {
   describe('encodeEntitlementContext', () => {
@@ -126,4 +141,211 @@ describe('Entitlement - SPARC Compliant', () => {
       expect(result.scope).toBe('simulate');
     });
   });
+
+  describe('scopes', () => {
+    it('should split scope lists and expand aliases', () => {
+      expect(parseScopes('decisions:read, plans:write  all', { all: ['*'] })).toEqual(['decisions:read', 'plans:write', '*']);
+      expect(parseScopes(undefined)).toEqual([]);
+    });
+
+    it('should let admin cover write and write cover read', () => {
+      expect(scopeGrants('decisions:write', 'decisions:read')).toBe(true);
+      expect(scopeGrants('deployments:admin', 'deployments:write')).toBe(true);
+      expect(scopeGrants('decisions:read', 'decisions:write')).toBe(false);
+      expect(scopeGrants('learning:admin', 'learning:emit')).toBe(false);
+      expect(scopeGrants('learning:emit', 'learning:emit')).toBe(true);
+    });
+
+    it('should honour wildcards without crossing resources', () => {
+      expect(scopeGrants('*', 'deployments:admin')).toBe(true);
+      expect(scopeGrants('vectors:*', 'vectors:write')).toBe(true);
+      expect(scopeGrants('vectors:admin', 'decisions:read')).toBe(false);
+      expect(scopeGrants('vectors', 'vectors:read')).toBe(false);
+    });
+  });
+
+  describe('authorizeRoute', () => {
+    const policy: AuthorizationPolicy = {
+      routes: { 'POST /v1/decisions': 'decisions:write', 'GET /events/decisions': 'decisions:read' },
+      scopeAliases: { 'execution-listener': ['decisions:read'] },
+      anonymousScopes: [],
+    };
+    const entitled = (scope: string) => ({ allowed: true, tenant: 'test-tenant', scope });
+
+    it('should allow routes the entitlement scopes grant', () => {
+      expect(authorizeRoute(entitled('decisions:write'), 'POST /v1/decisions', policy))
+        .toEqual({ allowed: true, requiredScope: 'decisions:write' });
+      expect(authorizeRoute(entitled('execution-listener'), 'GET /events/decisions', policy).allowed).toBe(true);
+    });
+
+    it('should deny with a machine-readable reason', () => {
+      expect(authorizeRoute(entitled('decisions:read'), 'POST /v1/decisions', policy))
+        .toEqual({ allowed: false, requiredScope: 'decisions:write', reason: 'missing_scope' });
+      expect(authorizeRoute(null, 'GET /events/decisions', policy))
+        .toEqual({ allowed: false, requiredScope: 'decisions:read', reason: 'entitlement_required' });
+      expect(authorizeRoute(entitled('*'), 'DELETE /v1/unknown', policy))
+        .toEqual({ allowed: false, reason: 'route_not_mapped' });
+    });
+
+    it('should grant anonymous scopes to requests without an entitlement', () => {
+      expect(authorizeRoute(null, 'GET /events/decisions', { ...policy, anonymousScopes: ['decisions:read'] }).allowed).toBe(true);
+    });
+
+    it('should map every non-public route registered in createApp', () => {
+      const app = createApp({} as VectorClient, {} as DatabaseClient);
+      const publicRoutes = ['GET /health', 'GET /ready', 'GET /metrics', 'GET /metadata'];
+      const routes = (app._router.stack as Array<{ route?: { path: string; methods: Record<string, boolean> } }>)
+        .filter(layer => layer.route)
+        .flatMap(layer => Object.keys(layer.route!.methods).map(method => `${method.toUpperCase()} ${layer.route!.path}`))
+        .filter(route => !publicRoutes.includes(route));
+
+      expect(routes.length).toBeGreaterThan(30);
+      expect(routes.filter(route => !config.authorization.routes[route])).toEqual([]);
+    });
+  });
+
+  describe('requireScope', () => {
+    const enforce = config.authorization.enforce;
+
+    beforeEach(() => {
+      config.authorization.enforce = true;
+    });
+
+    afterEach(() => {
+      config.authorization.enforce = enforce;
+    });
+
+    function run(method: string, path: string, scope?: string) {
+      const res = createMockResponse();
+      const headers = scope ? { 'x-entitlement-context': encodeEntitlementContext({ tenant: 'test-tenant', scope }) } : {};
+      const next = jest.fn();
+      requireScope(mockRequest({ method, headers, route: { path }, path }), asResponse(res), next);
+      return { res, next };
+    }
+
+    it('should pass requests whose scopes cover the route', () => {
+      expect(run('POST', '/learning/learn', 'learning:emit').next).toHaveBeenCalled();
+      expect(run('HEAD', '/v1/plans/:id', 'plans:read').next).toHaveBeenCalled();
+    });
+
+    it('should reject other requests with 403 and the required scope', () => {
+      const denied = run('DELETE', '/v1/deployments/:id', 'deployments:write');
+      expect(denied.next).not.toHaveBeenCalled();
+      expect(denied.res.statusCode).toBe(403);
+      expect(denied.res.body).toMatchObject({ error: 'forbidden', reason: 'missing_scope', required_scope: 'deployments:admin' });
+
+      const anonymous = run('POST', '/v1/decisions');
+      expect(anonymous.res.body).toMatchObject({ error: 'forbidden', reason: 'entitlement_required' });
+    });
+
+    it('should only log denials when enforcement is off', () => {
+      config.authorization.enforce = false;
+      expect(run('POST', '/v1/decisions').next).toHaveBeenCalled();
+    });
+  });
+
+  describe('signed entitlement contexts', () => {
+    const secret = randomBytes(32);
+    const rsa = generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const ed = generateKeyPairSync('ed25519');
+    const jwks = {
+      keys: [
+        { kty: 'oct', k: secret.toString('base64url'), kid: 'hs-1', alg: 'HS256' },
+        { ...rsa.publicKey.export({ format: 'jwk' }), kid: 'rs-1', alg: 'RS256' },
+        { ...ed.publicKey.export({ format: 'jwk' }), kid: 'ed-1', alg: 'EdDSA' },
+      ],
+    };
+    const context: EntitlementContext = { tenant: 'test-tenant', scope: 'decisions:read' };
+
+    beforeEach(() => {
+      config.entitlement.jwks = JSON.stringify(jwks);
+      config.entitlement.allowUnsigned = false;
+      reloadEntitlementKeys();
+    });
+
+    afterEach(() => {
+      config.entitlement.jwks = undefined;
+      config.entitlement.jwksFile = undefined;
+      config.entitlement.allowUnsigned = true;
+      reloadEntitlementKeys();
+      jest.restoreAllMocks();
+    });
+
+    it('should accept contexts signed with HS256, RS256 and EdDSA keys', () => {
+      for (const signing of [
+        { kid: 'hs-1', alg: 'HS256' as const, key: createSecretKey(secret) },
+        { kid: 'rs-1', alg: 'RS256' as const, key: rsa.privateKey },
+        { kid: 'ed-1', alg: 'EdDSA' as const, key: ed.privateKey },
+      ]) {
+        const token = encodeEntitlementContext(context, signing);
+        expect(token.split('.')).toHaveLength(3);
+        expect(checkEntitlement(token)).toEqual({ allowed: true, tenant: 'test-tenant', scope: 'decisions:read' });
+      }
+    });
+
+    it('should reject unsigned contexts unless the dev flag is set', () => {
+      expect(checkEntitlement(encodeEntitlementContext(context))).toEqual({
+        allowed: false,
+        reason: 'Unsigned entitlement context',
+      });
+    });
+
+    it('should reject tampered tokens, unknown keys and algorithm confusion', () => {
+      const [header, , signature] = encodeEntitlementContext(context, { kid: 'ed-1', alg: 'EdDSA', key: ed.privateKey }).split('.');
+      const forged = Buffer.from(JSON.stringify({ ...context, tenant: 'other-tenant', exp: 9999999999 })).toString('base64url');
+      expect(checkEntitlement(`${header}.${forged}.${signature}`).reason).toBe('Invalid entitlement token: Invalid token signature');
+
+      const unknown = encodeEntitlementContext(context, { kid: 'hs-2', alg: 'HS256', key: 'secret' });
+      expect(checkEntitlement(unknown).reason).toBe('Invalid entitlement token: Unknown token key hs-2');
+
+      // HMAC keyed with the RSA public key must not pass as RS256
+      const publicPem = rsa.publicKey.export({ format: 'pem', type: 'spki' }).toString();
+      const confused = encodeEntitlementContext(context, { kid: 'rs-1', alg: 'HS256', key: publicPem });
+      expect(checkEntitlement(confused).reason).toBe('Invalid entitlement token: Key rs-1 does not sign HS256');
+    });
+
+    it('should check exp and nbf with clock skew tolerance', () => {
+      const now = Math.floor(Date.now() / 1000);
+      const signing = { kid: 'hs-1', alg: 'HS256' as const, key: createSecretKey(secret) };
+
+      const expired = encodeEntitlementContext(context, { ...signing, now: now - 400, expiresInSeconds: 300 });
+      expect(checkEntitlement(expired).reason).toBe('Invalid entitlement token: Token expired');
+
+      const early = encodeEntitlementContext(context, { ...signing, notBefore: now + 600 });
+      expect(checkEntitlement(early).reason).toBe('Invalid entitlement token: Token not yet valid');
+
+      const skewed = encodeEntitlementContext(context, { ...signing, now: now - 330, expiresInSeconds: 300 });
+      expect(checkEntitlement(skewed).allowed).toBe(true);
+    });
+
+    it('should pick up keys rotated into the key file', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'jwks-'));
+      try {
+        const file = join(dir, 'jwks.json');
+        const rotated = randomBytes(32);
+        writeFileSync(file, JSON.stringify({ keys: [jwks.keys[0]] }));
+        config.entitlement.jwks = undefined;
+        config.entitlement.jwksFile = file;
+        reloadEntitlementKeys();
+
+        const token = encodeEntitlementContext(context, { kid: 'hs-2', alg: 'HS256', key: createSecretKey(rotated) });
+        writeFileSync(file, JSON.stringify({
+          keys: [jwks.keys[0], { kty: 'oct', k: rotated.toString('base64url'), kid: 'hs-2', alg: 'HS256' }],
+        }));
+
+        // Re-reads are rate limited
+        expect(checkEntitlement(token).allowed).toBe(false);
+        const later = Date.now() + 31000;
+        jest.spyOn(Date, 'now').mockReturnValue(later);
+        expect(checkEntitlement(token).allowed).toBe(true);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should reject key sets with keys that do not match their algorithm', () => {
+      expect(() => parseJwks({ keys: [{ ...jwks.keys[1], alg: 'EdDSA' }] })).toThrow('EdDSA needs OKP');
+      expect(() => parseJwks({ keys: [{ kty: 'oct', k: 'c2VjcmV0', alg: 'HS256' }] })).toThrow('Every JWK needs a kid');
+    });
+  });
 });
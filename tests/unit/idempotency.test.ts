@@ -0,0 +1,184 @@
+import express from 'express';
+import request from 'supertest';
+import { DatabaseClient } from '../../src/clients/DatabaseClient';
+import {
+  IdempotencyStore,
+  MemoryIdempotencyStore,
+  PgIdempotencyStore,
+  contentHash,
+  diffContentHashes,
+  requestHash,
+} from '../../src/idempotency';
+import { createIdempotencyMiddleware } from '../../src/middleware/idempotency';
+import { runWithTenant } from '../../src/utils/tenant';
+
+const options = { lockTimeoutSeconds: 60 };
+const entry = (key: string, vector: number[]) => ({ key, hashes: { vector: contentHash(vector) } });
+
+describe('content hashes', () => {
+  it('should not depend on object key order and report differing parts', () => {
+    expect(contentHash({ a: 1, b: { c: [1, 2], d: null } })).toBe(contentHash({ b: { d: null, c: [1, 2] }, a: 1 }));
+    expect(contentHash([1, 2])).not.toBe(contentHash([2, 1]));
+
+    expect(diffContentHashes({ vector: 'a', payload: 'b' }, { vector: 'a', payload: 'c' })).toEqual({
+      payload: { stored: 'b', received: 'c' },
+    });
+  });
+});
+
+describe('memory idempotency store', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should claim once, then replay identical requests and reject different ones', async () => {
+    const store = new MemoryIdempotencyStore(options);
+
+    expect(await store.claim('event', [entry('e1', [1, 0])], 0)).toEqual([{ status: 'claimed' }]);
+    expect(await store.claim('event', [entry('e1', [1, 0])], 0)).toEqual([{ status: 'in_progress' }]);
+
+    await store.complete('event', [{ key: 'e1', statusCode: 201, response: { vectorId: 'e1' } }]);
+    const [replay, conflict, other] = await store.claim('event', [entry('e1', [1, 0]), entry('e1', [0, 1]), entry('e2', [1, 0])], 0);
+
+    expect(replay).toEqual({ status: 'replay', statusCode: 201, response: { vectorId: 'e1' } });
+    expect(conflict).toEqual({ status: 'conflict', stored: { vector: contentHash([1, 0]) } });
+    expect(other).toEqual({ status: 'claimed' });
+  });
+
+  it('should free released, forgotten, abandoned and expired records and keep tenants apart', async () => {
+    const store = new MemoryIdempotencyStore(options);
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+
+    await store.claim('event', [entry('released', [1]), entry('abandoned', [1])], 0);
+    await store.release('event', ['released']);
+    expect(await store.claim('event', [entry('released', [2])], 0)).toEqual([{ status: 'claimed' }]);
+
+    await store.complete('event', [{ key: 'released', statusCode: 201, response: {} }]);
+    await store.release('event', ['released']);
+    expect((await store.claim('event', [entry('released', [3])], 0))[0].status).toBe('conflict');
+    await store.forget('event', ['released']);
+    expect(await store.claim('event', [entry('released', [3])], 0)).toEqual([{ status: 'claimed' }]);
+
+    now.mockReturnValue(1_000_000 + 61_000);
+    expect(await store.claim('event', [entry('abandoned', [2])], 0)).toEqual([{ status: 'claimed' }]);
+
+    await store.claim('POST /v1/plans', [entry('k', [1])], 10);
+    await store.complete('POST /v1/plans', [{ key: 'k', statusCode: 201, response: {} }]);
+    expect((await store.claim('POST /v1/plans', [entry('k', [2])], 10))[0].status).toBe('conflict');
+    now.mockReturnValue(1_000_000 + 72_000);
+    expect((await store.claim('POST /v1/plans', [entry('k', [2])], 10))[0].status).toBe('claimed');
+
+    const claimAs = (tenant: string) => runWithTenant(tenant, () => store.claim('event', [entry('shared', [tenant.length])], 0));
+    expect((await claimAs('tenant-a'))[0].status).toBe('claimed');
+    expect((await claimAs('tenant-bb'))[0].status).toBe('claimed');
+  });
+
+  it('should drop expired records instead of keeping every eventId', async () => {
+    const store = new MemoryIdempotencyStore(options);
+    const now = jest.spyOn(Date, 'now').mockReturnValue(10_000_000);
+
+    await store.claim('event', [entry('old', [1]), entry('kept', [1])], 60);
+    await store.complete('event', [{ key: 'old', statusCode: 201, response: {} }]);
+    now.mockReturnValue(10_000_000 + 61_000);
+    await store.claim('event', [entry('kept', [1])], 0);
+    await store.complete('event', [{ key: 'kept', statusCode: 201, response: {} }]);
+
+    now.mockReturnValue(10_000_000 + 2 * 60 * 60 * 1000);
+    await store.claim('event', [entry('new', [1])], 60);
+    expect([...store['records'].keys()]).toEqual(['system|event|kept', 'system|event|new']);
+  });
+});
+
+describe('PgIdempotencyStore', () => {
+  it('should claim in one statement and read back the records it could not claim', async () => {
+    const query = jest.fn()
+      .mockResolvedValueOnce({ rows: [] })                           // prune
+      .mockResolvedValueOnce({ rows: [{ key: 'e2' }] })              // claim
+      .mockResolvedValueOnce({
+        rows: [{
+          key: 'e1',
+          request_hash: requestHash({ vector: contentHash([1, 0]) }),
+          content_hashes: { vector: contentHash([1, 0]) },
+          status_code: 201,
+          response: { vectorId: 'e1' },
+          completed_at: new Date(0),
+        }],
+      });
+    const store = new PgIdempotencyStore({ query } as unknown as DatabaseClient, options);
+
+    const claims = await store.claim('event', [entry('e1', [1, 0]), entry('e2', [1, 0]), entry('e3', [1, 0])], 0);
+
+    expect(claims).toEqual([
+      { status: 'replay', statusCode: 201, response: { vectorId: 'e1' } },
+      { status: 'claimed' },
+      { status: 'in_progress' },
+    ]);
+    expect(query.mock.calls[1][0]).toContain('ON CONFLICT (tenant_id, scope, key) DO UPDATE');
+    expect(query.mock.calls[1][1].slice(0, 2)).toEqual(['event', ['e1', 'e2', 'e3']]);
+    expect(query.mock.calls[2][1]).toEqual(['event', ['e1', 'e3']]);
+  });
+});
+
+describe('Idempotency-Key middleware', () => {
+  function createApp(store: IdempotencyStore = new MemoryIdempotencyStore(options)) {
+    let created = 0;
+    const app = express();
+    app.use(express.json());
+    app.post('/things', createIdempotencyMiddleware(store, { backend: 'memory', keyTtlSeconds: 60, eventTtlSeconds: 60, lockTimeoutSeconds: 60 }), (req, res) => {
+      created++;
+      if (req.body.fail) {
+        res.status(503).json({ error: 'service_unavailable' });
+        return;
+      }
+      res.status(201).json({ id: created, name: req.body.name });
+    });
+    return { app, created: () => created };
+  }
+
+  it('should replay the first response for a repeated key and 409 on a different body', async () => {
+    const { app, created } = createApp();
+
+    const first = await request(app).post('/things').set('Idempotency-Key', 'key-1').send({ name: 'a' });
+    const repeat = await request(app).post('/things').set('Idempotency-Key', 'key-1').send({ name: 'a' });
+
+    expect(first.status).toBe(201);
+    expect(repeat.status).toBe(201);
+    expect(repeat.headers['idempotent-replayed']).toBe('true');
+    expect(repeat.body).toEqual({ id: 1, name: 'a' });
+    expect(created()).toBe(1);
+
+    const reused = await request(app).post('/things').set('Idempotency-Key', 'key-1').send({ name: 'b' });
+    expect(reused.status).toBe(409);
+    expect(reused.body.error).toBe('conflict');
+
+    // Without the header every request runs
+    await request(app).post('/things').send({ name: 'a' });
+    expect(created()).toBe(2);
+  });
+
+  it('should let a key be retried after a server error and reject malformed keys', async () => {
+    const { app, created } = createApp();
+
+    expect((await request(app).post('/things').set('Idempotency-Key', 'key-2').send({ fail: true })).status).toBe(503);
+    expect((await request(app).post('/things').set('Idempotency-Key', 'key-2').send({ fail: true })).status).toBe(503);
+    expect(created()).toBe(2);
+
+    const malformed = await request(app).post('/things').set('Idempotency-Key', 'x'.repeat(256)).send({});
+    expect(malformed.status).toBe(400);
+  });
+
+  it('should refuse the request when the store is unavailable', async () => {
+    const store: IdempotencyStore = {
+      kind: 'postgres',
+      claim: jest.fn().mockRejectedValue(new Error('connection refused')),
+      complete: jest.fn(),
+      release: jest.fn(),
+      forget: jest.fn(),
+    };
+    const { app, created } = createApp(store);
+
+    const response = await request(app).post('/things').set('Idempotency-Key', 'key-3').send({ name: 'a' });
+    expect(response.status).toBe(503);
+    expect(created()).toBe(0);
+  });
+});
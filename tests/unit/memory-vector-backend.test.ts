@@ -0,0 +1,300 @@
+import { HnswIndex } from '../../src/clients/backends/HnswIndex';
+import { MemoryVectorBackend, jsonContains } from '../../src/clients/backends/MemoryVectorBackend';
+import { BackendQueryParams, VectorBackendError } from '../../src/clients/backends/VectorBackend';
+
+/**
+ * Deterministic pseudo-random vectors so recall checks are reproducible
+ */
+function seededVectors(count: number, dimension: number, seed = 42): number[][] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimension }, next));
+}
+
+function bruteForce(vectors: number[][], query: number[], k: number): string[] {
+  const cosine = (a: number[], b: number[]) => {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+  };
+  return vectors
+    .map((vector, i) => ({ id: `v${i}`, score: cosine(vector, query) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map(item => item.id);
+}
+
+const backendConfig = { metric: 'cosine' as const, m: 8, efConstruction: 64, efSearch: 32 };
+
+describe('HnswIndex', () => {
+  it('should find the same neighbours as brute force for most queries', () => {
+    const vectors = seededVectors(500, 16);
+    const index = new HnswIndex({ ...backendConfig });
+    vectors.forEach((vector, i) => index.add(`v${i}`, vector));
+
+    const queries = seededVectors(20, 16, 7);
+    let hits = 0;
+    for (const query of queries) {
+      const expected = bruteForce(vectors, query, 10);
+      const actual = index.search(query, 10).map(result => result.id);
+      hits += actual.filter(id => expected.includes(id)).length;
+    }
+
+    expect(hits / (queries.length * 10)).toBeGreaterThanOrEqual(0.9);
+  });
+
+  it('should stay searchable after removals, including the entry point', () => {
+    const vectors = seededVectors(100, 8);
+    const index = new HnswIndex({ ...backendConfig });
+    vectors.forEach((vector, i) => index.add(`v${i}`, vector));
+
+    for (let i = 0; i < 100; i += 2) {
+      expect(index.remove(`v${i}`)).toBe(true);
+    }
+
+    expect(index.size).toBe(50);
+    expect(index.remove('v0')).toBe(false);
+
+    const results = index.search(vectors[1], 50);
+    expect(results).toHaveLength(50);
+    expect(results[0].id).toBe('v1');
+    expect(results.every(result => Number(result.id.slice(1)) % 2 === 1)).toBe(true);
+  });
+
+  it('should honour the accept predicate even when few nodes match', () => {
+    const vectors = seededVectors(200, 8);
+    const index = new HnswIndex({ ...backendConfig, efSearch: 4 });
+    vectors.forEach((vector, i) => index.add(`v${i}`, vector));
+
+    const results = index.search(vectors[0], 5, id => id.endsWith('7'));
+    expect(results).toHaveLength(5);
+    expect(results.every(result => result.id.endsWith('7'))).toBe(true);
+  });
+});
+
+describe('MemoryVectorBackend', () => {
+  let backend: MemoryVectorBackend;
+
+  beforeEach(() => {
+    backend = new MemoryVectorBackend({ ...backendConfig });
+  });
+
+  const upsert = (namespace: string, id: string, vector: number[], metadata: Record<string, unknown> = {}, timestamp?: string) =>
+    backend.upsert({ namespace, id, vector, payload: { id }, metadata, timestamp });
+
+  it('should report created then updated on upsert', async () => {
+    await expect(upsert('events', 'e1', [1, 0])).resolves.toEqual({ id: 'e1', namespace: 'events', status: 'created' });
+    await expect(upsert('events', 'e1', [0, 1])).resolves.toEqual({ id: 'e1', namespace: 'events', status: 'updated' });
+
+    const result = await backend.query({ namespace: 'events', vector: [0, 1], limit: 10, offset: 0 });
+    expect(result.items).toHaveLength(1);
+    expect(result.items[0].score).toBeCloseTo(1);
+  });
+
+  it('should rank by similarity and keep namespaces isolated', async () => {
+    await upsert('events', 'near', [1, 0.1]);
+    await upsert('events', 'far', [-1, 0]);
+    await upsert('other', 'exact', [1, 0]);
+
+    const result = await backend.query({ namespace: 'events', vector: [1, 0], limit: 10, offset: 0 });
+
+    expect(result.items.map(item => item.id)).toEqual(['near', 'far']);
+    expect(result.total).toBe(2);
+  });
+
+  it('should rank by a per-query metric, keeping its index current', async () => {
+    await upsert('events', 'long', [10, 0]);
+    await upsert('events', 'short', [0.9, 0.1]);
+
+    const cosine = await backend.query({ namespace: 'events', vector: [1, 0], limit: 10, offset: 0 });
+    const l2 = await backend.query({ namespace: 'events', vector: [1, 0], limit: 10, offset: 0, metric: 'l2' });
+    expect(cosine.items.map(item => item.id)).toEqual(['long', 'short']);
+    expect(l2.items.map(item => item.id)).toEqual(['short', 'long']);
+
+    await upsert('events', 'exact', [1, 0]);
+    await backend.delete('events', 'short');
+    const similar = await backend.similarity({
+      namespace: 'events', contextVectors: [[1, 0]], k: 10, threshold: 0, includeMetadata: false, metric: 'l2',
+    });
+    expect(similar.groups[0].map(neighbor => neighbor.id)).toEqual(['exact', 'long']);
+    expect(similar.groups[0][0].score).toBeCloseTo(1);
+  });
+
+  it('should apply source, type, metadata and time range filters', async () => {
+    await upsert('events', 'a', [1, 0], { source: 'github', type: 'push', tags: ['x', 'y'] }, '2024-01-01T00:00:00.000Z');
+    await upsert('events', 'b', [1, 0], { source: 'github', type: 'issue' }, '2024-02-01T00:00:00.000Z');
+    await upsert('events', 'c', [1, 0], { source: 'jira', type: 'push' }, '2024-03-01T00:00:00.000Z');
+
+    const bySource = await backend.query({ namespace: 'events', filters: { source: 'github' }, limit: 10, offset: 0 });
+    expect(bySource.items.map(item => item.id)).toEqual(['b', 'a']);
+
+    const byType = await backend.query({ namespace: 'events', vector: [1, 0], filters: { type: ['push'] }, limit: 10, offset: 0 });
+    expect(byType.items.map(item => item.id).sort()).toEqual(['a', 'c']);
+
+    const byMetadata = await backend.query({ namespace: 'events', filters: { metadata: { tags: ['y'] } }, limit: 10, offset: 0 });
+    expect(byMetadata.items.map(item => item.id)).toEqual(['a']);
+
+    const byTime = await backend.query({
+      namespace: 'events',
+      timeRange: { start: '2024-01-15T00:00:00.000Z', end: '2024-03-15T00:00:00.000Z' },
+      limit: 10,
+      offset: 0,
+    });
+    expect(byTime.items.map(item => item.id)).toEqual(['c', 'b']);
+    expect(byTime.total).toBe(2);
+  });
+
+  it('should search payload text alone or fused with vector similarity', async () => {
+    await backend.upsert({ namespace: 'events', id: 'near', vector: [1, 0], payload: { summary: 'Rollback of deploy' }, metadata: {} });
+    await backend.upsert({
+      namespace: 'events', id: 'far', vector: [0, 1], payload: { summary: 'rollback', log: ['rollback started', 'rollback done'] }, metadata: {},
+    });
+    await upsert('events', 'unrelated', [1, 0]);
+
+    const text = await backend.query({ namespace: 'events', text: 'ROLLBACK', limit: 10, offset: 0 });
+    expect(text.items.map(item => [item.id, item.textScore])).toEqual([['far', 0.75], ['near', 0.5]]);
+    expect(text.total).toBe(2);
+
+    // Every term must occur
+    const allTerms = await backend.query({ namespace: 'events', text: 'rollback deploy', limit: 10, offset: 0 });
+    expect(allTerms.items.map(item => item.id)).toEqual(['near']);
+
+    const hybrid = (fusion: BackendQueryParams['fusion']) =>
+      backend.query({ namespace: 'events', vector: [1, 0], text: 'rollback', fusion, limit: 10, offset: 0 })
+        .then(result => result.items.map(item => item.id));
+
+    expect(await hybrid({ method: 'weighted', textWeight: 0 })).toEqual(['near', 'far']);
+    expect(await hybrid({ method: 'weighted', vectorWeight: 0 })).toEqual(['far', 'near']);
+    expect(await hybrid({ method: 'rrf', vectorWeight: 2 })).toEqual(['near', 'far']);
+
+    const [first] = (await backend.query({ namespace: 'events', vector: [1, 0], text: 'rollback', limit: 1, offset: 0 })).items;
+    // Equal-weight RRF ties; both rankings put each item first once
+    expect(first).toMatchObject({ id: 'far', vectorScore: 0, textScore: 0.75 });
+    expect(first.score).toBeCloseTo(1 / 61 + 1 / 62);
+  });
+
+  it('should delete vectors from listings and similarity search', async () => {
+    await upsert('events', 'keep', [1, 0]);
+    await upsert('events', 'drop', [1, 0.01]);
+
+    await expect(backend.delete('events', 'drop')).resolves.toBe(true);
+    await expect(backend.delete('events', 'drop')).resolves.toBe(false);
+    await expect(backend.delete('missing', 'drop')).resolves.toBe(false);
+
+    const result = await backend.similarity({
+      namespace: 'events',
+      contextVectors: [[1, 0]],
+      k: 5,
+      threshold: 0,
+      includeMetadata: false,
+    });
+    expect(result.groups[0].map(neighbor => neighbor.id)).toEqual(['keep']);
+  });
+
+  it('should delete or count vectors by filter and storage time', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2024-01-01T00:00:00.000Z'));
+    await upsert('events', 'old-github', [1, 0], { source: 'github' });
+    await upsert('events', 'old-jira', [1, 0], { source: 'jira' });
+    now.mockReturnValue(Date.parse('2024-06-01T00:00:00.000Z'));
+    await upsert('events', 'new-github', [1, 0], { source: 'github' });
+    now.mockRestore();
+
+    const criteria = { namespace: 'events', filters: { source: 'github' }, storedBefore: '2024-03-01T00:00:00.000Z' };
+    await expect(backend.deleteWhere({ ...criteria, dryRun: true })).resolves.toBe(1);
+    await expect(backend.deleteWhere(criteria)).resolves.toBe(1);
+    await expect(backend.deleteWhere(criteria)).resolves.toBe(0);
+    await expect(backend.deleteWhere({ namespace: 'missing', storedBefore: criteria.storedBefore })).resolves.toBe(0);
+
+    const remaining = await backend.query({ namespace: 'events', vector: [1, 0], limit: 10, offset: 0 });
+    expect(remaining.items.map(item => item.id).sort()).toEqual(['new-github', 'old-jira']);
+  });
+
+  it('should page by keyset from the previous page, leaving out vectors stored since', async () => {
+    await upsert('events', 'a', [1, 0], {}, '2024-01-02T00:00:00.000Z');
+    await upsert('events', 'b', [1, 0], {}, '2024-01-02T00:00:00.000Z');
+    await upsert('events', 'c', [0.5, 0.5], {}, '2024-01-01T00:00:00.000Z');
+    await upsert('events', 'd', [0, 1]);
+    await upsert('events', 'e', [0, 1]);
+    const storedBefore = new Date(Date.now() + 1000).toISOString();
+    const now = jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 2000);
+
+    const pageThrough = async (query: Partial<BackendQueryParams>) => {
+      const ids: string[] = [];
+      let after: BackendQueryParams['after'];
+      for (;;) {
+        const page = await backend.query({ namespace: 'events', limit: 2, offset: 0, storedBefore, after, countTotal: false, ...query });
+        expect(page.total).toBeUndefined();
+        ids.push(...page.items.map(item => item.id));
+        if (!page.next) return ids;
+        after = page.next;
+        // Stored after the first page: outside the snapshot
+        await upsert('events', `late-${ids.length}`, [1, 0], {}, '2024-01-03T00:00:00.000Z');
+      }
+    };
+
+    expect(await pageThrough({})).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(await pageThrough({ vector: [1, 0] })).toEqual(['a', 'b', 'c', 'd', 'e']);
+    now.mockRestore();
+  });
+
+  it('should return the neighbours of each context vector above the threshold', async () => {
+    await upsert('events', 'x', [1, 0], { source: 's' });
+    await upsert('events', 'y', [0, 1]);
+    await upsert('events', 'neg', [-1, -1]);
+
+    const result = await backend.similarity({
+      namespace: 'events',
+      contextVectors: [[1, 0], [0, 1]],
+      k: 5,
+      threshold: 0.5,
+      includeMetadata: true,
+    });
+
+    expect(result.processed).toBe(2);
+    expect(result.groups.map(group => group.map(neighbor => neighbor.id))).toEqual([['x'], ['y']]);
+    expect(result.groups[0][0].metadata).toEqual({ source: 's' });
+  });
+
+  it('should only return similarity neighbours matching the filters', async () => {
+    await upsert('events', 'p1', [1, 0], { source: 'github', priority: 1 });
+    await upsert('events', 'p3', [0.9, 0.1], { source: 'github', priority: 3 });
+    await upsert('events', 'jira', [1, 0], { source: 'jira', priority: 5 });
+
+    const result = await backend.similarity({
+      namespace: 'events',
+      contextVectors: [[1, 0]],
+      filters: { source: 'github', metadata: { priority: { $gte: 2 } } },
+      k: 1,
+      threshold: 0,
+      includeMetadata: false,
+    });
+
+    expect(result.groups[0].map(neighbor => neighbor.id)).toEqual(['p3']);
+  });
+
+  it('should reject predictions as not implemented', async () => {
+    await expect(backend.predict('model', { features: {} })).rejects.toMatchObject({
+      statusCode: 501,
+      code: 'not_implemented',
+    });
+    await expect(backend.predict('model', { features: {} })).rejects.toBeInstanceOf(VectorBackendError);
+  });
+});
+
+describe('jsonContains', () => {
+  it('should follow jsonb containment semantics', () => {
+    expect(jsonContains({ a: 1, b: { c: 2 } }, { b: { c: 2 } })).toBe(true);
+    expect(jsonContains({ tags: ['x', 'y'] }, { tags: ['y'] })).toBe(true);
+    expect(jsonContains({ tags: ['x'] }, { tags: 'x' })).toBe(false);
+    expect(jsonContains({ a: 1 }, { a: '1' })).toBe(false);
+  });
+});
@@ -0,0 +1,85 @@
+import { matchesMetadataFilter } from '../../src/clients/backends/MemoryVectorBackend';
+import { metadataFilterSchema, querySchema, simulateSchema } from '../../src/middleware/validation';
+import { MetadataFilter } from '../../src/types';
+
+const metadata = {
+  source: 'github',
+  priority: 3,
+  owner: null,
+  released: '2024-03-01',
+  labels: { team: 'core', tags: ['ci', 'flaky'] },
+};
+
+const matches = (filter: MetadataFilter) => matchesMetadataFilter(metadata, filter);
+
+describe('matchesMetadataFilter', () => {
+  it('should compare field paths with each operator', () => {
+    expect(matches({ 'labels.team': { $eq: 'core' } })).toBe(true);
+    expect(matches({ source: { $in: ['jira', 'github'] } })).toBe(true);
+    expect(matches({ priority: { $gt: 2, $lte: 3 } })).toBe(true);
+    expect(matches({ priority: { $gt: 3 } })).toBe(false);
+    expect(matches({ released: { $gte: '2024-01-01', $lt: '2024-06-01' } })).toBe(true);
+    expect(matches({ 'labels.tags.1': { $eq: 'flaky' } })).toBe(true);
+    expect(matches({ owner: { $exists: true, $eq: null } })).toBe(true);
+    expect(matches({ 'labels.owner': { $exists: false } })).toBe(true);
+  });
+
+  it('should only range-compare values of the bound type', () => {
+    expect(matches({ priority: { $lt: '9' } })).toBe(false);
+    expect(matches({ released: { $gt: 0 } })).toBe(false);
+    expect(matches({ missing: { $lt: 10 } })).toBe(false);
+  });
+
+  it('should contain bare values and combine conditions with $and, $or and $not', () => {
+    expect(matches({ labels: { tags: ['flaky'] }, source: 'github' })).toBe(true);
+    expect(matches({ 'labels.team': 'core' })).toBe(true);
+    expect(matches({ $or: [{ source: 'jira' }, { priority: { $gte: 3 } }] })).toBe(true);
+    expect(matches({ $and: [{ source: 'github' }, { $not: { 'labels.team': 'core' } }] })).toBe(false);
+    expect(matches({ $not: { missing: { $eq: 1 } } })).toBe(true);
+  });
+});
+
+describe('metadataFilterSchema', () => {
+  const problems = (filter: unknown) => {
+    const result = metadataFilterSchema.safeParse(filter);
+    return result.success ? [] : result.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+  };
+
+  it('should accept operators, nested logic and bare values', () => {
+    const filter = {
+      $or: [{ priority: { $gte: 1, $lt: 5 } }, { $not: { 'labels.team': { $in: ['core', null] } } }],
+      labels: { tags: ['ci'] },
+      owner: { $exists: false },
+    };
+    expect(metadataFilterSchema.parse(filter)).toEqual(filter);
+  });
+
+  it('should report malformed filters at their path', () => {
+    expect(problems({ $or: [{ priority: { $gt: 1 } }, { priority: { $between: [1, 2] } }] })).toEqual([
+      { path: '$or.1.priority', message: "Unrecognized key(s) in object: '$between'" },
+    ]);
+    expect(problems({ $and: [{ $not: { priority: { $gt: true } } }] })[0].path).toBe('$and.0.$not.priority.$gt');
+    expect(problems({ $and: [] })[0]).toEqual({ path: '$and', message: '$and takes an array of 1-50 filters' });
+    expect(problems({ $regex: 'x' })[0].message).toMatch(/^Unknown operator \$regex/);
+    expect(problems({ 'labels..team': 1 })[0].path).toBe('labels..team');
+    expect(problems({ labels: { team: { $eq: 'core' } } })[0].path).toBe('labels');
+    expect(problems({ source: { $in: [] } })[0].path).toBe('source.$in');
+  });
+
+  it('should limit nesting depth', () => {
+    let filter: MetadataFilter = { priority: 1 };
+    for (let i = 0; i < 8; i++) filter = { $not: filter };
+    expect(problems(filter)[0].message).toBe('Filters nest at most 8 levels deep');
+  });
+
+  it('should validate the filters of /query and /simulate alike', () => {
+    const filters = { metadata: { priority: { $gt: 'x', $exists: 'yes' } } };
+    for (const schema of [querySchema, simulateSchema]) {
+      const result = schema.safeParse({ queryVector: [1], contextVectors: [[1]], filters });
+      expect(result.success).toBe(false);
+      expect(!result.success && result.error.issues.map(issue => issue.path.join('.'))).toEqual([
+        'filters.metadata.priority.$exists',
+      ]);
+    }
+  });
+});
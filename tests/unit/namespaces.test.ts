@@ -0,0 +1,85 @@
+import { DatabaseClient } from '../../src/clients/DatabaseClient';
+import {
+  MemoryNamespaceStore,
+  PgNamespaceStore,
+  checkVector,
+  conformVector,
+} from '../../src/namespaces';
+import { VectorNamespace } from '../../src/types';
+import { runWithTenant } from '../../src/utils/tenant';
+
+const definition = { name: 'docs', dimension: 3, metric: 'cosine' as const, normalize: false, description: null, ttl_seconds: null };
+
+const registered = (overrides: Partial<VectorNamespace> = {}): VectorNamespace => ({
+  ...definition,
+  created_at: '2024-01-01T00:00:00.000Z',
+  updated_at: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('namespace vector checks', () => {
+  it('should reject vectors of another dimension and zero vectors when normalizing', () => {
+    expect(checkVector(registered(), [1, 2, 3])).toBeNull();
+    expect(checkVector(registered(), [1, 2])).toEqual({
+      code: 'invalid_vector_dimension',
+      message: 'Vector has 2 dimensions, namespace docs holds 3',
+    });
+    expect(checkVector(registered(), [0, 0, 0])).toBeNull();
+    expect(checkVector(registered({ normalize: true }), [0, 0, 0])?.code).toBe('validation_error');
+  });
+
+  it('should scale vectors to unit length only for normalizing namespaces', () => {
+    expect(conformVector(registered(), [3, 0, 4])).toEqual([3, 0, 4]);
+    expect(conformVector(registered({ normalize: true }), [3, 0, 4])).toEqual([0.6, 0, 0.8]);
+  });
+});
+
+describe('MemoryNamespaceStore', () => {
+  it('should register each name once per tenant and update only mutable settings', async () => {
+    const store = new MemoryNamespaceStore();
+
+    expect(await store.create(definition)).toMatchObject({ name: 'docs', dimension: 3 });
+    expect(await store.create({ ...definition, dimension: 5 })).toBeNull();
+    expect(await runWithTenant('tenant-a', () => store.create({ ...definition, dimension: 5 }))).toMatchObject({ dimension: 5 });
+
+    expect(await store.update('docs', { normalize: true, description: 'Docs' })).toMatchObject({
+      dimension: 3, normalize: true, description: 'Docs',
+    });
+    expect(await store.update('missing', { normalize: true })).toBeNull();
+
+    expect((await store.list(10, 0)).namespaces.map(namespace => namespace.dimension)).toEqual([3]);
+    expect(await runWithTenant('tenant-a', () => store.list(10, 0))).toMatchObject({ total: 1 });
+
+    expect(await store.delete('docs')).toBe(true);
+    expect(await store.get('docs')).toBeNull();
+    expect(await runWithTenant('tenant-a', () => store.get('docs'))).not.toBeNull();
+  });
+});
+
+describe('PgNamespaceStore', () => {
+  const row = { ...definition, created_at: new Date(0), updated_at: new Date(0) };
+
+  it('should serve repeated lookups, including misses, from its cache until changed', async () => {
+    const query = jest.fn()
+      .mockResolvedValueOnce({ rows: [] })                 // get: miss
+      .mockResolvedValueOnce({ rows: [row] })              // create
+      .mockResolvedValueOnce({ rows: [] })                 // get as tenant-a: miss
+      .mockResolvedValueOnce({ rowCount: 1, rows: [] });   // delete
+    const store = new PgNamespaceStore({ query } as unknown as DatabaseClient, { cacheTtlSeconds: 30 });
+
+    expect(await store.get('docs')).toBeNull();
+    expect(await store.get('docs')).toBeNull();
+    expect(query).toHaveBeenCalledTimes(1);
+
+    expect(await store.create(definition)).toMatchObject({ name: 'docs', created_at: '1970-01-01T00:00:00.000Z' });
+    expect(query.mock.calls[1][0]).toContain('ON CONFLICT (tenant_id, name) DO NOTHING');
+    expect(await store.get('docs')).toMatchObject({ dimension: 3 });
+
+    // Another tenant's lookup is not served from this tenant's cache
+    expect(await runWithTenant('tenant-a', () => store.get('docs'))).toBeNull();
+
+    expect(await store.delete('docs')).toBe(true);
+    expect(await store.get('docs')).toBeNull();
+    expect(query).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,249 @@
+import { PgVectorBackend, compileMetadataFilter } from '../../src/clients/backends/PgVectorBackend';
+import { VectorBackendError } from '../../src/clients/backends/VectorBackend';
+import { DatabaseClient } from '../../src/clients/DatabaseClient';
+
+/**
+ * Records SQL issued by the backend and replays canned rows
+ */
+function createFakeDb(responses: Array<{ rows: unknown[] }>) {
+  const calls: Array<{ text: string; params?: unknown[] }> = [];
+  const db = {
+    query: jest.fn(async (text: string, params?: unknown[]) => {
+      calls.push({ text, params });
+      return responses.shift() ?? { rows: [] };
+    }),
+  };
+  return { db: db as unknown as DatabaseClient, calls };
+}
+
+describe('PgVectorBackend', () => {
+  it('should reject connect() when vector_events is missing', async () => {
+    const { db } = createFakeDb([{ rows: [{ table: null }] }]);
+    const backend = new PgVectorBackend(db, { metric: 'cosine' });
+
+    await expect(backend.connect()).rejects.toBeInstanceOf(VectorBackendError);
+  });
+
+  it('should upsert using pgvector literal and report created/updated', async () => {
+    const { db, calls } = createFakeDb([{ rows: [{ inserted: true }] }, { rows: [{ inserted: false }] }]);
+    const backend = new PgVectorBackend(db, { metric: 'cosine' });
+    const record = { namespace: 'events', id: 'e1', vector: [0.5, 1], payload: { a: 1 }, metadata: { source: 's' } };
+
+    await expect(backend.upsert(record)).resolves.toMatchObject({ status: 'created' });
+    await expect(backend.upsert(record)).resolves.toMatchObject({ status: 'updated' });
+    expect(calls[0].params?.slice(0, 4)).toEqual(['events', 'e1', '[0.5,1]', 2]);
+  });
+
+  it('should bulk upsert in one statement and isolate failing records when it is rejected', async () => {
+    const records = ['e1', 'e2'].map(id => ({ namespace: 'events', id, vector: [1, 0], payload: {}, metadata: {} }));
+
+    const bulk = createFakeDb([{ rows: [{ id: 'e1', inserted: true }, { id: 'e2', inserted: false }] }]);
+    const results = await new PgVectorBackend(bulk.db, { metric: 'cosine' }).upsertMany(records);
+    expect(results.map(result => (result as { status: string }).status)).toEqual(['created', 'updated']);
+    expect(bulk.calls).toHaveLength(1);
+    expect(bulk.calls[0].text).toContain('unnest(');
+    expect(bulk.calls[0].params?.[1]).toEqual(['e1', 'e2']);
+
+    const query = jest.fn()
+      .mockRejectedValueOnce(Object.assign(new Error('invalid input syntax for type vector'), { code: '22P02' }))
+      .mockResolvedValueOnce({ rows: [{ inserted: true }] })
+      .mockRejectedValueOnce(Object.assign(new Error('invalid input syntax for type vector'), { code: '22P02' }));
+    const fallback = await new PgVectorBackend({ query } as unknown as DatabaseClient, { metric: 'cosine' }).upsertMany(records);
+    expect(fallback[0]).toMatchObject({ id: 'e1', status: 'created' });
+    expect(fallback[1]).toBeInstanceOf(VectorBackendError);
+    expect(fallback[1]).toMatchObject({ statusCode: 400, code: 'invalid_record' });
+  });
+
+  it.each([
+    ['cosine', '<=>'],
+    ['l2', '<->'],
+    ['dot', '<#>'],
+  ] as const)('should rank %s queries with the %s operator and filter by dimension', async (metric, operator) => {
+    const { db, calls } = createFakeDb([
+      { rows: [{ total: '1' }] },
+      { rows: [{ id: 'e1', payload: {}, metadata: {}, event_timestamp: null, score: '0.9' }] },
+    ]);
+    const backend = new PgVectorBackend(db, { metric });
+
+    const result = await backend.query({ namespace: 'events', vector: [1, 0, 0], limit: 10, offset: 0 });
+
+    expect(result.total).toBe(1);
+    expect(result.items[0].score).toBeCloseTo(0.9);
+    expect(calls[1].text).toContain(`embedding ${operator}`);
+    expect(calls[1].text).toContain('dimension = $2');
+    expect(calls[1].params).toEqual(['events', 3, '[1,0,0]', 11, 0]);
+  });
+
+  it('should translate source/type/metadata/timeRange filters into SQL', async () => {
+    const { db, calls } = createFakeDb([{ rows: [{ total: '0' }] }, { rows: [] }]);
+    const backend = new PgVectorBackend(db, { metric: 'cosine' });
+
+    await backend.query({
+      namespace: 'events',
+      filters: { source: 'svc', type: ['a', 'b'], metadata: { region: 'eu' } },
+      timeRange: { start: '2024-01-01T00:00:00Z', end: '2024-02-01T00:00:00Z' },
+      limit: 5,
+      offset: 0,
+    });
+
+    expect(calls[0].text).toContain(`metadata->>'source' = ANY($2)`);
+    expect(calls[0].text).toContain(`metadata->>'type' = ANY($3)`);
+    expect(calls[0].text).toContain('metadata @> $4::jsonb');
+    expect(calls[0].params).toEqual([
+      'events', ['svc'], ['a', 'b'], '{"region":"eu"}', '2024-01-01T00:00:00Z', '2024-02-01T00:00:00Z',
+    ]);
+  });
+
+  it('should compile metadata filter operators into parameterised jsonb conditions', async () => {
+    const values: unknown[] = ['events'];
+    const sql = compileMetadataFilter({
+      'labels.team': { $in: ['core', null] },
+      $or: [{ priority: { $gte: 2 } }, { released: { $lt: '2024-06-01' } }],
+      $not: { owner: { $exists: true } },
+    }, values);
+
+    expect(sql).toBe(
+      '(metadata #> $2::text[] = ANY($3::jsonb[])'
+      + ` AND ((jsonb_typeof(metadata #> $4::text[]) = 'number' AND metadata #> $4::text[] >= $5::jsonb)`
+      + ` OR (jsonb_typeof(metadata #> $6::text[]) = 'string' AND (metadata #>> $6::text[]) COLLATE "C" < $7))`
+      + ' AND NOT COALESCE(metadata #> $8::text[] IS NOT NULL, false))'
+    );
+    expect(values).toEqual([
+      'events', ['labels', 'team'], ['"core"', 'null'], ['priority'], '2', ['released'], '2024-06-01', ['owner'],
+    ]);
+  });
+
+  it('should filter similarity neighbours', async () => {
+    const { db, calls } = createFakeDb([{ rows: [] }]);
+    const backend = new PgVectorBackend(db, { metric: 'cosine' });
+
+    await backend.similarity({
+      namespace: 'events',
+      contextVectors: [[1, 0]],
+      filters: { source: 'svc', metadata: { priority: { $eq: 1 } } },
+      k: 5,
+      threshold: 0.5,
+      includeMetadata: false,
+    });
+
+    expect(calls[0].text).toContain(`metadata->>'source' = ANY($5) AND metadata #> $6::text[] = $7::jsonb`);
+    expect(calls[0].text).toContain('LIMIT $8');
+    expect(calls[0].params).toEqual(['events', 2, '[1,0]', 0.5, ['svc'], ['priority'], '1', 5]);
+  });
+
+  it('should return the neighbours of each context vector', async () => {
+    const { db } = createFakeDb([
+      { rows: [{ id: 'x', embedding: '[1,0]', payload: {}, metadata: { m: 1 }, score: 0.7 }] },
+      { rows: [{ id: 'x', embedding: '[1,0]', payload: {}, metadata: { m: 1 }, score: 0.95 }] },
+    ]);
+    const backend = new PgVectorBackend(db, { metric: 'cosine' });
+
+    const result = await backend.similarity({
+      namespace: 'events',
+      contextVectors: [[0, 1], [1, 0]],
+      k: 5,
+      threshold: 0,
+      includeMetadata: false,
+    });
+
+    expect(result.groups).toHaveLength(2);
+    expect(result.groups[0][0]).toMatchObject({ id: 'x', score: 0.7, vector: [1, 0], metadata: undefined });
+    expect(result.groups[1][0]).toMatchObject({ id: 'x', score: 0.95 });
+  });
+
+  it('should rank with the metric a query asks for', async () => {
+    const { db, calls } = createFakeDb([{ rows: [{ total: '0' }] }, { rows: [] }, { rows: [] }]);
+    const backend = new PgVectorBackend(db, { metric: 'cosine' });
+
+    await backend.query({ namespace: 'events', vector: [1, 0], limit: 5, offset: 0, metric: 'l2' });
+    await backend.similarity({
+      namespace: 'events', contextVectors: [[1, 0]], k: 5, threshold: 0, includeMetadata: false, metric: 'dot',
+    });
+
+    expect(calls[1].text).toContain('embedding <-> $3::vector');
+    expect(calls[2].text).toContain('embedding <#> $3::vector');
+  });
+
+  it('should match payload text and fuse the text and vector rankings', async () => {
+    const { db, calls } = createFakeDb([
+      { rows: [{ total: '1' }] },
+      { rows: [{ id: 'e1', payload: {}, metadata: {}, event_timestamp: null, score: '0.0325', vector_score: '0.9', text_score: '0.5' }] },
+      { rows: [{ total: '0' }] },
+      { rows: [] },
+    ]);
+    const backend = new PgVectorBackend(db, { metric: 'cosine' });
+
+    const result = await backend.query({ namespace: 'events', vector: [1, 0], text: 'rollback', limit: 5, offset: 0 });
+    expect(result.items[0]).toMatchObject({ id: 'e1', score: 0.0325, vectorScore: 0.9, textScore: 0.5 });
+
+    const textMatch = "jsonb_to_tsvector('english', payload, '[\"string\"]') @@ websearch_to_tsquery('english', $2)";
+    expect(calls[0].text).toContain(textMatch);
+    expect(calls[0].params).toEqual(['events', 'rollback', 2]);
+    expect(calls[1].text).toContain('ROW_NUMBER() OVER (ORDER BY embedding <=> $4::vector ASC, id ASC) AS vector_rank');
+    expect(calls[1].text).toContain('$5::double precision / ($7::double precision + vector_rank)');
+    expect(calls[1].params?.slice(4)).toEqual([1, 1, 60, 6, 0]);
+
+    await backend.query({
+      namespace: 'events', vector: [1, 0], text: 'rollback', fusion: { method: 'weighted', textWeight: 3 }, limit: 5, offset: 0,
+    });
+    expect(calls[3].text).toContain('($5::double precision * vector_score + $6::double precision * text_score)');
+    expect(calls[3].params?.slice(4)).toEqual([1, 3, 6, 0]);
+  });
+
+  it('should page by keyset within a storage snapshot, skipping the count when not wanted', async () => {
+    const row = (id: string, sortKey: string | null) => ({ id, payload: {}, metadata: {}, event_timestamp: null, sort_key: sortKey });
+    const { db, calls } = createFakeDb([
+      { rows: [row('e2', '2024-01-01 00:00:00+00'), row('e3', null), row('e4', null)] },
+      { rows: [row('e5', '0.25')] },
+    ]);
+    const backend = new PgVectorBackend(db, { metric: 'cosine' });
+
+    const listing = await backend.query({
+      namespace: 'events',
+      limit: 2,
+      offset: 0,
+      after: { key: '2024-01-02 00:00:00+00', id: 'e1' },
+      storedBefore: '2024-06-01T00:00:00.000Z',
+      countTotal: false,
+    });
+    expect(calls).toHaveLength(1);
+    expect(listing).toMatchObject({ total: undefined, next: { key: null, id: 'e3' } });
+    expect(listing.items.map(item => item.id)).toEqual(['e2', 'e3']);
+    expect(calls[0].text).toContain(
+      'created_at < $2 AND (event_timestamp < $3 OR event_timestamp IS NULL OR (event_timestamp = $3 AND id > $4))'
+    );
+    expect(calls[0].params).toEqual(['events', '2024-06-01T00:00:00.000Z', '2024-01-02 00:00:00+00', 'e1', 3, 0]);
+
+    const ranked = await backend.query({
+      namespace: 'events', vector: [1, 0], limit: 2, offset: 0, after: { key: 0.125, id: 'e4' }, countTotal: false,
+    });
+    expect(ranked.next).toBeNull();
+    expect(calls[1].text).toContain(
+      '(embedding <=> $3::vector > $4 OR (embedding <=> $3::vector = $4 AND id > $5))'
+    );
+  });
+
+  it('should count on dry runs and otherwise delete in batches until one comes up short', async () => {
+    const query = jest.fn()
+      .mockResolvedValueOnce({ rows: [{ total: '7' }] })
+      .mockResolvedValueOnce({ rowCount: 5000, rows: [] })
+      .mockResolvedValueOnce({ rowCount: 2, rows: [] });
+    const backend = new PgVectorBackend({ query } as unknown as DatabaseClient, { metric: 'cosine' });
+    const criteria = { namespace: 'events', filters: { source: 'github' }, storedBefore: '2024-01-01T00:00:00.000Z' };
+
+    await expect(backend.deleteWhere({ ...criteria, dryRun: true })).resolves.toBe(7);
+    expect(query.mock.calls[0][0]).toContain('SELECT COUNT(*)');
+    expect(query.mock.calls[0][1]).toEqual(['events', ['github'], '2024-01-01T00:00:00.000Z']);
+
+    await expect(backend.deleteWhere(criteria)).resolves.toBe(5002);
+    expect(query.mock.calls[1][0]).toContain("metadata->>'source' = ANY($2) AND created_at < $3 LIMIT $4");
+    expect(query.mock.calls[2][1]).toEqual(['events', ['github'], '2024-01-01T00:00:00.000Z', 5000]);
+  });
+
+  it('should reject predictions as not implemented', async () => {
+    const { db } = createFakeDb([]);
+    const backend = new PgVectorBackend(db, { metric: 'cosine' });
+
+    await expect(backend.predict('m', [1])).rejects.toMatchObject({ statusCode: 501, code: 'not_implemented' });
+  });
+});
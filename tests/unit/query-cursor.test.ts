@@ -0,0 +1,33 @@
+import { QueryCursor, decodeQueryCursor, encodeQueryCursor } from '../../src/utils/queryCursor';
+
+const cursor: QueryCursor = {
+  query: 'a'.repeat(64),
+  asOf: '2024-06-01T00:00:00.000Z',
+  after: { key: 0.25, id: 'e1' },
+};
+
+describe('query continuation tokens', () => {
+  it('should round-trip a cursor signed with the same secret', () => {
+    const token = encodeQueryCursor(cursor, 'secret');
+
+    expect(token).toMatch(/^[\w-]+\.[\w-]+$/);
+    expect(decodeQueryCursor(token, 'secret')).toEqual(cursor);
+    expect(decodeQueryCursor(encodeQueryCursor({ ...cursor, after: undefined, offset: 200 }, 'secret'), 'secret'))
+      .toEqual({ query: cursor.query, asOf: cursor.asOf, offset: 200 });
+  });
+
+  it('should reject altered, foreign and malformed tokens', () => {
+    const token = encodeQueryCursor(cursor, 'secret');
+    const [, signature] = token.split('.');
+    const altered = Buffer.from(JSON.stringify({ ...cursor, after: { key: 0, id: 'e1' } })).toString('base64url');
+    // Signed, but not a cursor
+    const signed = (value: unknown) => encodeQueryCursor(value as QueryCursor, 'secret');
+
+    expect(decodeQueryCursor(`${altered}.${signature}`, 'secret')).toBeNull();
+    expect(decodeQueryCursor(token, 'other-secret')).toBeNull();
+    expect(decodeQueryCursor(`${token}.extra`, 'secret')).toBeNull();
+    expect(decodeQueryCursor('not-a-token', 'secret')).toBeNull();
+    expect(decodeQueryCursor(signed({ query: cursor.query, asOf: 'yesterday' }), 'secret')).toBeNull();
+    expect(decodeQueryCursor(signed({ ...cursor, offset: -1 }), 'secret')).toBeNull();
+  });
+});
@@ -0,0 +1,234 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express, { NextFunction } from 'express';
+import { DatabaseClient } from '../../src/clients/DatabaseClient';
+import { createRateLimitMiddleware, RateLimitSettings, resolveRateLimits } from '../../src/middleware/rateLimit';
+import { parseIngestBatch } from '../../src/middleware/validation';
+import { MemoryRateLimitStore, PgRateLimitStore, RateLimitStore } from '../../src/ratelimit';
+import { register } from '../../src/utils/metrics';
+import { asResponse, createMockResponse, mockRequest } from '../helpers/http';
+
+function settings(overrides: Partial<RateLimitSettings> = {}): RateLimitSettings {
+  return {
+    enabled: true,
+    backend: 'memory',
+    defaults: { burst: 2, perSecond: 1, requestsPerDay: 0, vectorsPerDay: 0, bytesPerDay: 0 },
+    routes: {},
+    tenants: {},
+    ...overrides,
+  };
+}
+
+async function send(
+  middleware: ReturnType<typeof createRateLimitMiddleware>,
+  tenant: string,
+  path = '/ingest',
+  overrides: Record<string, unknown> = {}
+) {
+  const req = mockRequest({ method: 'POST', path, route: { path }, tenantId: tenant, ...overrides });
+  const res = createMockResponse();
+  const next = jest.fn() as NextFunction;
+  await middleware(req, asResponse(res), next);
+  return { res, passed: (next as jest.Mock).mock.calls.length === 1 };
+}
+
+/**
+ * Fake pool implementing the bucket and usage upserts of PgRateLimitStore by statement
+ */
+function createRateLimitDb() {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  const usage = new Map<string, { requests: number; vectors: number; bytes: number }>();
+  const refill = (key: string, capacity: number, perSecond: number, now: number) => {
+    const bucket = buckets.get(key)!;
+    return Math.min(capacity, bucket.tokens + Math.max(0, now - bucket.updatedAt) / 1000 * perSecond);
+  };
+
+  const query = jest.fn(async (sql: string, params: any[] = []) => {
+    if (sql.includes('INSERT INTO rate_limit_buckets')) {
+      const [key, capacity, perSecond, cost, now] = params;
+      if (!buckets.has(key)) {
+        buckets.set(key, { tokens: capacity - cost, updatedAt: now });
+        return { rows: [{ tokens: capacity - cost }] };
+      }
+      const tokens = refill(key, capacity, perSecond, now);
+      if (tokens < cost) return { rows: [] };
+      buckets.set(key, { tokens: tokens - cost, updatedAt: now });
+      return { rows: [{ tokens: tokens - cost }] };
+    }
+    if (sql.includes('FROM rate_limit_buckets')) {
+      const [key, capacity, perSecond, now] = params;
+      return { rows: buckets.has(key) ? [{ tokens: refill(key, capacity, perSecond, now) }] : [] };
+    }
+    if (sql.includes('INSERT INTO rate_limit_usage')) {
+      const [key, day, requests, vectors, bytes, maxRequests, maxVectors, maxBytes] = params;
+      const id = `${key}@${day}`;
+      const used = usage.get(id);
+      if (!used) {
+        usage.set(id, { requests, vectors, bytes });
+        return { rows: [{ requests: String(requests), vectors: String(vectors), bytes: String(bytes) }] };
+      }
+      const next = { requests: used.requests + requests, vectors: used.vectors + vectors, bytes: used.bytes + bytes };
+      if ((maxRequests && next.requests > maxRequests) || (maxVectors && next.vectors > maxVectors) || (maxBytes && next.bytes > maxBytes)) {
+        return { rows: [] };
+      }
+      usage.set(id, next);
+      return { rows: [{ requests: String(next.requests), vectors: String(next.vectors), bytes: String(next.bytes) }] };
+    }
+    if (sql.startsWith('SELECT requests, vectors, bytes FROM rate_limit_usage')) {
+      const used = usage.get(`${params[0]}@${params[1]}`);
+      return { rows: used ? [{ requests: String(used.requests), vectors: String(used.vectors), bytes: String(used.bytes) }] : [] };
+    }
+    if (sql.startsWith('DELETE FROM rate_limit_usage')) {
+      return { rows: [] };
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  });
+
+  return { db: { query } as unknown as DatabaseClient, buckets, usage };
+}
+
+describe.each<[string, () => RateLimitStore]>([
+  ['memory', () => new MemoryRateLimitStore()],
+  ['postgres', () => new PgRateLimitStore(createRateLimitDb().db)],
+])('%s rate limit store', (_kind, createStore) => {
+  it('should refill the bucket over time and say when to retry', async () => {
+    const store = createStore();
+
+    expect(await store.take('t|POST /ingest', 2, 4, 1, 0)).toEqual({ allowed: true, remaining: 1, retryAfterMs: 0 });
+    expect((await store.take('t|POST /ingest', 2, 4, 1, 0)).allowed).toBe(true);
+
+    const refused = await store.take('t|POST /ingest', 2, 4, 1, 100);
+    expect(refused).toEqual({ allowed: false, remaining: 0, retryAfterMs: 150 });
+
+    expect((await store.take('t|POST /ingest', 2, 4, 1, 250)).allowed).toBe(true);
+    // Buckets are per key
+    expect((await store.take('u|POST /ingest', 2, 4, 1, 250)).allowed).toBe(true);
+  });
+
+  it('should count daily usage all-or-nothing against each quota', async () => {
+    const store = createStore();
+    const limits = { requests: 0, vectors: 3, bytes: 1000 };
+    const day = '2024-06-01';
+
+    expect(await store.consume('t|POST /ingest', day, { requests: 1, vectors: 2, bytes: 400 }, limits))
+      .toEqual({ allowed: true, used: { requests: 1, vectors: 2, bytes: 400 } });
+
+    const refused = await store.consume('t|POST /ingest', day, { requests: 1, vectors: 2, bytes: 100 }, limits);
+    expect(refused).toEqual({ allowed: false, exceeded: 'vectors', used: { requests: 1, vectors: 2, bytes: 400 } });
+
+    const oversized = await store.consume('u|POST /ingest', day, { requests: 1, vectors: 0, bytes: 2000 }, limits);
+    expect(oversized.exceeded).toBe('bytes');
+
+    // A new day starts from zero
+    expect((await store.consume('t|POST /ingest', '2024-06-02', { requests: 1, vectors: 3, bytes: 0 }, limits)).allowed).toBe(true);
+  });
+});
+
+describe('rate limit middleware', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should apply route overrides and then tenant overrides to the defaults', () => {
+    const limits = resolveRateLimits(
+      settings({
+        routes: { 'POST /ingest': { burst: 10, perSecond: 5 } },
+        tenants: { 'tenant-a': { perSecond: 50, vectorsPerDay: 1000 } },
+      }),
+      'tenant-a',
+      'POST /ingest'
+    );
+    expect(limits).toEqual({ burst: 10, perSecond: 50, requestsPerDay: 0, vectorsPerDay: 1000, bytesPerDay: 0 });
+  });
+
+  it('should answer 429 with Retry-After once a tenant exhausts its burst, without affecting other tenants', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(Date.UTC(2024, 5, 1, 12));
+    const middleware = createRateLimitMiddleware(new MemoryRateLimitStore(), settings());
+
+    expect((await send(middleware, 'noisy')).passed).toBe(true);
+    expect((await send(middleware, 'noisy')).passed).toBe(true);
+    const refused = await send(middleware, 'noisy');
+
+    expect(refused.passed).toBe(false);
+    expect(refused.res.statusCode).toBe(429);
+    expect(refused.res.headers['Retry-After']).toBe('1');
+    expect(refused.res.body).toMatchObject({ error: 'rate_limited', reason: 'rate', retry_after_seconds: 1 });
+
+    expect((await send(middleware, 'quiet')).passed).toBe(true);
+    // Routes have their own buckets
+    expect((await send(middleware, 'noisy', '/query')).passed).toBe(true);
+
+    const metric = await register.getSingleMetricAsString('ruvvector_rate_limited_requests_total');
+    expect(metric).toContain('ruvvector_rate_limited_requests_total{tenant="noisy",route="POST /ingest",limit="rate",service="ruvvector-service"}');
+  });
+
+  it('should meter ingested vectors and bytes and retry quota refusals after UTC midnight', async () => {
+    jest.spyOn(Date, 'now').mockReturnValue(Date.UTC(2024, 5, 1, 23, 0, 0));
+    const middleware = createRateLimitMiddleware(
+      new MemoryRateLimitStore(),
+      settings({ tenants: { 'tenant-a': { burst: 0, vectorsPerDay: 5, bytesPerDay: 1500 } } })
+    );
+
+    expect((await send(middleware, 'tenant-a', '/ingest', { bodyBytes: 1000 })).passed).toBe(true);
+    // Usage is counted per route
+    expect((await send(middleware, 'tenant-a', '/query', { bodyBytes: 5000 })).passed).toBe(true);
+
+    // The bytes read are charged, not what Content-Length claims
+    const refused = await send(middleware, 'tenant-a', '/ingest', { bodyBytes: 1000, headers: { 'content-length': '0' } });
+    expect(refused.res.statusCode).toBe(429);
+    expect(refused.res.body).toMatchObject({ reason: 'bytes' });
+    expect(refused.res.headers['Retry-After']).toBe('3600');
+  });
+
+  it('should charge the bytes of a chunked batch body that has no Content-Length', async () => {
+    const middleware = createRateLimitMiddleware(
+      new MemoryRateLimitStore(),
+      settings({ tenants: { 'tenant-a': { burst: 0, bytesPerDay: 100 } } })
+    );
+    const app = express();
+    app.post('/ingest/batch', (req, _res, next) => {
+      req.tenantId = 'tenant-a';
+      next();
+    }, parseIngestBatch, middleware, (_req, res) => {
+      res.status(201).end();
+    });
+    const server = app.listen(0, '127.0.0.1');
+    await new Promise(resolve => server.once('listening', resolve));
+
+    const post = (lines: string[]) => new Promise<number>((resolve, reject) => {
+      const req = http.request({
+        port: (server.address() as AddressInfo).port,
+        host: '127.0.0.1',
+        method: 'POST',
+        path: '/ingest/batch',
+        headers: { 'content-type': 'application/x-ndjson', 'transfer-encoding': 'chunked' },
+      }, res => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      });
+      req.on('error', reject);
+      lines.forEach(line => req.write(`${line}\n`));
+      req.end();
+    });
+
+    try {
+      const line = JSON.stringify({ padding: 'x'.repeat(40) });
+      expect(await post([line])).toBe(201);
+      expect(await post([line, line])).toBe(429);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+  });
+
+  it('should let requests through when the store fails or limiting is disabled', async () => {
+    const failing: RateLimitStore = {
+      kind: 'postgres',
+      take: jest.fn().mockRejectedValue(new Error('connection refused')),
+      consume: jest.fn(),
+    };
+
+    expect((await send(createRateLimitMiddleware(failing, settings()), 'tenant-a')).passed).toBe(true);
+    expect((await send(createRateLimitMiddleware(failing, settings({ enabled: false })), 'tenant-a')).passed).toBe(true);
+    expect(failing.take).toHaveBeenCalledTimes(1);
+  });
+});
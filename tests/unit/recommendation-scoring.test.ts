@@ -0,0 +1,83 @@
+import { DatabaseClient } from '../../src/clients/DatabaseClient';
+import { scoreRecommendationsHandler, softmax } from '../../src/handlers/recommendations';
+import { signalSourceId, objectiveSourceId } from '../../src/handlers/approvals';
+import { ErrorResponse, RecommendationScoreResponse } from '../../src/types';
+import { asResponse, createMockResponse, mockRequest } from '../helpers/http';
+
+const signals = { financial: 'cost neutral', risk: 'low blast radius', complexity: 'two services' };
+
+// learning_weights rows as written by updateLearningWeight for the same objective and signals
+const weightRows = [
+  { source_type: 'objective', source_id: objectiveSourceId('Ship billing v2'), target_value: 'PROCEED', weight: 0.3, update_count: 4 },
+  { source_type: 'objective', source_id: objectiveSourceId('Ship billing v2'), target_value: 'REJECT', weight: 0.1, update_count: 1 },
+  { source_type: 'signal', source_id: signalSourceId('risk', signals.risk), target_value: 'PROCEED', weight: 0.2, update_count: 2 },
+  { source_type: 'signal', source_id: signalSourceId('complexity', signals.complexity), target_value: 'REJECT', weight: -0.15, update_count: 1 },
+];
+
+async function score(body: unknown, rows: unknown[] = weightRows) {
+  const db = { query: jest.fn(async () => ({ rows })) };
+  const res = createMockResponse();
+  await scoreRecommendationsHandler(
+    mockRequest({ body }),
+    asResponse(res),
+    db as unknown as DatabaseClient
+  );
+  return { res, body: res.body as RecommendationScoreResponse, db };
+}
+
+describe('softmax', () => {
+  it('should sum to one and preserve order', () => {
+    const probabilities = softmax([0.5, 0, -0.5], 0.25);
+
+    expect(probabilities.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1);
+    expect(probabilities[0]).toBeGreaterThan(probabilities[1]);
+    expect(probabilities[1]).toBeGreaterThan(probabilities[2]);
+  });
+
+  it('should stay finite for large scores', () => {
+    expect(softmax([1000, 999], 0.01).every(Number.isFinite)).toBe(true);
+  });
+});
+
+describe('scoreRecommendationsHandler', () => {
+  it('should rank every recommendation type with per-edge contributions', async () => {
+    const { res, body, db } = await score({ objective: 'Ship billing v2', signals });
+
+    expect(res.statusCode).toBe(200);
+    expect(body.evidence).toBe(4);
+    expect(body.recommendations.map(r => r.recommendation)).toEqual(['PROCEED', 'DEFER', 'REVIEW', 'HALT', 'REJECT']);
+
+    const [proceed] = body.recommendations;
+    expect(proceed.score).toBe(0.5);
+    expect(proceed.contributions.map(c => c.source_id)).toEqual(['Ship billing v2', 'risk:low blast radius']);
+
+    const reject = body.recommendations.find(r => r.recommendation === 'REJECT');
+    expect(reject?.score).toBe(-0.05);
+    expect(body.recommendations.reduce((sum, r) => sum + r.probability, 0)).toBeCloseTo(1);
+
+    const params = (db.query.mock.calls[0] as unknown[])[1] as unknown[];
+    expect(params[0]).toBe('Ship billing v2');
+    expect(params[1]).toEqual(['financial:cost neutral', 'risk:low blast radius', 'complexity:two services']);
+  });
+
+  it('should return a uniform distribution without learned edges', async () => {
+    const { body } = await score({ objective: 'Unseen objective', signals }, []);
+
+    expect(body.evidence).toBe(0);
+    expect(body.recommendations.every(r => r.probability === 0.2)).toBe(true);
+  });
+
+  it('should sharpen the distribution at lower temperature', async () => {
+    const warm = (await score({ objective: 'Ship billing v2', signals, temperature: 1 })).body;
+    const cold = (await score({ objective: 'Ship billing v2', signals, temperature: 0.05 })).body;
+
+    expect(cold.recommendations[0].probability).toBeGreaterThan(warm.recommendations[0].probability);
+  });
+
+  it('should reject requests without complete signals', async () => {
+    const { res } = await score({ objective: 'Ship billing v2', signals: { risk: 'low' } });
+
+    expect(res.statusCode).toBe(400);
+    expect((res.body as ErrorResponse).error).toBe('validation_error');
+  });
+});
@@ -0,0 +1,66 @@
+import { VectorClient, aggregateNeighbors } from '../../src/clients/VectorClient';
+import { MemoryVectorBackend } from '../../src/clients/backends';
+import { config } from '../../src/config';
+import { SimilarityNeighbor } from '../../src/types';
+
+const neighbor = (id: string, score: number): SimilarityNeighbor => ({ id, score, payload: {} });
+
+const scored = (neighbors: SimilarityNeighbor[]) => neighbors.map(({ id, score }) => [id, score]);
+
+describe('aggregateNeighbors', () => {
+  const groups = [
+    [neighbor('a', 0.9), neighbor('b', 0.8), neighbor('c', 0.4)],
+    [neighbor('b', 0.95), neighbor('d', 0.7), neighbor('a', 0.3)],
+  ];
+
+  it('should keep every neighbour by its best similarity for union', () => {
+    expect(scored(aggregateNeighbors(groups, 'union', 2))).toEqual([['b', 0.95], ['a', 0.9], ['d', 0.7], ['c', 0.4]]);
+  });
+
+  it('should keep the k most similar neighbours for max-sim', () => {
+    expect(scored(aggregateNeighbors(groups, 'max-sim', 2))).toEqual([['b', 0.95], ['a', 0.9]]);
+  });
+
+  it('should keep neighbours of every context vector by their lowest similarity for intersection', () => {
+    expect(scored(aggregateNeighbors(groups, 'intersection', 2))).toEqual([['b', 0.8], ['a', 0.3]]);
+    expect(aggregateNeighbors([...groups, []], 'intersection', 2)).toEqual([]);
+  });
+});
+
+describe('VectorClient.similarity', () => {
+  let vectorClient: VectorClient;
+
+  beforeEach(async () => {
+    vectorClient = new VectorClient(
+      {
+        serviceUrl: config.ruvVector.serviceUrl,
+        timeout: config.ruvVector.timeout,
+        poolSize: config.ruvVector.poolSize,
+        circuitBreaker: { threshold: 5, timeout: 30000, resetTimeout: 60000 },
+      },
+      new MemoryVectorBackend({ metric: 'cosine', ...config.ruvVector.hnsw })
+    );
+    for (const [id, vector] of [['east', [1, 0]], ['north', [0, 1]], ['north-east', [0.7, 0.7]]] as const) {
+      await vectorClient.insert({ id, vector: [...vector], payload: {}, metadata: {} });
+    }
+  });
+
+  it('should group neighbours per context vector and aggregate them', async () => {
+    const params = { contextVectors: [[1, 0], [0, 1]], k: 1, threshold: 0, includeMetadata: false };
+
+    const result = await vectorClient.similarity(params);
+    expect(result.groups.map(group => group.map(n => n.id))).toEqual([['east'], ['north']]);
+    expect(result.neighbors.map(n => n.id)).toEqual(['east']);
+
+    const centroid = await vectorClient.similarity({ ...params, aggregate: 'centroid' });
+    expect(centroid.groups).toEqual(result.groups);
+    expect(centroid.neighbors.map(n => n.id)).toEqual(['north-east']);
+    expect(centroid.neighbors[0].score).toBeCloseTo(1);
+  });
+
+  it('should reject a centroid of vectors of different dimensions', async () => {
+    await expect(vectorClient.similarity({
+      contextVectors: [[1, 0], [1, 0, 0]], k: 1, threshold: 0, includeMetadata: false, aggregate: 'centroid',
+    })).rejects.toMatchObject({ statusCode: 400, code: 'validation_error' });
+  });
+});
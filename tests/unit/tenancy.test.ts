@@ -0,0 +1,241 @@
+import { NextFunction, Request, Response } from 'express';
+import { DatabaseClient } from '../../src/clients/DatabaseClient';
+import { VectorClient } from '../../src/clients/VectorClient';
+import { MemoryVectorBackend } from '../../src/clients/backends';
+import { createPlanHandler, getPlanHandler } from '../../src/handlers/plans';
+import { scopeToTenant } from '../../src/middleware/validation';
+import { ErrorResponse } from '../../src/types';
+import { encodeEntitlementContext } from '../../src/utils/entitlement';
+import { currentTenant, runWithTenant, tenantNamespace } from '../../src/utils/tenant';
+import { asResponse, createMockResponse, mockRequest } from '../helpers/http';
+
+interface StoredPlan {
+  id: string;
+  intent: string;
+  plan: string;
+  org_id: string;
+  user_id: string;
+  checksum: string;
+  created_at: Date;
+  tenant_id: string;
+}
+
+/**
+ * DatabaseClient over a fake single-connection pool that applies the plans row-level
+ * security policy: rows are filtered by the connection's app.tenant_id, unset or '' means system scope
+ */
+function createTenantDb() {
+  const plans = new Map<string, StoredPlan>();
+  const statements: string[] = [];
+
+  const run = (sql: string, params: any[], tenant: string | null) => {
+    statements.push(sql.trim().split(/\s+/).slice(0, 2).join(' '));
+    const visible = (row: StoredPlan) => tenant === null || row.tenant_id === tenant;
+
+    if (sql.startsWith('INSERT INTO plans')) {
+      const [id, intent, plan, org_id, user_id, checksum] = params;
+      const existing = plans.get(id);
+      if (existing && !visible(existing)) {
+        throw Object.assign(new Error('new row violates row-level security policy (USING expression) for table "plans"'), { code: '42501' });
+      }
+      plans.set(id, { id, intent, plan, org_id, user_id, checksum, created_at: new Date(0), tenant_id: tenant ?? 'system' });
+      return { rows: [] };
+    }
+    if (sql.includes('FROM plans WHERE id = $1')) {
+      const row = plans.get(params[0]);
+      return { rows: row && visible(row) ? [{ ...row, type: 'plan', plan: JSON.parse(row.plan) }] : [] };
+    }
+    throw new Error(`Unexpected query: ${sql}`);
+  };
+
+  // The session setting outlives each checkout, as on a real pooled connection
+  let tenant: string | null = null;
+  const connection = {
+    query: jest.fn(async (sql: string, params: any[] = []) => {
+      if (sql === 'BEGIN' || sql === 'COMMIT' || sql === 'ROLLBACK') {
+        statements.push(sql);
+        return { rows: [] };
+      }
+      if (sql.startsWith('SELECT set_config')) {
+        statements.push(`set_config ${params[0] || '(system)'}`);
+        tenant = params[0] || null;
+        return { rows: [] };
+      }
+      return run(sql, params, tenant);
+    }),
+    release: jest.fn(),
+  };
+  const pool = {
+    query: jest.fn(async (sql: string, params: any[] = []) => run(sql, params, tenant)),
+    connect: jest.fn(async () => connection),
+  };
+
+  const db = new DatabaseClient({
+    host: 'localhost',
+    port: 5432,
+    database: 'test',
+    user: 'test',
+    password: 'test',
+    maxConnections: 1,
+    idleTimeoutMs: 1000,
+    connectionTimeoutMs: 1000,
+  });
+  (db as unknown as { pool: typeof pool }).pool = pool;
+
+  return { db, plans, statements };
+}
+
+/**
+ * Run a handler behind scopeToTenant, as createApp wires the tenant-scoped routes
+ */
+async function asTenant(
+  tenant: string | null,
+  handler: (req: Request, res: Response, db: DatabaseClient) => Promise<void>,
+  db: DatabaseClient,
+  request: { params?: Record<string, string>; body?: unknown }
+) {
+  const headers: Record<string, string> = tenant ? { 'x-entitlement-context': encodeEntitlementContext({ tenant, scope: 'plans' }) } : {};
+  const req = mockRequest({ headers, query: {}, params: {}, ...request });
+  const res = createMockResponse();
+  await new Promise<void>((resolve, reject) => {
+    const next = (() => handler(req, asResponse(res), db).then(resolve, reject)) as NextFunction;
+    scopeToTenant(req, asResponse(res), next);
+  });
+  return { req, res };
+}
+
+const planId = '6f1c9b52-5a7e-4c55-9d59-2f0f5c1d3a41';
+const planBody = {
+  id: planId,
+  intent: 'Scale the ingest tier',
+  plan: { steps: ['resize'] },
+  org_id: 'org-a',
+  user_id: 'user-a',
+  checksum: 'a'.repeat(64),
+};
+
+describe('tenant isolation', () => {
+  it('should scope queries to the entitlement tenant so another tenant cannot read them', async () => {
+    const { db, plans, statements } = createTenantDb();
+
+    const created = await asTenant('tenant-a', createPlanHandler, db, { body: planBody });
+    expect(created.res.statusCode).toBe(201);
+    expect(created.req.tenantId).toBe('tenant-a');
+    expect(plans.get(planId)?.tenant_id).toBe('tenant-a');
+    expect(statements).toEqual(['set_config tenant-a', 'INSERT INTO']);
+
+    const own = await asTenant('tenant-a', getPlanHandler, db, { params: { id: planId } });
+    expect(own.res.statusCode).toBe(200);
+
+    const other = await asTenant('tenant-b', getPlanHandler, db, { params: { id: planId } });
+    expect(other.res.statusCode).toBe(404);
+
+    // Another tenant cannot overwrite the plan by reusing its id
+    const overwrite = await asTenant('tenant-b', createPlanHandler, db, { body: { ...planBody, intent: 'Hijacked' } });
+    expect(overwrite.res.statusCode).toBe(409);
+    expect((overwrite.res.body as ErrorResponse).error).toBe('conflict');
+    expect(plans.get(planId)?.intent).toBe('Scale the ingest tier');
+  });
+
+  it('should treat callers without an entitlement as the default tenant', async () => {
+    const { db } = createTenantDb();
+
+    const created = await asTenant(null, createPlanHandler, db, { body: planBody });
+    expect(created.req.tenantId).toBe('system');
+
+    expect((await asTenant('tenant-a', getPlanHandler, db, { params: { id: planId } })).res.statusCode).toBe(404);
+    expect((await asTenant(null, getPlanHandler, db, { params: { id: planId } })).res.statusCode).toBe(200);
+  });
+
+  it('should reject malformed entitlements and tenant ids', () => {
+    const reject = (header: string) => {
+      const res = createMockResponse();
+      const next = jest.fn();
+      scopeToTenant(mockRequest({ headers: { 'x-entitlement-context': header } }), asResponse(res), next);
+      expect(next).not.toHaveBeenCalled();
+      return res;
+    };
+
+    expect(reject('not-base64-json').statusCode).toBe(403);
+    const badTenant = reject(encodeEntitlementContext({ tenant: '../other', scope: 'plans' }));
+    expect(badTenant.statusCode).toBe(403);
+    expect((badTenant.body as ErrorResponse).error).toBe('entitlement_error');
+  });
+
+  it('should scope a pooled connection only when its tenant changes, without a transaction', async () => {
+    const { db, statements } = createTenantDb();
+    const select = () => db.query('SELECT id, type FROM plans WHERE id = $1', [planId]);
+
+    await select();
+    await runWithTenant('tenant-a', async () => {
+      await select();
+      await select();
+    });
+    await select();
+    await runWithTenant('tenant-a', () => db.transaction(client => client.query('SELECT id, type FROM plans WHERE id = $1', [planId])));
+
+    expect(statements).toEqual([
+      'SELECT id,',
+      'set_config tenant-a', 'SELECT id,', 'SELECT id,',
+      'set_config (system)', 'SELECT id,',
+      'set_config tenant-a', 'BEGIN', 'SELECT id,', 'COMMIT',
+    ]);
+    expect(currentTenant()).toBeNull();
+  });
+
+  it('should drop a connection whose tenant could not be set', async () => {
+    const { db } = createTenantDb();
+    const pool = (db as unknown as { pool: { connect: () => Promise<{ query: jest.Mock; release: jest.Mock }> } }).pool;
+    const connection = await pool.connect();
+    connection.query.mockRejectedValueOnce(new Error('connection reset'));
+
+    await expect(runWithTenant('tenant-a', () => db.query('SELECT id, type FROM plans WHERE id = $1', [planId]))).rejects.toThrow('connection reset');
+    expect(connection.release).toHaveBeenCalledWith(expect.any(Error));
+  });
+});
+
+describe('tenant vector namespaces', () => {
+  function createVectorClient(): VectorClient {
+    return new VectorClient(
+      {
+        serviceUrl: 'http://unused',
+        timeout: 1000,
+        poolSize: 1,
+        circuitBreaker: { threshold: 5, timeout: 1000, resetTimeout: 1000 },
+      },
+      new MemoryVectorBackend({ metric: 'cosine', m: 8, efConstruction: 32, efSearch: 16 })
+    );
+  }
+
+  it('should prefix namespaces for tenants other than the default', () => {
+    expect(tenantNamespace('events', null)).toBe('events');
+    expect(tenantNamespace('events', 'system')).toBe('events');
+    expect(tenantNamespace('events', 'tenant-a')).toBe('tenant-a/events');
+  });
+
+  it('should keep each tenant\'s vectors out of other tenants\' queries', async () => {
+    const vectorClient = createVectorClient();
+
+    const upserted = await runWithTenant('tenant-a', () => vectorClient.upsert('events', 'a-1', [1, 0, 0], {}));
+    expect(upserted.namespace).toBe('events');
+    await runWithTenant('tenant-b', () => vectorClient.insert({ id: 'b-1', vector: [1, 0, 0], payload: {}, metadata: {} }));
+
+    const ownIds = async (tenant: string) => {
+      const result = await runWithTenant(tenant, () => vectorClient.query({ vector: [1, 0, 0], limit: 10, offset: 0 }));
+      return result.items.map(item => item.id);
+    };
+    expect(await ownIds('tenant-a')).toEqual(['a-1']);
+    expect(await ownIds('tenant-b')).toEqual(['b-1']);
+    expect(await ownIds('system')).toEqual([]);
+
+    const similar = await runWithTenant('tenant-b', () =>
+      vectorClient.similarity({ contextVectors: [[1, 0, 0]], k: 5, threshold: 0, includeMetadata: false })
+    );
+    expect(similar.neighbors.map(item => item.id)).toEqual(['b-1']);
+
+    // A tenant cannot delete another tenant's vector by id
+    const deleted = await runWithTenant('tenant-b', () => vectorClient.delete('events', 'a-1'));
+    expect(deleted.deleted).toBe(false);
+    expect(await ownIds('tenant-a')).toEqual(['a-1']);
+  });
+});
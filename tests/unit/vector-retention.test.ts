@@ -0,0 +1,98 @@
+import { VectorClient } from '../../src/clients/VectorClient';
+import { MemoryVectorBackend } from '../../src/clients/backends';
+import { config } from '../../src/config';
+import { sweepExpiredVectors, parseRetentionArgs } from '../../src/jobs/vectorRetention';
+import { MemoryNamespaceStore } from '../../src/namespaces';
+import logger from '../../src/utils/logger';
+import { runWithTenant } from '../../src/utils/tenant';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2024-06-01T00:00:00.000Z');
+
+function createVectorClient(): VectorClient {
+  return new VectorClient(
+    {
+      serviceUrl: config.ruvVector.serviceUrl,
+      timeout: config.ruvVector.timeout,
+      poolSize: config.ruvVector.poolSize,
+      circuitBreaker: { threshold: 5, timeout: 30000, resetTimeout: 60000 },
+    },
+    new MemoryVectorBackend({ metric: 'cosine', ...config.ruvVector.hnsw })
+  );
+}
+
+describe('sweepExpiredVectors', () => {
+  let vectorClient: VectorClient;
+  let namespaces: MemoryNamespaceStore;
+
+  // Store a vector as if it had been written `ageDays` before NOW
+  const storeAged = async (namespace: string, id: string, ageDays: number) => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(NOW - ageDays * DAY_MS);
+    try {
+      await vectorClient.insert({ namespace, id, vector: [1, 0], payload: {}, metadata: {} });
+    } finally {
+      now.mockRestore();
+    }
+  };
+
+  const ids = async (namespace: string) =>
+    (await vectorClient.query({ namespace, limit: 10, offset: 0 })).items.map(item => item.id).sort();
+
+  beforeEach(async () => {
+    vectorClient = createVectorClient();
+    namespaces = new MemoryNamespaceStore();
+    const definition = { dimension: 2, metric: 'cosine' as const, normalize: false, description: null };
+
+    await namespaces.create({ ...definition, name: 'events', ttl_seconds: 30 * DAY_MS / 1000 });
+    await namespaces.create({ ...definition, name: 'archive', ttl_seconds: null });
+    await runWithTenant('tenant-a', () => namespaces.create({ ...definition, name: 'events', ttl_seconds: DAY_MS / 1000 }));
+
+    await storeAged('events', 'old', 40);
+    await storeAged('events', 'recent', 10);
+    await storeAged('archive', 'old', 40);
+    await runWithTenant('tenant-a', async () => {
+      await storeAged('events', 'old', 2);
+      await storeAged('events', 'recent', 0);
+    });
+  });
+
+  it('should count and audit expired vectors without deleting them on a dry run', async () => {
+    const audit = jest.spyOn(logger, 'info');
+
+    const result = await sweepExpiredVectors(vectorClient, namespaces, true, new Date(NOW));
+
+    expect(result).toEqual({ namespaces: 2, expired: 2, failed: 0, dryRun: true });
+    expect(await ids('events')).toEqual(['old', 'recent']);
+    expect(audit).toHaveBeenCalledWith(
+      expect.objectContaining({ audit: 'vector_deletion', reason: 'retention', tenant: 'tenant-a', matched: 1, deleted: 0 }),
+      'Vector deletion dry run'
+    );
+    audit.mockRestore();
+  });
+
+  it("should delete each tenant's vectors older than its namespace TTL", async () => {
+    const result = await sweepExpiredVectors(vectorClient, namespaces, false, new Date(NOW));
+
+    expect(result).toEqual({ namespaces: 2, expired: 2, failed: 0, dryRun: false });
+    expect(await ids('events')).toEqual(['recent']);
+    expect(await ids('archive')).toEqual(['old']);
+    expect(await runWithTenant('tenant-a', () => ids('events'))).toEqual(['recent']);
+  });
+
+  it('should carry on past a namespace that fails', async () => {
+    const deleteWhere = jest.spyOn(vectorClient, 'deleteWhere').mockRejectedValueOnce(new Error('unavailable'));
+
+    const result = await sweepExpiredVectors(vectorClient, namespaces, false, new Date(NOW));
+
+    expect(result).toMatchObject({ expired: 1, failed: 1 });
+    expect(deleteWhere).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('parseRetentionArgs', () => {
+  it('should turn on dry runs with --dry-run and reject unknown arguments', () => {
+    expect(parseRetentionArgs([])).toEqual({ dryRun: config.retention.dryRun });
+    expect(parseRetentionArgs(['--dry-run'])).toEqual({ dryRun: true });
+    expect(() => parseRetentionArgs(['--force'])).toThrow('Unknown argument: --force');
+  });
+});
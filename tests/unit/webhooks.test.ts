@@ -0,0 +1,186 @@
+import dns from 'dns';
+import { DatabaseClient } from '../../src/clients/DatabaseClient';
+import { config } from '../../src/config';
+import { createSubscriptionHandler } from '../../src/handlers/subscriptions';
+import {
+  SIGNATURE_HEADER,
+  checkWebhookUrl,
+  deliverWebhook,
+  isPrivateAddress,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WebhookWorkerOptions,
+} from '../../src/webhooks';
+import { CreateWebhookSubscriptionResponse, DecisionEvent, ErrorResponse } from '../../src/types';
+import { asResponse, createMockResponse, mockRequest } from '../helpers/http';
+import { startReceiver, WebhookReceiver } from '../helpers/webhooks';
+
+// The local receiver listens on loopback, which only an allow-list entry admits
+const options: WebhookWorkerOptions = {
+  timeoutMs: 2000, maxAttempts: 3, retryBaseMs: 1, retryMaxMs: 5, batchSize: 10, allowedPrivateHosts: ['127.0.0.1'],
+};
+
+const event = (id: string): DecisionEvent => ({
+  id: `plan_approved:${id}:1704067200000`,
+  type: 'plan_approved',
+  timestamp: '2024-01-01T00:00:00.000Z',
+  payload: { decision_id: `d-${id}`, reviewer_outcome: 'approved' },
+});
+
+describe('webhook signatures', () => {
+  it('should verify its own signature and reject tampered or stale ones', () => {
+    const body = JSON.stringify(event('1'));
+    const header = signWebhookPayload('secret', body, 1700000000);
+
+    expect(verifyWebhookSignature('secret', body, header, 300, 1700000100)).toBe(true);
+    expect(verifyWebhookSignature('secret', `${body} `, header, 300, 1700000100)).toBe(false);
+    expect(verifyWebhookSignature('other', body, header, 300, 1700000100)).toBe(false);
+    expect(verifyWebhookSignature('secret', body, header, 300, 1700001000)).toBe(false);
+  });
+});
+
+describe('webhook destinations', () => {
+  it('should treat loopback, link-local, private and mapped addresses as private', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:7f00:1']) {
+      expect(isPrivateAddress(address)).toBe(true);
+    }
+    for (const address of ['93.184.216.34', '172.32.0.1', '::ffff:5db8:d822', '2606:4700::1111']) {
+      expect(isPrivateAddress(address)).toBe(false);
+    }
+  });
+
+  it('should reject private receiver URLs unless allow-listed by host, address or range', () => {
+    expect(checkWebhookUrl('https://example.com/hook', [])).toBeNull();
+    expect(checkWebhookUrl('http://169.254.169.254/latest/meta-data', [])).toContain('169.254.169.254');
+    expect(checkWebhookUrl('http://localhost:8080/hook', [])).not.toBeNull();
+    expect(checkWebhookUrl('http://[::ffff:127.0.0.1]/hook', [])).not.toBeNull();
+    expect(checkWebhookUrl('http://2130706433/hook', [])).not.toBeNull();
+
+    expect(checkWebhookUrl('http://localhost:8080/hook', ['localhost'])).toBeNull();
+    expect(checkWebhookUrl('http://10.0.3.7/hook', ['10.0.0.0/16'])).toBeNull();
+    expect(checkWebhookUrl('http://10.1.3.7/hook', ['10.0.0.0/16'])).not.toBeNull();
+  });
+});
+
+describe('deliverWebhook', () => {
+  let receiver: WebhookReceiver;
+
+  beforeEach(async () => {
+    receiver = await startReceiver();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await receiver.close();
+  });
+
+  it('should retry transient failures and sign every attempt', async () => {
+    receiver.respondWith(503, 429);
+    const target = { id: 'sub-1', url: receiver.url, secret: 'whsec_test' };
+
+    const result = await deliverWebhook(target, event('1'), options);
+
+    expect(result).toEqual({ delivered: true, attempts: 3, statusCode: 200 });
+    expect(receiver.received).toHaveLength(3);
+    const last = receiver.received[2];
+    expect(JSON.parse(last.body)).toEqual(event('1'));
+    expect(last.headers['x-webhook-id']).toBe(event('1').id);
+    expect(last.headers['x-webhook-event']).toBe('plan_approved');
+    expect(verifyWebhookSignature('whsec_test', last.body, last.headers[SIGNATURE_HEADER] as string)).toBe(true);
+  });
+
+  it('should not retry a 4xx rejection', async () => {
+    receiver.respondWith(400);
+
+    const result = await deliverWebhook({ id: 'sub-1', url: receiver.url, secret: 's' }, event('1'), options);
+
+    expect(result).toMatchObject({ delivered: false, attempts: 1, statusCode: 400 });
+    expect(receiver.received).toHaveLength(1);
+  });
+
+  it('should refuse private receivers, by address or by the address a name resolves to, without retrying', async () => {
+    const strict = { ...options, allowedPrivateHosts: [] };
+    const byName = receiver.url.replace('127.0.0.1', 'hooks.example.com');
+    // A public-looking name that resolves to loopback, as a rebound record would
+    jest.spyOn(dns, 'lookup').mockImplementation(((_host: string, _options: unknown, callback: Function) => {
+      callback(null, [{ address: '127.0.0.1', family: 4 }]);
+    }) as unknown as typeof dns.lookup);
+
+    const direct = await deliverWebhook({ id: 'sub-1', url: receiver.url, secret: 's' }, event('1'), strict);
+    const resolved = await deliverWebhook({ id: 'sub-1', url: byName, secret: 's' }, event('1'), strict);
+
+    expect(direct).toMatchObject({ delivered: false, attempts: 1, statusCode: null });
+    expect(direct.error).toContain('127.0.0.1');
+    expect(resolved).toMatchObject({ delivered: false, attempts: 1, statusCode: null });
+    expect(resolved.error).toBe('Webhook host hooks.example.com resolves to private address 127.0.0.1');
+    expect(receiver.received).toHaveLength(0);
+
+    // Admitted by name, the lookup result is connected to
+    const allowed = await deliverWebhook({ id: 'sub-1', url: byName, secret: 's' }, event('1'), { ...options, allowedPrivateHosts: ['hooks.example.com'] });
+    expect(allowed).toMatchObject({ delivered: true, attempts: 1 });
+    expect(receiver.received).toHaveLength(1);
+  });
+});
+
+describe('subscription handlers', () => {
+  it('should generate a secret and start after the latest event by default', async () => {
+    const query = jest.fn(async (sql: string, params: unknown[] = []) => {
+      if (sql.includes('FROM decision_events ORDER BY')) {
+        return { rows: [{ event_type: 'plan_created', source_id: 'd-9', occurred_at: new Date(1704067200000) }] };
+      }
+      const [id, url, event_types, , description, active, cursor] = params;
+      return { rows: [{ id, url, event_types, description, active, cursor, created_at: new Date(), updated_at: new Date() }] };
+    });
+    const res = createMockResponse();
+
+    await createSubscriptionHandler(
+      mockRequest({ body: { url: 'https://example.com/hook', event_types: ['plan_approved', 'plan_approved'] } }),
+      asResponse(res),
+      { query } as unknown as DatabaseClient
+    );
+
+    expect(res.statusCode).toBe(201);
+    expect(res.body).toMatchObject({ event_types: ['plan_approved'], active: true, cursor: 'plan_created:d-9:1704067200000' });
+    expect((res.body as CreateWebhookSubscriptionResponse).secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+  });
+
+  it('should reject non-http receivers', async () => {
+    const res = createMockResponse();
+
+    await createSubscriptionHandler(
+      mockRequest({ body: { url: 'ftp://example.com', event_types: ['plan_approved'] } }),
+      asResponse(res),
+      { query: jest.fn() } as unknown as DatabaseClient
+    );
+
+    expect(res.statusCode).toBe(400);
+    expect((res.body as ErrorResponse).details?.[0].path).toBe('url');
+  });
+
+  it('should reject receivers on private networks unless allow-listed', async () => {
+    const create = async (url: string) => {
+      const res = createMockResponse();
+      const query = jest.fn(async (_sql: string, params: unknown[] = []) => ({
+        rows: [{ id: params[0], url: params[1], event_types: params[2], created_at: new Date(), updated_at: new Date() }],
+      }));
+      await createSubscriptionHandler(
+        mockRequest({ body: { url, event_types: ['plan_approved'], deliver_from: 'beginning' } }),
+        asResponse(res),
+        { query } as unknown as DatabaseClient
+      );
+      return res;
+    };
+
+    const metadata = await create('http://169.254.169.254/latest/meta-data');
+    expect(metadata.statusCode).toBe(400);
+    expect((metadata.body as ErrorResponse).details?.[0]).toMatchObject({ path: 'url', message: expect.stringContaining('private') });
+
+    config.webhooks.allowedPrivateHosts = ['hooks.internal', '10.0.0.0/8'];
+    try {
+      expect((await create('http://10.2.0.5:8080/hook')).statusCode).toBe(201);
+      expect((await create('http://127.0.0.1:8080/hook')).statusCode).toBe(400);
+    } finally {
+      config.webhooks.allowedPrivateHosts = [];
+    }
+  });
+});